@@ -0,0 +1,42 @@
+-- ============================================================================
+-- MIGRATION: Add Robot File Analyses
+-- Version: 1.2.0
+-- Date: 2026-10-19
+--
+-- Description: Stores metadata and validation issues extracted from URDF and
+-- MJCF files by the /api/analyze-file route. Rows are written with the service
+-- role key only, so there are no insert/update policies.
+-- Rollback: DROP TABLE public.robot_file_analyses;
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.robot_file_analyses (
+  file_id uuid PRIMARY KEY REFERENCES public.robot_files(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('valid', 'warnings', 'invalid')),
+  metadata jsonb,
+  issues jsonb NOT NULL DEFAULT '[]',
+  analyzed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_robot_file_analyses_status ON public.robot_file_analyses(status);
+
+ALTER TABLE public.robot_file_analyses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "File analyses are viewable with their files" ON public.robot_file_analyses;
+CREATE POLICY "File analyses are viewable with their files"
+  ON public.robot_file_analyses FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND (r.status = 'published' OR r.creator_id = auth.uid())
+    )
+  );
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot file analyses';
+END $$;
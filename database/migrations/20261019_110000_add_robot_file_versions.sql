@@ -0,0 +1,183 @@
+-- ============================================================================
+-- MIGRATION: Add Robot File Versions
+-- Version: 1.3.0
+-- Date: 2026-10-19
+--
+-- Description: Keeps a chain of versions per robot file, each with its own URL
+-- and changelog note. robot_files.latest_version_id points at the highest
+-- semver version, and robot_files.version/file_url mirror it so existing
+-- readers keep working. New files get their first version from a trigger.
+-- Rollback: DROP TRIGGER robot_files_initial_version ON public.robot_files;
+--   ALTER TABLE public.robot_files DROP COLUMN latest_version_id;
+--   DROP TABLE public.robot_file_versions;
+--   DROP FUNCTION public.handle_new_robot_file(), public.handle_new_file_version(),
+--   public.compare_versions(text, text);
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.robot_file_versions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id uuid REFERENCES public.robot_files(id) ON DELETE CASCADE NOT NULL,
+  version text NOT NULL,
+  file_url text NOT NULL,
+  changelog text,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(file_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_robot_file_versions_file_id ON public.robot_file_versions(file_id);
+
+ALTER TABLE public.robot_files
+  ADD COLUMN IF NOT EXISTS latest_version_id uuid REFERENCES public.robot_file_versions(id) ON DELETE SET NULL;
+
+-- Semver precedence of "1.2.3", "v1.2" or "1.0.0-beta.2": negative when a is
+-- older. Versions that aren't semver sort below every semver version, and
+-- releases after their pre-releases. Mirrors compareVersions in
+-- src/lib/file-versions.ts.
+CREATE OR REPLACE FUNCTION public.compare_versions(a text, b text)
+RETURNS integer AS $$
+DECLARE
+  pattern constant text := '^v?(\d{1,9})(?:\.(\d{1,9}))?(?:\.(\d{1,9}))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$';
+  left_parts text[] := regexp_match(trim(a), pattern);
+  right_parts text[] := regexp_match(trim(b), pattern);
+  left_pre text[];
+  right_pre text[];
+  left_numeric boolean;
+  right_numeric boolean;
+  difference integer;
+BEGIN
+  IF left_parts IS NULL OR right_parts IS NULL THEN
+    RETURN (left_parts IS NOT NULL)::integer - (right_parts IS NOT NULL)::integer;
+  END IF;
+
+  FOR i IN 1..3 LOOP
+    difference := COALESCE(left_parts[i], '0')::integer - COALESCE(right_parts[i], '0')::integer;
+    IF difference <> 0 THEN
+      RETURN sign(difference)::integer;
+    END IF;
+  END LOOP;
+
+  -- A release outranks its pre-releases
+  IF left_parts[4] IS NULL OR right_parts[4] IS NULL THEN
+    RETURN (left_parts[4] IS NULL)::integer - (right_parts[4] IS NULL)::integer;
+  END IF;
+
+  left_pre := string_to_array(left_parts[4], '.');
+  right_pre := string_to_array(right_parts[4], '.');
+
+  FOR i IN 1..GREATEST(cardinality(left_pre), cardinality(right_pre)) LOOP
+    IF i > cardinality(left_pre) THEN
+      RETURN -1;
+    ELSIF i > cardinality(right_pre) THEN
+      RETURN 1;
+    END IF;
+
+    left_numeric := left_pre[i] ~ '^\d+$';
+    right_numeric := right_pre[i] ~ '^\d+$';
+
+    IF left_numeric AND right_numeric THEN
+      IF left_pre[i]::numeric <> right_pre[i]::numeric THEN
+        RETURN sign(left_pre[i]::numeric - right_pre[i]::numeric)::integer;
+      END IF;
+    ELSIF left_numeric <> right_numeric THEN
+      -- Numeric identifiers rank below alphanumeric ones
+      RETURN CASE WHEN left_numeric THEN -1 ELSE 1 END;
+    ELSIF left_pre[i] <> right_pre[i] THEN
+      -- Identifiers compare in ASCII order, whatever the database collation
+      RETURN CASE WHEN left_pre[i] COLLATE "C" < right_pre[i] COLLATE "C" THEN -1 ELSE 1 END;
+    END IF;
+  END LOOP;
+
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Move the latest pointer when a version outranks the current latest one
+CREATE OR REPLACE FUNCTION public.handle_new_file_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  latest_version text;
+BEGIN
+  SELECT v.version INTO latest_version
+  FROM public.robot_files f
+  JOIN public.robot_file_versions v ON v.id = f.latest_version_id
+  WHERE f.id = NEW.file_id;
+
+  -- Ties go to the newer version, so free-form versions keep following uploads
+  IF latest_version IS NULL OR public.compare_versions(NEW.version, latest_version) >= 0 THEN
+    UPDATE public.robot_files
+    SET latest_version_id = NEW.id,
+        version = NEW.version,
+        file_url = NEW.file_url
+    WHERE id = NEW.file_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Every file starts its chain with the version it was added with
+CREATE OR REPLACE FUNCTION public.handle_new_robot_file()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.robot_file_versions (file_id, version, file_url, user_id)
+  VALUES (NEW.id, NEW.version, NEW.file_url, NEW.user_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robot_file_versions_latest ON public.robot_file_versions;
+CREATE TRIGGER robot_file_versions_latest
+  AFTER INSERT ON public.robot_file_versions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_file_version();
+
+DROP TRIGGER IF EXISTS robot_files_initial_version ON public.robot_files;
+CREATE TRIGGER robot_files_initial_version
+  AFTER INSERT ON public.robot_files
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_robot_file();
+
+-- Existing files become single-version chains
+INSERT INTO public.robot_file_versions (file_id, version, file_url, user_id, created_at)
+SELECT rf.id, rf.version, rf.file_url, rf.user_id, rf.created_at
+FROM public.robot_files rf
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.robot_file_versions v WHERE v.file_id = rf.id
+);
+
+ALTER TABLE public.robot_file_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "File versions are viewable with their files" ON public.robot_file_versions;
+CREATE POLICY "File versions are viewable with their files"
+  ON public.robot_file_versions FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND (r.status = 'published' OR r.creator_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Contributors and robot owners can add file versions" ON public.robot_file_versions;
+CREATE POLICY "Contributors and robot owners can add file versions"
+  ON public.robot_file_versions FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND (
+      EXISTS (
+        SELECT 1 FROM public.robot_files rf
+        JOIN public.robots r ON r.id = rf.robot_id
+        WHERE rf.id = file_id AND (rf.user_id = auth.uid() OR r.creator_id = auth.uid())
+      ) OR
+      EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+      )
+    )
+  );
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot file versions';
+END $$;
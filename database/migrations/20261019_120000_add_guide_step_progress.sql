@@ -0,0 +1,60 @@
+-- ============================================================================
+-- MIGRATION: Add Guide Step Progress
+-- Version: 1.4.0
+-- Date: 2026-10-19
+--
+-- Description: Records which steps of an assembly guide each user has
+-- finished. One row per completed step; unticking a step deletes its row.
+-- Progress is visible to everyone who can see the robot so a team can follow
+-- each other's builds.
+-- Rollback: DROP TABLE public.guide_step_progress;
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.guide_step_progress (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  robot_id uuid REFERENCES public.robots(id) ON DELETE CASCADE NOT NULL,
+  file_id uuid REFERENCES public.robot_files(id) ON DELETE CASCADE NOT NULL,
+  -- Step key from src/lib/guide-parser.ts (slugified title, or page-N for PDFs)
+  step_key text NOT NULL,
+  completed_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, file_id, step_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guide_step_progress_file_id ON public.guide_step_progress(file_id);
+CREATE INDEX IF NOT EXISTS idx_guide_step_progress_robot_user ON public.guide_step_progress(robot_id, user_id);
+
+ALTER TABLE public.guide_step_progress ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Guide progress is viewable with its robot" ON public.guide_step_progress;
+CREATE POLICY "Guide progress is viewable with its robot"
+  ON public.guide_step_progress FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robots r
+      WHERE r.id = robot_id AND (r.status = 'published' OR r.creator_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can record their own guide progress" ON public.guide_step_progress;
+CREATE POLICY "Users can record their own guide progress"
+  ON public.guide_step_progress FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      WHERE rf.id = file_id AND rf.robot_id = guide_step_progress.robot_id AND rf.file_type = 'guide'
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can clear their own guide progress" ON public.guide_step_progress;
+CREATE POLICY "Users can clear their own guide progress"
+  ON public.guide_step_progress FOR DELETE USING (auth.uid() = user_id);
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added guide step progress';
+END $$;
@@ -0,0 +1,129 @@
+-- ============================================================================
+-- MIGRATION: Add Robot File Comments
+-- Version: 1.5.0
+-- Date: 2026-10-19
+--
+-- Description: Threaded Markdown discussions on individual robot files.
+-- Replies point at their parent comment. A top-level comment can be marked
+-- as a resolved issue by its author, the file's uploader, the robot owner or
+-- an admin; only the author can edit what a comment says.
+-- Rollback: DROP TABLE public.robot_file_comments;
+--   DROP FUNCTION public.handle_robot_file_comment_update();
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.robot_file_comments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id uuid REFERENCES public.robot_files(id) ON DELETE CASCADE NOT NULL,
+  parent_id uuid REFERENCES public.robot_file_comments(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  content text NOT NULL CHECK (length(trim(content)) > 0),
+  is_resolved boolean DEFAULT false NOT NULL,
+  resolved_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_robot_file_comments_file_id ON public.robot_file_comments(file_id);
+CREATE INDEX IF NOT EXISTS idx_robot_file_comments_parent_id ON public.robot_file_comments(parent_id);
+
+-- Moderators may resolve someone else's comment but not rewrite it, and
+-- resolution is stamped here rather than trusted from the client
+CREATE OR REPLACE FUNCTION public.handle_robot_file_comment_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content AND OLD.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the author can edit a comment';
+  END IF;
+
+  NEW.file_id := OLD.file_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.user_id := OLD.user_id;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.updated_at := now();
+  ELSE
+    NEW.updated_at := OLD.updated_at;
+  END IF;
+
+  IF NEW.is_resolved AND NOT OLD.is_resolved THEN
+    NEW.resolved_by := auth.uid();
+    NEW.resolved_at := now();
+  ELSIF NOT NEW.is_resolved THEN
+    NEW.resolved_by := NULL;
+    NEW.resolved_at := NULL;
+  ELSE
+    NEW.resolved_by := OLD.resolved_by;
+    NEW.resolved_at := OLD.resolved_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS robot_file_comments_update ON public.robot_file_comments;
+CREATE TRIGGER robot_file_comments_update
+  BEFORE UPDATE ON public.robot_file_comments
+  FOR EACH ROW EXECUTE FUNCTION public.handle_robot_file_comment_update();
+
+ALTER TABLE public.robot_file_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "File comments are viewable with their files" ON public.robot_file_comments;
+CREATE POLICY "File comments are viewable with their files"
+  ON public.robot_file_comments FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND (r.status = 'published' OR r.creator_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can comment on files" ON public.robot_file_comments;
+CREATE POLICY "Authenticated users can comment on files"
+  ON public.robot_file_comments FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    is_resolved = false AND
+    (
+      parent_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.robot_file_comments parent
+        WHERE parent.id = parent_id AND parent.file_id = robot_file_comments.file_id
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Authors and file owners can update comments" ON public.robot_file_comments;
+CREATE POLICY "Authors and file owners can update comments"
+  ON public.robot_file_comments FOR UPDATE USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND (rf.user_id = auth.uid() OR r.creator_id = auth.uid())
+    ) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Authors and admins can delete comments" ON public.robot_file_comments;
+CREATE POLICY "Authors and admins can delete comments"
+  ON public.robot_file_comments FOR DELETE USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot file comments';
+END $$;
@@ -0,0 +1,138 @@
+-- ============================================================================
+-- MIGRATION: Add Robot File Rank Scores
+-- Version: 1.6.0
+-- Date: 2026-10-19
+--
+-- Description: Ranks contributed files by the lower bound of the Wilson score
+-- interval on their ratings instead of raw up - down, so one early upvote no
+-- longer beats 40 up and 5 down. Each vote loses half its weight every 180
+-- days. The score is stored on robot_files, recomputed whenever a file is
+-- rated, and refreshed daily so the decay keeps up.
+-- Rollback: DROP TRIGGER robot_file_ratings_rank ON public.robot_file_ratings;
+--   DROP TRIGGER robot_files_protect_rank ON public.robot_files;
+--   ALTER TABLE public.robot_files DROP COLUMN rank_score, DROP COLUMN rank_updated_at;
+--   DROP FUNCTION public.handle_robot_file_rating_change(),
+--   public.protect_robot_file_rank(),
+--   public.refresh_robot_file_ranks(uuid), public.rating_weight(timestamptz),
+--   public.wilson_lower_bound(double precision, double precision, double precision);
+--   and restore robot_files_updated_at without its WHEN clause.
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.robot_files
+  ADD COLUMN IF NOT EXISTS rank_score double precision DEFAULT 0 NOT NULL,
+  ADD COLUMN IF NOT EXISTS rank_updated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_robot_files_rank ON public.robot_files(robot_id, rank_score DESC);
+
+-- Lowest approval rate consistent with the votes at ~95% confidence.
+-- Keep in line with wilsonLowerBound in src/lib/file-ranking.ts.
+CREATE OR REPLACE FUNCTION public.wilson_lower_bound(
+  up double precision,
+  down double precision,
+  z double precision DEFAULT 1.96
+)
+RETURNS double precision AS $$
+  SELECT CASE WHEN up + down <= 0 THEN 0 ELSE GREATEST(0,
+    (up / (up + down) + z * z / (2 * (up + down))
+      - z * sqrt((up / (up + down) * (1 - up / (up + down)) + z * z / (4 * (up + down))) / (up + down)))
+    / (1 + z * z / (up + down))
+  ) END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Half a vote after 180 days. Keep in line with ratingWeight in src/lib/file-ranking.ts.
+CREATE OR REPLACE FUNCTION public.rating_weight(rated_at timestamptz)
+RETURNS double precision AS $$
+  SELECT power(0.5, GREATEST(0, extract(epoch FROM now() - rated_at)) / 86400 / 180);
+$$ LANGUAGE sql STABLE;
+
+-- Recompute one file's score, or every file's when called without an id
+CREATE OR REPLACE FUNCTION public.refresh_robot_file_ranks(target_file_id uuid DEFAULT NULL)
+RETURNS void AS $$
+  UPDATE public.robot_files f
+  SET rank_score = COALESCE((
+        SELECT public.wilson_lower_bound(
+          COALESCE(SUM(w.weight) FILTER (WHERE w.rating = 'up'), 0),
+          COALESCE(SUM(w.weight) FILTER (WHERE w.rating = 'down'), 0)
+        )
+        FROM (
+          -- A changed vote counts as a fresh one
+          SELECT r.rating, public.rating_weight(COALESCE(r.updated_at, r.created_at)) AS weight
+          FROM public.robot_file_ratings r
+          WHERE r.file_id = f.id
+        ) w
+      ), 0),
+      rank_updated_at = now()
+  WHERE target_file_id IS NULL OR f.id = target_file_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_robot_file_ranks(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_robot_file_rating_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_robot_file_ranks(OLD.file_id);
+  ELSE
+    PERFORM public.refresh_robot_file_ranks(NEW.file_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robot_file_ratings_rank ON public.robot_file_ratings;
+CREATE TRIGGER robot_file_ratings_rank
+  AFTER INSERT OR UPDATE OR DELETE ON public.robot_file_ratings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_robot_file_rating_change();
+
+-- Only the refresh sets scores. Contributors can update their files, so a
+-- score they send is put back; the refresh runs from the ratings trigger
+-- (depth > 1) or without a signed-in user (cron, service role).
+CREATE OR REPLACE FUNCTION public.protect_robot_file_rank()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 AND auth.uid() IS NOT NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.rank_score := 0;
+      NEW.rank_updated_at := NULL;
+    ELSE
+      NEW.rank_score := OLD.rank_score;
+      NEW.rank_updated_at := OLD.rank_updated_at;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to run before robot_files_updated_at, whose WHEN clause relies on it
+DROP TRIGGER IF EXISTS robot_files_protect_rank ON public.robot_files;
+CREATE TRIGGER robot_files_protect_rank
+  BEFORE INSERT OR UPDATE ON public.robot_files
+  FOR EACH ROW EXECUTE FUNCTION public.protect_robot_file_rank();
+
+-- Score refreshes aren't edits to the file
+DROP TRIGGER IF EXISTS robot_files_updated_at ON public.robot_files;
+CREATE TRIGGER robot_files_updated_at
+  BEFORE UPDATE ON public.robot_files
+  FOR EACH ROW
+  WHEN (OLD.rank_updated_at IS NOT DISTINCT FROM NEW.rank_updated_at)
+  EXECUTE FUNCTION public.handle_updated_at();
+
+SELECT public.refresh_robot_file_ranks();
+
+-- Daily refresh for the decay, where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('refresh-robot-file-ranks', '0 3 * * *', 'SELECT public.refresh_robot_file_ranks()');
+  END IF;
+END $$;
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot file rank scores';
+END $$;
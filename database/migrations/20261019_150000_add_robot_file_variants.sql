@@ -0,0 +1,65 @@
+-- ============================================================================
+-- MIGRATION: Add Robot File Variants
+-- Version: 1.7.0
+-- Date: 2026-10-19
+--
+-- Description: Lets a robot file declare the file it was derived from, e.g. a
+-- URDF with a different gripper or fixed joint limits. The parent must be a
+-- file of the same type on the same robot, and chains can't loop. Deleting a
+-- parent turns its variants into standalone files.
+-- Rollback: DROP TRIGGER robot_files_check_parent ON public.robot_files;
+--   DROP FUNCTION public.check_robot_file_parent();
+--   ALTER TABLE public.robot_files DROP COLUMN parent_file_id;
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.robot_files
+  ADD COLUMN IF NOT EXISTS parent_file_id uuid REFERENCES public.robot_files(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_robot_files_parent_file_id ON public.robot_files(parent_file_id);
+
+CREATE OR REPLACE FUNCTION public.check_robot_file_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_file_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.robot_files parent
+    WHERE parent.id = NEW.parent_file_id
+      AND parent.robot_id = NEW.robot_id
+      AND parent.file_type = NEW.file_type
+  ) THEN
+    RAISE EXCEPTION 'A variant must derive from a file of the same type on the same robot';
+  END IF;
+
+  IF NEW.parent_file_id = NEW.id OR EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT f.id, f.parent_file_id FROM public.robot_files f WHERE f.id = NEW.parent_file_id
+      UNION
+      SELECT f.id, f.parent_file_id FROM public.robot_files f
+      JOIN ancestors a ON f.id = a.parent_file_id
+    )
+    SELECT 1 FROM ancestors WHERE ancestors.id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A file cannot be a variant of itself';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS robot_files_check_parent ON public.robot_files;
+CREATE TRIGGER robot_files_check_parent
+  BEFORE INSERT OR UPDATE OF parent_file_id, robot_id, file_type ON public.robot_files
+  FOR EACH ROW EXECUTE FUNCTION public.check_robot_file_parent();
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot file variants';
+END $$;
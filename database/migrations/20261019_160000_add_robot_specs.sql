@@ -0,0 +1,37 @@
+-- ============================================================================
+-- MIGRATION: Add Robot Specs
+-- Version: 1.8.0
+-- Date: 2026-10-19
+--
+-- Description: Adds a structured technical spec sheet to robots (degrees of
+-- freedom, payload, reach, weight, voltage, actuators, controller, power and
+-- supported frameworks). The fields are defined in src/lib/robot-specs.ts; the
+-- column only guarantees a JSON object so new fields don't need a migration.
+-- Rollback: ALTER TABLE public.robots DROP COLUMN specs;
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.robots
+  ADD COLUMN IF NOT EXISTS specs jsonb DEFAULT '{}'::jsonb NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'robots_specs_is_object'
+  ) THEN
+    ALTER TABLE public.robots
+      ADD CONSTRAINT robots_specs_is_object CHECK (jsonb_typeof(specs) = 'object');
+  END IF;
+END $$;
+
+-- Supports the robots list filters (e.g. specs @> '{"actuator_type": "servo"}')
+CREATE INDEX IF NOT EXISTS idx_robots_specs ON public.robots USING gin (specs);
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot specs';
+END $$;
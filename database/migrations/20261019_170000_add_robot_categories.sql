@@ -0,0 +1,127 @@
+-- ============================================================================
+-- MIGRATION: Add Robot Categories
+-- Version: 1.9.0
+-- Date: 2026-10-19
+--
+-- Description: Adds a managed, hierarchical category tree (Arms > 6-DOF arms,
+-- Mobile > Quadrupeds, ...) and a primary category per robot. Admins maintain
+-- the tree; tags stay as free-form secondary labels. A category with
+-- subcategories can't be deleted until they are moved or removed; deleting a
+-- category leaves its robots uncategorised.
+-- Rollback: ALTER TABLE public.robots DROP COLUMN category_id;
+--   DROP TABLE public.robot_categories;
+--   DROP FUNCTION public.check_robot_category_parent();
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.robot_categories (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    parent_id uuid REFERENCES public.robot_categories(id) ON DELETE RESTRICT,
+    name text NOT NULL CHECK (length(trim(name)) > 0),
+    slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+    description text,
+    sort_order integer DEFAULT 0 NOT NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+    CHECK (parent_id IS DISTINCT FROM id)
+);
+
+-- Sibling names are unique; the same name may appear under different parents
+CREATE UNIQUE INDEX IF NOT EXISTS idx_robot_categories_sibling_name
+  ON public.robot_categories (COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+CREATE INDEX IF NOT EXISTS idx_robot_categories_parent_id ON public.robot_categories(parent_id);
+
+ALTER TABLE public.robots
+  ADD COLUMN IF NOT EXISTS category_id uuid REFERENCES public.robot_categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_robots_category_id ON public.robots(category_id);
+
+-- Moving a category under one of its own descendants would detach the branch
+CREATE OR REPLACE FUNCTION public.check_robot_category_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.robot_categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id
+      FROM public.robot_categories c
+      JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A category cannot be moved under its own subcategory';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS robot_categories_check_parent ON public.robot_categories;
+CREATE TRIGGER robot_categories_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.robot_categories
+  FOR EACH ROW EXECUTE FUNCTION public.check_robot_category_parent();
+
+DROP TRIGGER IF EXISTS robot_categories_updated_at ON public.robot_categories;
+CREATE TRIGGER robot_categories_updated_at
+  BEFORE UPDATE ON public.robot_categories
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.robot_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Robot categories are viewable by everyone" ON public.robot_categories;
+CREATE POLICY "Robot categories are viewable by everyone"
+  ON public.robot_categories FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage robot categories" ON public.robot_categories;
+CREATE POLICY "Admins can manage robot categories"
+  ON public.robot_categories FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- Starting tree
+INSERT INTO public.robot_categories (name, slug, description, sort_order) VALUES
+    ('Arms', 'arms', 'Articulated arms and manipulators', 1),
+    ('Mobile', 'mobile', 'Wheeled, tracked and legged robots', 2),
+    ('Humanoids', 'humanoids', 'Robots with a human-like body', 3),
+    ('Hands & Grippers', 'hands-grippers', 'End effectors, grippers and dexterous hands', 4),
+    ('Drones', 'drones', 'Flying robots and UAVs', 5),
+    ('Other', 'other', 'Robots that fit nowhere else', 99)
+ON CONFLICT (slug) DO NOTHING;
+
+INSERT INTO public.robot_categories (parent_id, name, slug, description, sort_order)
+SELECT parent.id, child.name, child.slug, child.description, child.sort_order
+FROM (VALUES
+    ('arms', '6-DOF Arms', '6-dof-arms', 'Arms with six or more joints', 1),
+    ('arms', 'Low-DOF Arms', 'low-dof-arms', 'Arms with five joints or fewer', 2),
+    ('arms', 'Bimanual Setups', 'bimanual-setups', 'Paired arms, often for teleoperation', 3),
+    ('mobile', 'Wheeled', 'wheeled', 'Differential, omni and mecanum platforms', 1),
+    ('mobile', 'Quadrupeds', 'quadrupeds', 'Four-legged walking robots', 2),
+    ('mobile', 'Mobile Manipulators', 'mobile-manipulators', 'Mobile bases carrying an arm', 3)
+) AS child(parent_slug, name, slug, description, sort_order)
+JOIN public.robot_categories parent ON parent.slug = child.parent_slug
+ON CONFLICT (slug) DO NOTHING;
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot categories';
+END $$;
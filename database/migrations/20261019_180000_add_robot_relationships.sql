@@ -0,0 +1,120 @@
+-- ============================================================================
+-- MIGRATION: Add Robot Relationships
+-- Version: 1.10.0
+-- Date: 2026-10-19
+--
+-- Description: Adds typed robot-to-robot relationships. Each row reads
+-- "robot <relationship_type> related robot":
+--   variant_of    - a modified version of the related robot
+--   successor_of  - supersedes the related robot (SO-101 successor_of SO-100)
+--   pairs_with    - used together, e.g. a leader and a follower arm
+--   component_of  - part of the related robot, e.g. an arm on a mobile base
+-- Owners of either robot and admins can add and remove relationships.
+-- variant_of and successor_of chains can't loop, and pairs_with is stored once
+-- per pair.
+-- Rollback: DROP TABLE public.robot_relationships;
+--   DROP FUNCTION public.check_robot_relationship();
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.robot_relationships (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    robot_id uuid REFERENCES public.robots(id) ON DELETE CASCADE NOT NULL,
+    related_robot_id uuid REFERENCES public.robots(id) ON DELETE CASCADE NOT NULL,
+    relationship_type text NOT NULL
+      CHECK (relationship_type IN ('variant_of', 'successor_of', 'pairs_with', 'component_of')),
+    note text,
+    created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    CHECK (robot_id <> related_robot_id),
+    UNIQUE (robot_id, related_robot_id, relationship_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_robot_relationships_robot_id ON public.robot_relationships(robot_id);
+CREATE INDEX IF NOT EXISTS idx_robot_relationships_related_robot_id ON public.robot_relationships(related_robot_id);
+
+CREATE OR REPLACE FUNCTION public.check_robot_relationship()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.relationship_type = 'pairs_with' AND EXISTS (
+    SELECT 1 FROM public.robot_relationships
+    WHERE relationship_type = 'pairs_with'
+      AND robot_id = NEW.related_robot_id
+      AND related_robot_id = NEW.robot_id
+  ) THEN
+    RAISE EXCEPTION 'These robots are already paired';
+  END IF;
+
+  -- Lineage must stay acyclic: the related robot can't descend from this one
+  IF NEW.relationship_type IN ('variant_of', 'successor_of') AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT related_robot_id AS id FROM public.robot_relationships
+      WHERE robot_id = NEW.related_robot_id
+        AND relationship_type IN ('variant_of', 'successor_of')
+      UNION
+      SELECT r.related_robot_id
+      FROM public.robot_relationships r
+      JOIN ancestors a ON r.robot_id = a.id
+      WHERE r.relationship_type IN ('variant_of', 'successor_of')
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.robot_id
+  ) THEN
+    RAISE EXCEPTION 'This relationship would make the lineage loop';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS robot_relationships_check ON public.robot_relationships;
+CREATE TRIGGER robot_relationships_check
+  BEFORE INSERT OR UPDATE ON public.robot_relationships
+  FOR EACH ROW EXECUTE FUNCTION public.check_robot_relationship();
+
+ALTER TABLE public.robot_relationships ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Robot relationships are viewable by everyone" ON public.robot_relationships;
+CREATE POLICY "Robot relationships are viewable by everyone"
+  ON public.robot_relationships FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Robot owners and admins can add relationships" ON public.robot_relationships;
+CREATE POLICY "Robot owners and admins can add relationships"
+  ON public.robot_relationships FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by AND (
+      EXISTS (
+        SELECT 1 FROM public.robots
+        WHERE robots.id IN (robot_relationships.robot_id, robot_relationships.related_robot_id)
+          AND robots.creator_id = auth.uid()
+      ) OR
+      EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Robot owners and admins can remove relationships" ON public.robot_relationships;
+CREATE POLICY "Robot owners and admins can remove relationships"
+  ON public.robot_relationships FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.robots
+      WHERE robots.id IN (robot_relationships.robot_id, robot_relationships.related_robot_id)
+        AND robots.creator_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot relationships';
+END $$;
@@ -0,0 +1,169 @@
+-- ============================================================================
+-- MIGRATION: Add Robot Media Gallery
+-- Version: 1.11.0
+-- Date: 2026-10-19
+--
+-- Description: Adds an ordered gallery of images and short videos per robot,
+-- with captions and one cover image. Any signed-in user can contribute media;
+-- owners and admins reorder, caption and pick the cover, and contributors can
+-- remove what they added. robots.image_url stays in sync with the cover so
+-- cards, search, the sitemap and social previews keep working, and setting
+-- image_url from the robot form adds it to the gallery as the cover.
+-- Existing image_url values are imported as covers.
+-- Rollback: DROP TABLE public.robot_media;
+--   DROP FUNCTION public.sync_robot_cover_image();
+--   DROP FUNCTION public.import_robot_image_url();
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.robot_media (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    robot_id uuid REFERENCES public.robots(id) ON DELETE CASCADE NOT NULL,
+    media_type text NOT NULL DEFAULT 'image' CHECK (media_type IN ('image', 'video')),
+    url text NOT NULL CHECK (url ~ '^https?://'),
+    caption text CHECK (char_length(caption) <= 280),
+    position integer NOT NULL DEFAULT 0,
+    is_cover boolean NOT NULL DEFAULT false,
+    source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'readme')),
+    user_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+    CHECK (NOT is_cover OR media_type = 'image'),
+    UNIQUE (robot_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_robot_media_robot_position ON public.robot_media(robot_id, position);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_robot_media_one_cover
+  ON public.robot_media(robot_id) WHERE is_cover;
+
+DROP TRIGGER IF EXISTS handle_robot_media_updated_at ON public.robot_media;
+CREATE TRIGGER handle_robot_media_updated_at
+  BEFORE UPDATE ON public.robot_media
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Mirror the cover into robots.image_url. Runs as definer because
+-- contributors can't update robots they don't own.
+CREATE OR REPLACE FUNCTION public.sync_robot_cover_image()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_robot_id uuid := COALESCE(NEW.robot_id, OLD.robot_id);
+  cover_url text;
+BEGIN
+  SELECT url INTO cover_url
+  FROM public.robot_media
+  WHERE robot_id = target_robot_id AND is_cover;
+
+  UPDATE public.robots
+  SET image_url = cover_url
+  WHERE id = target_robot_id AND image_url IS DISTINCT FROM cover_url;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robot_media_sync_cover ON public.robot_media;
+CREATE TRIGGER robot_media_sync_cover
+  AFTER INSERT OR UPDATE OF is_cover, url OR DELETE ON public.robot_media
+  FOR EACH ROW EXECUTE FUNCTION public.sync_robot_cover_image();
+
+-- An image_url set from the robot form becomes the gallery cover
+CREATE OR REPLACE FUNCTION public.import_robot_image_url()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.image_url IS NULL OR NEW.image_url !~ '^https?://' OR EXISTS (
+    SELECT 1 FROM public.robot_media
+    WHERE robot_id = NEW.id AND url = NEW.image_url AND is_cover
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.robot_media SET is_cover = false
+  WHERE robot_id = NEW.id AND is_cover;
+
+  INSERT INTO public.robot_media (robot_id, url, position, is_cover, user_id)
+  VALUES (
+    NEW.id,
+    NEW.image_url,
+    COALESCE((SELECT MIN(position) - 1 FROM public.robot_media WHERE robot_id = NEW.id), 0),
+    true,
+    auth.uid()
+  )
+  ON CONFLICT (robot_id, url) DO UPDATE SET is_cover = true;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robots_import_image_url ON public.robots;
+CREATE TRIGGER robots_import_image_url
+  AFTER INSERT OR UPDATE OF image_url ON public.robots
+  FOR EACH ROW EXECUTE FUNCTION public.import_robot_image_url();
+
+-- Existing single images become covers
+INSERT INTO public.robot_media (robot_id, url, position, is_cover, user_id)
+SELECT id, image_url, 0, true, creator_id
+FROM public.robots
+WHERE image_url ~ '^https?://'
+ON CONFLICT (robot_id, url) DO NOTHING;
+
+ALTER TABLE public.robot_media ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Robot media is viewable by everyone" ON public.robot_media;
+CREATE POLICY "Robot media is viewable by everyone"
+  ON public.robot_media FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Signed-in users can contribute media" ON public.robot_media;
+CREATE POLICY "Signed-in users can contribute media"
+  ON public.robot_media FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND (
+      NOT is_cover OR
+      EXISTS (
+        SELECT 1 FROM public.robots
+        WHERE robots.id = robot_media.robot_id AND robots.creator_id = auth.uid()
+      ) OR
+      EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Robot owners and admins can arrange media" ON public.robot_media;
+CREATE POLICY "Robot owners and admins can arrange media"
+  ON public.robot_media FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.robots
+      WHERE robots.id = robot_media.robot_id AND robots.creator_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Contributors, robot owners and admins can remove media" ON public.robot_media;
+CREATE POLICY "Contributors, robot owners and admins can remove media"
+  ON public.robot_media FOR DELETE
+  USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.robots
+      WHERE robots.id = robot_media.robot_id AND robots.creator_id = auth.uid()
+    ) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot media gallery';
+END $$;
@@ -0,0 +1,208 @@
+-- ============================================================================
+-- MIGRATION: Add Robot Moderation Workflow
+-- Version: 1.12.0
+-- Date: 2026-10-19
+--
+-- Description: Robot submissions now go through review. New statuses:
+--   pending_review    - submitted, waiting for an admin
+--   changes_requested - sent back to the submitter with reviewer notes
+--   archived          - retired or rejected, hidden from the public
+--   deprecated        - still listed, but no longer recommended
+-- Only published and deprecated robots are public. Non-admins can't publish
+-- directly: publishing from a non-approved state turns into a review request,
+-- and the reviewer fields can only be written by admins. Policies that showed
+-- related rows (files, links, analyses, ...) for published robots now use the
+-- same public check, and owners can add links and files while in review.
+-- Rollback: enum values can't be dropped; move rows back to draft/published,
+--   DROP FUNCTION public.enforce_robot_moderation() CASCADE;
+--   DROP FUNCTION public.is_public_robot_status(robot_status) CASCADE;
+--   and drop the review_notes, reviewed_by, reviewed_at, submitted_at columns.
+-- ============================================================================
+
+-- New enum values must be committed before they can be used, so they're
+-- added outside the main transaction
+ALTER TYPE robot_status ADD VALUE IF NOT EXISTS 'pending_review';
+ALTER TYPE robot_status ADD VALUE IF NOT EXISTS 'changes_requested';
+ALTER TYPE robot_status ADD VALUE IF NOT EXISTS 'archived';
+ALTER TYPE robot_status ADD VALUE IF NOT EXISTS 'deprecated';
+
+BEGIN;
+
+ALTER TABLE public.robots ADD COLUMN IF NOT EXISTS review_notes text;
+ALTER TABLE public.robots ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.robots ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+ALTER TABLE public.robots ADD COLUMN IF NOT EXISTS submitted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_robots_pending_review
+  ON public.robots(submitted_at) WHERE status = 'pending_review';
+
+CREATE OR REPLACE FUNCTION public.is_public_robot_status(robot_status)
+RETURNS boolean AS $$
+  SELECT $1 IN ('published', 'deprecated');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.enforce_robot_moderation()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_moderator boolean := auth.uid() IS NULL OR EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+  );
+  old_status robot_status := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END;
+BEGIN
+  IF NOT is_moderator THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.review_notes := NULL;
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+      IF NEW.status IS DISTINCT FROM 'draft' THEN
+        NEW.status := 'pending_review';
+      END IF;
+    ELSE
+      NEW.review_notes := OLD.review_notes;
+      NEW.reviewed_by := OLD.reviewed_by;
+      NEW.reviewed_at := OLD.reviewed_at;
+
+      IF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF NEW.status = 'changes_requested' THEN
+          RAISE EXCEPTION 'Only admins can request changes';
+        ELSIF NEW.status = 'published' AND OLD.status <> 'deprecated' THEN
+          -- Asking to publish means asking for review; only un-deprecating an
+          -- approved robot skips it
+          NEW.status := 'pending_review';
+        ELSIF NEW.status = 'deprecated' AND OLD.status <> 'published' THEN
+          RAISE EXCEPTION 'Only published robots can be deprecated';
+        END IF;
+      END IF;
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status
+    AND OLD.status = 'pending_review' THEN
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  END IF;
+
+  IF NEW.status = 'pending_review' AND old_status IS DISTINCT FROM 'pending_review' THEN
+    NEW.submitted_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robots_enforce_moderation ON public.robots;
+CREATE TRIGGER robots_enforce_moderation
+  BEFORE INSERT OR UPDATE ON public.robots
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_robot_moderation();
+
+-- Robots
+DROP POLICY IF EXISTS "Published robots are viewable by everyone" ON public.robots;
+DROP POLICY IF EXISTS "Approved robots are viewable by everyone" ON public.robots;
+CREATE POLICY "Approved robots are viewable by everyone"
+  ON public.robots FOR SELECT USING (public.is_public_robot_status(status));
+
+-- Robot files
+DROP POLICY IF EXISTS "Robot files are viewable for published robots" ON public.robot_files;
+DROP POLICY IF EXISTS "Robot files are viewable for approved robots" ON public.robot_files;
+CREATE POLICY "Robot files are viewable for approved robots"
+  ON public.robot_files FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robots
+      WHERE robots.id = robot_id AND public.is_public_robot_status(robots.status)
+    )
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can add files to published robots" ON public.robot_files;
+DROP POLICY IF EXISTS "Authenticated users can add files to approved robots" ON public.robot_files;
+CREATE POLICY "Authenticated users can add files to approved robots"
+  ON public.robot_files FOR INSERT WITH CHECK (
+    auth.uid() IS NOT NULL AND
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.robots
+      WHERE robots.id = robot_id
+        AND (public.is_public_robot_status(robots.status) OR robots.creator_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "File ratings are viewable for published robots" ON public.robot_file_ratings;
+DROP POLICY IF EXISTS "File ratings are viewable for approved robots" ON public.robot_file_ratings;
+CREATE POLICY "File ratings are viewable for approved robots"
+  ON public.robot_file_ratings FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND public.is_public_robot_status(r.status)
+    )
+  );
+
+-- Social links
+DROP POLICY IF EXISTS "Social links are viewable for published robots" ON public.robot_social_links;
+DROP POLICY IF EXISTS "Social links are viewable for approved robots" ON public.robot_social_links;
+CREATE POLICY "Social links are viewable for approved robots"
+  ON public.robot_social_links FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robots
+      WHERE robots.id = robot_id
+        AND (public.is_public_robot_status(robots.status) OR robots.creator_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can add social links" ON public.robot_social_links;
+CREATE POLICY "Authenticated users can add social links"
+  ON public.robot_social_links FOR INSERT WITH CHECK (
+    auth.uid() IS NOT NULL AND
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.robots
+      WHERE robots.id = robot_id
+        AND (public.is_public_robot_status(robots.status) OR robots.creator_id = auth.uid())
+    )
+  );
+
+-- File analyses, versions, comments and guide progress
+DROP POLICY IF EXISTS "File analyses are viewable with their files" ON public.robot_file_analyses;
+CREATE POLICY "File analyses are viewable with their files"
+  ON public.robot_file_analyses FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND (public.is_public_robot_status(r.status) OR r.creator_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "File versions are viewable with their files" ON public.robot_file_versions;
+CREATE POLICY "File versions are viewable with their files"
+  ON public.robot_file_versions FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND (public.is_public_robot_status(r.status) OR r.creator_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "File comments are viewable with their files" ON public.robot_file_comments;
+CREATE POLICY "File comments are viewable with their files"
+  ON public.robot_file_comments FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND (public.is_public_robot_status(r.status) OR r.creator_id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Guide progress is viewable with its robot" ON public.guide_step_progress;
+CREATE POLICY "Guide progress is viewable with its robot"
+  ON public.guide_step_progress FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robots r
+      WHERE r.id = robot_id AND (public.is_public_robot_status(r.status) OR r.creator_id = auth.uid())
+    )
+  );
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot moderation workflow';
+END $$;
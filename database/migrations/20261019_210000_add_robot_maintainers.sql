@@ -0,0 +1,529 @@
+-- ============================================================================
+-- MIGRATION: Add Robot Maintainers
+-- Version: 1.13.0
+-- Date: 2026-10-19
+--
+-- Description: Robots can be maintained by a team instead of only their
+-- creator. robot_maintainers holds one owner and any number of maintainers per
+-- robot; robots.creator_id stays the owner and is kept in sync. Maintainers
+-- join by accepting an invitation, and the owner hands the robot over by
+-- sending an invitation with the owner role. Every policy that trusted
+-- robots.creator_id now goes through public.is_robot_maintainer().
+-- Rollback: DROP TABLE public.robot_maintainer_invitations, public.robot_maintainers;
+--   DROP FUNCTION public.is_robot_maintainer(uuid), public.is_robot_owner(uuid),
+--     public.sync_robot_owner(), public.protect_robot_owner(),
+--     public.handle_robot_maintainer_invitation() CASCADE;
+--   and restore the creator_id checks from the earlier migrations.
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.robot_maintainers (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    robot_id uuid REFERENCES public.robots(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    role text NOT NULL DEFAULT 'maintainer' CHECK (role IN ('owner', 'maintainer')),
+    added_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    UNIQUE (robot_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_robot_maintainers_user_id ON public.robot_maintainers(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_robot_maintainers_one_owner
+  ON public.robot_maintainers(robot_id) WHERE role = 'owner';
+
+CREATE TABLE IF NOT EXISTS public.robot_maintainer_invitations (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    robot_id uuid REFERENCES public.robots(id) ON DELETE CASCADE NOT NULL,
+    invitee_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    invited_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    role text NOT NULL DEFAULT 'maintainer' CHECK (role IN ('owner', 'maintainer')),
+    status text NOT NULL DEFAULT 'pending'
+      CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+    created_at timestamptz DEFAULT now() NOT NULL,
+    responded_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_robot_maintainer_invitations_invitee
+  ON public.robot_maintainer_invitations(invitee_id) WHERE status = 'pending';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_robot_maintainer_invitations_one_pending
+  ON public.robot_maintainer_invitations(robot_id, invitee_id) WHERE status = 'pending';
+
+-- Security definer so policies on robot_maintainers itself can use them
+CREATE OR REPLACE FUNCTION public.is_robot_maintainer(p_robot_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.robot_maintainers
+    WHERE robot_id = p_robot_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_robot_owner(p_robot_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.robot_maintainers
+    WHERE robot_id = p_robot_id AND user_id = auth.uid() AND role = 'owner'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- robots.creator_id is the owner: mirror it into robot_maintainers
+CREATE OR REPLACE FUNCTION public.sync_robot_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.robot_maintainers
+  SET role = 'maintainer'
+  WHERE robot_id = NEW.id AND role = 'owner' AND user_id <> NEW.creator_id;
+
+  INSERT INTO public.robot_maintainers (robot_id, user_id, role)
+  VALUES (NEW.id, NEW.creator_id, 'owner')
+  ON CONFLICT (robot_id, user_id) DO UPDATE SET role = 'owner';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robots_sync_owner ON public.robots;
+CREATE TRIGGER robots_sync_owner
+  AFTER INSERT OR UPDATE OF creator_id ON public.robots
+  FOR EACH ROW EXECUTE FUNCTION public.sync_robot_owner();
+
+-- Maintainers can update robots, but ownership only moves through an accepted
+-- invitation (a nested trigger) or an admin
+CREATE OR REPLACE FUNCTION public.protect_robot_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.creator_id IS DISTINCT FROM OLD.creator_id
+    AND pg_trigger_depth() = 1
+    AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+    RAISE EXCEPTION 'Ownership can only be transferred through an invitation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robots_protect_owner ON public.robots;
+CREATE TRIGGER robots_protect_owner
+  BEFORE UPDATE OF creator_id ON public.robots
+  FOR EACH ROW EXECUTE FUNCTION public.protect_robot_owner();
+
+CREATE OR REPLACE FUNCTION public.handle_robot_maintainer_invitation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.robot_maintainers
+      WHERE robot_id = NEW.robot_id AND user_id = NEW.invitee_id
+        AND (role = 'owner' OR NEW.role = 'maintainer')
+    ) THEN
+      RAISE EXCEPTION 'This user already maintains the robot';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Only the status moves; invited_by may only be cleared when that user is deleted
+  IF NEW.robot_id IS DISTINCT FROM OLD.robot_id
+    OR NEW.invitee_id IS DISTINCT FROM OLD.invitee_id
+    OR NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR (NEW.invited_by IS DISTINCT FROM OLD.invited_by AND NEW.invited_by IS NOT NULL) THEN
+    RAISE EXCEPTION 'Only the status of an invitation can change';
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    NEW.responded_at := OLD.responded_at;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'This invitation has already been answered';
+  END IF;
+
+  IF NEW.status IN ('accepted', 'declined') AND auth.uid() IS DISTINCT FROM NEW.invitee_id THEN
+    RAISE EXCEPTION 'Only the invited user can answer an invitation';
+  END IF;
+
+  -- Keep in line with canSetInvitationStatus in src/lib/robot-maintainers.ts
+  IF NEW.status = 'cancelled' AND (
+    auth.uid() IS NULL OR
+    auth.uid() = NEW.invitee_id OR NOT (
+      public.is_robot_maintainer(NEW.robot_id) OR
+      EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Only the robot''s other maintainers can cancel an invitation';
+  END IF;
+
+  NEW.responded_at := now();
+
+  IF NEW.status = 'accepted' THEN
+    INSERT INTO public.robot_maintainers (robot_id, user_id, role, added_by)
+    VALUES (NEW.robot_id, NEW.invitee_id, 'maintainer', NEW.invited_by)
+    ON CONFLICT (robot_id, user_id) DO NOTHING;
+
+    IF NEW.role = 'owner' THEN
+      -- robots_sync_owner demotes the previous owner to maintainer
+      UPDATE public.robots SET creator_id = NEW.invitee_id WHERE id = NEW.robot_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robot_maintainer_invitations_handle ON public.robot_maintainer_invitations;
+CREATE TRIGGER robot_maintainer_invitations_handle
+  BEFORE INSERT OR UPDATE ON public.robot_maintainer_invitations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_robot_maintainer_invitation();
+
+-- Every existing creator becomes the owner of their robots
+INSERT INTO public.robot_maintainers (robot_id, user_id, role)
+SELECT id, creator_id, 'owner' FROM public.robots
+ON CONFLICT (robot_id, user_id) DO UPDATE SET role = 'owner';
+
+ALTER TABLE public.robot_maintainers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.robot_maintainer_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Robot maintainers are viewable by everyone" ON public.robot_maintainers;
+CREATE POLICY "Robot maintainers are viewable by everyone"
+  ON public.robot_maintainers FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can add maintainers" ON public.robot_maintainers;
+CREATE POLICY "Admins can add maintainers"
+  ON public.robot_maintainers FOR INSERT
+  WITH CHECK (
+    role = 'maintainer' AND
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Owners and admins can remove maintainers" ON public.robot_maintainers;
+CREATE POLICY "Owners and admins can remove maintainers"
+  ON public.robot_maintainers FOR DELETE
+  USING (
+    role <> 'owner' AND (
+      auth.uid() = user_id OR
+      public.is_robot_owner(robot_id) OR
+      EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Invitations are viewable by the people involved" ON public.robot_maintainer_invitations;
+CREATE POLICY "Invitations are viewable by the people involved"
+  ON public.robot_maintainer_invitations FOR SELECT
+  USING (
+    auth.uid() = invitee_id OR
+    public.is_robot_maintainer(robot_id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Maintainers can invite, owners can transfer" ON public.robot_maintainer_invitations;
+CREATE POLICY "Maintainers can invite, owners can transfer"
+  ON public.robot_maintainer_invitations FOR INSERT
+  WITH CHECK (
+    auth.uid() = invited_by AND
+    status = 'pending' AND (
+      (role = 'maintainer' AND public.is_robot_maintainer(robot_id)) OR
+      (role = 'owner' AND public.is_robot_owner(robot_id)) OR
+      EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Invitees answer, maintainers cancel invitations" ON public.robot_maintainer_invitations;
+CREATE POLICY "Invitees answer, maintainers cancel invitations"
+  ON public.robot_maintainer_invitations FOR UPDATE
+  USING (
+    auth.uid() = invitee_id OR
+    public.is_robot_maintainer(robot_id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    (auth.uid() = invitee_id AND status IN ('accepted', 'declined')) OR
+    (auth.uid() <> invitee_id AND status = 'cancelled' AND (
+      public.is_robot_maintainer(robot_id) OR
+      EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+      )
+    ))
+  );
+
+-- ============================================
+-- Creator checks become maintainer checks
+-- ============================================
+
+-- Robots
+DROP POLICY IF EXISTS "Creators can view their own robots" ON public.robots;
+DROP POLICY IF EXISTS "Maintainers can view their robots" ON public.robots;
+CREATE POLICY "Maintainers can view their robots"
+  ON public.robots FOR SELECT USING (public.is_robot_maintainer(id));
+
+-- So invitees can see what they're being asked to maintain
+DROP POLICY IF EXISTS "Invited users can view the robot" ON public.robots;
+CREATE POLICY "Invited users can view the robot"
+  ON public.robots FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_maintainer_invitations i
+      WHERE i.robot_id = robots.id AND i.invitee_id = auth.uid() AND i.status = 'pending'
+    )
+  );
+
+DROP POLICY IF EXISTS "Creators can update own robots" ON public.robots;
+DROP POLICY IF EXISTS "Maintainers can update their robots" ON public.robots;
+CREATE POLICY "Maintainers can update their robots"
+  ON public.robots FOR UPDATE USING (
+    public.is_robot_maintainer(id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- Robot files
+DROP POLICY IF EXISTS "Creators can view files for their robots" ON public.robot_files;
+DROP POLICY IF EXISTS "Maintainers can view files for their robots" ON public.robot_files;
+CREATE POLICY "Maintainers can view files for their robots"
+  ON public.robot_files FOR SELECT USING (public.is_robot_maintainer(robot_id));
+
+DROP POLICY IF EXISTS "Authenticated users can add files to approved robots" ON public.robot_files;
+CREATE POLICY "Authenticated users can add files to approved robots"
+  ON public.robot_files FOR INSERT WITH CHECK (
+    auth.uid() IS NOT NULL AND
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.robots
+      WHERE robots.id = robot_id
+        AND (public.is_public_robot_status(robots.status) OR public.is_robot_maintainer(robots.id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Contributors and robot owners can update files" ON public.robot_files;
+CREATE POLICY "Contributors and robot owners can update files"
+  ON public.robot_files FOR UPDATE USING (
+    auth.uid() = user_id OR
+    public.is_robot_maintainer(robot_id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Contributors and robot owners can delete files" ON public.robot_files;
+CREATE POLICY "Contributors and robot owners can delete files"
+  ON public.robot_files FOR DELETE USING (
+    auth.uid() = user_id OR
+    public.is_robot_maintainer(robot_id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- Social links
+DROP POLICY IF EXISTS "Social links are viewable for approved robots" ON public.robot_social_links;
+CREATE POLICY "Social links are viewable for approved robots"
+  ON public.robot_social_links FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robots
+      WHERE robots.id = robot_id
+        AND (public.is_public_robot_status(robots.status) OR public.is_robot_maintainer(robots.id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can add social links" ON public.robot_social_links;
+CREATE POLICY "Authenticated users can add social links"
+  ON public.robot_social_links FOR INSERT WITH CHECK (
+    auth.uid() IS NOT NULL AND
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.robots
+      WHERE robots.id = robot_id
+        AND (public.is_public_robot_status(robots.status) OR public.is_robot_maintainer(robots.id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Contributors can update their own social links" ON public.robot_social_links;
+CREATE POLICY "Contributors can update their own social links"
+  ON public.robot_social_links FOR UPDATE USING (
+    auth.uid() = user_id OR
+    public.is_robot_maintainer(robot_id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Contributors can delete their own social links" ON public.robot_social_links;
+CREATE POLICY "Contributors can delete their own social links"
+  ON public.robot_social_links FOR DELETE USING (
+    auth.uid() = user_id OR
+    public.is_robot_maintainer(robot_id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- File analyses, versions, comments and guide progress
+DROP POLICY IF EXISTS "File analyses are viewable with their files" ON public.robot_file_analyses;
+CREATE POLICY "File analyses are viewable with their files"
+  ON public.robot_file_analyses FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND (public.is_public_robot_status(r.status) OR public.is_robot_maintainer(r.id))
+    )
+  );
+
+DROP POLICY IF EXISTS "File versions are viewable with their files" ON public.robot_file_versions;
+CREATE POLICY "File versions are viewable with their files"
+  ON public.robot_file_versions FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND (public.is_public_robot_status(r.status) OR public.is_robot_maintainer(r.id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Contributors and robot owners can add file versions" ON public.robot_file_versions;
+CREATE POLICY "Contributors and robot owners can add file versions"
+  ON public.robot_file_versions FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND (
+      EXISTS (
+        SELECT 1 FROM public.robot_files rf
+        WHERE rf.id = file_id AND (rf.user_id = auth.uid() OR public.is_robot_maintainer(rf.robot_id))
+      ) OR
+      EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "File comments are viewable with their files" ON public.robot_file_comments;
+CREATE POLICY "File comments are viewable with their files"
+  ON public.robot_file_comments FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      JOIN public.robots r ON r.id = rf.robot_id
+      WHERE rf.id = file_id AND (public.is_public_robot_status(r.status) OR public.is_robot_maintainer(r.id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Authors and file owners can update comments" ON public.robot_file_comments;
+CREATE POLICY "Authors and file owners can update comments"
+  ON public.robot_file_comments FOR UPDATE USING (
+    auth.uid() = user_id OR
+    EXISTS (
+      SELECT 1 FROM public.robot_files rf
+      WHERE rf.id = file_id AND (rf.user_id = auth.uid() OR public.is_robot_maintainer(rf.robot_id))
+    ) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Guide progress is viewable with its robot" ON public.guide_step_progress;
+CREATE POLICY "Guide progress is viewable with its robot"
+  ON public.guide_step_progress FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.robots r
+      WHERE r.id = robot_id AND (public.is_public_robot_status(r.status) OR public.is_robot_maintainer(r.id))
+    )
+  );
+
+-- Robot media
+DROP POLICY IF EXISTS "Signed-in users can contribute media" ON public.robot_media;
+CREATE POLICY "Signed-in users can contribute media"
+  ON public.robot_media FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND (
+      NOT is_cover OR
+      public.is_robot_maintainer(robot_id) OR
+      EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Robot owners and admins can arrange media" ON public.robot_media;
+CREATE POLICY "Robot owners and admins can arrange media"
+  ON public.robot_media FOR UPDATE
+  USING (
+    public.is_robot_maintainer(robot_id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Contributors, robot owners and admins can remove media" ON public.robot_media;
+CREATE POLICY "Contributors, robot owners and admins can remove media"
+  ON public.robot_media FOR DELETE
+  USING (
+    auth.uid() = user_id OR
+    public.is_robot_maintainer(robot_id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- Robot relationships
+DROP POLICY IF EXISTS "Robot owners and admins can add relationships" ON public.robot_relationships;
+CREATE POLICY "Robot owners and admins can add relationships"
+  ON public.robot_relationships FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by AND (
+      public.is_robot_maintainer(robot_id) OR
+      public.is_robot_maintainer(related_robot_id) OR
+      EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Robot owners and admins can remove relationships" ON public.robot_relationships;
+CREATE POLICY "Robot owners and admins can remove relationships"
+  ON public.robot_relationships FOR DELETE
+  USING (
+    public.is_robot_maintainer(robot_id) OR
+    public.is_robot_maintainer(related_robot_id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot maintainers and ownership transfer';
+END $$;
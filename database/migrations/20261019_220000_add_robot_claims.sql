@@ -0,0 +1,202 @@
+-- ============================================================================
+-- MIGRATION: Add Robot Claims
+-- Version: 1.14.0
+-- Date: 2026-10-19
+--
+-- Description: Lets the real authors of a robot listed by someone else claim
+-- it. The verify-claim API checks the claimant's GitHub username against the
+-- repository owner and collaborators, or looks for a verification file with
+-- the claim token in the repository. Verified claims on robots listed by an
+-- admin are approved automatically; everything else is contested and waits
+-- for an admin. Approving a claim makes the claimant the owner.
+-- profiles.github_username comes from GitHub sign-in and is now read-only for
+-- non-admins, since claims trust it.
+-- Rollback: DROP TABLE public.robot_claims;
+--   DROP FUNCTION public.handle_robot_claim() CASCADE;
+--   DROP FUNCTION public.protect_profile_github_username() CASCADE;
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.robot_claims (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    robot_id uuid REFERENCES public.robots(id) ON DELETE CASCADE NOT NULL,
+    claimant_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    status text NOT NULL DEFAULT 'pending'
+      CHECK (status IN ('pending', 'contested', 'approved', 'rejected', 'withdrawn')),
+    -- How the claim was verified; null until it is
+    method text CHECK (method IN ('github_owner', 'github_collaborator', 'verification_file')),
+    verified_at timestamptz,
+    verification_token text NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', ''),
+    message text CHECK (char_length(message) <= 1000),
+    review_notes text,
+    reviewed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    reviewed_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_robot_claims_robot_id ON public.robot_claims(robot_id);
+CREATE INDEX IF NOT EXISTS idx_robot_claims_contested
+  ON public.robot_claims(created_at) WHERE status = 'contested';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_robot_claims_one_open
+  ON public.robot_claims(robot_id, claimant_id) WHERE status IN ('pending', 'contested');
+
+DROP TRIGGER IF EXISTS handle_robot_claims_updated_at ON public.robot_claims;
+CREATE TRIGGER handle_robot_claims_updated_at
+  BEFORE UPDATE ON public.robot_claims
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE OR REPLACE FUNCTION public.handle_robot_claim()
+RETURNS TRIGGER AS $$
+DECLARE
+  is_admin boolean := EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+  );
+  previous_owner uuid;
+BEGIN
+  -- Signed-in non-admins (the claimant) can only ask for review or withdraw;
+  -- verification is written by the server and decisions by admins
+  IF auth.uid() IS NOT NULL AND NOT is_admin THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.status := 'pending';
+      NEW.method := NULL;
+      NEW.verified_at := NULL;
+      NEW.review_notes := NULL;
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+      RETURN NEW;
+    END IF;
+
+    -- Only the status moves, plus the note sent when asking for review;
+    -- reviewed_by may only be cleared when that admin is deleted
+    IF NEW.robot_id IS DISTINCT FROM OLD.robot_id
+      OR NEW.claimant_id IS DISTINCT FROM OLD.claimant_id
+      OR NEW.method IS DISTINCT FROM OLD.method
+      OR NEW.verified_at IS DISTINCT FROM OLD.verified_at
+      OR NEW.verification_token IS DISTINCT FROM OLD.verification_token
+      OR NEW.review_notes IS DISTINCT FROM OLD.review_notes
+      OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+      OR NEW.created_at IS DISTINCT FROM OLD.created_at
+      OR (NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by AND NEW.reviewed_by IS NOT NULL)
+      OR (NEW.message IS DISTINCT FROM OLD.message
+        AND NOT (OLD.status = 'pending' AND NEW.status = 'contested')) THEN
+      RAISE EXCEPTION 'Only the status of a claim can change';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('contested', 'withdrawn')) OR
+      (OLD.status = 'contested' AND NEW.status = 'withdrawn')
+    ) THEN
+      RAISE EXCEPTION 'Claims can only be sent for review or withdrawn';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('approved', 'rejected') THEN
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+
+    IF NEW.status = 'approved' THEN
+      SELECT creator_id INTO previous_owner FROM public.robots WHERE id = NEW.robot_id;
+
+      -- robots_sync_owner makes the previous owner a maintainer
+      UPDATE public.robots SET creator_id = NEW.claimant_id WHERE id = NEW.robot_id;
+
+      -- Admins who listed the robot on the author's behalf step back
+      DELETE FROM public.robot_maintainers
+      WHERE robot_id = NEW.robot_id AND user_id = previous_owner
+        AND previous_owner <> NEW.claimant_id
+        AND EXISTS (
+          SELECT 1 FROM public.profiles
+          WHERE profiles.id = previous_owner AND profiles.role = 'admin'
+        );
+
+      -- Other open claims on the robot are settled by this one
+      UPDATE public.robot_claims
+      SET status = 'rejected', review_notes = 'Another claim on this robot was approved.'
+      WHERE robot_id = NEW.robot_id AND id <> NEW.id AND status IN ('pending', 'contested');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robot_claims_handle ON public.robot_claims;
+CREATE TRIGGER robot_claims_handle
+  BEFORE INSERT OR UPDATE ON public.robot_claims
+  FOR EACH ROW EXECUTE FUNCTION public.handle_robot_claim();
+
+-- GitHub usernames come from sign-in; claims rely on them
+CREATE OR REPLACE FUNCTION public.protect_profile_github_username()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.github_username IS DISTINCT FROM OLD.github_username
+    AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    ) THEN
+    NEW.github_username := OLD.github_username;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS profiles_protect_github_username ON public.profiles;
+CREATE TRIGGER profiles_protect_github_username
+  BEFORE UPDATE OF github_username ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_github_username();
+
+ALTER TABLE public.robot_claims ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Claims are viewable by claimants, maintainers and admins" ON public.robot_claims;
+CREATE POLICY "Claims are viewable by claimants, maintainers and admins"
+  ON public.robot_claims FOR SELECT
+  USING (
+    auth.uid() = claimant_id OR
+    public.is_robot_maintainer(robot_id) OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Signed-in users can claim robots they don't maintain" ON public.robot_claims;
+CREATE POLICY "Signed-in users can claim robots they don't maintain"
+  ON public.robot_claims FOR INSERT
+  WITH CHECK (
+    auth.uid() = claimant_id AND
+    NOT public.is_robot_maintainer(robot_id)
+  );
+
+DROP POLICY IF EXISTS "Claimants and admins can update claims" ON public.robot_claims;
+CREATE POLICY "Claimants and admins can update claims"
+  ON public.robot_claims FOR UPDATE
+  USING (
+    auth.uid() = claimant_id OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    auth.uid() = claimant_id OR
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot claims';
+END $$;
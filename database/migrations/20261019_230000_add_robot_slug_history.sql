@@ -0,0 +1,110 @@
+-- ============================================================================
+-- MIGRATION: Add Robot Slug History
+-- Version: 1.15.0
+-- Date: 2026-10-19
+--
+-- Description: Keeps the slugs a robot had before it was renamed so
+-- /robots/[slug] can permanently redirect old links. Retired slugs stay
+-- reserved for their robot. robot_slugs_taken() lists the slugs in use for
+-- a base slug, including robots hidden by RLS, so the app can pick a free
+-- numeric suffix.
+-- Rollback: DROP TABLE public.robot_slug_history;
+--   DROP FUNCTION public.record_robot_slug_change() CASCADE;
+--   DROP FUNCTION public.check_robot_slug_available() CASCADE;
+--   DROP FUNCTION public.robot_slugs_taken(text, uuid);
+-- ============================================================================
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.robot_slug_history (
+    slug text PRIMARY KEY,
+    robot_id uuid REFERENCES public.robots(id) ON DELETE CASCADE NOT NULL,
+    created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_robot_slug_history_robot_id ON public.robot_slug_history(robot_id);
+
+-- Retired slugs keep pointing at their robot
+CREATE OR REPLACE FUNCTION public.check_robot_slug_available()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.robot_slug_history
+    WHERE slug = NEW.slug AND robot_id <> NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Slug "%" was used by another robot', NEW.slug
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robots_check_slug_available ON public.robots;
+CREATE TRIGGER robots_check_slug_available
+  BEFORE INSERT OR UPDATE OF slug ON public.robots
+  FOR EACH ROW EXECUTE FUNCTION public.check_robot_slug_available();
+
+CREATE OR REPLACE FUNCTION public.record_robot_slug_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- A robot going back to an old slug takes it out of its history
+  DELETE FROM public.robot_slug_history WHERE slug = NEW.slug;
+
+  INSERT INTO public.robot_slug_history (slug, robot_id)
+  VALUES (OLD.slug, NEW.id)
+  ON CONFLICT (slug) DO UPDATE SET robot_id = EXCLUDED.robot_id, created_at = now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS robots_record_slug_change ON public.robots;
+CREATE TRIGGER robots_record_slug_change
+  AFTER UPDATE OF slug ON public.robots
+  FOR EACH ROW
+  WHEN (OLD.slug IS DISTINCT FROM NEW.slug)
+  EXECUTE FUNCTION public.record_robot_slug_change();
+
+-- Slugs equal to base_slug or base_slug-N, current or retired, except the
+-- given robot's own. base_slug comes from callers, so it's checked against
+-- the slug alphabet (which has no LIKE wildcards) rather than spliced into a
+-- pattern as is.
+CREATE OR REPLACE FUNCTION public.robot_slugs_taken(base_slug text, for_robot uuid DEFAULT NULL)
+RETURNS SETOF text AS $$
+BEGIN
+  IF base_slug IS NULL OR base_slug !~ '^[a-z0-9-]+$' THEN
+    RAISE EXCEPTION 'Invalid slug "%"', base_slug;
+  END IF;
+
+  RETURN QUERY
+  SELECT r.slug FROM public.robots r
+  WHERE (r.slug = base_slug OR (
+      r.slug LIKE base_slug || '-%' AND
+      substring(r.slug FROM length(base_slug) + 2) ~ '^[0-9]+$'
+    ))
+    AND r.id IS DISTINCT FROM for_robot
+  UNION
+  SELECT h.slug FROM public.robot_slug_history h
+  WHERE (h.slug = base_slug OR (
+      h.slug LIKE base_slug || '-%' AND
+      substring(h.slug FROM length(base_slug) + 2) ~ '^[0-9]+$'
+    ))
+    AND h.robot_id IS DISTINCT FROM for_robot;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.robot_slug_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Slug history is viewable by everyone" ON public.robot_slug_history;
+CREATE POLICY "Slug history is viewable by everyone"
+  ON public.robot_slug_history FOR SELECT
+  USING (true);
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added robot slug history';
+END $$;
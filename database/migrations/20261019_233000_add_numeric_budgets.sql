@@ -0,0 +1,114 @@
+-- ============================================================================
+-- MIGRATION: Add Numeric Budgets
+-- Version: 1.16.0
+-- Date: 2026-10-19
+--
+-- Description: Robots and reviews store their budget as a min/max amount and
+-- a currency next to the budget label, so robots can be sorted and filtered
+-- by price. budget_max is null for open-ended budgets ("$100K+"). Existing
+-- budgets are backfilled from the preset labels, which are all USD. Admins
+-- maintain the exchange_rates table used to compare and convert EUR, GBP and
+-- CNY amounts.
+-- Rollback: DROP TABLE public.exchange_rates;
+--   ALTER TABLE public.robots DROP COLUMN budget_min, DROP COLUMN budget_max,
+--     DROP COLUMN budget_currency;
+--   ALTER TABLE public.reviews DROP COLUMN budget_min, DROP COLUMN budget_max,
+--     DROP COLUMN budget_currency;
+-- ============================================================================
+
+BEGIN;
+
+ALTER TABLE public.robots ADD COLUMN IF NOT EXISTS budget_min numeric(12,2) CHECK (budget_min >= 0);
+ALTER TABLE public.robots ADD COLUMN IF NOT EXISTS budget_max numeric(12,2);
+ALTER TABLE public.robots ADD COLUMN IF NOT EXISTS budget_currency text NOT NULL DEFAULT 'USD'
+  CHECK (budget_currency IN ('USD', 'EUR', 'GBP', 'CNY'));
+
+ALTER TABLE public.robots DROP CONSTRAINT IF EXISTS robots_budget_range_check;
+ALTER TABLE public.robots ADD CONSTRAINT robots_budget_range_check
+  CHECK (budget_max IS NULL OR budget_max >= budget_min);
+
+-- Reviews leave the amount out entirely or give at least a minimum and its
+-- currency. Without an amount the currency means nothing, so the app may
+-- still write the USD default there, as it has to for robots.
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS budget_min numeric(12,2) CHECK (budget_min >= 0);
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS budget_max numeric(12,2);
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS budget_currency text
+  CHECK (budget_currency IN ('USD', 'EUR', 'GBP', 'CNY'));
+
+ALTER TABLE public.reviews DROP CONSTRAINT IF EXISTS reviews_budget_range_check;
+ALTER TABLE public.reviews ADD CONSTRAINT reviews_budget_range_check
+  CHECK (
+    (budget_min IS NULL AND budget_max IS NULL) OR
+    (budget_min IS NOT NULL AND budget_currency IS NOT NULL AND
+      (budget_max IS NULL OR budget_max >= budget_min))
+  );
+
+CREATE INDEX IF NOT EXISTS idx_robots_budget_min ON public.robots(budget_min);
+
+-- Preset labels and their USD bounds, mirroring BUDGET_RANGES
+CREATE TEMP TABLE budget_presets (label text PRIMARY KEY, min_usd numeric, max_usd numeric) ON COMMIT DROP;
+INSERT INTO budget_presets VALUES
+  ('Less than $500', 0, 500),
+  ('$500-$1,000', 500, 1000),
+  ('$1,000-$2,000', 1000, 2000),
+  ('$2,000-$3,000', 2000, 3000),
+  ('$3,000-$5,000', 3000, 5000),
+  ('$5,000-$10,000', 5000, 10000),
+  ('$10K-$20K', 10000, 20000),
+  ('$20K-$50K', 20000, 50000),
+  ('$50K-$100K', 50000, 100000),
+  ('$100K+', 100000, NULL);
+
+UPDATE public.robots
+SET budget_min = p.min_usd, budget_max = p.max_usd, budget_currency = 'USD'
+FROM budget_presets p
+WHERE robots.budget = p.label AND robots.budget_min IS NULL;
+
+UPDATE public.reviews
+SET budget_min = p.min_usd, budget_max = p.max_usd, budget_currency = 'USD'
+FROM budget_presets p
+WHERE reviews.budget = p.label AND reviews.budget_min IS NULL;
+
+-- USD value of one unit of each currency
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+    currency text PRIMARY KEY CHECK (currency IN ('EUR', 'GBP', 'CNY')),
+    usd_per_unit numeric(12,6) NOT NULL CHECK (usd_per_unit > 0),
+    updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+INSERT INTO public.exchange_rates (currency, usd_per_unit) VALUES
+  ('EUR', 1.08),
+  ('GBP', 1.27),
+  ('CNY', 0.14)
+ON CONFLICT (currency) DO NOTHING;
+
+DROP TRIGGER IF EXISTS handle_exchange_rates_updated_at ON public.exchange_rates;
+CREATE TRIGGER handle_exchange_rates_updated_at
+  BEFORE UPDATE ON public.exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Exchange rates are viewable by everyone" ON public.exchange_rates;
+CREATE POLICY "Exchange rates are viewable by everyone"
+  ON public.exchange_rates FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage exchange rates" ON public.exchange_rates;
+CREATE POLICY "Admins can manage exchange rates"
+  ON public.exchange_rates FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+COMMIT;
+
+-- Success message
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration completed: Added numeric budgets and exchange rates';
+END $$;
@@ -0,0 +1,401 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { redirect } from 'next/navigation'
+import useSWR from 'swr'
+import { supabase } from '@/lib/supabase'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import Link from '@/components/ui/link'
+import { CategorySelect } from '@/components/CategorySelect'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { ArrowLeft, FolderTree, Pencil, Plus, Trash2, Loader2, AlertTriangle } from 'lucide-react'
+import { useRobotCategories } from '@/lib/robot-data'
+import {
+  buildCategoryTree,
+  flattenCategoryTree,
+  getParentCandidates,
+} from '@/lib/robot-categories'
+import { generateSlug } from '@/lib/robotFormUtils'
+import type { RobotCategory } from '@/lib/types'
+
+interface CategoryFormState {
+  id: string | null
+  name: string
+  slug: string
+  slugEdited: boolean
+  parent_id: string
+  description: string
+  sort_order: string
+}
+
+const emptyForm = (parentId = 'none'): CategoryFormState => ({
+  id: null,
+  name: '',
+  slug: '',
+  slugEdited: false,
+  parent_id: parentId,
+  description: '',
+  sort_order: '0'
+})
+
+const categoryRobotCountsFetcher = async () => {
+  const { data, error } = await supabase
+    .from('robots')
+    .select('category_id')
+
+  if (error) {
+    throw new Error(`Failed to fetch robot categories: ${error.message}`)
+  }
+
+  const counts: Record<string, number> = {}
+  for (const robot of data || []) {
+    if (robot.category_id) {
+      counts[robot.category_id] = (counts[robot.category_id] || 0) + 1
+    }
+  }
+  return counts
+}
+
+export default function AdminCategoriesPage() {
+  const { user, profile, loading } = useAuth()
+  const [form, setForm] = useState<CategoryFormState | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { data: categories = [], error, isLoading, mutate: mutateCategories } = useRobotCategories()
+  const { data: robotCounts = {} } = useSWR('admin-category-robot-counts', categoryRobotCountsFetcher, {
+    revalidateOnFocus: false,
+    dedupingInterval: 10000
+  })
+
+  const rows = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories])
+
+  // Redirect if not admin
+  if (!loading && (!user || profile?.role !== 'admin')) {
+    redirect('/')
+  }
+
+  const openEdit = (category: RobotCategory) => {
+    setFormError(null)
+    setForm({
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      slugEdited: true,
+      parent_id: category.parent_id || 'none',
+      description: category.description || '',
+      sort_order: String(category.sort_order)
+    })
+  }
+
+  const openCreate = (parentId?: string) => {
+    setFormError(null)
+    setForm(emptyForm(parentId))
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+
+    const name = form.name.trim()
+    const slug = generateSlug(form.slug)
+    if (!name || !slug) {
+      setFormError('Name and slug are required.')
+      return
+    }
+
+    const values = {
+      name,
+      slug,
+      parent_id: form.parent_id === 'none' ? null : form.parent_id,
+      description: form.description.trim() || null,
+      sort_order: Number(form.sort_order) || 0
+    }
+
+    setIsSaving(true)
+    setFormError(null)
+
+    try {
+      const { error } = form.id
+        ? await supabase.from('robot_categories').update(values).eq('id', form.id)
+        : await supabase.from('robot_categories').insert(values)
+
+      if (error) throw error
+
+      await mutateCategories()
+      setForm(null)
+    } catch (error: any) {
+      console.error('❌ Error saving category:', error)
+      if (error.message?.includes('duplicate key')) {
+        setFormError('Another category already uses this slug, or a sibling has the same name.')
+      } else {
+        setFormError(error.message || 'Failed to save category.')
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (category: RobotCategory) => {
+    try {
+      const { error } = await supabase
+        .from('robot_categories')
+        .delete()
+        .eq('id', category.id)
+
+      if (error) throw error
+
+      await mutateCategories()
+    } catch (error: any) {
+      console.error('❌ Error deleting category:', error)
+      alert(`Failed to delete category: ${error.message}`)
+    }
+  }
+
+  if (loading || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-6"></div>
+          <div className="space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-destructive" />
+          <h2 className="text-2xl font-bold mb-2">Failed to Load Categories</h2>
+          <p className="text-muted-foreground mb-6">{error.message}</p>
+          <Button onClick={() => window.location.reload()}>Try Again</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const parentOptions = form ? getParentCandidates(categories, form.id) : []
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+            <Link href="/admin">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Admin Dashboard
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold flex items-center gap-3">
+            <FolderTree className="h-8 w-8 text-primary" />
+            Robot Categories
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            The category tree robots are filed and browsed under
+          </p>
+        </div>
+        <Button onClick={() => openCreate()}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Category
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Categories ({categories.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No categories yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Slug</TableHead>
+                  <TableHead className="text-right">Robots</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ category, depth }) => {
+                  const hasChildren = categories.some(child => child.parent_id === category.id)
+                  const robotCount = robotCounts[category.id] || 0
+
+                  return (
+                    <TableRow key={category.id}>
+                      <TableCell>
+                        <div style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                          <div className="font-medium">{category.name}</div>
+                          {category.description && (
+                            <div className="text-xs text-muted-foreground">{category.description}</div>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{category.slug}</TableCell>
+                      <TableCell className="text-right">{robotCount}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openCreate(category.id)} title="Add subcategory">
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(category)} title="Edit">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={hasChildren}
+                                title={hasChildren ? 'Move or delete its subcategories first' : 'Delete'}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete {category.name}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {robotCount > 0
+                                    ? `${robotCount} robot${robotCount === 1 ? '' : 's'} will be left without a primary category.`
+                                    : 'No robots are filed under this category.'}
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(category)}>
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit */}
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit Category' : 'New Category'}</DialogTitle>
+            <DialogDescription>
+              Categories can be nested; robots filed under a subcategory also show up in its parents.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="category-name">Name</Label>
+                <Input
+                  id="category-name"
+                  value={form.name}
+                  onChange={(e) => setForm({
+                    ...form,
+                    name: e.target.value,
+                    slug: form.slugEdited ? form.slug : generateSlug(e.target.value)
+                  })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="category-slug">Slug</Label>
+                <Input
+                  id="category-slug"
+                  value={form.slug}
+                  onChange={(e) => setForm({ ...form, slug: e.target.value.toLowerCase(), slugEdited: true })}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Used in browse URLs: /robots?category={form.slug || 'slug'}
+                </p>
+              </div>
+              <div>
+                <Label>Parent</Label>
+                <CategorySelect
+                  categories={parentOptions}
+                  value={form.parent_id}
+                  onValueChange={(value) => setForm({ ...form, parent_id: value })}
+                  noneLabel="None (top level)"
+                />
+              </div>
+              <div>
+                <Label htmlFor="category-description">Description</Label>
+                <Textarea
+                  id="category-description"
+                  rows={2}
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="category-sort-order">Sort order</Label>
+                <Input
+                  id="category-sort-order"
+                  type="number"
+                  value={form.sort_order}
+                  onChange={(e) => setForm({ ...form, sort_order: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Lower numbers come first among siblings
+                </p>
+              </div>
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
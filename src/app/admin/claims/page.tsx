@@ -0,0 +1,310 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { redirect } from 'next/navigation'
+import useSWR from 'swr'
+import { supabase } from '@/lib/supabase'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import Link from '@/components/ui/link'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft, BadgeCheck, Check, X, Loader2, AlertTriangle } from 'lucide-react'
+import { CLAIM_METHOD_LABELS } from '@/lib/robot-claims'
+import type { Profile, Robot, RobotClaim } from '@/lib/types'
+
+type ClaimProfile = Pick<Profile, 'id' | 'username' | 'full_name' | 'github_username'>
+
+type ContestedClaim = RobotClaim & {
+  claimant: ClaimProfile | null
+  robots: (Pick<Robot, 'id' | 'name' | 'slug' | 'github_url'> & {
+    profiles: ClaimProfile | null
+  }) | null
+}
+
+const contestedClaimsFetcher = async (): Promise<ContestedClaim[]> => {
+  const { data, error } = await supabase
+    .from('robot_claims')
+    .select(`
+      *,
+      claimant:profiles!robot_claims_claimant_id_fkey (id, username, full_name, github_username),
+      robots (
+        id,
+        name,
+        slug,
+        github_url,
+        profiles (id, username, full_name, github_username)
+      )
+    `)
+    .eq('status', 'contested')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch claims: ${error.message}`)
+  }
+
+  return (data || []) as unknown as ContestedClaim[]
+}
+
+function ProfileCell({ profile }: { profile: ClaimProfile | null }) {
+  if (!profile) {
+    return <span className="text-muted-foreground">Unknown</span>
+  }
+
+  return (
+    <div>
+      <div className="font-medium">{profile.full_name || profile.username || 'Unnamed'}</div>
+      {profile.github_username && (
+        <a
+          href={`https://github.com/${profile.github_username}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-muted-foreground hover:text-primary"
+        >
+          @{profile.github_username}
+        </a>
+      )}
+    </div>
+  )
+}
+
+export default function AdminClaimsPage() {
+  const { user, profile, loading } = useAuth()
+  const [rejecting, setRejecting] = useState<ContestedClaim | null>(null)
+  const [rejectNotes, setRejectNotes] = useState('')
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  const { data: claims = [], error, isLoading, mutate } = useSWR('admin-contested-claims', contestedClaimsFetcher, {
+    revalidateOnFocus: false,
+    dedupingInterval: 10000
+  })
+
+  // Redirect if not admin
+  if (!loading && (!user || profile?.role !== 'admin')) {
+    redirect('/')
+  }
+
+  const decide = async (claim: ContestedClaim, status: 'approved' | 'rejected', notes?: string) => {
+    setUpdatingId(claim.id)
+
+    try {
+      // Approving hands the robot over in public.handle_robot_claim
+      const { error } = await supabase
+        .from('robot_claims')
+        .update({ status, review_notes: notes?.trim() || null })
+        .eq('id', claim.id)
+
+      if (error) throw error
+
+      await mutate()
+      setRejecting(null)
+      setRejectNotes('')
+    } catch (error: any) {
+      console.error('❌ Error deciding claim:', error)
+      alert(`Failed to update claim: ${error.message}`)
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  if (loading || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-6"></div>
+          <div className="space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-destructive" />
+          <h2 className="text-2xl font-bold mb-2">Failed to Load Claims</h2>
+          <p className="text-muted-foreground mb-6">{error.message}</p>
+          <Button onClick={() => window.location.reload()}>Try Again</Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+          <Link href="/admin">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Admin Dashboard
+          </Link>
+        </Button>
+        <h1 className="text-4xl font-bold flex items-center gap-3">
+          <BadgeCheck className="h-8 w-8 text-primary" />
+          Robot Claims
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Claims on robots owned by another member, or that couldn&apos;t be verified through GitHub
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Waiting for a Decision ({claims.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {claims.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No claims to review.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Robot</TableHead>
+                  <TableHead>Claimed by</TableHead>
+                  <TableHead>Current owner</TableHead>
+                  <TableHead>Verification</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {claims.map(claim => (
+                  <TableRow key={claim.id}>
+                    <TableCell>
+                      {claim.robots ? (
+                        <div>
+                          <Link href={`/robots/${claim.robots.slug}`} className="font-medium hover:text-primary">
+                            {claim.robots.name}
+                          </Link>
+                          {claim.robots.github_url && (
+                            <a
+                              href={claim.robots.github_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="block text-xs text-muted-foreground hover:text-primary break-all"
+                            >
+                              {claim.robots.github_url.replace('https://github.com/', '')}
+                            </a>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Deleted robot</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <ProfileCell profile={claim.claimant} />
+                      {claim.message && (
+                        <p className="text-xs text-muted-foreground mt-1 max-w-xs whitespace-pre-line">
+                          &ldquo;{claim.message}&rdquo;
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <ProfileCell profile={claim.robots?.profiles || null} />
+                    </TableCell>
+                    <TableCell>
+                      {claim.method ? (
+                        <Badge variant="default">{CLAIM_METHOD_LABELS[claim.method]}</Badge>
+                      ) : (
+                        <Badge variant="outline">Not verified</Badge>
+                      )}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {new Date(claim.created_at).toLocaleDateString()}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={updatingId === claim.id}
+                          onClick={() => {
+                            if (confirm(`Make this claimant the owner of ${claim.robots?.name || 'this robot'}?`)) {
+                              decide(claim, 'approved')
+                            }
+                          }}
+                          title="Approve and transfer ownership"
+                        >
+                          {updatingId === claim.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Check className="h-4 w-4 text-green-600" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={updatingId === claim.id}
+                          onClick={() => setRejecting(claim)}
+                          title="Reject"
+                        >
+                          <X className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject claim</DialogTitle>
+            <DialogDescription>
+              The claimant sees your notes. {rejecting?.robots?.name} stays with its current owner.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-notes">Notes</Label>
+            <Textarea
+              id="reject-notes"
+              value={rejectNotes}
+              onChange={(e) => setRejectNotes(e.target.value)}
+              placeholder="Why the claim was rejected"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectNotes.trim() || updatingId === rejecting?.id}
+              onClick={() => rejecting && decide(rejecting, 'rejected', rejectNotes)}
+            >
+              Reject Claim
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
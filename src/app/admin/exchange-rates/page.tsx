@@ -0,0 +1,193 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { redirect } from 'next/navigation'
+import useSWR, { mutate as globalMutate } from 'swr'
+import { supabase } from '@/lib/supabase'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import Link from '@/components/ui/link'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ArrowLeft, Coins, Save, Loader2, AlertTriangle } from 'lucide-react'
+import { formatCurrency } from '@/lib/budget-config'
+import type { ExchangeRate } from '@/lib/types'
+
+const exchangeRatesFetcher = async (): Promise<ExchangeRate[]> => {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('*')
+    .order('currency', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch exchange rates: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export default function AdminExchangeRatesPage() {
+  const { user, profile, loading } = useAuth()
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [savingCurrency, setSavingCurrency] = useState<string | null>(null)
+
+  const { data: rates = [], error, isLoading, mutate } = useSWR('admin-exchange-rates', exchangeRatesFetcher, {
+    revalidateOnFocus: false
+  })
+
+  // Redirect if not admin
+  if (!loading && (!user || profile?.role !== 'admin')) {
+    redirect('/')
+  }
+
+  const handleSave = async (rate: ExchangeRate) => {
+    const value = Number(drafts[rate.currency])
+    if (!Number.isFinite(value) || value <= 0) {
+      alert('Enter a positive number of US dollars per unit.')
+      return
+    }
+
+    setSavingCurrency(rate.currency)
+
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .update({ usd_per_unit: value, updated_by: user!.id })
+        .eq('currency', rate.currency)
+
+      if (error) throw error
+
+      setDrafts((current) => {
+        const next = { ...current }
+        delete next[rate.currency]
+        return next
+      })
+      await mutate()
+      // Budgets across the site convert with the cached rates
+      await globalMutate('exchange-rates')
+    } catch (error: any) {
+      console.error('❌ Error updating exchange rate:', error)
+      alert(`Failed to update exchange rate: ${error.message}`)
+    } finally {
+      setSavingCurrency(null)
+    }
+  }
+
+  if (loading || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-6"></div>
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-destructive" />
+          <h2 className="text-2xl font-bold mb-2">Failed to Load Exchange Rates</h2>
+          <p className="text-muted-foreground mb-6">{error.message}</p>
+          <Button onClick={() => window.location.reload()}>Try Again</Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+          <Link href="/admin">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Admin Dashboard
+          </Link>
+        </Button>
+        <h1 className="text-4xl font-bold flex items-center gap-3">
+          <Coins className="h-8 w-8 text-primary" />
+          Exchange Rates
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Budgets in other currencies are converted to US dollars with these rates for the price filter and sorting
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rates ({rates.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead>US dollars per unit</TableHead>
+                <TableHead>Example</TableHead>
+                <TableHead>Last updated</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map(rate => {
+                const draft = drafts[rate.currency]
+                const value = draft ?? String(rate.usd_per_unit)
+
+                return (
+                  <TableRow key={rate.currency}>
+                    <TableCell className="font-medium">{rate.currency}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={value}
+                        onChange={(e) => setDrafts({ ...drafts, [rate.currency]: e.target.value })}
+                        className="w-32"
+                        aria-label={`US dollars per ${rate.currency}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {formatCurrency(1000, rate.currency)} ≈ {formatCurrency(1000 * (Number(value) || 0), 'USD')}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {new Date(rate.updated_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        disabled={draft === undefined || savingCurrency === rate.currency}
+                        onClick={() => handleSave(rate)}
+                      >
+                        {savingCurrency === rate.currency ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Save className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -18,21 +18,33 @@ import {
   MessageSquare,
   Shield,
   AlertTriangle,
+  FolderTree,
+  BadgeCheck,
+  Coins,
 } from "lucide-react";
 import useSWR from "swr";
 import { supabase } from "@/lib/supabase";
+import { isPublicRobotStatus } from "@/lib/robot-moderation";
 
 const adminStatsFetcher = async () => {
-  const [robotsResult, usersResult, reviewsResult] = await Promise.all([
-    supabase.from("robots").select("id, status").eq("status", "published"),
+  const [robotsResult, usersResult, reviewsResult, claimsResult] = await Promise.all([
+    supabase.from("robots").select("id, status"),
     supabase.from("profiles").select("id, role"),
     supabase.from("reviews").select("id"),
+    supabase
+      .from("robot_claims")
+      .select("id", { count: "exact", head: true })
+      .eq("status", "contested"),
   ]);
 
   return {
-    totalRobots: robotsResult.data?.length || 0,
+    totalRobots:
+      robotsResult.data?.filter((r) => isPublicRobotStatus(r.status)).length || 0,
+    pendingReview:
+      robotsResult.data?.filter((r) => r.status === "pending_review").length || 0,
     totalUsers: usersResult.data?.length || 0,
     totalReviews: reviewsResult.data?.length || 0,
+    contestedClaims: claimsResult.count || 0,
     creators:
       usersResult.data?.filter(
         (u) => u.role === "creator" || u.role === "admin"
@@ -115,7 +127,9 @@ export default function AdminDashboard() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats?.totalRobots || 0}</div>
-            <p className="text-xs text-muted-foreground">Published robots</p>
+            <p className="text-xs text-muted-foreground">
+              Published robots · {stats?.pendingReview || 0} pending review
+            </p>
           </CardContent>
         </Card>
 
@@ -153,6 +167,9 @@ export default function AdminDashboard() {
               <CardTitle className="flex items-center gap-2">
                 <Bot className="h-5 w-5" />
                 Manage Robots
+                {!!stats?.pendingReview && (
+                  <Badge variant="secondary">{stats.pendingReview} to review</Badge>
+                )}
               </CardTitle>
               <CardDescription>
                 View, edit, and manage all robot entries
@@ -204,6 +221,66 @@ export default function AdminDashboard() {
           </Link>
         </Card>
 
+        <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+          <Link href="/admin/categories">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FolderTree className="h-5 w-5" />
+                Manage Categories
+              </CardTitle>
+              <CardDescription>
+                Maintain the robot category tree
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Add, rename, nest and remove the categories robots are browsed by
+              </p>
+            </CardContent>
+          </Link>
+        </Card>
+
+        <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+          <Link href="/admin/claims">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BadgeCheck className="h-5 w-5" />
+                Robot Claims
+                {!!stats?.contestedClaims && (
+                  <Badge variant="secondary">{stats.contestedClaims} to review</Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                Decide claims that couldn&apos;t be approved automatically
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Hand robots over to the people behind their repositories
+              </p>
+            </CardContent>
+          </Link>
+        </Card>
+
+        <Card className="hover:shadow-lg transition-shadow cursor-pointer">
+          <Link href="/admin/exchange-rates">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Coins className="h-5 w-5" />
+                Exchange Rates
+              </CardTitle>
+              <CardDescription>
+                Keep currency conversions for budgets up to date
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Used to compare EUR, GBP and CNY budgets on the price filter
+              </p>
+            </CardContent>
+          </Link>
+        </Card>
+
       </div>
     </div>
   );
@@ -9,7 +9,13 @@ import { Bot, ArrowLeft, Save, Loader2, AlertTriangle } from 'lucide-react'
 import Link from '@/components/ui/link'
 import { RobotForm } from '@/components/forms/RobotForm'
 import { useRobotForm } from '@/hooks/useRobotForm'
-import { generateSlug } from '@/lib/robotFormUtils'
+import { allocateRobotSlug } from '@/lib/robot-data'
+import { normalizeRobotSpecs } from '@/lib/robot-specs'
+import { toBudgetColumns } from '@/lib/budget-config'
+import { getStatusAfterOwnerEdit, isPublicRobotStatus } from '@/lib/robot-moderation'
+import { RobotReviewStatus } from '@/components/RobotReviewStatus'
+import { RobotMaintainers } from '@/components/RobotMaintainers'
+import { maintainerLinksFilter } from '@/lib/robot-maintainers'
 import { mutate } from 'swr'
 
 export default function EditRobotPage() {
@@ -69,28 +75,14 @@ export default function EditRobotPage() {
     console.log('⏳ Starting update process...')
 
     try {
-      const newSlug = generateSlug(formData.name)
+      // Renames move the robot to a new slug; the old one keeps redirecting
+      const newSlug = await allocateRobotSlug(formData.name, robotData?.robot)
       console.log('📝 Generated slug:', newSlug)
-      
-      // Check if slug already exists (excluding current robot)
-      const { data: existingRobot, error: slugCheckError } = await supabase
-        .from('robots')
-        .select('id')
-        .eq('slug', newSlug)
-        .neq('id', robotId)
-        .single()
-
-      if (slugCheckError && slugCheckError.code !== 'PGRST116') {
-        // PGRST116 is "not found" which is what we want
-        throw slugCheckError
-      }
 
-      if (existingRobot) {
-        console.warn('⚠️ Slug conflict:', newSlug)
-        alert('A robot with this name already exists. Please choose a different name.')
-        setIsSubmitting(false)
-        return
-      }
+      // Owners editing after a review resubmit the robot; admins keep it as is
+      const status = profile?.role === 'admin'
+        ? formData.status
+        : getStatusAfterOwnerEdit(formData.status)
 
       // Update the robot
       const { error } = await supabase
@@ -101,8 +93,10 @@ export default function EditRobotPage() {
           description: formData.description.trim(),
           github_url: formData.github_url.trim() || null,
           image_url: formData.image_url.trim() || null,
-          budget: formData.budget.trim(),
-          status: formData.status,
+          ...toBudgetColumns(formData.budget),
+          specs: normalizeRobotSpecs(formData.specs),
+          category_id: formData.category_id || null,
+          status,
           tags,
           updated_at: new Date().toISOString()
         })
@@ -111,10 +105,9 @@ export default function EditRobotPage() {
       if (error) throw error
 
       // Update social links - only update if they actually changed
-      // Compare current social links with existing ones from the robot creator
-      const existingCreatorLinks = robotData?.socialLinks?.filter(link => 
-        link.user_id === user?.id || link.user_id === null
-      ) || []
+      // Compare current social links with the existing ones from the robot's maintainers
+      const maintainerIds = robotData?.maintainerIds || []
+      const existingCreatorLinks = robotData?.socialLinks || []
       
       // Normalize both arrays for comparison (remove id and timestamps)
       const normalizeLink = (link: any) => ({
@@ -138,12 +131,12 @@ export default function EditRobotPage() {
       if (socialLinksChanged) {
         console.log('🔗 Social links changed, updating...')
         
-        // Delete only social links created by the robot creator (or legacy ones with null user_id)
+        // Delete only social links created by the robot's maintainers (or legacy ones with null user_id)
         const { error: deleteError } = await supabase
           .from('robot_social_links')
           .delete()
           .eq('robot_id', robotId)
-          .or(`user_id.eq.${user?.id},user_id.is.null`)
+          .or(maintainerLinksFilter(maintainerIds))
 
         if (deleteError) {
           console.error('Error deleting existing creator social links:', deleteError)
@@ -175,7 +168,7 @@ export default function EditRobotPage() {
       console.log('✅ Robot updated successfully:', {
         robotId,
         name: formData.name,
-        status: formData.status
+        status
       })
 
       // Update SWR caches with new data
@@ -186,8 +179,10 @@ export default function EditRobotPage() {
         description: formData.description.trim(),
         github_url: formData.github_url.trim() || null,
         image_url: formData.image_url.trim() || null,
-        budget: formData.budget.trim(),
-        status: formData.status,
+        ...toBudgetColumns(formData.budget),
+        specs: normalizeRobotSpecs(formData.specs),
+        category_id: formData.category_id || null,
+        status,
         tags,
         updated_at: new Date().toISOString()
       }
@@ -202,6 +197,7 @@ export default function EditRobotPage() {
       // Update robot cache
       mutateRobot({
         robot: updatedRobot,
+        maintainerIds,
         socialLinks: socialLinks.map(link => ({
           url: link.url,
           title: link.title,
@@ -225,7 +221,10 @@ export default function EditRobotPage() {
       await mutate('all-robots', undefined, false)
 
       // Success - redirect based on returnTo parameter
-      if (returnTo.startsWith('/robots/')) {
+      if (returnTo.startsWith('/robots/') && !isPublicRobotStatus(status)) {
+        // The robot page only shows approved robots
+        router.push('/submissions')
+      } else if (returnTo.startsWith('/robots/')) {
         // If coming from robot page, always redirect to the current slug
         // This handles cases where the slug might have changed
         router.push(`/robots/${newSlug}`)
@@ -294,7 +293,7 @@ export default function EditRobotPage() {
 
   // Check if user has permission to edit this robot
   const canEdit = user && robotData?.robot && (
-    profile?.role === 'admin' || robotData.robot.creator_id === user.id
+    profile?.role === 'admin' || robotData.maintainerIds.includes(user.id)
   )
 
   if (!canEdit) {
@@ -337,6 +336,12 @@ export default function EditRobotPage() {
         </div>
       </div>
 
+      {robotData?.robot && robotData.robot.status !== 'published' && (
+        <div className="mb-6">
+          <RobotReviewStatus robot={robotData.robot} />
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         <RobotForm
           formData={formData}
@@ -374,6 +379,12 @@ export default function EditRobotPage() {
           </Button>
         </div>
       </form>
+
+      {robotData?.robot && (
+        <div className="mt-8">
+          <RobotMaintainers robotId={robotId} creatorId={robotData.robot.creator_id} />
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -20,13 +20,15 @@ import {
 import { Bot, Plus, X, ArrowLeft, Save } from "lucide-react";
 import Link from "@/components/ui/link";
 import { mutate } from "swr";
-
-function generateSlug(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-+|-+$/g, "");
-}
+import { CategorySelect } from "@/components/CategorySelect";
+import { allocateRobotSlug, useRobotCategories } from "@/lib/robot-data";
+import { generateSlug } from "@/lib/robotFormUtils";
+import { BudgetInput } from "@/components/ui/budget-input";
+import {
+  isValidBudgetAmount,
+  toBudgetColumns,
+  type BudgetAmount,
+} from "@/lib/budget-config";
 
 export default function CreateRobotPage() {
   const { user, profile, loading } = useAuth();
@@ -38,12 +40,14 @@ export default function CreateRobotPage() {
     description: "",
     github_url: "",
     image_url: "",
-    budget: "",
+    budget: null as BudgetAmount | null,
+    category_id: "",
     status: "published" as "draft" | "published",
   });
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: categories = [] } = useRobotCategories();
 
   // Redirect if not admin
   if (!loading && (!user || profile?.role !== "admin")) {
@@ -72,7 +76,12 @@ export default function CreateRobotPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.name.trim() || !formData.description.trim() || !formData.budget.trim()) {
+    if (
+      !formData.name.trim() ||
+      !formData.description.trim() ||
+      !isValidBudgetAmount(formData.budget) ||
+      !formData.category_id
+    ) {
       alert("Please fill in all required fields.");
       return;
     }
@@ -80,22 +89,8 @@ export default function CreateRobotPage() {
     setIsSubmitting(true);
 
     try {
-      const slug = generateSlug(formData.name);
-
-      // Check if slug already exists
-      const { data: existingRobot } = await supabase
-        .from("robots")
-        .select("id")
-        .eq("slug", slug)
-        .single();
-
-      if (existingRobot) {
-        alert(
-          "A robot with this name already exists. Please choose a different name."
-        );
-        setIsSubmitting(false);
-        return;
-      }
+      // Robots sharing a name get a numbered slug
+      const slug = await allocateRobotSlug(formData.name);
 
       // Create the robot
       const { data, error } = await supabase
@@ -106,7 +101,8 @@ export default function CreateRobotPage() {
           description: formData.description.trim(),
           github_url: formData.github_url.trim() || null,
           image_url: formData.image_url.trim() || null,
-          budget: formData.budget.trim(),
+          ...toBudgetColumns(formData.budget),
+          category_id: formData.category_id,
           creator_id: user!.id,
           status: formData.status,
           tags,
@@ -214,19 +210,28 @@ export default function CreateRobotPage() {
               <Label htmlFor="budget">
                 Budget <span className="text-destructive">*</span>
               </Label>
-              <Input
-                id="budget"
-                placeholder="e.g., $500-$1,500"
+              <BudgetInput
                 value={formData.budget}
-                onChange={(e) =>
-                  setFormData({ ...formData, budget: e.target.value })
-                }
+                onValueChange={(budget) => setFormData({ ...formData, budget })}
                 required
               />
               <p className="text-xs text-muted-foreground mt-1">
                 Enter the approximate cost to build this robot.
               </p>
             </div>
+
+            <div>
+              <Label>
+                Primary Category <span className="text-destructive">*</span>
+              </Label>
+              <CategorySelect
+                categories={categories}
+                value={formData.category_id}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, category_id: value })
+                }
+              />
+            </div>
           </CardContent>
         </Card>
 
@@ -254,7 +259,7 @@ export default function CreateRobotPage() {
             </div>
 
             <div>
-              <Label htmlFor="image_url">Image URL</Label>
+              <Label htmlFor="image_url">Cover Image URL</Label>
               <Input
                 id="image_url"
                 type="url"
@@ -265,7 +270,7 @@ export default function CreateRobotPage() {
                 }
               />
               <p className="text-xs text-muted-foreground mt-1">
-                Optional. URL to a representative image of the robot.
+                Optional. Becomes the gallery cover; more images and videos can be added on the robot page.
               </p>
             </div>
           </CardContent>
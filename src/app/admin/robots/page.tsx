@@ -9,6 +9,8 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Select,
@@ -36,6 +38,14 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Bot,
   Plus,
@@ -47,11 +57,22 @@ import {
   User,
   Github,
   AlertTriangle,
+  ClipboardCheck,
+  Loader2,
 } from "lucide-react";
 import Link from "@/components/ui/link";
+import { RobotReviewStatus, RobotStatusBadge } from "@/components/RobotReviewStatus";
+import {
+  REVIEW_DECISIONS,
+  ROBOT_STATUSES,
+  ROBOT_STATUS_LABELS,
+  isPublicRobotStatus,
+  type ReviewDecision,
+} from "@/lib/robot-moderation";
+import type { Robot, RobotStatus } from "@/lib/types";
 
 const robotsFetcher = async (key: string) => {
-  const [, searchQuery, , sortBy] = key.split("|");
+  const [, searchQuery, statusFilter, sortBy] = key.split("|");
 
   let query = supabase.from("robots").select(`
       *,
@@ -70,6 +91,10 @@ const robotsFetcher = async (key: string) => {
     );
   }
 
+  // Apply status filter
+  if (statusFilter && statusFilter !== "all") {
+    query = query.eq("status", statusFilter as RobotStatus);
+  }
 
   // Apply sorting
   switch (sortBy) {
@@ -79,6 +104,10 @@ const robotsFetcher = async (key: string) => {
     case "created":
       query = query.order("created_at", { ascending: false });
       break;
+    case "submitted":
+      // Oldest submissions first, so the queue is worked in order
+      query = query.order("submitted_at", { ascending: true, nullsFirst: false });
+      break;
     default:
       query = query.order("updated_at", { ascending: false });
   }
@@ -92,11 +121,174 @@ const robotsFetcher = async (key: string) => {
   return data || [];
 };
 
+const pendingCountFetcher = async () => {
+  const { count, error } = await supabase
+    .from("robots")
+    .select("id", { count: "exact", head: true })
+    .eq("status", "pending_review");
+
+  if (error) {
+    throw new Error(`Failed to count pending robots: ${error.message}`);
+  }
+
+  return count || 0;
+};
+
+type ReviewRobot = Pick<
+  Robot,
+  "id" | "name" | "description" | "github_url" | "status" | "review_notes" | "reviewed_at"
+>;
+
+function RobotReviewDialog({
+  robot,
+  onClose,
+  onReviewed,
+}: {
+  robot: ReviewRobot | null;
+  onClose: () => void;
+  onReviewed: () => void;
+}) {
+  const [notes, setNotes] = useState(robot?.review_notes || "");
+  const [status, setStatus] = useState<RobotStatus>(robot?.status || "published");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isPending = robot?.status === "pending_review";
+
+  const saveStatus = async (nextStatus: RobotStatus) => {
+    if (!robot) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("robots")
+        .update({ status: nextStatus, review_notes: notes.trim() || null })
+        .eq("id", robot.id);
+
+      if (error) throw error;
+
+      onReviewed();
+      onClose();
+    } catch (error) {
+      console.error("Error reviewing robot:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDecision = (decision: ReviewDecision) => {
+    const { status: nextStatus, notesRequired, label } = REVIEW_DECISIONS[decision];
+    if (notesRequired && !notes.trim()) {
+      alert(`Please add notes for the submitter before choosing "${label}".`);
+      return;
+    }
+    saveStatus(nextStatus);
+  };
+
+  return (
+    <Dialog
+      open={!!robot}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      {robot && (
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Review {robot.name}</DialogTitle>
+            <DialogDescription>{robot.description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <RobotReviewStatus robot={robot} />
+
+            {robot.github_url && (
+              <a
+                href={robot.github_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 text-sm text-primary hover:underline"
+              >
+                <Github className="h-4 w-4" />
+                {robot.github_url}
+              </a>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="review-notes">Notes for the submitter</Label>
+              <Textarea
+                id="review-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What needs to change before this robot can be published?"
+                rows={4}
+                disabled={isSaving}
+              />
+            </div>
+
+            {!isPending && (
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select
+                  value={status}
+                  onValueChange={(value) => setStatus(value as RobotStatus)}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROBOT_STATUSES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ROBOT_STATUS_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin self-center" />}
+            {isPending ? (
+              <>
+                <Button
+                  variant="destructive"
+                  onClick={() => handleDecision("reject")}
+                  disabled={isSaving}
+                >
+                  {REVIEW_DECISIONS.reject.label}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleDecision("request_changes")}
+                  disabled={isSaving}
+                >
+                  {REVIEW_DECISIONS.request_changes.label}
+                </Button>
+                <Button onClick={() => handleDecision("approve")} disabled={isSaving}>
+                  {REVIEW_DECISIONS.approve.label}
+                </Button>
+              </>
+            ) : (
+              <Button onClick={() => saveStatus(status)} disabled={isSaving}>
+                Save
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
+
 export default function AdminRobotsPage() {
   const { user, profile, loading } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
   const [sortBy, setSortBy] = useState("updated");
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [reviewingRobot, setReviewingRobot] = useState<ReviewRobot | null>(null);
 
   // Redirect if not admin
   if (!loading && (!user || profile?.role !== "admin")) {
@@ -109,7 +301,7 @@ export default function AdminRobotsPage() {
     isLoading,
     mutate: mutateRobots,
   } = useSWR(
-    `admin-robots|${searchQuery}||${sortBy}`,
+    `admin-robots|${searchQuery}|${statusFilter}|${sortBy}`,
     robotsFetcher,
     {
       revalidateOnFocus: false,
@@ -117,6 +309,20 @@ export default function AdminRobotsPage() {
     }
   );
 
+  const { data: pendingCount = 0, mutate: mutatePendingCount } = useSWR(
+    "admin-robots-pending-count",
+    pendingCountFetcher,
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 5000,
+    }
+  );
+
+  const showReviewQueue = () => {
+    setStatusFilter("pending_review");
+    setSortBy("submitted");
+  };
+
   const handleDeleteRobot = async (robotId: string, robotName: string) => {
     setIsDeleting(robotId);
 
@@ -193,6 +399,22 @@ export default function AdminRobotsPage() {
         </Button>
       </div>
 
+      {/* Review queue */}
+      {pendingCount > 0 && statusFilter !== "pending_review" && (
+        <Card className="mb-6 border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950">
+          <CardContent className="pt-6 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <ClipboardCheck className="h-4 w-4" />
+              {pendingCount} robot{pendingCount === 1 ? " is" : "s are"} waiting
+              for review
+            </div>
+            <Button size="sm" onClick={showReviewQueue}>
+              Open review queue
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters */}
       <Card className="mb-6">
         <CardContent className="pt-6">
@@ -209,6 +431,21 @@ export default function AdminRobotsPage() {
             </div>
 
 
+            {/* Status */}
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full lg:w-48">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                {ROBOT_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {ROBOT_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
             {/* Sort By */}
             <Select value={sortBy} onValueChange={setSortBy}>
               <SelectTrigger className="w-full lg:w-48">
@@ -218,6 +455,7 @@ export default function AdminRobotsPage() {
                 <SelectItem value="updated">Last Updated</SelectItem>
                 <SelectItem value="created">Date Created</SelectItem>
                 <SelectItem value="name">Name</SelectItem>
+                <SelectItem value="submitted">Oldest Submission</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -238,11 +476,12 @@ export default function AdminRobotsPage() {
         <Table className="table-fixed">
           <TableHeader>
             <TableRow>
-              <TableHead className="w-[50%]">Robot</TableHead>
-              <TableHead className="w-[25%]">Creator</TableHead>
+              <TableHead className="w-[40%]">Robot</TableHead>
+              <TableHead className="w-[12%]">Status</TableHead>
+              <TableHead className="w-[20%]">Creator</TableHead>
               <TableHead className="w-[12%]">Created</TableHead>
               <TableHead className="w-[12%]">Updated</TableHead>
-              <TableHead className="w-[11%] text-right">Actions</TableHead>
+              <TableHead className="w-[14%] text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -255,6 +494,9 @@ export default function AdminRobotsPage() {
                       <div className="h-3 bg-gray-200 rounded w-48"></div>
                     </div>
                   </TableCell>
+                  <TableCell>
+                    <div className="animate-pulse h-4 bg-gray-200 rounded w-16"></div>
+                  </TableCell>
                   <TableCell>
                     <div className="animate-pulse h-4 bg-gray-200 rounded w-24"></div>
                   </TableCell>
@@ -301,6 +543,16 @@ export default function AdminRobotsPage() {
                       </div>
                     </div>
                   </TableCell>
+                  <TableCell>
+                    <div className="space-y-1 pt-1">
+                      <RobotStatusBadge status={robot.status} />
+                      {robot.status === "pending_review" && robot.submitted_at && (
+                        <div className="text-xs text-muted-foreground">
+                          since {new Date(robot.submitted_at).toLocaleDateString()}
+                        </div>
+                      )}
+                    </div>
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-start gap-2">
                       <Avatar className="h-8 w-8">
@@ -339,11 +591,21 @@ export default function AdminRobotsPage() {
                   </TableCell>
                   <TableCell>
                     <div className="flex items-start gap-2 justify-end pt-1">
-                      <Button size="sm" variant="ghost" asChild>
-                        <Link href={`/robots/${robot.slug}`}>
-                          <Eye className="h-4 w-4" />
-                        </Link>
+                      <Button
+                        size="sm"
+                        variant={robot.status === "pending_review" ? "default" : "ghost"}
+                        title="Review"
+                        onClick={() => setReviewingRobot(robot)}
+                      >
+                        <ClipboardCheck className="h-4 w-4" />
                       </Button>
+                      {isPublicRobotStatus(robot.status) && (
+                        <Button size="sm" variant="ghost" asChild>
+                          <Link href={`/robots/${robot.slug}`}>
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      )}
                       <Button size="sm" variant="ghost" asChild>
                         <Link
                           href={`/admin/robots/${
@@ -401,7 +663,7 @@ export default function AdminRobotsPage() {
                       No robots found
                     </h3>
                     <p className="text-muted-foreground mb-4">
-                      {searchQuery
+                      {searchQuery || statusFilter !== "all"
                         ? "Try adjusting your filters to see more results."
                         : "Get started by creating your first robot."}
                     </p>
@@ -418,6 +680,16 @@ export default function AdminRobotsPage() {
           </TableBody>
         </Table>
       </Card>
+
+      <RobotReviewDialog
+        key={reviewingRobot?.id || "none"}
+        robot={reviewingRobot}
+        onClose={() => setReviewingRobot(null)}
+        onReviewed={() => {
+          mutateRobots();
+          mutatePendingCount();
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, getSupabaseAdmin } from '@/lib/supabase-admin'
+import { analyzeRobotFile, ANALYZABLE_FILE_TYPES } from '@/lib/robot-file-analysis'
+import { loadMeshResolverContext, resolveMeshPath } from '@/lib/mesh-resolver'
+import { ALLOWED_FILE_HOSTS_LABEL, fetchRemoteFile, isAllowedFileUrl } from '@/lib/remote-files'
+
+// Fetch a URDF/MJCF file, extract its metadata and store the validation report.
+// Only the file's contributor, the robot's maintainers and admins can run it.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to analyze files' }, { status: 401 })
+    }
+
+    const { fileId } = await request.json()
+
+    if (!fileId) {
+      return NextResponse.json({ error: 'fileId is required' }, { status: 400 })
+    }
+
+    const supabase = getSupabaseAdmin()
+
+    const { data: file } = await supabase
+      .from('robot_files')
+      .select('id, robot_id, file_type, file_url, user_id')
+      .eq('id', fileId)
+      .single()
+
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    if (file.user_id !== user.id) {
+      const [{ data: maintainer }, { data: profile }] = await Promise.all([
+        supabase
+          .from('robot_maintainers')
+          .select('id')
+          .eq('robot_id', file.robot_id)
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        supabase.from('profiles').select('role').eq('id', user.id).single(),
+      ])
+
+      if (!maintainer && profile?.role !== 'admin') {
+        return NextResponse.json(
+          { error: 'Only the contributor or the robot\'s maintainers can analyze this file' },
+          { status: 403 }
+        )
+      }
+    }
+
+    if (!isAllowedFileUrl(file.file_url)) {
+      return NextResponse.json(
+        { error: `Only files served over https from ${ALLOWED_FILE_HOSTS_LABEL} can be analyzed` },
+        { status: 400 }
+      )
+    }
+
+    if (!ANALYZABLE_FILE_TYPES.includes(file.file_type)) {
+      return NextResponse.json(
+        { error: `${file.file_type} files are not analyzed` },
+        { status: 400 }
+      )
+    }
+
+    const { data: robot } = await supabase
+      .from('robots')
+      .select('github_url')
+      .eq('id', file.robot_id)
+      .single()
+
+    const meshContext = await loadMeshResolverContext(file.file_url, robot?.github_url)
+    const result = await analyzeRobotFile(file.file_type, meshContext.fileUrl, {
+      fetchImpl: fetchRemoteFile,
+      resolveMesh: (meshPath) => resolveMeshPath(meshPath, meshContext),
+    })
+
+    const { data: analysis, error } = await supabase
+      .from('robot_file_analyses')
+      .upsert({
+        file_id: file.id,
+        status: result.status,
+        metadata: result.metadata,
+        issues: result.issues,
+        analyzed_at: new Date().toISOString(),
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ success: true, analysis })
+  } catch (error) {
+    console.error('Error analyzing file:', error)
+    return NextResponse.json({
+      error: 'Failed to analyze file',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import {
+  BUNDLE_MODES,
+  buildRobotBundle,
+  createZipStream,
+  selectBundleFiles,
+  type BundleMode,
+} from '@/lib/robot-bundle'
+import { summarizeFileRatings, withFileRatings } from '@/lib/file-ranking'
+
+// Stream a zip of a robot's files with their meshes and a manifest.json
+export async function GET(request: NextRequest) {
+  try {
+    const robotId = request.nextUrl.searchParams.get('robotId')
+    const mode = (request.nextUrl.searchParams.get('mode') || 'top-rated') as BundleMode
+
+    if (!robotId) {
+      return NextResponse.json({ error: 'robotId is required' }, { status: 400 })
+    }
+
+    if (!BUNDLE_MODES.includes(mode)) {
+      return NextResponse.json({ error: `Unknown mode: ${mode}` }, { status: 400 })
+    }
+
+    const { data: robot } = await supabase
+      .from('robots')
+      .select('id, name, slug, github_url')
+      .eq('id', robotId)
+      .single()
+
+    if (!robot) {
+      return NextResponse.json({ error: 'Robot not found' }, { status: 404 })
+    }
+
+    const { data: filesData, error: filesError } = await supabase
+      .from('robot_files')
+      .select('*')
+      .eq('robot_id', robotId)
+
+    if (filesError) {
+      throw filesError
+    }
+
+    const fileIds = (filesData || []).map((file) => file.id)
+    const { data: ratingsData } = fileIds.length > 0
+      ? await supabase.from('robot_file_ratings').select('file_id, rating, user_id').in('file_id', fileIds)
+      : { data: [] }
+
+    const files = withFileRatings(filesData || [], summarizeFileRatings(ratingsData || []))
+
+    const selected = selectBundleFiles(files, mode)
+    if (selected.length === 0) {
+      return NextResponse.json({ error: 'No files to download' }, { status: 404 })
+    }
+
+    const stream = createZipStream((addEntry) =>
+      buildRobotBundle(robot, selected, mode, addEntry)
+    )
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${robot.slug}-${mode}.zip"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error building file bundle:', error)
+    return NextResponse.json({
+      error: 'Failed to build file bundle',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
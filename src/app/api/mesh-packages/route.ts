@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { loadMeshResolverContext, packageRootUrls } from '@/lib/mesh-resolver'
+
+// Map the ROS packages a model file may reference to raw URLs, for the 3D preview
+export async function GET(request: NextRequest) {
+  try {
+    const fileId = request.nextUrl.searchParams.get('fileId')
+
+    if (!fileId) {
+      return NextResponse.json({ error: 'fileId is required' }, { status: 400 })
+    }
+
+    const { data: file } = await supabase
+      .from('robot_files')
+      .select('id, robot_id, file_url')
+      .eq('id', fileId)
+      .single()
+
+    if (!file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const { data: robot } = await supabase
+      .from('robots')
+      .select('github_url')
+      .eq('id', file.robot_id)
+      .single()
+
+    const context = await loadMeshResolverContext(file.file_url, robot?.github_url)
+
+    return NextResponse.json(
+      { fileUrl: context.fileUrl, packages: packageRootUrls(context) },
+      { headers: { 'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400' } }
+    )
+  } catch (error) {
+    console.error('Error resolving mesh packages:', error)
+    return NextResponse.json({
+      error: 'Failed to resolve mesh packages',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
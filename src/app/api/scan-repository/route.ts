@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase'
+import { getRepositoryDefaultBranch, parseGitHubUrl, toRawGitHubUrl } from '@/lib/github'
+import { createGitHubRepoSource, scanRepository } from '@/lib/repo-scanner'
+
+// Propose robot files found in the robot's GitHub repository. Read-only: the
+// owner accepts candidates from the client, where RLS applies to the inserts.
+export async function POST(request: NextRequest) {
+  try {
+    const { robotId } = await request.json()
+
+    if (!robotId) {
+      return NextResponse.json({ error: 'robotId is required' }, { status: 400 })
+    }
+
+    const { data: robot } = await supabase
+      .from('robots')
+      .select('id, github_url')
+      .eq('id', robotId)
+      .single()
+
+    if (!robot) {
+      return NextResponse.json({ error: 'Robot not found' }, { status: 404 })
+    }
+
+    const ref = robot.github_url ? parseGitHubUrl(robot.github_url) : null
+    if (!ref) {
+      return NextResponse.json({ error: 'Robot has no GitHub repository' }, { status: 400 })
+    }
+
+    const branch = ref.branch || await getRepositoryDefaultBranch(`https://github.com/${ref.owner}/${ref.repo}`)
+    const source = createGitHubRepoSource(ref.owner, ref.repo, branch)
+    const candidates = await scanRepository(source)
+
+    // Files already listed (by raw or github.com URL) aren't proposed again
+    const { data: existing } = await supabase
+      .from('robot_files')
+      .select('file_url')
+      .eq('robot_id', robotId)
+    const existingUrls = new Set((existing || []).map((file) => toRawGitHubUrl(file.file_url)))
+
+    return NextResponse.json({
+      repository: source.label,
+      candidates: candidates.filter((candidate) => !existingUrls.has(candidate.url)),
+    })
+  } catch (error) {
+    console.error('Error scanning repository:', error)
+    return NextResponse.json({
+      error: 'Failed to scan repository',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, getSupabaseAdmin } from '@/lib/supabase-admin'
+import {
+  fetchRepositoryFile,
+  getRepositoryDefaultBranch,
+  isRepositoryCollaborator,
+  parseGitHubUrl,
+} from '@/lib/github'
+import { CLAIM_FILE_PATH, claimFileMatches, getClaimOutcome, isSameGitHubUser } from '@/lib/robot-claims'
+import type { RobotClaimMethod } from '@/lib/types'
+
+// Check a pending claim against the robot's GitHub repository. Verified claims
+// on admin-listed robots are approved here, which hands the robot over; other
+// verified claims go to the admin queue. Only the claimant and admins can run it.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to verify claims' }, { status: 401 })
+    }
+
+    const { claimId } = await request.json()
+
+    if (!claimId) {
+      return NextResponse.json({ error: 'claimId is required' }, { status: 400 })
+    }
+
+    const supabase = getSupabaseAdmin()
+
+    const { data: claim } = await supabase
+      .from('robot_claims')
+      .select('*')
+      .eq('id', claimId)
+      .single()
+
+    if (!claim) {
+      return NextResponse.json({ error: 'Claim not found' }, { status: 404 })
+    }
+
+    if (claim.claimant_id !== user.id) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      if (profile?.role !== 'admin') {
+        return NextResponse.json({ error: 'Only the claimant can verify this claim' }, { status: 403 })
+      }
+    }
+
+    if (claim.status !== 'pending') {
+      return NextResponse.json({ error: 'Only pending claims can be verified' }, { status: 400 })
+    }
+
+    const { data: robot } = await supabase
+      .from('robots')
+      .select('id, github_url, creator_id')
+      .eq('id', claim.robot_id)
+      .single()
+
+    const ref = robot?.github_url ? parseGitHubUrl(robot.github_url) : null
+    if (!robot || !ref) {
+      return NextResponse.json({ error: 'Robot has no GitHub repository' }, { status: 400 })
+    }
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, role, github_username')
+      .in('id', [claim.claimant_id, robot.creator_id])
+
+    const claimant = profiles?.find((profile) => profile.id === claim.claimant_id)
+    const owner = profiles?.find((profile) => profile.id === robot.creator_id)
+    const githubUsername = claimant?.github_username
+
+    let method: RobotClaimMethod | null = null
+
+    if (githubUsername) {
+      if (isSameGitHubUser(githubUsername, ref.owner)) {
+        method = 'github_owner'
+      } else if (await isRepositoryCollaborator(ref.owner, ref.repo, githubUsername)) {
+        // Organization membership isn't enough: any member could otherwise take
+        // over every robot in the organization's repositories
+        method = 'github_collaborator'
+      }
+    }
+
+    if (!method) {
+      const branch = ref.branch || await getRepositoryDefaultBranch(`https://github.com/${ref.owner}/${ref.repo}`)
+      const content = await fetchRepositoryFile(ref.owner, ref.repo, branch, CLAIM_FILE_PATH)
+      if (claimFileMatches(content, claim.verification_token)) {
+        method = 'verification_file'
+      }
+    }
+
+    if (!method) {
+      return NextResponse.json({
+        success: true,
+        verified: false,
+        claim,
+        details: githubUsername
+          ? `@${githubUsername} isn't the owner or a collaborator of ${ref.owner}/${ref.repo}, and ${CLAIM_FILE_PATH} wasn't found with this claim's token`
+          : `Your profile has no GitHub username, and ${CLAIM_FILE_PATH} wasn't found with this claim's token`
+      })
+    }
+
+    const { data: updated, error } = await supabase
+      .from('robot_claims')
+      .update({
+        method,
+        verified_at: new Date().toISOString(),
+        status: getClaimOutcome(method, owner?.role === 'admin'),
+      })
+      .eq('id', claim.id)
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ success: true, verified: true, claim: updated })
+  } catch (error) {
+    console.error('Error verifying claim:', error)
+    return NextResponse.json({
+      error: 'Failed to verify claim',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { Fragment, Suspense, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "@/components/ui/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Bot, Columns3, X } from "lucide-react";
+import { useAllRobots, useComparedRobots } from "@/lib/robot-data";
+import {
+  MAX_COMPARED_ROBOTS,
+  buildComparisonRows,
+  getCompareUrl,
+  parseCompareSlugs,
+  type ComparisonRow,
+} from "@/lib/robot-compare";
+
+function CompareContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  const slugs = useMemo(() => parseCompareSlugs(searchParams.get("robots")), [searchParams]);
+  const { data: compared, error, isLoading } = useComparedRobots(slugs);
+  const { data: allRobots = [] } = useAllRobots();
+
+  const rows = useMemo(() => buildComparisonRows(compared || []), [compared]);
+  const sections = useMemo(() => {
+    const visible = onlyDifferences ? rows.filter((row) => row.differs) : rows;
+    const grouped = new Map<string, ComparisonRow[]>();
+    for (const row of visible) {
+      grouped.set(row.section, [...(grouped.get(row.section) || []), row]);
+    }
+    return [...grouped.entries()];
+  }, [rows, onlyDifferences]);
+
+  const missingSlugs = compared
+    ? slugs.filter((slug) => !compared.some(({ robot }) => robot.slug === slug))
+    : [];
+  const addableRobots = allRobots.filter((robot) => !slugs.includes(robot.slug));
+
+  const setSlugs = (next: string[]) => {
+    router.replace(getCompareUrl(next), { scroll: false });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-4xl font-bold mb-2 flex items-center">
+          <Columns3 className="h-8 w-8 mr-3" />
+          Compare Robots
+        </h1>
+        <p className="text-xl text-muted-foreground">
+          Line up to {MAX_COMPARED_ROBOTS} robots side by side
+        </p>
+      </div>
+
+      {/* Controls */}
+      <div className="mb-6 flex flex-col md:flex-row md:items-center gap-4">
+        <Select
+          value=""
+          onValueChange={(slug) => setSlugs([...slugs, slug])}
+          disabled={slugs.length >= MAX_COMPARED_ROBOTS}
+        >
+          <SelectTrigger className="w-full md:w-72">
+            <SelectValue
+              placeholder={
+                slugs.length >= MAX_COMPARED_ROBOTS
+                  ? `Up to ${MAX_COMPARED_ROBOTS} robots`
+                  : "Add a robot..."
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {addableRobots.map((robot) => (
+              <SelectItem key={robot.id} value={robot.slug}>
+                {robot.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {(compared?.length || 0) > 1 && (
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={onlyDifferences}
+              onCheckedChange={(checked) => setOnlyDifferences(checked === true)}
+            />
+            Only show differences
+          </label>
+        )}
+      </div>
+
+      {missingSlugs.length > 0 && (
+        <p className="mb-4 text-sm text-muted-foreground">
+          Couldn&apos;t find: {missingSlugs.join(", ")}
+        </p>
+      )}
+
+      {/* Results */}
+      {slugs.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-6xl mb-4">🤖</div>
+          <h2 className="text-2xl font-bold mb-2">Nothing to compare yet</h2>
+          <p className="text-muted-foreground mb-6">
+            Add robots from the list above, or with the compare button on robot cards and search
+            results.
+          </p>
+          <Button asChild>
+            <Link href="/robots">Browse Robots</Link>
+          </Button>
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <div className="text-6xl mb-4">⚠️</div>
+          <h2 className="text-2xl font-bold mb-2">Failed to Load Comparison</h2>
+          <p className="text-muted-foreground mb-6">
+            Something went wrong while fetching these robots.
+          </p>
+          <Button onClick={() => window.location.reload()}>Try Again</Button>
+        </div>
+      ) : isLoading || !compared ? (
+        <div className="animate-pulse">
+          <div className="bg-gray-200 rounded-lg h-96"></div>
+        </div>
+      ) : compared.length === 0 ? (
+        <div className="text-center py-12">
+          <Bot className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">None of these robots could be found.</p>
+        </div>
+      ) : (
+        <>
+          <Card className="py-0 overflow-hidden">
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-40" />
+                    {compared.map(({ robot }) => (
+                      <TableHead key={robot.id} className="min-w-48 align-top py-3">
+                        <div className="flex items-start justify-between gap-2">
+                          <Link
+                            href={`/robots/${robot.slug}`}
+                            className="font-semibold text-base text-foreground hover:text-primary whitespace-normal"
+                          >
+                            {robot.name}
+                          </Link>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 shrink-0"
+                            onClick={() => setSlugs(slugs.filter((slug) => slug !== robot.slug))}
+                          >
+                            <X className="h-4 w-4" />
+                            <span className="sr-only">Remove {robot.name}</span>
+                          </Button>
+                        </div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sections.map(([section, sectionRows]) => (
+                    <Fragment key={section}>
+                      <TableRow className="bg-muted/50 hover:bg-muted/50">
+                        <TableCell colSpan={compared.length + 1} className="font-semibold">
+                          {section}
+                        </TableCell>
+                      </TableRow>
+                      {sectionRows.map((row) => (
+                        <TableRow key={row.key} className={row.differs ? "bg-primary/5" : ""}>
+                          <TableHead className="text-muted-foreground">{row.label}</TableHead>
+                          {row.values.map((value, index) => (
+                            <TableCell
+                              key={compared[index].robot.id}
+                              className={`whitespace-normal ${row.differs ? "font-medium" : ""}`}
+                            >
+                              {value}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <p className="mt-4 text-sm text-muted-foreground">
+            {compared.length > 1
+              ? "Highlighted rows differ between robots."
+              : "Add another robot to see how they differ."}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function CompareClient() {
+  return (
+    <Suspense
+      fallback={
+        <div className="container mx-auto px-4 py-8">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/3 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded w-2/3 mb-8"></div>
+            <div className="h-96 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      }
+    >
+      <CompareContent />
+    </Suspense>
+  );
+}
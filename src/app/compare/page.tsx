@@ -0,0 +1,15 @@
+import { Metadata } from "next";
+import CompareClient from "./compare-client";
+
+export const metadata: Metadata = {
+  title: "Compare Robots",
+  description:
+    "Compare robots side by side: specs, budgets, ratings, available URDF, MJCF, STL and BOM files, and repository activity.",
+  alternates: {
+    canonical: "/compare",
+  },
+};
+
+export default function ComparePage() {
+  return <CompareClient />;
+}
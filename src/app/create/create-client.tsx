@@ -10,7 +10,10 @@ import { Save, Loader2 } from "lucide-react";
 import Link from "@/components/ui/link";
 import { RobotForm } from "@/components/forms/RobotForm";
 import { useRobotForm } from "@/hooks/useRobotForm";
-import { generateSlug } from "@/lib/robotFormUtils";
+import { allocateRobotSlug } from "@/lib/robot-data";
+import { normalizeRobotSpecs } from "@/lib/robot-specs";
+import { toBudgetColumns } from "@/lib/budget-config";
+import { getSubmissionStatus, isPublicRobotStatus } from "@/lib/robot-moderation";
 import { mutate } from "swr";
 
 export default function CreateRobotClient() {
@@ -51,22 +54,10 @@ export default function CreateRobotClient() {
     setIsSubmitting(true);
 
     try {
-      const slug = generateSlug(formData.name);
-
-      // Check if slug already exists
-      const { data: existingRobot } = await supabase
-        .from("robots")
-        .select("id")
-        .eq("slug", slug)
-        .single();
-
-      if (existingRobot) {
-        alert(
-          "A robot with this name already exists. Please choose a different name."
-        );
-        setIsSubmitting(false);
-        return;
-      }
+      // Robots sharing a name get a numbered slug
+      const slug = await allocateRobotSlug(formData.name);
+      // Submissions from non-admins wait for review before going live
+      const status = getSubmissionStatus(profile.role === "admin");
 
       const { data: robotData, error } = await supabase
         .from("robots")
@@ -76,10 +67,12 @@ export default function CreateRobotClient() {
           description: formData.description.trim(),
           github_url: formData.github_url.trim(),
           image_url: formData.image_url.trim() || null,
-          budget: formData.budget.trim(),
+          ...toBudgetColumns(formData.budget),
+          specs: normalizeRobotSpecs(formData.specs),
+          category_id: formData.category_id || null,
           tags,
           creator_id: user.id,
-          status: formData.status,
+          status,
         })
         .select()
         .single();
@@ -111,7 +104,7 @@ export default function CreateRobotClient() {
       console.log("✅ Robot created successfully:", {
         slug,
         name: formData.name,
-        status: formData.status,
+        status,
       });
 
       // Invalidate robots list cache to show new robot in browse page
@@ -120,7 +113,7 @@ export default function CreateRobotClient() {
       // Clear form draft from localStorage and reset state
       clearFormDraft();
 
-      router.push(`/robots/${slug}`);
+      router.push(isPublicRobotStatus(status) ? `/robots/${slug}` : "/submissions");
     } catch (error: any) {
       console.error("Error creating robot:", error);
     } finally {
@@ -155,6 +148,12 @@ export default function CreateRobotClient() {
             Add a new robot to the catalog with complete information including
             budget, social links and community resources.
           </p>
+          {profile?.role !== "admin" && (
+            <p className="text-sm text-muted-foreground mt-2">
+              New robots are reviewed by an admin before they appear on the
+              site. You can follow your submissions from My Robots.
+            </p>
+          )}
         </div>
 
         {isReady ? (
@@ -5,6 +5,7 @@ import useSWR from "swr";
 import Link from "@/components/ui/link";
 import { supabase } from "@/lib/supabase";
 import { useAllRobots } from "@/lib/robot-data";
+import { PUBLIC_ROBOT_STATUSES } from "@/lib/robot-moderation";
 import { searchRobotsClientSide } from "@/lib/client-search-utils";
 import { RobotGrid } from "@/components/RobotGrid";
 import { Button } from "@/components/ui/button";
@@ -33,7 +34,7 @@ const topRobotsFetcher = async () => {
       )
     `
     )
-    .eq("status", "published");
+    .in("status", PUBLIC_ROBOT_STATUSES);
 
   if (robotsError) {
     throw new Error(`Failed to fetch robots: ${robotsError.message}`);
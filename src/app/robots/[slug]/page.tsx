@@ -1,6 +1,7 @@
 import { Metadata } from "next";
-import { notFound } from "next/navigation";
+import { notFound, permanentRedirect } from "next/navigation";
 import {
+  fetchRenamedRobotSlug,
   fetchRobotForSSR,
   generateRobotStructuredData,
 } from "@/lib/server-fetchers";
@@ -128,6 +129,11 @@ export default async function RobotDetailPage({ params }: Props) {
     await fetchRobotForSSR(slug);
 
   if (!robot) {
+    // Links to a renamed robot's old slug move to its current page for good
+    const currentSlug = await fetchRenamedRobotSlug(slug);
+    if (currentSlug) {
+      permanentRedirect(`/robots/${currentSlug}`);
+    }
     notFound();
   }
 
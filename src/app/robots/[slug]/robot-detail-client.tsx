@@ -12,10 +12,18 @@ import { useAuth } from "@/contexts/AuthContext";
 import { ReviewForm } from "@/components/ReviewForm";
 import { SocialLinkContributionForm } from "@/components/SocialLinkContributionForm";
 import { RobotFileList } from "@/components/RobotFileList";
+import { RobotSpecTable } from "@/components/RobotSpecTable";
+import { CategoryBreadcrumbs } from "@/components/CategoryBreadcrumbs";
+import { RobotRelationships } from "@/components/RobotRelationships";
+import { LatestVersionNotice } from "@/components/LatestVersionNotice";
+import { RobotGallery } from "@/components/RobotGallery";
+import { ClaimRobotDialog } from "@/components/ClaimRobotDialog";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { BudgetDisplay } from "@/components/ui/budget-display";
+import { getBudgetAmount } from "@/lib/budget-config";
+import { ReportedSpendChart } from "@/components/ReportedSpendChart";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Star,
@@ -29,6 +37,8 @@ import {
   Edit,
   Plus,
   X,
+  Cpu,
+  AlertTriangle,
 } from "lucide-react";
 import { DiscordIcon, GithubIcon } from "@/components/icons";
 import { detectPlatformFromUrl } from "@/lib/platform-utils";
@@ -37,6 +47,12 @@ import { MasonryGrid } from "@/components/MasonryGrid";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { mutate } from "swr";
+import { hasRobotSpecs } from "@/lib/robot-specs";
+import { getCategoryPath } from "@/lib/robot-categories";
+import { PUBLIC_ROBOT_STATUSES } from "@/lib/robot-moderation";
+import { useRobotCategories } from "@/lib/robot-data";
+import { useRobotMaintainers } from "@/lib/hooks/useRobotMaintainers";
+import { getMaintainerIds, getMaintainerRole } from "@/lib/robot-maintainers";
 
 // Function to sanitize HTML and fix malformed image src attributes
 const sanitizeHtml = (html: string): string => {
@@ -77,7 +93,7 @@ const robotWithDataFetcher = async (slug: string) => {
       `
       )
       .eq("slug", slug)
-      .eq("status", "published")
+      .in("status", PUBLIC_ROBOT_STATUSES)
       .single();
 
     if (robotError) {
@@ -216,6 +232,18 @@ export default function RobotDetailClient({
   const socialLinks = robotData?.socialLinks || [];
   const reviews = robotData?.reviews || [];
 
+  const { data: categories = [] } = useRobotCategories();
+  const categoryPath = getCategoryPath(categories, robot?.category_id);
+
+  // Owner and co-maintainers edit the robot, mirroring public.is_robot_maintainer
+  const { data: maintainerData } = useRobotMaintainers(robot?.id || "");
+  const isMaintainer = !!getMaintainerRole(
+    maintainerData?.maintainers,
+    user?.id,
+    robot?.creator_id
+  );
+  const canMaintain = isMaintainer || (!!user && profile?.role === "admin");
+
   // Fetch GitHub README (now pre-rendered HTML) - only if not provided server-side
   const { data: githubReadme, error: readmeError } = useSWR<string | null>(
     robot?.github_url && !initialReadme ? `readme-${robot.github_url}` : null,
@@ -278,11 +306,7 @@ export default function RobotDetailClient({
   // Check if user can delete a specific social link
   const canDeleteLink = (link: any) => {
     if (!user || !robot) return false;
-    return (
-      profile?.role === "admin" ||
-      robot.creator_id === user.id ||
-      link.user_id === user.id
-    );
+    return canMaintain || link.user_id === user.id;
   };
 
   // Calculate average rating
@@ -412,6 +436,21 @@ export default function RobotDetailClient({
     <div className="container mx-auto px-4 py-8">
       {/* Header */}
       <div className="mb-8">
+        {categoryPath.length > 0 && (
+          <div className="mb-4">
+            <CategoryBreadcrumbs path={categoryPath} current={robot.name} />
+          </div>
+        )}
+        <LatestVersionNotice robotId={robot.id} />
+        {robot.status === "deprecated" && (
+          <div className="mb-4 flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-100">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>
+              This robot is deprecated. It&apos;s kept for reference but is no
+              longer recommended for new builds.
+            </span>
+          </div>
+        )}
         <div className="flex items-start justify-between mb-4">
           <div className="flex-1">
             <h1 className="text-4xl font-bold mb-2">{robot.name}</h1>
@@ -457,7 +496,7 @@ export default function RobotDetailClient({
 
               {/* Budget */}
               {robot.budget && (
-                <BudgetDisplay budget={robot.budget} />
+                <BudgetDisplay budget={robot.budget} amount={getBudgetAmount(robot)} />
               )}
 
               {/* Quick Links */}
@@ -508,40 +547,73 @@ export default function RobotDetailClient({
             </div>
           </div>
 
-          {/* Edit Button - visible to admin or creator */}
-          {user &&
-            (profile?.role === "admin" || robot.creator_id === user.id) && (
-              <div className="flex-shrink-0">
-                <Button asChild>
-                  <Link
-                    href={`/admin/robots/${
-                      robot.id
-                    }/edit?returnTo=${encodeURIComponent(
-                      `/robots/${robot.slug}`
-                    )}`}
-                  >
-                    <Edit className="h-4 w-4 mr-2" />
-                    Edit Robot
-                  </Link>
-                </Button>
-              </div>
-            )}
+          {/* Edit Button - visible to admins and maintainers */}
+          {canMaintain && (
+            <div className="flex-shrink-0">
+              <Button asChild>
+                <Link
+                  href={`/admin/robots/${
+                    robot.id
+                  }/edit?returnTo=${encodeURIComponent(
+                    `/robots/${robot.slug}`
+                  )}`}
+                >
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit Robot
+                </Link>
+              </Button>
+            </div>
+          )}
+
+          {/* Claim Button - for the people behind the repository */}
+          {user && !canMaintain && robot.github_url && (
+            <div className="flex-shrink-0">
+              <ClaimRobotDialog
+                robotId={robot.id}
+                robotName={robot.name}
+                githubUrl={robot.github_url}
+                onClaimed={() => {
+                  mutate(`robot-maintainers-${robot.id}`);
+                  mutate(`robot-with-data-${slug}`);
+                }}
+              />
+            </div>
+          )}
         </div>
 
-        {/* Image */}
-        {robot.image_url && (
-          <div className="aspect-video relative rounded-lg overflow-hidden bg-gray-100 mb-6">
-            <Image
-              src={robot.image_url}
-              alt={robot.name}
-              fill
-              className="object-cover"
-            />
-          </div>
-        )}
+        {/* Gallery */}
+        <RobotGallery
+          robotId={robot.id}
+          robotName={robot.name}
+          fallbackImageUrl={robot.image_url}
+          readme={displayReadme || null}
+          canManage={canMaintain}
+        />
       </div>
 
       <div className="space-y-8">
+        {/* Technical Specs Section */}
+        {hasRobotSpecs(robot.specs) && (
+          <div>
+            <h2 className="text-2xl font-bold mb-4 flex items-center">
+              <Cpu className="h-6 w-6 mr-2" />
+              Technical Specs
+            </h2>
+            <Card>
+              <CardContent>
+                <RobotSpecTable specs={robot.specs} />
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Related Robots Section */}
+        <RobotRelationships
+          robotId={robot.id}
+          robotName={robot.name}
+          canEdit={canMaintain}
+        />
+
         {/* GitHub README Section */}
         <div>
           <h2 className="text-2xl font-bold mb-4 flex items-center">
@@ -1131,6 +1203,12 @@ export default function RobotDetailClient({
             <Star className="h-6 w-6 mr-2" />
             Stories ({reviews.length})
           </h2>
+          {robot && (
+            <ReportedSpendChart
+              listedBudget={getBudgetAmount(robot)}
+              reports={reviews.map((review) => getBudgetAmount(review))}
+            />
+          )}
           {/* Review Form */}
           {user && !userReview && !showReviewForm && (
             <div className="text-center mb-6">
@@ -1234,7 +1312,7 @@ export default function RobotDetailClient({
                                 ))}
                               </div>
                               {review.budget && (
-                                <BudgetDisplay budget={review.budget} />
+                                <BudgetDisplay budget={review.budget} amount={getBudgetAmount(review)} />
                               )}
                               <span className="text-sm text-muted-foreground">
                                 {new Date(
@@ -1300,7 +1378,11 @@ export default function RobotDetailClient({
           </h2>
           <RobotFileList
             robotId={robot.id}
-            isOwner={robot.creator_id === user?.id}
+            isOwner={isMaintainer}
+            robotBudget={robot.budget}
+            githubUrl={robot.github_url}
+            creatorId={robot.creator_id}
+            maintainerIds={getMaintainerIds(maintainerData?.maintainers, robot.creator_id)}
           />
         </div>
       </div>
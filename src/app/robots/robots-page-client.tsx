@@ -1,11 +1,15 @@
 "use client";
 
-import { useState, useEffect, Suspense } from "react";
+import { useState, useEffect, useMemo, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
 import Link from "@/components/ui/link";
-import { useAllRobots, useAllTags } from "@/lib/robot-data";
+import { useAllRobots, useAllTags, useExchangeRates, useRobotCategories } from "@/lib/robot-data";
 import { comprehensiveSearch } from "@/lib/client-search-utils";
 import { RobotGrid } from "@/components/RobotGrid";
+import { RobotSpecFilters } from "@/components/RobotSpecFilters";
+import { RobotPriceFilter } from "@/components/RobotPriceFilter";
+import { CategorySelect } from "@/components/CategorySelect";
+import { CategoryBreadcrumbs } from "@/components/CategoryBreadcrumbs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -16,34 +20,116 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Search } from "lucide-react";
-import type { RobotCardData } from "@/lib/types";
+import { Card, CardContent } from "@/components/ui/card";
+import { DollarSign, Search, SlidersHorizontal } from "lucide-react";
+import type { RobotCardData, RobotCategory } from "@/lib/types";
+import {
+  buildCategoryTree,
+  formatCategoryPath,
+  getCategoryDescendantIds,
+  getCategoryPath,
+} from "@/lib/robot-categories";
+import {
+  EMPTY_SPEC_FILTERS,
+  ENUM_SPEC_FIELDS,
+  NUMERIC_SPEC_FIELDS,
+  SPEC_OPTION_LABELS,
+  countActiveSpecFilters,
+  matchesSpecFilters,
+  type EnumSpecKey,
+  type NumericSpecKey,
+  type RobotSpecFilters as SpecFilters,
+} from "@/lib/robot-specs";
+import {
+  DEFAULT_EXCHANGE_RATES,
+  compareBudgetAmounts,
+  formatPriceFilterRange,
+  getBudgetAmount,
+  getPriceFilterRange,
+  matchesPriceRange,
+  type BudgetCurrency,
+} from "@/lib/budget-config";
+
+type RobotSort = "rating" | "price";
 
 
 function RobotsContent() {
   const searchParams = useSearchParams();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedTag, setSelectedTag] = useState<string>("all");
+  const [selectedCategorySlug, setSelectedCategorySlug] = useState<string>("all");
+  const [specFilters, setSpecFilters] = useState<SpecFilters>(EMPTY_SPEC_FILTERS);
+  const [showSpecFilters, setShowSpecFilters] = useState(false);
+  const [priceRange, setPriceRange] = useState<[number, number] | null>(null);
+  const [priceCurrency, setPriceCurrency] = useState<BudgetCurrency>("USD");
+  const [showPriceFilter, setShowPriceFilter] = useState(false);
+  const [sortBy, setSortBy] = useState<RobotSort>("rating");
 
   // Get all robots and tags using SWR
   const { data: allRobots = [], error, isLoading } = useAllRobots();
   const { data: allTags = [] } = useAllTags();
+  const { data: categories = [] } = useRobotCategories();
+  const { data: rates = DEFAULT_EXCHANGE_RATES } = useExchangeRates();
 
   // Update state from URL parameters
   useEffect(() => {
     const search = searchParams.get("search") || "";
     const tag = searchParams.get("tag") || "all";
+    const category = searchParams.get("category") || "all";
     
     setSearchQuery(search);
     setSelectedTag(tag);
+    setSelectedCategorySlug(category);
   }, [searchParams]);
 
+  const selectedCategory = categories.find((category) => category.slug === selectedCategorySlug) || null;
+  const categoryPath = getCategoryPath(categories, selectedCategory?.id);
+
+  // Browsing a category includes its subcategories
+  const categoryIds = useMemo(
+    () => (selectedCategory ? getCategoryDescendantIds(categories, selectedCategory.id) : null),
+    [categories, selectedCategory]
+  );
+
+  // Subcategories to drill into, with how many robots each holds
+  const subcategories = useMemo(() => {
+    const children = buildCategoryTree(
+      categories.filter((category) => category.parent_id === (selectedCategory?.id ?? null))
+    );
+
+    return children.map(({ category }) => {
+      const ids = getCategoryDescendantIds(categories, category.id);
+      return {
+        category,
+        count: allRobots.filter((robot) => robot.category_id && ids.has(robot.category_id)).length,
+      };
+    });
+  }, [categories, selectedCategory, allRobots]);
+
+  const usdPriceRange = priceRange ? getPriceFilterRange(priceRange) : null;
+
   // Perform client-side search, filtering, and sorting
   const robots = comprehensiveSearch(allRobots, searchQuery, {
     tag: selectedTag,
     sortBy: 'rating',
     limit: 1000
-  });
+  })
+    .filter((robot) => !categoryIds || (robot.category_id && categoryIds.has(robot.category_id)))
+    .filter((robot) => matchesSpecFilters(robot.specs, specFilters))
+    .filter((robot) => !usdPriceRange || matchesPriceRange(getBudgetAmount(robot), usdPriceRange, rates));
+
+  // Ties keep their rating order, since sort is stable
+  if (sortBy === "price") {
+    robots.sort((a, b) => compareBudgetAmounts(getBudgetAmount(a), getBudgetAmount(b), rates));
+  }
+
+  const activeSpecFilterCount = countActiveSpecFilters(specFilters);
+  const hasFilters =
+    Boolean(searchQuery) ||
+    selectedTag !== "all" ||
+    Boolean(selectedCategory) ||
+    activeSpecFilterCount > 0 ||
+    Boolean(priceRange);
 
   const handleSearch = (value: string) => {
     setSearchQuery(value);
@@ -69,9 +155,35 @@ function RobotsContent() {
     window.history.replaceState({}, "", newUrl.toString());
   };
 
+  const handleCategoryChange = (category: RobotCategory | null) => {
+    setSelectedCategorySlug(category?.slug || "all");
+    const newUrl = new URL(window.location.href);
+    if (category) {
+      newUrl.searchParams.set("category", category.slug);
+    } else {
+      newUrl.searchParams.delete("category");
+    }
+    window.history.replaceState({}, "", newUrl.toString());
+  };
+
+  const removeRangeFilter = (key: NumericSpecKey) => {
+    const ranges = { ...specFilters.ranges };
+    delete ranges[key];
+    setSpecFilters({ ...specFilters, ranges });
+  };
+
+  const removeOptionFilter = (key: EnumSpecKey) => {
+    const options = { ...specFilters.options };
+    delete options[key];
+    setSpecFilters({ ...specFilters, options });
+  };
+
   const clearFilters = () => {
     setSearchQuery("");
     setSelectedTag("all");
+    setSelectedCategorySlug("all");
+    setSpecFilters(EMPTY_SPEC_FILTERS);
+    setPriceRange(null);
     window.history.replaceState({}, "", window.location.pathname);
   };
 
@@ -113,6 +225,18 @@ function RobotsContent() {
           </div>
 
 
+          {/* Category Filter */}
+          <CategorySelect
+            categories={categories}
+            value={selectedCategory?.id || "none"}
+            onValueChange={(value) =>
+              handleCategoryChange(categories.find((category) => category.id === value) || null)
+            }
+            noneLabel="All Categories"
+            placeholder="Filter by category"
+            className="w-full md:w-56"
+          />
+
           {/* Tag Filter */}
           <Select value={selectedTag} onValueChange={handleTagChange}>
             <SelectTrigger className="w-full md:w-48">
@@ -128,10 +252,74 @@ function RobotsContent() {
             </SelectContent>
           </Select>
 
+          {/* Spec Filters */}
+          <Button
+            variant={showSpecFilters ? "secondary" : "outline"}
+            onClick={() => setShowSpecFilters(!showSpecFilters)}
+          >
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            Specs
+            {activeSpecFilterCount > 0 && (
+              <Badge variant="default" className="ml-2">
+                {activeSpecFilterCount}
+              </Badge>
+            )}
+          </Button>
+
+          {/* Price Filter */}
+          <Button
+            variant={showPriceFilter ? "secondary" : "outline"}
+            onClick={() => setShowPriceFilter(!showPriceFilter)}
+          >
+            <DollarSign className="h-4 w-4 mr-2" />
+            Price
+            {priceRange && (
+              <Badge variant="default" className="ml-2">
+                1
+              </Badge>
+            )}
+          </Button>
+
+          {/* Sort */}
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as RobotSort)}>
+            <SelectTrigger className="w-full md:w-44" aria-label="Sort robots">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="rating">Top rated</SelectItem>
+              <SelectItem value="price">Cheapest first</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
 
+        {showSpecFilters && (
+          <Card>
+            <CardContent className="pt-6">
+              <RobotSpecFilters
+                robots={allRobots}
+                filters={specFilters}
+                onFiltersChange={setSpecFilters}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {showPriceFilter && (
+          <Card>
+            <CardContent className="pt-6">
+              <RobotPriceFilter
+                value={priceRange}
+                onValueChange={setPriceRange}
+                currency={priceCurrency}
+                onCurrencyChange={setPriceCurrency}
+                rates={rates}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Active Filters */}
-        {(searchQuery || selectedTag !== "all") && (
+        {hasFilters && (
           <div className="flex flex-wrap items-center gap-2">
             <span className="text-sm text-muted-foreground">Filters:</span>
             {searchQuery && (
@@ -145,6 +333,17 @@ function RobotsContent() {
                 </button>
               </Badge>
             )}
+            {selectedCategory && (
+              <Badge variant="secondary" className="gap-1">
+                Category: {formatCategoryPath(categoryPath)}
+                <button
+                  onClick={() => handleCategoryChange(null)}
+                  className="ml-1 hover:text-destructive"
+                >
+                  ×
+                </button>
+              </Badge>
+            )}
             {selectedTag !== "all" && (
               <Badge variant="secondary" className="gap-1">
                 Tag: #{selectedTag}
@@ -156,6 +355,44 @@ function RobotsContent() {
                 </button>
               </Badge>
             )}
+            {NUMERIC_SPEC_FIELDS.filter((field) => specFilters.ranges[field.key]).map((field) => {
+              const [low, high] = specFilters.ranges[field.key]!;
+              return (
+                <Badge key={field.key} variant="secondary" className="gap-1">
+                  {field.label}: {low}–{high}
+                  {field.unit ? ` ${field.unit}` : ""}
+                  <button
+                    onClick={() => removeRangeFilter(field.key)}
+                    className="ml-1 hover:text-destructive"
+                  >
+                    ×
+                  </button>
+                </Badge>
+              );
+            })}
+            {ENUM_SPEC_FIELDS.filter((field) => specFilters.options[field.key]?.length).map((field) => (
+              <Badge key={field.key} variant="secondary" className="gap-1">
+                {field.label}:{" "}
+                {specFilters.options[field.key]!.map((option) => SPEC_OPTION_LABELS[option] || option).join(" or ")}
+                <button
+                  onClick={() => removeOptionFilter(field.key)}
+                  className="ml-1 hover:text-destructive"
+                >
+                  ×
+                </button>
+              </Badge>
+            ))}
+            {usdPriceRange && (
+              <Badge variant="secondary" className="gap-1">
+                Budget: {formatPriceFilterRange(usdPriceRange, priceCurrency, rates)}
+                <button
+                  onClick={() => setPriceRange(null)}
+                  className="ml-1 hover:text-destructive"
+                >
+                  ×
+                </button>
+              </Badge>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -168,6 +405,28 @@ function RobotsContent() {
         )}
       </div>
 
+      {/* Category Browsing */}
+      {categories.length > 0 && (
+        <div className="mb-6 space-y-3">
+          <CategoryBreadcrumbs path={categoryPath} onSelect={handleCategoryChange} />
+          {subcategories.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {subcategories.map(({ category, count }) => (
+                <Button
+                  key={category.id}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCategoryChange(category)}
+                >
+                  {category.name}
+                  <span className="ml-1 text-muted-foreground">({count})</span>
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Results */}
       {isLoading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -182,11 +441,11 @@ function RobotsContent() {
           <div className="text-6xl mb-4">🤖</div>
           <h2 className="text-2xl font-bold mb-2">No robots found</h2>
           <p className="text-muted-foreground mb-6">
-            {searchQuery || selectedTag !== "all"
+            {hasFilters
               ? "Try adjusting your search or filters"
               : "Be the first to add a robot to the community!"}
           </p>
-          {searchQuery || selectedTag !== "all" ? (
+          {hasFilters ? (
             <Button onClick={clearFilters}>Clear Filters</Button>
           ) : (
             <Button asChild>
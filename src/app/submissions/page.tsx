@@ -0,0 +1,16 @@
+import { Metadata } from "next";
+import SubmissionsClient from "./submissions-client";
+
+export const metadata: Metadata = {
+  title: "My Robots",
+  description:
+    "Follow the robots you've submitted: review status, reviewer notes and publishing.",
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function SubmissionsPage() {
+  return <SubmissionsClient />;
+}
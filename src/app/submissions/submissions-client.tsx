@@ -0,0 +1,296 @@
+"use client";
+
+import { useState } from "react";
+import useSWR, { mutate } from "swr";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import Link from "@/components/ui/link";
+import { Badge } from "@/components/ui/badge";
+import { RobotReviewStatus } from "@/components/RobotReviewStatus";
+import { getOwnerStatusActions, isPublicRobotStatus } from "@/lib/robot-moderation";
+import { MAINTAINER_ROLE_LABELS } from "@/lib/robot-maintainers";
+import type {
+  Robot,
+  RobotMaintainerInvitation,
+  RobotMaintainerRole,
+  RobotStatus,
+} from "@/lib/types";
+import { Bot, Edit, Eye, Loader2, Mail, Plus } from "lucide-react";
+
+type SubmittedRobot = Pick<
+  Robot,
+  | "id"
+  | "name"
+  | "slug"
+  | "description"
+  | "status"
+  | "review_notes"
+  | "reviewed_at"
+  | "submitted_at"
+  | "updated_at"
+> & { role: RobotMaintainerRole };
+
+type PendingInvitation = RobotMaintainerInvitation & {
+  robots: Pick<Robot, "id" | "name" | "slug"> | null;
+};
+
+// Robots the user owns or co-maintains
+const myRobotsFetcher = async (key: string): Promise<SubmittedRobot[]> => {
+  const userId = key.replace("my-robots-", "");
+
+  const { data, error } = await supabase
+    .from("robot_maintainers")
+    .select(
+      "role, robots (id, name, slug, description, status, review_notes, reviewed_at, submitted_at, updated_at)"
+    )
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch your robots: ${error.message}`);
+  }
+
+  const rows = (data || []) as unknown as {
+    role: RobotMaintainerRole;
+    robots: Omit<SubmittedRobot, "role"> | null;
+  }[];
+
+  return rows
+    .flatMap((row) => (row.robots ? [{ ...row.robots, role: row.role }] : []))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+};
+
+const invitationsFetcher = async (key: string): Promise<PendingInvitation[]> => {
+  const userId = key.replace("my-maintainer-invitations-", "");
+
+  const { data, error } = await supabase
+    .from("robot_maintainer_invitations")
+    .select("*, robots (id, name, slug)")
+    .eq("invitee_id", userId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch invitations: ${error.message}`);
+  }
+
+  return (data || []) as unknown as PendingInvitation[];
+};
+
+export default function SubmissionsClient() {
+  const { user, loading } = useAuth();
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const swrKey = user ? `my-robots-${user.id}` : null;
+  const { data: robots = [], isLoading, mutate: mutateRobots } = useSWR(
+    swrKey,
+    myRobotsFetcher,
+    {
+      revalidateOnFocus: false,
+    }
+  );
+
+  const { data: invitations = [], mutate: mutateInvitations } = useSWR(
+    user ? `my-maintainer-invitations-${user.id}` : null,
+    invitationsFetcher,
+    {
+      revalidateOnFocus: false,
+    }
+  );
+
+  const handleInvitation = async (
+    invitation: PendingInvitation,
+    status: "accepted" | "declined"
+  ) => {
+    setUpdatingId(invitation.id);
+    try {
+      const { error } = await supabase
+        .from("robot_maintainer_invitations")
+        .update({ status })
+        .eq("id", invitation.id);
+
+      if (error) throw error;
+
+      await Promise.all([mutateInvitations(), mutateRobots()]);
+      mutate(`robot-maintainers-${invitation.robot_id}`);
+    } catch (error) {
+      console.error("Error answering invitation:", error);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleStatusChange = async (robot: SubmittedRobot, status: RobotStatus) => {
+    setUpdatingId(robot.id);
+    try {
+      const { error } = await supabase
+        .from("robots")
+        .update({ status })
+        .eq("id", robot.id);
+
+      if (error) throw error;
+
+      await mutateRobots();
+      // Public listings change when a robot enters or leaves the site
+      mutate("all-robots");
+    } catch (error) {
+      console.error("Error updating robot status:", error);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (!loading && !user) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center">
+        <Card className="max-w-md mx-auto">
+          <CardContent className="pt-6">
+            <h1 className="text-2xl font-bold mb-4">Sign In Required</h1>
+            <p className="text-muted-foreground mb-6">
+              You need to be signed in to see your robots.
+            </p>
+            <Button asChild>
+              <Link href="/auth/login">Sign In</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">My Robots</h1>
+            <p className="text-muted-foreground">
+              Robots you own or maintain, where they are in review and what
+              reviewers said about them.
+            </p>
+          </div>
+          <Button asChild>
+            <Link href="/create">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Robot
+            </Link>
+          </Button>
+        </div>
+
+        {invitations.length > 0 && (
+          <div className="space-y-3 mb-8">
+            {invitations.map((invitation) => (
+              <Card key={invitation.id}>
+                <CardContent className="pt-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Mail className="h-4 w-4 flex-shrink-0" />
+                    <span>
+                      {invitation.role === "owner"
+                        ? "You've been asked to take over "
+                        : "You've been invited to maintain "}
+                      <span className="font-medium">
+                        {invitation.robots?.name || "a robot"}
+                      </span>
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={updatingId === invitation.id}
+                      onClick={() => handleInvitation(invitation, "declined")}
+                    >
+                      Decline
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={updatingId === invitation.id}
+                      onClick={() => handleInvitation(invitation, "accepted")}
+                    >
+                      Accept
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {loading || isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : robots.length === 0 ? (
+          <div className="text-center py-12">
+            <Bot className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              You haven&apos;t added any robots yet.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {robots.map((robot) => (
+              <Card key={robot.id}>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <h2 className="font-semibold text-lg flex items-center gap-2">
+                        {robot.name}
+                        {robot.role !== "owner" && (
+                          <Badge variant="outline">{MAINTAINER_ROLE_LABELS[robot.role]}</Badge>
+                        )}
+                      </h2>
+                      <p className="text-sm text-muted-foreground line-clamp-2">
+                        {robot.description}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      {isPublicRobotStatus(robot.status) && (
+                        <Button size="sm" variant="ghost" asChild>
+                          <Link href={`/robots/${robot.slug}`}>
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" asChild>
+                        <Link
+                          href={`/admin/robots/${
+                            robot.id
+                          }/edit?returnTo=${encodeURIComponent("/submissions")}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                    </div>
+                  </div>
+
+                  <RobotReviewStatus robot={robot} />
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {getOwnerStatusActions(robot.status).map((action) => (
+                      <Button
+                        key={action.status}
+                        size="sm"
+                        variant="outline"
+                        disabled={updatingId === robot.id}
+                        onClick={() => handleStatusChange(robot, action.status)}
+                      >
+                        {action.label}
+                      </Button>
+                    ))}
+                    {robot.status === "pending_review" && robot.submitted_at && (
+                      <span className="text-xs text-muted-foreground">
+                        Submitted {new Date(robot.submitted_at).toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { Fragment } from "react";
+import { ChevronRight } from "lucide-react";
+import Link from "@/components/ui/link";
+import type { RobotCategory } from "@/lib/types";
+
+interface CategoryBreadcrumbsProps {
+  // Root first, as returned by getCategoryPath
+  path: RobotCategory[];
+  // Trailing, unlinked crumb such as the robot's name
+  current?: string;
+  // Stay on the page instead of navigating, e.g. on the robots list
+  onSelect?: (category: RobotCategory | null) => void;
+}
+
+export function CategoryBreadcrumbs({ path, current, onSelect }: CategoryBreadcrumbsProps) {
+  const crumbs: { key: string; label: string; category: RobotCategory | null }[] = [
+    { key: "all", label: "All Robots", category: null },
+    ...path.map((category) => ({ key: category.id, label: category.name, category })),
+  ];
+
+  return (
+    <nav aria-label="Breadcrumb" className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
+      {crumbs.map(({ key, label, category }, index) => {
+        const isLast = index === crumbs.length - 1 && !current;
+        const href = category ? `/robots?category=${category.slug}` : "/robots";
+
+        return (
+          <Fragment key={key}>
+            {index > 0 && <ChevronRight className="h-4 w-4" />}
+            {isLast ? (
+              <span className="text-foreground font-medium" aria-current="page">
+                {label}
+              </span>
+            ) : onSelect ? (
+              <button onClick={() => onSelect(category)} className="hover:text-foreground transition-colors">
+                {label}
+              </button>
+            ) : (
+              <Link href={href} className="hover:text-foreground transition-colors">
+                {label}
+              </Link>
+            )}
+          </Fragment>
+        );
+      })}
+      {current && (
+        <>
+          <ChevronRight className="h-4 w-4" />
+          <span className="text-foreground font-medium" aria-current="page">
+            {current}
+          </span>
+        </>
+      )}
+    </nav>
+  );
+}
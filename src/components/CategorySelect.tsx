@@ -0,0 +1,57 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { buildCategoryTree, flattenCategoryTree } from "@/lib/robot-categories";
+import type { RobotCategory } from "@/lib/types";
+
+interface CategorySelectProps {
+  categories: RobotCategory[];
+  // The selected category id, or "none"
+  value: string;
+  onValueChange: (value: string) => void;
+  placeholder?: string;
+  // Label of the "none" entry; leave out to require a category
+  noneLabel?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Category picker showing the tree as an indented list
+export function CategorySelect({
+  categories,
+  value,
+  onValueChange,
+  placeholder = "Select a category",
+  noneLabel,
+  disabled,
+  className,
+}: CategorySelectProps) {
+  const options = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger className={className || "w-full"}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {noneLabel && <SelectItem value="none">{noneLabel}</SelectItem>}
+        {options.map(({ category, depth }) => (
+          <SelectItem
+            key={category.id}
+            value={category.id}
+            style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
+          >
+            {category.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,290 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { BadgeCheck, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/contexts/AuthContext";
+import { getAuthHeaders, supabase } from "@/lib/supabase";
+import {
+  CLAIM_FILE_PATH,
+  CLAIM_STATUS_LABELS,
+  OPEN_CLAIM_STATUSES,
+} from "@/lib/robot-claims";
+import type { RobotClaim } from "@/lib/types";
+
+interface ClaimRobotDialogProps {
+  robotId: string;
+  robotName: string;
+  githubUrl: string;
+  // Called once a claim is approved and the robot has changed hands
+  onClaimed: () => void;
+}
+
+// The user's latest claim on the robot, so rejections can be shown
+const latestClaimFetcher = async (
+  robotId: string,
+  userId: string
+): Promise<RobotClaim | null> => {
+  const { data, error } = await supabase
+    .from("robot_claims")
+    .select("*")
+    .eq("robot_id", robotId)
+    .eq("claimant_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch claim: ${error.message}`);
+  }
+
+  return data as RobotClaim | null;
+};
+
+// Lets the people behind a robot's repository take over its listing
+export function ClaimRobotDialog({
+  robotId,
+  robotName,
+  githubUrl,
+  onClaimed,
+}: ClaimRobotDialogProps) {
+  const { user, profile } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const { data: latestClaim, mutate } = useSWR(
+    open && user ? `robot-claim-${robotId}-${user.id}` : null,
+    () => latestClaimFetcher(robotId, user!.id),
+    {
+      revalidateOnFocus: false,
+    }
+  );
+
+  // undefined while loading, null when there's nothing open to continue
+  const claim =
+    latestClaim && !OPEN_CLAIM_STATUSES.includes(latestClaim.status)
+      ? null
+      : latestClaim;
+
+  if (!user) return null;
+
+  const verify = async (claimId: string) => {
+    setVerifying(true);
+    setFailure(null);
+
+    try {
+      const response = await fetch("/api/verify-claim", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await getAuthHeaders()) },
+        body: JSON.stringify({ claimId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to verify claim");
+      }
+
+      if (!data.verified) {
+        setFailure(data.details);
+      } else if (data.claim.status === "approved") {
+        toast.success(`You now own ${robotName}`);
+        setOpen(false);
+        onClaimed();
+      } else {
+        toast.success("Claim verified. An admin will review it shortly.");
+      }
+
+      await mutate(data.claim, { revalidate: false });
+    } catch (error) {
+      console.error("Error verifying claim:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to verify claim");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleStart = async () => {
+    try {
+      setSubmitting(true);
+
+      const { data, error } = await supabase
+        .from("robot_claims")
+        .insert({ robot_id: robotId, claimant_id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await mutate(data as RobotClaim, { revalidate: false });
+      await verify(data.id);
+    } catch (error) {
+      console.error("Error starting claim:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const updateClaim = async (
+    status: "contested" | "withdrawn",
+    notes?: string
+  ) => {
+    if (!claim) return;
+
+    try {
+      setSubmitting(true);
+
+      const { error } = await supabase
+        .from("robot_claims")
+        .update({ status, ...(notes !== undefined && { message: notes || null }) })
+        .eq("id", claim.id);
+
+      if (error) throw error;
+
+      setFailure(null);
+      setMessage("");
+      await mutate();
+      if (status === "withdrawn") setOpen(false);
+    } catch (error) {
+      console.error("Error updating claim:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const busy = verifying || submitting;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <BadgeCheck className="h-4 w-4 mr-2" />
+          Claim this robot
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Claim {robotName}</DialogTitle>
+          <DialogDescription>
+            Built this robot? Claim it to manage its listing. We check that
+            your GitHub account owns or collaborates on{" "}
+            <span className="font-medium break-all">{githubUrl}</span>.
+          </DialogDescription>
+        </DialogHeader>
+
+        {claim === undefined ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : !claim ? (
+          <p className="text-sm text-muted-foreground">
+            {profile?.github_username
+              ? `You're signed in as @${profile.github_username}.`
+              : "Your profile has no GitHub username."}{" "}
+            If the repository belongs to someone else, you can prove it&apos;s
+            yours with a verification file instead.
+            {latestClaim?.status === "rejected" && latestClaim.review_notes && (
+              <span className="block mt-3 text-foreground">
+                Your last claim was rejected: {latestClaim.review_notes}
+              </span>
+            )}
+          </p>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground">Status</span>
+              <Badge variant="outline">{CLAIM_STATUS_LABELS[claim.status]}</Badge>
+            </div>
+
+            {claim.status === "pending" ? (
+              <>
+                {failure && (
+                  <p className="rounded-md border border-amber-200 bg-amber-50 p-3 text-amber-900 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-100">
+                    {failure}
+                  </p>
+                )}
+                <div className="space-y-2">
+                  <p>
+                    To verify with a file, commit{" "}
+                    <code className="font-mono">{CLAIM_FILE_PATH}</code> to the
+                    root of the repository&apos;s default branch, containing:
+                  </p>
+                  <code className="block rounded-md bg-muted p-2 font-mono break-all">
+                    {claim.verification_token}
+                  </code>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-muted-foreground">
+                    Can&apos;t verify either way? Tell the admins how you&apos;re
+                    connected to the robot and they&apos;ll review your claim.
+                  </p>
+                  <Textarea
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder="e.g. I'm the lead engineer; the repository belongs to our lab"
+                    maxLength={1000}
+                    rows={3}
+                    disabled={busy}
+                  />
+                </div>
+              </>
+            ) : (
+              <p className="text-muted-foreground">
+                An admin will look at your claim and hand the robot over if
+                it checks out.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {!claim ? (
+            <Button onClick={handleStart} disabled={busy || claim === undefined}>
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Claim and verify
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                onClick={() => updateClaim("withdrawn")}
+                disabled={busy}
+              >
+                Withdraw
+              </Button>
+              {claim.status === "pending" && (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => updateClaim("contested", message.trim())}
+                    disabled={busy || !message.trim()}
+                  >
+                    Ask an admin
+                  </Button>
+                  <Button onClick={() => verify(claim.id)} disabled={busy}>
+                    {verifying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Verify again
+                  </Button>
+                </>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { Check, Columns3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useCompareTray, type CompareTrayRobot } from "@/lib/hooks/useCompareTray";
+import { cn } from "@/lib/utils";
+
+interface CompareToggleButtonProps {
+  robot: CompareTrayRobot;
+  className?: string;
+}
+
+export function CompareToggleButton({ robot, className }: CompareToggleButtonProps) {
+  const { isInTray, toggle } = useCompareTray();
+  const selected = isInTray(robot.slug);
+  const label = selected ? "Remove from comparison" : "Add to comparison";
+
+  return (
+    <Button
+      type="button"
+      variant={selected ? "default" : "outline"}
+      size="icon"
+      className={cn("h-7 w-7 shrink-0", className)}
+      title={label}
+      aria-pressed={selected}
+      onClick={(e) => {
+        // Cards and search results are links themselves
+        e.preventDefault();
+        e.stopPropagation();
+        toggle(robot);
+      }}
+    >
+      {selected ? <Check className="h-3.5 w-3.5" /> : <Columns3 className="h-3.5 w-3.5" />}
+      <span className="sr-only">{label}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { Columns3, X } from "lucide-react";
+import Link from "@/components/ui/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useCompareTray } from "@/lib/hooks/useCompareTray";
+import { MAX_COMPARED_ROBOTS, getCompareUrl } from "@/lib/robot-compare";
+
+export function CompareTray() {
+  const pathname = usePathname();
+  const { robots, remove, clear } = useCompareTray();
+
+  // The comparison page has its own controls
+  if (robots.length === 0 || pathname === "/compare") {
+    return null;
+  }
+
+  return (
+    <Card className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-2xl py-0 shadow-lg">
+      <CardContent className="flex flex-col sm:flex-row sm:items-center gap-3 p-3">
+        <div className="flex flex-wrap items-center gap-2 flex-1 min-w-0">
+          <span className="text-sm font-medium flex items-center">
+            <Columns3 className="h-4 w-4 mr-1" />
+            Compare ({robots.length}/{MAX_COMPARED_ROBOTS})
+          </span>
+          {robots.map((robot) => (
+            <Badge key={robot.slug} variant="secondary" className="gap-1">
+              {robot.name}
+              <button
+                onClick={() => remove(robot.slug)}
+                className="ml-1 hover:text-destructive"
+                aria-label={`Remove ${robot.name} from comparison`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={clear}>
+            Clear
+          </Button>
+          {robots.length < 2 ? (
+            <Button size="sm" disabled>
+              Add one more
+            </Button>
+          ) : (
+            <Button size="sm" asChild>
+              <Link href={getCompareUrl(robots.map((robot) => robot.slug))}>Compare</Link>
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
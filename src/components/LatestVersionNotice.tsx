@@ -0,0 +1,42 @@
+"use client";
+
+import { Fragment, useMemo } from "react";
+import { Info } from "lucide-react";
+import Link from "@/components/ui/link";
+import { useRobotRelationships } from "@/lib/hooks/useRobotRelationships";
+import { getLatestVersions } from "@/lib/robot-relationships";
+
+interface LatestVersionNoticeProps {
+  robotId: string;
+}
+
+// Points visitors of a superseded robot to the current version(s)
+export function LatestVersionNotice({ robotId }: LatestVersionNoticeProps) {
+  const { data } = useRobotRelationships(robotId);
+
+  const latest = useMemo(
+    () => (data ? getLatestVersions(data.relationships, robotId) : []),
+    [data, robotId]
+  );
+
+  if (!data || latest.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 flex items-center gap-2 rounded-md border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-900 dark:border-blue-900 dark:bg-blue-950 dark:text-blue-100">
+      <Info className="h-4 w-4 flex-shrink-0" />
+      <span>
+        A newer version of this robot is available:{" "}
+        {latest.map((id, index) => (
+          <Fragment key={id}>
+            {index > 0 && " or "}
+            <Link href={`/robots/${data.robots[id]?.slug}`} className="font-medium underline underline-offset-2">
+              {data.robots[id]?.name}
+            </Link>
+          </Fragment>
+        ))}
+      </span>
+    </div>
+  );
+}
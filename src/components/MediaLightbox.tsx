@@ -0,0 +1,94 @@
+"use client";
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { getYouTubeEmbedUrl } from "@/lib/robot-media";
+import type { RobotMedia } from "@/lib/types";
+
+interface MediaLightboxProps {
+  media: RobotMedia[];
+  // Index of the open item, null when closed
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+  title: string;
+}
+
+export function MediaLightbox({ media, index, onIndexChange, title }: MediaLightboxProps) {
+  const item = index !== null ? media[index] : null;
+  const hasMultiple = media.length > 1;
+
+  const step = (offset: number) => {
+    if (index === null) return;
+    onIndexChange((index + offset + media.length) % media.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowLeft") step(-1);
+    if (e.key === "ArrowRight") step(1);
+  };
+
+  const embedUrl = item?.media_type === "video" ? getYouTubeEmbedUrl(item.url) : null;
+
+  return (
+    <Dialog open={item !== null} onOpenChange={(open) => !open && onIndexChange(null)}>
+      <DialogContent className="sm:max-w-5xl p-4" onKeyDown={handleKeyDown}>
+        <DialogTitle className="sr-only">{title}</DialogTitle>
+        {item && (
+          <>
+            <div className="relative flex items-center justify-center bg-black rounded-md overflow-hidden min-h-[40vh]">
+              {item.media_type === "image" ? (
+                <img
+                  src={item.url}
+                  alt={item.caption || title}
+                  className="max-h-[75vh] w-auto object-contain"
+                />
+              ) : embedUrl ? (
+                <iframe
+                  src={embedUrl}
+                  title={item.caption || title}
+                  className="w-full aspect-video"
+                  allow="accelerometer; autoplay; encrypted-media; gyroscope; picture-in-picture"
+                  allowFullScreen
+                />
+              ) : (
+                <video key={item.id} src={item.url} controls className="max-h-[75vh] w-full" />
+              )}
+
+              {hasMultiple && (
+                <>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full opacity-80"
+                    onClick={() => step(-1)}
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                    <span className="sr-only">Previous</span>
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full opacity-80"
+                    onClick={() => step(1)}
+                  >
+                    <ChevronRight className="h-5 w-5" />
+                    <span className="sr-only">Next</span>
+                  </Button>
+                </>
+              )}
+            </div>
+            <DialogDescription className="flex items-center justify-between gap-4">
+              <span>{item.caption}</span>
+              {hasMultiple && (
+                <span className="flex-shrink-0">
+                  {index! + 1} / {media.length}
+                </span>
+              )}
+            </DialogDescription>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { AlertTriangle, BarChart3 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { useExchangeRates } from "@/lib/robot-data";
+import {
+  DEFAULT_EXCHANGE_RATES,
+  formatCurrency,
+  getBudgetLabel,
+  type BudgetAmount,
+} from "@/lib/budget-config";
+import {
+  isBucketInBudget,
+  isListedBudgetUnderstated,
+  summarizeReportedSpend,
+} from "@/lib/reported-spend";
+
+interface ReportedSpendChartProps {
+  // The budget the robot lists
+  listedBudget: BudgetAmount | null;
+  // Amounts reported in the robot's stories
+  reports: (BudgetAmount | null)[];
+}
+
+// "What people actually spent": reported spend from stories, in USD
+export function ReportedSpendChart({ listedBudget, reports }: ReportedSpendChartProps) {
+  const { data: rates = DEFAULT_EXCHANGE_RATES } = useExchangeRates();
+
+  const spend = summarizeReportedSpend(reports, rates);
+  if (!spend) return null;
+
+  const understated = isListedBudgetUnderstated(listedBudget, spend, rates);
+  const maxCount = Math.max(...spend.buckets.map((bucket) => bucket.count));
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center">
+            <BarChart3 className="h-5 w-5 mr-2" />
+            What people actually spent
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            From {spend.count} stories that shared their budget
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-x-8 gap-y-2">
+          <div>
+            <div className="text-2xl font-bold">{formatCurrency(spend.median, "USD")}</div>
+            <div className="text-xs text-muted-foreground">Median</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold">
+              {formatCurrency(spend.low, "USD")}–{formatCurrency(spend.high, "USD")}
+            </div>
+            <div className="text-xs text-muted-foreground">Middle half of builders</div>
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          {spend.buckets.map((bucket) => {
+            const inBudget = isBucketInBudget(bucket, listedBudget, rates);
+            return (
+              <div key={bucket.range} className="flex items-center gap-3 text-sm">
+                <span
+                  className={cn(
+                    "w-32 shrink-0 text-right",
+                    inBudget ? "font-medium" : "text-muted-foreground"
+                  )}
+                >
+                  {bucket.range}
+                </span>
+                <div className="h-4 flex-1 rounded bg-muted">
+                  <div
+                    className={cn("h-4 rounded", inBudget ? "bg-primary" : "bg-primary/50")}
+                    style={{ width: `${(bucket.count / maxCount) * 100}%` }}
+                  />
+                </div>
+                <span className="w-6 shrink-0 text-muted-foreground">{bucket.count}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        {listedBudget && (
+          <p className="text-xs text-muted-foreground">
+            Darker bars overlap the listed budget ({getBudgetLabel(listedBudget)}).
+            Amounts in other currencies are converted to US dollars.
+          </p>
+        )}
+
+        {understated && (
+          <p className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-100">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>
+              Builders report spending far more than the listed budget of{" "}
+              {getBudgetLabel(listedBudget!)}. Plan for around{" "}
+              {formatCurrency(spend.median, "USD")}.
+            </span>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,16 +8,24 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
-import { BudgetSelector } from "@/components/ui/budget-selector";
+import { BudgetInput } from "@/components/ui/budget-input";
 import { Star } from "lucide-react";
 import { mutate } from "swr";
+import {
+  getBudgetAmount,
+  getBudgetPresetAmount,
+  isValidBudgetAmount,
+  toBudgetColumns,
+  type BudgetAmount,
+} from "@/lib/budget-config";
 import type { ReviewFormProps } from "@/lib/types";
 
 // Local storage utilities for reviews
 interface ReviewDraft {
   rating: number;
   comment: string;
-  budget: string;
+  // Drafts saved before numeric budgets hold the preset label
+  budget: BudgetAmount | string | null;
   isAnonymous: boolean;
 }
 
@@ -66,7 +74,7 @@ export function ReviewForm({
   const { user, profile } = useAuth();
   const [rating, setRating] = useState(0);
   const [comment, setComment] = useState("");
-  const [budget, setBudget] = useState("");
+  const [budget, setBudget] = useState<BudgetAmount | null>(null);
   const [isAnonymous, setIsAnonymous] = useState(false);
   const [hoveredStar, setHoveredStar] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -77,7 +85,7 @@ export function ReviewForm({
       // If editing existing review, use existing data
       setRating(existingReview.rating || 0);
       setComment(existingReview.comment || "");
-      setBudget(existingReview.budget || "");
+      setBudget(getBudgetAmount(existingReview));
       setIsAnonymous(existingReview.is_anonymous || false);
     } else {
       // For new reviews, try to load from localStorage
@@ -85,7 +93,11 @@ export function ReviewForm({
       if (draft) {
         setRating(draft.rating);
         setComment(draft.comment);
-        setBudget(draft.budget);
+        setBudget(
+          typeof draft.budget === "string"
+            ? getBudgetPresetAmount(draft.budget)
+            : draft.budget
+        );
         setIsAnonymous(draft.isAnonymous);
       }
     }
@@ -119,7 +131,7 @@ export function ReviewForm({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (rating === 0 || !comment.trim()) {
+    if (rating === 0 || !comment.trim() || (budget && !isValidBudgetAmount(budget))) {
       return;
     }
 
@@ -135,7 +147,7 @@ export function ReviewForm({
           user_id: user.id,
           rating,
           comment: comment.trim(),
-          budget: budget.trim() || null,
+          ...toBudgetColumns(budget),
           is_anonymous: isAnonymous,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -170,7 +182,7 @@ export function ReviewForm({
           .update({
             rating,
             comment: comment.trim(),
-            budget: budget.trim() || null,
+            ...toBudgetColumns(budget),
             is_anonymous: isAnonymous,
             updated_at: new Date().toISOString(),
           })
@@ -187,7 +199,7 @@ export function ReviewForm({
           user_id: user.id,
           rating,
           comment: comment.trim(),
-          budget: budget.trim() || null,
+          ...toBudgetColumns(budget),
           is_anonymous: isAnonymous,
         });
 
@@ -216,7 +228,7 @@ export function ReviewForm({
       if (!existingReview) {
         setRating(0);
         setComment("");
-        setBudget("");
+        setBudget(null);
         setIsAnonymous(false);
         clearReviewDraft(robotId);
       }
@@ -303,7 +315,7 @@ export function ReviewForm({
             <Label htmlFor="budget" className="block text-sm font-medium mb-2">
               Budget (Optional)
             </Label>
-            <BudgetSelector
+            <BudgetInput
               value={budget}
               onValueChange={setBudget}
               placeholder="Select budget range"
@@ -4,10 +4,12 @@ import Link from "@/components/ui/link";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { BudgetDisplay } from "@/components/ui/budget-display";
+import { CompareToggleButton } from "@/components/CompareToggleButton";
 import { Star, Youtube, Twitter, FileText, ExternalLink } from "lucide-react";
 import { DiscordIcon, GithubIcon } from "@/components/icons";
 import { useRobotReviews } from "@/lib/hooks/useRobotReviews";
 import { detectPlatformFromUrl } from "@/lib/platform-utils";
+import { getBudgetAmount } from "@/lib/budget-config";
 import type { RobotCardProps, SocialLink } from "@/lib/types";
 
 export function RobotCard({ robot }: RobotCardProps) {
@@ -39,12 +41,26 @@ export function RobotCard({ robot }: RobotCardProps) {
   return (
     <Link href={`/robots/${robot.slug}`}>
       <Card className="h-full flex flex-col hover:shadow-lg transition-shadow duration-200 cursor-pointer">
-        <CardContent className="flex-1 pt-6">
+        {/* Cover image from the gallery */}
+        {robot.image_url && (
+          <div className="-mt-6 aspect-video overflow-hidden rounded-t-xl bg-muted">
+            <img
+              src={robot.image_url}
+              alt={robot.name}
+              loading="lazy"
+              className="h-full w-full object-cover"
+            />
+          </div>
+        )}
+        <CardContent className={robot.image_url ? "flex-1" : "flex-1 pt-6"}>
           <div className="space-y-3">
             <div>
-              <h3 className="font-semibold text-lg hover:text-primary transition-colors line-clamp-2">
-                {robot.name}
-              </h3>
+              <div className="flex items-start justify-between gap-2">
+                <h3 className="font-semibold text-lg hover:text-primary transition-colors line-clamp-2">
+                  {robot.name}
+                </h3>
+                <CompareToggleButton robot={robot} />
+              </div>
               <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
                 {robot.description}
               </p>
@@ -68,7 +84,7 @@ export function RobotCard({ robot }: RobotCardProps) {
 
             {/* Budget and Rating Row */}
             <div className="flex items-center justify-between">
-              <BudgetDisplay budget={robot.budget} />
+              <BudgetDisplay budget={robot.budget} amount={getBudgetAmount(robot)} />
               
               {reviewStats && reviewStats.review_count > 0 && (
                 <div className="flex items-center space-x-2">
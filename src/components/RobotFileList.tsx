@@ -1,17 +1,48 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import useSWR, { mutate } from "swr";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Badge } from "@/components/ui/badge";
-import { ThumbsUp, ThumbsDown, Download, Plus, X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Plus, X } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
 import Link from "@/components/ui/link";
-import type { RobotFile, RobotFileListProps } from "@/lib/types";
+import { RobotFileRow } from "@/components/files/RobotFileRow";
+import { RepositoryScanDialog } from "@/components/files/RepositoryScanDialog";
+import { requestFileAnalysis } from "@/components/files/FileValidityReport";
+import { ANALYZABLE_FILE_TYPES } from "@/lib/robot-file-analysis";
+import {
+  detectFileType,
+  FILE_TYPE_LABELS,
+  ROBOT_FILE_TYPES,
+  type FileTypeDetection,
+} from "@/lib/file-types";
+import { summarizeFileRatings, withFileRatings } from "@/lib/file-ranking";
+import { isValidVersion } from "@/lib/file-versions";
+import { groupFileVariants } from "@/lib/file-variants";
+import type { BundleMode } from "@/lib/robot-bundle";
+import type { RobotFile, RobotFileListProps, RobotFileType } from "@/lib/types";
+
+const BUNDLE_MODE_LABELS: Record<BundleMode, string> = {
+  owner: "Owner files only",
+  "top-rated": "Top-rated per type",
+};
 
 // Optimized fetcher function for SWR - eliminates N+1 query problem
 const fetchFiles = async (
@@ -25,11 +56,13 @@ const fetchFiles = async (
     );
 
     const queryPromise = async () => {
-      // First get files for this robot
+      // First get files for this robot, owner files first, then by stored rank
       const filesResult = await supabase
         .from("robot_files")
         .select("*")
         .eq("robot_id", robotId)
+        .order('is_owner_added', { ascending: false })
+        .order('rank_score', { ascending: false })
         .order('created_at', { ascending: false });
 
       if (filesResult.error) {
@@ -53,51 +86,24 @@ const fetchFiles = async (
         throw new Error(ratingsResult.error.message || "Failed to load ratings");
       }
 
-      const ratingsData = ratingsResult.data || [];
-
-      // Build ratings lookup map for O(1) access
-      const ratingsMap = new Map<string, { up: number; down: number; userRating: string | null }>();
-      
-      ratingsData.forEach(rating => {
-        const fileId = rating.file_id;
-        if (!ratingsMap.has(fileId)) {
-          ratingsMap.set(fileId, { up: 0, down: 0, userRating: null });
-        }
-        const fileRatings = ratingsMap.get(fileId)!;
-        
-        if (rating.rating === 'up') fileRatings.up++;
-        else if (rating.rating === 'down') fileRatings.down++;
-        
-        if (userId && rating.user_id === userId) {
-          fileRatings.userRating = rating.rating;
-        }
-      });
+      // Comment counts are only a hint on the discussion button, so a failure isn't fatal
+      const commentsResult = await supabase
+        .from("robot_file_comments")
+        .select("file_id")
+        .in('file_id', fileIds);
 
-      // Combine files with ratings efficiently
-      const filesWithRatings = filesData.map(file => {
-        const ratings = ratingsMap.get(file.id) || { up: 0, down: 0, userRating: null };
-        const score = ratings.up - ratings.down;
-        
-        return {
-          ...file,
-          ratings: {
-            up: ratings.up,
-            down: ratings.down,
-            userRating: ratings.userRating as "up" | "down" | null,
-            score,
-          },
-        };
+      const commentCounts = new Map<string, number>();
+      (commentsResult.data || []).forEach(comment => {
+        commentCounts.set(comment.file_id, (commentCounts.get(comment.file_id) || 0) + 1);
       });
 
-      // Sort files: owner files first, then by rating score
-      return filesWithRatings.sort((a, b) => {
-        if (a.is_owner_added && !b.is_owner_added) return -1;
-        if (!a.is_owner_added && b.is_owner_added) return 1;
-        if (a.is_owner_added === b.is_owner_added) {
-          return (b.ratings?.score || 0) - (a.ratings?.score || 0);
-        }
-        return 0;
-      });
+      // Counts and the user's own vote; the stored rank_score already orders the files
+      const ratings = summarizeFileRatings(ratingsResult.data || [], userId);
+
+      return withFileRatings(filesData, ratings).map(file => ({
+        ...file,
+        comment_count: commentCounts.get(file.id) || 0,
+      }));
     };
 
     return await Promise.race([queryPromise(), timeoutPromise]) as RobotFile[];
@@ -110,12 +116,21 @@ const fetchFiles = async (
 export function RobotFileList({
   robotId,
   isOwner = false,
+  robotBudget,
+  githubUrl,
+  creatorId,
+  maintainerIds,
   className = "",
 }: RobotFileListProps) {
   const { user, profile } = useAuth();
   const [showAddForm, setShowAddForm] = useState(false);
   const [newFileUrl, setNewFileUrl] = useState("");
   const [newFileDescription, setNewFileDescription] = useState("");
+  const [newFileVersion, setNewFileVersion] = useState("");
+  const [newFileType, setNewFileType] = useState<RobotFileType | "">("");
+  const [newFileParentId, setNewFileParentId] = useState("none");
+  const [detection, setDetection] = useState<FileTypeDetection | null>(null);
+  const [detecting, setDetecting] = useState(false);
   const [submitting, setSubmitting] = useState(false);
 
   // Function to infer filename from URL
@@ -143,6 +158,41 @@ export function RobotFileList({
 
   const inferredFilename = inferFilenameFromUrl(newFileUrl);
 
+  // Detect the file type once the contributor stops typing the URL
+  useEffect(() => {
+    const url = newFileUrl.trim();
+    setDetection(null);
+    if (!url) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setDetecting(true);
+      const result = await detectFileType(url);
+      if (cancelled) return;
+      setDetection(result);
+      if (result.type) {
+        setNewFileType(result.type);
+        setNewFileParentId("none");
+      }
+      setDetecting(false);
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setDetecting(false);
+    };
+  }, [newFileUrl]);
+
+  const resetAddForm = () => {
+    setShowAddForm(false);
+    setNewFileUrl("");
+    setNewFileDescription("");
+    setNewFileVersion("");
+    setNewFileType("");
+    setNewFileParentId("none");
+  };
+
   // SWR fetcher for robot files
   const filesKey = `robot-files-${robotId}-${user?.id || "anonymous"}`;
   const {
@@ -207,6 +257,7 @@ export function RobotFileList({
               newUserRating = rating;
             }
 
+            // The database recomputes the score, so rows keep their place until the next load
             return {
               ...file,
               ratings: {
@@ -214,7 +265,6 @@ export function RobotFileList({
                 up: newUp,
                 down: newDown,
                 userRating: newUserRating,
-                score: newUp - newDown,
               },
             };
           });
@@ -267,26 +317,46 @@ export function RobotFileList({
       return;
     }
 
+    if (!newFileType) {
+      toast.error("Please choose a file type");
+      return;
+    }
+
+    if (!isValidVersion(newFileVersion)) {
+      toast.error("Please enter a semantic version like 1.0.0");
+      return;
+    }
+
     try {
       setSubmitting(true);
 
-      const { error } = await supabase.from("robot_files").insert({
-        robot_id: robotId,
-        file_type: "urdf", // Default to URDF, could be made selectable
-        file_url: newFileUrl.trim(),
-        file_name: filename,
-        version: "1.0.0", // Default version
-        description: newFileDescription.trim() || null,
-        user_id: user.id,
-        is_owner_added: isOwner,
-      });
+      const { data: newFile, error } = await supabase
+        .from("robot_files")
+        .insert({
+          robot_id: robotId,
+          file_type: newFileType,
+          file_url: newFileUrl.trim(),
+          file_name: filename,
+          version: newFileVersion.trim(),
+          description: newFileDescription.trim() || null,
+          user_id: user.id,
+          is_owner_added: isOwner,
+          parent_file_id: newFileParentId === "none" ? null : newFileParentId,
+        })
+        .select()
+        .single();
 
       if (error) throw error;
 
-      setNewFileUrl("");
-      setNewFileDescription("");
-      setShowAddForm(false);
+      resetAddForm();
       mutate(filesKey);
+
+      // Validation runs in the background, the report shows up when it's done
+      if (ANALYZABLE_FILE_TYPES.includes(newFile.file_type)) {
+        requestFileAnalysis(newFile.id).catch((error) =>
+          console.error("Error analyzing file:", error)
+        );
+      }
     } catch (error) {
       console.error("Error adding file:", error);
     } finally {
@@ -316,6 +386,41 @@ export function RobotFileList({
     return profile.role === "admin" || file.user_id === user.id || isOwner;
   };
 
+  // Group by type in a fixed order, keeping the owner-first, score order within each group,
+  // with variants nested under the file they derive from
+  const fileGroups = ROBOT_FILE_TYPES.map((type) => ({
+    type,
+    files: files.filter((file) => file.file_type === type),
+  }))
+    .filter((group) => group.files.length > 0)
+    .map((group) => ({ ...group, variantGroups: groupFileVariants(group.files) }));
+
+  const filesById = new Map(files.map((file) => [file.id, file]));
+  // Files a new file of the chosen type can derive from
+  const parentCandidates = files.filter((file) => file.file_type === newFileType);
+
+  const renderFileRow = (
+    file: RobotFile,
+    rankPosition: { position: number; total: number; among: string }
+  ) => (
+    <RobotFileRow
+      key={file.id}
+      file={file}
+      rankPosition={rankPosition}
+      parentFile={file.parent_file_id ? filesById.get(file.parent_file_id) : undefined}
+      robotBudget={robotBudget}
+      robotCreatorId={creatorId}
+      robotMaintainerIds={maintainerIds}
+      canRate={!!user}
+      canDelete={canDelete(file)}
+      canAddVersion={canDelete(file)}
+      onRate={handleRating}
+      onDelete={handleDeleteFile}
+      onVersionAdded={() => mutate(filesKey)}
+      onCommentsChanged={() => mutate(filesKey)}
+    />
+  );
+
   if (error) {
     return (
       <Card className={className}>
@@ -366,23 +471,56 @@ export function RobotFileList({
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>Files</CardTitle>
-          {user ? (
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowAddForm(!showAddForm)}
-            >
-              <Plus className="h-4 w-4 mr-1" />
-              Add File
-            </Button>
-          ) : (
-            <Button variant="outline" size="sm" asChild>
-              <Link href="/auth/login">
+          <div className="flex items-center gap-2">
+            {githubUrl && (isOwner || profile?.role === "admin") && (
+              <RepositoryScanDialog
+                robotId={robotId}
+                onFilesAdded={() => mutate(filesKey)}
+              />
+            )}
+            {files.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Download className="h-4 w-4 mr-1" />
+                    Download All
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {(Object.keys(BUNDLE_MODE_LABELS) as BundleMode[]).map((mode) => (
+                    <DropdownMenuItem
+                      key={mode}
+                      asChild
+                      disabled={
+                        mode === "owner" && !files.some((file) => file.is_owner_added)
+                      }
+                    >
+                      <a href={`/api/download-bundle?robotId=${robotId}&mode=${mode}`}>
+                        {BUNDLE_MODE_LABELS[mode]}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {user ? (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowAddForm(!showAddForm)}
+              >
                 <Plus className="h-4 w-4 mr-1" />
                 Add File
-              </Link>
-            </Button>
-          )}
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/auth/login">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add File
+                </Link>
+              </Button>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -410,6 +548,60 @@ export function RobotFileList({
                   <span className="font-medium">{inferredFilename}</span>
                 </div>
               )}
+              <div className="flex flex-col sm:flex-row gap-3">
+                <div className="flex-1 space-y-1">
+                  <Select
+                    value={newFileType}
+                    onValueChange={(value) => {
+                      setNewFileType(value as RobotFileType);
+                      setNewFileParentId("none");
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="File type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROBOT_FILE_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {FILE_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {newFileUrl.trim() && (
+                    <p className="text-xs text-muted-foreground">
+                      {detecting
+                        ? "Detecting file type..."
+                        : detection?.type
+                          ? `Detected from file ${detection.source === "content" ? "contents" : "extension"}, change it if that's wrong`
+                          : detection
+                            ? "Could not detect the file type, please choose one"
+                            : null}
+                    </p>
+                  )}
+                </div>
+                <Input
+                  className="sm:w-40"
+                  placeholder="Version (e.g. 1.0.0)"
+                  value={newFileVersion}
+                  onChange={(e) => setNewFileVersion(e.target.value)}
+                />
+              </div>
+              {parentCandidates.length > 0 && (
+                <Select value={newFileParentId} onValueChange={setNewFileParentId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Derived from" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Original file (not a variant)</SelectItem>
+                    {parentCandidates.map((file) => (
+                      <SelectItem key={file.id} value={file.id}>
+                        Variant of {file.file_name} v{file.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
               <Input
                 placeholder="Description (optional)"
                 value={newFileDescription}
@@ -419,7 +611,11 @@ export function RobotFileList({
                 <Button
                   onClick={handleAddFile}
                   disabled={
-                    submitting || !newFileUrl.trim() || !inferredFilename
+                    submitting ||
+                    !newFileUrl.trim() ||
+                    !inferredFilename ||
+                    !newFileType ||
+                    !newFileVersion.trim()
                   }
                   size="sm"
                 >
@@ -428,11 +624,7 @@ export function RobotFileList({
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => {
-                    setShowAddForm(false);
-                    setNewFileUrl("");
-                    setNewFileDescription("");
-                  }}
+                  onClick={resetAddForm}
                 >
                   Cancel
                 </Button>
@@ -456,171 +648,34 @@ export function RobotFileList({
             )}
           </div>
         ) : (
-          <div className="space-y-1">
-            {/* Owner files first */}
-            {files
-              .filter((f) => f.is_owner_added)
-              .map((file) => (
-                <div
-                  key={file.id}
-                  className="flex items-center justify-between p-3 border rounded bg-accent/20"
-                >
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2">
-                      <h4 className="font-medium text-sm">{file.file_name}</h4>
-                      <Badge variant="secondary" className="text-xs">
-                        Owner
-                      </Badge>
-                    </div>
-                    {file.description && (
-                      <p className="text-xs text-muted-foreground mt-1">
-                        {file.description}
-                      </p>
-                    )}
-                  </div>
-
-                  <div className="flex items-center gap-2">
-                    <Button variant="outline" size="sm" asChild>
-                      <a
-                        href={file.file_url}
-                        download
-                        target="_blank"
-                        rel="noopener noreferrer"
-                      >
-                        <Download className="h-3 w-3 mr-1" />
-                        Download
-                      </a>
-                    </Button>
-
-                    <div className="flex items-center gap-1 text-xs">
-                      <Button
-                        variant={
-                          file.ratings?.userRating === "up"
-                            ? "default"
-                            : "ghost"
-                        }
-                        size="sm"
-                        onClick={() => handleRating(file.id, "up")}
-                        disabled={!user}
-                        className="h-6 px-2"
-                      >
-                        <ThumbsUp className="h-3 w-3 mr-1" />
-                        {file.ratings?.up || 0}
-                      </Button>
-                      <Button
-                        variant={
-                          file.ratings?.userRating === "down"
-                            ? "destructive"
-                            : "ghost"
-                        }
-                        size="sm"
-                        onClick={() => handleRating(file.id, "down")}
-                        disabled={!user}
-                        className="h-6 px-2"
-                      >
-                        <ThumbsDown className="h-3 w-3 mr-1" />
-                        {file.ratings?.down || 0}
-                      </Button>
-                    </div>
-
-                    {canDelete(file) && (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDeleteFile(file.id)}
-                        className="text-destructive hover:text-destructive h-6 px-2"
-                      >
-                        <X className="h-3 w-3" />
-                      </Button>
+          <div className="space-y-4">
+            {fileGroups.map(({ type, files: groupFiles, variantGroups }) => (
+              <div key={type} className="space-y-1">
+                <h4 className="text-sm font-medium text-muted-foreground">
+                  {FILE_TYPE_LABELS[type]} ({groupFiles.length})
+                </h4>
+                {variantGroups.map(({ file, variants }, index) => (
+                  <div key={file.id} className="space-y-1">
+                    {renderFileRow(file, {
+                      position: index + 1,
+                      total: variantGroups.length,
+                      among: `${FILE_TYPE_LABELS[type]} files`,
+                    })}
+                    {variants.length > 0 && (
+                      <div className="ml-6 pl-3 border-l space-y-1">
+                        {variants.map((variant, variantIndex) =>
+                          renderFileRow(variant, {
+                            position: variantIndex + 1,
+                            total: variants.length,
+                            among: `variants of ${file.file_name}`,
+                          })
+                        )}
+                      </div>
                     )}
                   </div>
-                </div>
-              ))}
-
-            {/* Separator if there are both owner and community files */}
-            {files.some((f) => f.is_owner_added) &&
-              files.some((f) => !f.is_owner_added) && (
-                <div className="border-t my-3">
-                  <p className="text-xs text-muted-foreground text-center py-2">
-                    Community Contributions
-                  </p>
-                </div>
-              )}
-
-            {/* Community files */}
-            {files
-              .filter((f) => !f.is_owner_added)
-              .map((file) => (
-                <div
-                  key={file.id}
-                  className="flex items-center justify-between p-3 border rounded hover:bg-accent/50 transition-colors"
-                >
-                  <div className="flex-1">
-                    <h4 className="font-medium text-sm">{file.file_name}</h4>
-                    {file.description && (
-                      <p className="text-xs text-muted-foreground mt-1">
-                        {file.description}
-                      </p>
-                    )}
-                  </div>
-
-                  <div className="flex items-center gap-2">
-                    <Button variant="outline" size="sm" asChild>
-                      <a
-                        href={file.file_url}
-                        download
-                        target="_blank"
-                        rel="noopener noreferrer"
-                      >
-                        <Download className="h-3 w-3 mr-1" />
-                        Download
-                      </a>
-                    </Button>
-
-                    <div className="flex items-center gap-1 text-xs">
-                      <Button
-                        variant={
-                          file.ratings?.userRating === "up"
-                            ? "default"
-                            : "ghost"
-                        }
-                        size="sm"
-                        onClick={() => handleRating(file.id, "up")}
-                        disabled={!user}
-                        className="h-6 px-2"
-                      >
-                        <ThumbsUp className="h-3 w-3 mr-1" />
-                        {file.ratings?.up || 0}
-                      </Button>
-                      <Button
-                        variant={
-                          file.ratings?.userRating === "down"
-                            ? "destructive"
-                            : "ghost"
-                        }
-                        size="sm"
-                        onClick={() => handleRating(file.id, "down")}
-                        disabled={!user}
-                        className="h-6 px-2"
-                      >
-                        <ThumbsDown className="h-3 w-3 mr-1" />
-                        {file.ratings?.down || 0}
-                      </Button>
-                    </div>
-
-                    {canDelete(file) && (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleDeleteFile(file.id)}
-                        className="text-destructive hover:text-destructive h-6 px-2"
-                      >
-                        <X className="h-3 w-3" />
-                      </Button>
-                    )}
-                  </div>
-                </div>
-              ))}
+                ))}
+              </div>
+            ))}
           </div>
         )}
       </CardContent>
@@ -0,0 +1,410 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  Download,
+  ImagePlus,
+  Play,
+  Settings2,
+  Star,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { MediaLightbox } from "@/components/MediaLightbox";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabase";
+import { useRobotMedia } from "@/lib/hooks/useRobotMedia";
+import {
+  MAX_README_IMPORTS,
+  detectMediaType,
+  extractReadmeImages,
+  getCoverMedia,
+  getYouTubeThumbnailUrl,
+  isValidMediaUrl,
+  moveMedia,
+} from "@/lib/robot-media";
+import type { RobotMedia } from "@/lib/types";
+
+interface RobotGalleryProps {
+  robotId: string;
+  robotName: string;
+  // Shown while the gallery loads
+  fallbackImageUrl: string | null;
+  // Cached README, HTML or markdown, to import images from
+  readme: string | null;
+  // Owners and admins arrange the gallery; anyone signed in can add to it
+  canManage: boolean;
+}
+
+function MediaThumbnail({ item, alt }: { item: RobotMedia; alt: string }) {
+  const thumbnailUrl =
+    item.media_type === "image" ? item.url : getYouTubeThumbnailUrl(item.url);
+
+  return (
+    <div className="relative h-full w-full bg-muted">
+      {thumbnailUrl ? (
+        <img src={thumbnailUrl} alt={item.caption || alt} className="h-full w-full object-cover" />
+      ) : (
+        <video src={item.url} muted preload="metadata" className="h-full w-full object-cover" />
+      )}
+      {item.media_type === "video" && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+          <Play className="h-6 w-6 fill-white text-white" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RobotGallery({
+  robotId,
+  robotName,
+  fallbackImageUrl,
+  readme,
+  canManage,
+}: RobotGalleryProps) {
+  const { user } = useAuth();
+  const { data: media, mutate } = useRobotMedia(robotId);
+
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [isManaging, setIsManaging] = useState(false);
+  const [newUrl, setNewUrl] = useState("");
+  const [newCaption, setNewCaption] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const items = useMemo(() => media || [], [media]);
+  const cover = getCoverMedia(items) || items[0] || null;
+  const nextPosition = items.length > 0 ? Math.max(...items.map((item) => item.position)) + 1 : 0;
+
+  const readmeImages = useMemo(() => {
+    if (!readme || !canManage) return [];
+    const existing = new Set(items.map((item) => item.url));
+    return extractReadmeImages(readme)
+      .filter((image) => !existing.has(image.url))
+      .slice(0, MAX_README_IMPORTS);
+  }, [readme, canManage, items]);
+
+  const canDelete = (item: RobotMedia) => canManage || (!!user && item.user_id === user.id);
+  const canArrange = canManage || items.some(canDelete);
+
+  if (!media) {
+    return fallbackImageUrl ? (
+      <div className="aspect-video relative rounded-lg overflow-hidden bg-gray-100 mb-6">
+        <img src={fallbackImageUrl} alt={robotName} className="h-full w-full object-cover" />
+      </div>
+    ) : null;
+  }
+
+  if (items.length === 0 && !user) {
+    return null;
+  }
+
+  const resetAddForm = () => {
+    setShowAddForm(false);
+    setNewUrl("");
+    setNewCaption("");
+  };
+
+  const handleAdd = async () => {
+    if (!user || !isValidMediaUrl(newUrl.trim())) return;
+
+    try {
+      setSubmitting(true);
+      const url = newUrl.trim();
+      const mediaType = detectMediaType(url);
+
+      const { error } = await supabase.from("robot_media").insert({
+        robot_id: robotId,
+        media_type: mediaType,
+        url,
+        caption: newCaption.trim() || null,
+        position: nextPosition,
+        // The first image an owner adds becomes the cover
+        is_cover: canManage && mediaType === "image" && !items.some((item) => item.is_cover),
+        user_id: user.id,
+      });
+
+      if (error) throw error;
+
+      resetAddForm();
+      mutate();
+    } catch (error) {
+      console.error("Error adding media:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleImportReadme = async () => {
+    if (!user || readmeImages.length === 0) return;
+
+    try {
+      setSubmitting(true);
+      const hasCover = items.some((item) => item.is_cover);
+
+      const { error } = await supabase.from("robot_media").insert(
+        readmeImages.map((image, index) => ({
+          robot_id: robotId,
+          media_type: "image" as const,
+          url: image.url,
+          caption: image.caption,
+          position: nextPosition + index,
+          is_cover: !hasCover && index === 0,
+          source: "readme" as const,
+          user_id: user.id,
+        }))
+      );
+
+      if (error) throw error;
+
+      mutate();
+    } catch (error) {
+      console.error("Error importing README images:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSetCover = async (item: RobotMedia) => {
+    try {
+      // Only one cover per robot, so clear the old one first
+      const currentCover = items.find((media) => media.is_cover);
+      if (currentCover) {
+        const { error } = await supabase
+          .from("robot_media")
+          .update({ is_cover: false })
+          .eq("id", currentCover.id);
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from("robot_media")
+        .update({ is_cover: true })
+        .eq("id", item.id);
+      if (error) throw error;
+
+      mutate();
+    } catch (error) {
+      console.error("Error setting cover:", error);
+      mutate();
+    }
+  };
+
+  const handleMove = async (item: RobotMedia, offset: number) => {
+    try {
+      for (const { id, position } of moveMedia(items, item.id, offset)) {
+        const { error } = await supabase
+          .from("robot_media")
+          .update({ position })
+          .eq("id", id);
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.error("Error reordering media:", error);
+    } finally {
+      mutate();
+    }
+  };
+
+  const handleCaptionSave = async (item: RobotMedia, caption: string) => {
+    const trimmed = caption.trim() || null;
+    if (trimmed === item.caption) return;
+
+    try {
+      const { error } = await supabase
+        .from("robot_media")
+        .update({ caption: trimmed })
+        .eq("id", item.id);
+
+      if (error) throw error;
+
+      mutate();
+    } catch (error) {
+      console.error("Error saving caption:", error);
+    }
+  };
+
+  const handleDelete = async (item: RobotMedia) => {
+    try {
+      const { error } = await supabase.from("robot_media").delete().eq("id", item.id);
+
+      if (error) throw error;
+
+      mutate();
+    } catch (error) {
+      console.error("Error deleting media:", error);
+    }
+  };
+
+  return (
+    <div className="mb-6 space-y-3">
+      {/* Cover */}
+      {cover && (
+        <button
+          className="block w-full aspect-video relative rounded-lg overflow-hidden bg-gray-100 cursor-zoom-in"
+          onClick={() => setLightboxIndex(items.indexOf(cover))}
+        >
+          <MediaThumbnail item={cover} alt={robotName} />
+          {cover.caption && (
+            <span className="absolute bottom-0 inset-x-0 bg-black/50 px-3 py-2 text-left text-sm text-white">
+              {cover.caption}
+            </span>
+          )}
+        </button>
+      )}
+
+      {/* Thumbnails */}
+      {items.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {items.map((item, index) => (
+            <button
+              key={item.id}
+              className={`h-16 w-24 flex-shrink-0 rounded-md overflow-hidden border-2 transition-colors ${
+                item.id === cover?.id ? "border-primary" : "border-transparent hover:border-muted-foreground"
+              }`}
+              onClick={() => setLightboxIndex(index)}
+              title={item.caption || undefined}
+            >
+              <MediaThumbnail item={item} alt={robotName} />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Toolbar */}
+      {user && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => setShowAddForm(!showAddForm)}>
+            <ImagePlus className="h-4 w-4 mr-2" />
+            Add Media
+          </Button>
+          {canArrange && items.length > 0 && (
+            <Button
+              variant={isManaging ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setIsManaging(!isManaging)}
+            >
+              <Settings2 className="h-4 w-4 mr-2" />
+              {isManaging ? "Done" : "Manage Gallery"}
+            </Button>
+          )}
+          {readmeImages.length > 0 && (
+            <Button variant="outline" size="sm" onClick={handleImportReadme} disabled={submitting}>
+              <Download className="h-4 w-4 mr-2" />
+              Import {readmeImages.length} image{readmeImages.length === 1 ? "" : "s"} from README
+            </Button>
+          )}
+        </div>
+      )}
+
+      {showAddForm && (
+        <Card>
+          <CardContent className="space-y-3">
+            <Input
+              placeholder="Image or video URL (https://..., YouTube links work too)"
+              value={newUrl}
+              onChange={(e) => setNewUrl(e.target.value)}
+            />
+            <Input
+              placeholder="Caption (optional)"
+              value={newCaption}
+              onChange={(e) => setNewCaption(e.target.value)}
+              maxLength={280}
+            />
+            {newUrl.trim() && !isValidMediaUrl(newUrl.trim()) && (
+              <p className="text-sm text-destructive">Please enter a full http(s) URL</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={resetAddForm} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleAdd}
+                disabled={submitting || !isValidMediaUrl(newUrl.trim())}
+              >
+                {submitting ? "Adding..." : "Add"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isManaging && (
+        <Card>
+          <CardContent className="space-y-2">
+            {items.map((item, index) => (
+              <div key={item.id} className="flex items-center gap-3">
+                <div className="h-12 w-16 flex-shrink-0 rounded overflow-hidden">
+                  <MediaThumbnail item={item} alt={robotName} />
+                </div>
+                {canManage ? (
+                  <Input
+                    key={`${item.id}-${item.caption}`}
+                    defaultValue={item.caption || ""}
+                    placeholder="Add a caption"
+                    maxLength={280}
+                    onBlur={(e) => handleCaptionSave(item, e.target.value)}
+                    className="flex-1"
+                  />
+                ) : (
+                  <span className="flex-1 text-sm text-muted-foreground truncate">
+                    {item.caption || item.url}
+                  </span>
+                )}
+                {canManage && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleSetCover(item)}
+                      disabled={item.is_cover || item.media_type !== "image"}
+                      title={item.is_cover ? "Cover image" : "Use as cover"}
+                    >
+                      <Star className={`h-4 w-4 ${item.is_cover ? "fill-yellow-400 text-yellow-400" : ""}`} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(item, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleMove(item, 1)}
+                      disabled={index === items.length - 1}
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                {canDelete(item) && (
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(item)} title="Remove">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <MediaLightbox
+        media={items}
+        index={lightboxIndex}
+        onIndexChange={setLightboxIndex}
+        title={robotName}
+      />
+    </div>
+  );
+}
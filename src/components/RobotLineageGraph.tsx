@@ -0,0 +1,135 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import type { Lineage } from "@/lib/robot-relationships";
+import type { RelatedRobot } from "@/lib/hooks/useRobotRelationships";
+
+interface RobotLineageGraphProps {
+  lineage: Lineage;
+  robots: Record<string, RelatedRobot>;
+  currentRobotId: string;
+}
+
+const NODE_WIDTH = 160;
+const NODE_HEIGHT = 40;
+const COLUMN_GAP = 56;
+const ROW_GAP = 16;
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+// Older robots on the left, successors and variants to their right
+export function RobotLineageGraph({ lineage, robots, currentRobotId }: RobotLineageGraphProps) {
+  const router = useRouter();
+
+  const columns = Math.max(...lineage.nodes.map((node) => node.level)) + 1;
+  const rows = Math.max(...lineage.nodes.map((node) => node.row)) + 1;
+  const width = columns * NODE_WIDTH + (columns - 1) * COLUMN_GAP;
+  const height = rows * NODE_HEIGHT + (rows - 1) * ROW_GAP;
+
+  const positions = Object.fromEntries(
+    lineage.nodes.map((node) => [
+      node.robotId,
+      {
+        x: node.level * (NODE_WIDTH + COLUMN_GAP),
+        y: node.row * (NODE_HEIGHT + ROW_GAP),
+      },
+    ])
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        role="img"
+        aria-label="Robot lineage"
+        className="text-foreground"
+      >
+        <defs>
+          <marker
+            id="lineage-arrow"
+            viewBox="0 0 10 10"
+            refX="10"
+            refY="5"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+          </marker>
+        </defs>
+
+        {lineage.edges.map((edge) => {
+          const from = positions[edge.to];
+          const to = positions[edge.from];
+          if (!from || !to) return null;
+
+          const x1 = from.x + NODE_WIDTH;
+          const y1 = from.y + NODE_HEIGHT / 2;
+          const x2 = to.x;
+          const y2 = to.y + NODE_HEIGHT / 2;
+          const midX = (x1 + x2) / 2;
+
+          return (
+            <g key={`${edge.from}-${edge.type}-${edge.to}`}>
+              <path
+                d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                className="stroke-muted-foreground"
+                strokeDasharray={edge.type === "variant_of" ? "4 3" : undefined}
+                markerEnd="url(#lineage-arrow)"
+              />
+              <title>
+                {robots[edge.from]?.name}{" "}
+                {edge.type === "variant_of" ? "is a variant of" : "supersedes"}{" "}
+                {robots[edge.to]?.name}
+              </title>
+            </g>
+          );
+        })}
+
+        {lineage.nodes.map((node) => {
+          const robot = robots[node.robotId];
+          const { x, y } = positions[node.robotId];
+          const isCurrent = node.robotId === currentRobotId;
+          if (!robot) return null;
+
+          return (
+            <g
+              key={node.robotId}
+              transform={`translate(${x}, ${y})`}
+              className={isCurrent ? undefined : "cursor-pointer"}
+              onClick={() => !isCurrent && router.push(`/robots/${robot.slug}`)}
+            >
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={8}
+                className={
+                  isCurrent
+                    ? "fill-primary stroke-primary"
+                    : "fill-background stroke-border hover:stroke-primary"
+                }
+              />
+              <text
+                x={NODE_WIDTH / 2}
+                y={NODE_HEIGHT / 2}
+                textAnchor="middle"
+                dominantBaseline="central"
+                className={`text-sm ${isCurrent ? "fill-primary-foreground font-semibold" : "fill-current"}`}
+              >
+                {truncate(robot.name, 20)}
+              </text>
+              <title>{robot.name}</title>
+            </g>
+          );
+        })}
+      </svg>
+      <p className="text-xs text-muted-foreground mt-2">
+        Solid arrows point to successors, dashed arrows to variants.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+"use client";
+
+import { useState } from "react";
+import { mutate as globalMutate } from "swr";
+import { Mail, Users, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabase";
+import {
+  useRobotMaintainers,
+  type MaintainerProfile,
+} from "@/lib/hooks/useRobotMaintainers";
+import {
+  MAINTAINER_ROLE_LABELS,
+  canSetInvitationStatus,
+  getMaintainerRole,
+} from "@/lib/robot-maintainers";
+import type { RobotMaintainerRole } from "@/lib/types";
+
+interface RobotMaintainersProps {
+  robotId: string;
+  creatorId: string;
+}
+
+function ProfileName({ profile }: { profile: MaintainerProfile | null }) {
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      <Avatar className="h-7 w-7">
+        <AvatarImage src={profile?.avatar_url || ""} />
+        <AvatarFallback className="text-xs">
+          {profile?.full_name?.charAt(0) || profile?.username?.charAt(0) || "U"}
+        </AvatarFallback>
+      </Avatar>
+      <div className="min-w-0">
+        <div className="text-sm font-medium truncate">
+          {profile?.full_name || profile?.username || "Unknown"}
+        </div>
+        {(profile?.github_username || profile?.username) && (
+          <div className="text-xs text-muted-foreground truncate">
+            @{profile.github_username || profile.username}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Team management for a robot: maintainers, invitations and ownership transfer
+export function RobotMaintainers({ robotId, creatorId }: RobotMaintainersProps) {
+  const { user, profile } = useAuth();
+  const { data, mutate } = useRobotMaintainers(robotId);
+
+  const [username, setUsername] = useState("");
+  const [inviteRole, setInviteRole] = useState<RobotMaintainerRole>("maintainer");
+  const [submitting, setSubmitting] = useState(false);
+
+  const maintainers = data?.maintainers || [];
+  const invitations = data?.invitations || [];
+  const isAdmin = profile?.role === "admin";
+  const myRole = getMaintainerRole(maintainers, user?.id, creatorId);
+  const canManageTeam = isAdmin || myRole === "owner";
+
+  const refresh = () => {
+    mutate();
+    if (user) globalMutate(`my-robots-${user.id}`);
+  };
+
+  const handleInvite = async () => {
+    const name = username.trim().replace(/^@/, "");
+    if (!user || !name) return;
+
+    if (!/^[A-Za-z0-9-]+$/.test(name)) {
+      alert("Usernames can only contain letters, numbers and hyphens.");
+      return;
+    }
+
+    if (
+      inviteRole === "owner" &&
+      !confirm(
+        `Transfer ownership to @${name}? Once they accept, you'll stay on as a maintainer.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+
+      // Accounts come from GitHub sign-in, so match the GitHub username first
+      // (case-insensitively; the name can't contain ilike wildcards) and only
+      // fall back to site usernames when no GitHub account matches
+      const { data: githubMatches, error: githubError } = await supabase
+        .from("profiles")
+        .select("id")
+        .ilike("github_username", name)
+        .limit(2);
+
+      if (githubError) throw githubError;
+
+      let matches = githubMatches || [];
+      if (matches.length === 0) {
+        const { data: usernameMatches, error: usernameError } = await supabase
+          .from("profiles")
+          .select("id")
+          .eq("username", name)
+          .limit(2);
+
+        if (usernameError) throw usernameError;
+        matches = usernameMatches || [];
+      }
+
+      if (matches.length === 0) {
+        alert(`No user found with the GitHub username "${name}".`);
+        return;
+      }
+      if (matches.length > 1) {
+        alert(`More than one user matches "${name}", so no invitation was sent.`);
+        return;
+      }
+
+      const invitee = matches[0];
+
+      const { error } = await supabase.from("robot_maintainer_invitations").insert({
+        robot_id: robotId,
+        invitee_id: invitee.id,
+        invited_by: user.id,
+        role: inviteRole,
+      });
+
+      if (error) throw error;
+
+      setUsername("");
+      setInviteRole("maintainer");
+      refresh();
+    } catch (error) {
+      console.error("Error inviting maintainer:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancelInvitation = async (invitationId: string) => {
+    try {
+      const { error } = await supabase
+        .from("robot_maintainer_invitations")
+        .update({ status: "cancelled" })
+        .eq("id", invitationId);
+
+      if (error) throw error;
+
+      refresh();
+    } catch (error) {
+      console.error("Error cancelling invitation:", error);
+    }
+  };
+
+  const handleRemove = async (maintainerId: string, isSelf: boolean) => {
+    if (isSelf && !confirm("Stop maintaining this robot? You'll lose edit access.")) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("robot_maintainers")
+        .delete()
+        .eq("id", maintainerId);
+
+      if (error) throw error;
+
+      refresh();
+    } catch (error) {
+      console.error("Error removing maintainer:", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-6">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Maintainers
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Maintainers can edit this robot, its files, links and gallery. Only
+            the owner can remove maintainers or hand the robot over.
+          </p>
+        </div>
+
+        <ul className="space-y-3">
+          {maintainers.map((maintainer) => {
+            const isSelf = maintainer.user_id === user?.id;
+            const canRemove =
+              maintainer.role !== "owner" && (canManageTeam || isSelf);
+
+            return (
+              <li key={maintainer.id} className="flex items-center justify-between gap-2">
+                <ProfileName profile={maintainer.profile} />
+                <div className="flex items-center gap-2">
+                  <Badge variant={maintainer.role === "owner" ? "default" : "secondary"}>
+                    {MAINTAINER_ROLE_LABELS[maintainer.role]}
+                  </Badge>
+                  {canRemove && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => handleRemove(maintainer.id, isSelf)}
+                      title={isSelf ? "Leave" : "Remove maintainer"}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {invitations.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-muted-foreground mb-2">
+              Pending invitations
+            </h3>
+            <ul className="space-y-3">
+              {invitations.map((invitation) => (
+                <li key={invitation.id} className="flex items-center justify-between gap-2">
+                  <ProfileName profile={invitation.invitee} />
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">
+                      {invitation.role === "owner"
+                        ? "Ownership transfer"
+                        : MAINTAINER_ROLE_LABELS[invitation.role]}
+                    </Badge>
+                    {canSetInvitationStatus(invitation, "cancelled", user?.id, isAdmin || !!myRole) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => handleCancelInvitation(invitation.id)}
+                        title="Cancel invitation"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {(canManageTeam || myRole) && (
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <Input
+              placeholder="GitHub username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              disabled={submitting}
+            />
+            {canManageTeam && (
+              <Select
+                value={inviteRole}
+                onValueChange={(value) => setInviteRole(value as RobotMaintainerRole)}
+              >
+                <SelectTrigger className="sm:w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="maintainer">As maintainer</SelectItem>
+                  <SelectItem value="owner">As new owner (transfer)</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              type="button"
+              onClick={handleInvite}
+              disabled={submitting || !username.trim()}
+            >
+              <Mail className="h-4 w-4 mr-2" />
+              {submitting ? "Inviting..." : "Invite"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { RangeSlider } from "@/components/ui/range-slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BUDGET_CURRENCIES,
+  PRICE_FILTER_STEPS,
+  formatPriceFilterRange,
+  getPriceFilterRange,
+  type BudgetCurrency,
+  type ExchangeRates,
+} from "@/lib/budget-config";
+
+const LAST_STEP = PRICE_FILTER_STEPS.length - 1;
+
+interface RobotPriceFilterProps {
+  // Indexes into PRICE_FILTER_STEPS; null when prices aren't filtered
+  value: [number, number] | null;
+  onValueChange: (value: [number, number] | null) => void;
+  currency: BudgetCurrency;
+  onCurrencyChange: (currency: BudgetCurrency) => void;
+  rates: ExchangeRates;
+}
+
+export function RobotPriceFilter({
+  value,
+  onValueChange,
+  currency,
+  onCurrencyChange,
+  rates,
+}: RobotPriceFilterProps) {
+  const [low, high] = value || [0, LAST_STEP];
+
+  const setRange = (next: [number, number]) => {
+    // A slider dragged back to both ends no longer filters anything
+    onValueChange(next[0] === 0 && next[1] === LAST_STEP ? null : next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <Label>Budget</Label>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">
+            {value
+              ? formatPriceFilterRange(getPriceFilterRange(value), currency, rates)
+              : "Any price"}
+          </span>
+          <Select
+            value={currency}
+            onValueChange={(next) => onCurrencyChange(next as BudgetCurrency)}
+          >
+            <SelectTrigger className="w-24" aria-label="Display currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUDGET_CURRENCIES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <RangeSlider
+        min={0}
+        max={LAST_STEP}
+        value={[low, high]}
+        onValueChange={setRange}
+        label="Budget"
+      />
+      <p className="text-xs text-muted-foreground">
+        Budgets in other currencies are compared using the site&apos;s
+        exchange rates.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Link2, Plus, X } from "lucide-react";
+import Link from "@/components/ui/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RobotLineageGraph } from "@/components/RobotLineageGraph";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabase";
+import { useAllRobots } from "@/lib/robot-data";
+import { useRobotRelationships } from "@/lib/hooks/useRobotRelationships";
+import {
+  RELATIONSHIP_OPTIONS,
+  buildLineage,
+  groupRelationships,
+} from "@/lib/robot-relationships";
+
+interface RobotRelationshipsProps {
+  robotId: string;
+  robotName: string;
+  // Owners and admins can add and remove links
+  canEdit: boolean;
+}
+
+export function RobotRelationships({ robotId, robotName, canEdit }: RobotRelationshipsProps) {
+  const { user } = useAuth();
+  const { data, mutate } = useRobotRelationships(robotId);
+  const { data: allRobots = [] } = useAllRobots();
+
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [optionValue, setOptionValue] = useState(RELATIONSHIP_OPTIONS[0].value);
+  const [otherRobotId, setOtherRobotId] = useState("");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const relationships = useMemo(() => data?.relationships || [], [data]);
+  const robots = data?.robots || {};
+  const groups = useMemo(() => groupRelationships(relationships, robotId), [relationships, robotId]);
+  const lineage = useMemo(() => buildLineage(relationships, robotId), [relationships, robotId]);
+
+  if (groups.length === 0 && !canEdit) {
+    return null;
+  }
+
+  const resetAddForm = () => {
+    setShowAddForm(false);
+    setOptionValue(RELATIONSHIP_OPTIONS[0].value);
+    setOtherRobotId("");
+    setNote("");
+  };
+
+  const handleAdd = async () => {
+    const option = RELATIONSHIP_OPTIONS.find((o) => o.value === optionValue);
+    if (!user || !option || !otherRobotId) return;
+
+    try {
+      setSubmitting(true);
+
+      const { error } = await supabase.from("robot_relationships").insert({
+        robot_id: option.outgoing ? robotId : otherRobotId,
+        related_robot_id: option.outgoing ? otherRobotId : robotId,
+        relationship_type: option.type,
+        note: note.trim() || null,
+        created_by: user.id,
+      });
+
+      if (error) throw error;
+
+      resetAddForm();
+      mutate();
+    } catch (error) {
+      console.error("Error adding relationship:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (relationshipId: string) => {
+    try {
+      const { error } = await supabase
+        .from("robot_relationships")
+        .delete()
+        .eq("id", relationshipId);
+
+      if (error) throw error;
+
+      mutate();
+    } catch (error) {
+      console.error("Error deleting relationship:", error);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold flex items-center">
+          <Link2 className="h-6 w-6 mr-2" />
+          Related Robots
+        </h2>
+        {canEdit && !showAddForm && (
+          <Button variant="outline" size="sm" onClick={() => setShowAddForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Relationship
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="space-y-6">
+          {showAddForm && (
+            <div className="space-y-3 rounded-md border p-4">
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+                <span className="text-sm font-medium whitespace-nowrap">{robotName}</span>
+                <Select value={optionValue} onValueChange={setOptionValue}>
+                  <SelectTrigger className="sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RELATIONSHIP_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={otherRobotId} onValueChange={setOtherRobotId}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Choose a robot" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {allRobots
+                      .filter((robot) => robot.id !== robotId)
+                      .map((robot) => (
+                        <SelectItem key={robot.id} value={robot.id}>
+                          {robot.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Input
+                placeholder="Note (optional), e.g. what changed in this version"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={280}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={resetAddForm} disabled={submitting}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleAdd} disabled={submitting || !otherRobotId}>
+                  {submitting ? "Adding..." : "Add"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {groups.length === 0 ? (
+            !showAddForm && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No related robots yet. Link earlier versions, variants or robots this one works with.
+              </p>
+            )
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2">
+              {groups.map((group) => (
+                <div key={group.heading}>
+                  <h3 className="text-sm font-medium text-muted-foreground mb-2">{group.heading}</h3>
+                  <ul className="space-y-1">
+                    {group.entries.map(({ relationship, otherRobotId: id }) => (
+                      <li key={relationship.id} className="flex items-start justify-between gap-2">
+                        <div>
+                          <Link
+                            href={`/robots/${robots[id]?.slug}`}
+                            className="font-medium hover:text-primary transition-colors"
+                          >
+                            {robots[id]?.name}
+                          </Link>
+                          {relationship.note && (
+                            <p className="text-xs text-muted-foreground">{relationship.note}</p>
+                          )}
+                        </div>
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={() => handleDelete(relationship.id)}
+                            title="Remove relationship"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {lineage.nodes.length > 1 && (
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">Lineage</h3>
+              <RobotLineageGraph lineage={lineage} robots={robots} currentRobotId={robotId} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { MessageSquareWarning } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  ROBOT_STATUS_BADGE_VARIANTS,
+  ROBOT_STATUS_DESCRIPTIONS,
+  ROBOT_STATUS_LABELS,
+} from "@/lib/robot-moderation";
+import type { Robot, RobotStatus } from "@/lib/types";
+
+export function RobotStatusBadge({ status }: { status: RobotStatus }) {
+  return (
+    <Badge variant={ROBOT_STATUS_BADGE_VARIANTS[status]} className="whitespace-nowrap">
+      {ROBOT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+interface RobotReviewStatusProps {
+  robot: Pick<Robot, "status" | "review_notes" | "reviewed_at">;
+}
+
+// Where a submission stands, with the reviewer's notes for the submitter
+export function RobotReviewStatus({ robot }: RobotReviewStatusProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <RobotStatusBadge status={robot.status} />
+        <span className="text-muted-foreground">{ROBOT_STATUS_DESCRIPTIONS[robot.status]}</span>
+      </div>
+      {robot.review_notes && (
+        <div className="flex gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-100">
+          <MessageSquareWarning className="h-4 w-4 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium">
+              Reviewer notes
+              {robot.reviewed_at && (
+                <span className="font-normal opacity-75">
+                  {" "}
+                  · {new Date(robot.reviewed_at).toLocaleDateString()}
+                </span>
+              )}
+            </p>
+            <p className="whitespace-pre-wrap">{robot.review_notes}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useDebounce } from "@/lib/hooks/useDebounce";
 import { DiscordIcon, GithubIcon } from "@/components/icons";
+import { CompareToggleButton } from "@/components/CompareToggleButton";
 import { detectPlatformFromUrl } from "@/lib/platform-utils";
 import { useAllRobots } from "@/lib/robot-data";
 import { searchRobotsClientSide } from "@/lib/client-search-utils";
@@ -182,78 +183,83 @@ export function RobotSearch({ onSelect }: RobotSearchProps) {
           <CardContent className="p-0">
             <div className="max-h-96 overflow-y-auto">
               {robots.map((robot, index) => (
-                <button
+                <div
                   key={robot.id}
-                  className={`w-full p-3 text-left hover:bg-accent transition-colors border-b last:border-b-0 ${
+                  className={`flex items-center hover:bg-accent transition-colors border-b last:border-b-0 ${
                     index === selectedIndex ? "bg-accent" : ""
                   }`}
-                  onClick={() => navigateToRobot(robot)}
                 >
-                  <div className="flex items-center space-x-3">
-                    {robot.image_url ? (
-                      <img
-                        src={robot.image_url}
-                        alt={robot.name}
-                        className="w-10 h-10 rounded object-cover"
-                      />
-                    ) : (
-                      <div className="w-10 h-10 rounded bg-muted flex items-center justify-center">
-                        <Bot className="h-5 w-5 text-muted-foreground" />
-                      </div>
-                    )}
-                    <div className="flex-1 min-w-0">
-                      <h3 className="font-medium text-sm truncate">
-                        {robot.name}
-                      </h3>
-                      <p className="text-xs text-muted-foreground line-clamp-1">
-                        {robot.description}
-                      </p>
-                      <div className="flex items-center justify-between mt-2">
-                        {robot.tags.length > 0 && (
-                          <div className="flex gap-1">
-                            {robot.tags.slice(0, 2).map((tag) => (
-                              <Badge key={tag} variant="secondary" className="text-xs px-1 py-0">
-                                {tag}
-                              </Badge>
-                            ))}
-                            {robot.tags.length > 2 && (
-                              <span className="text-xs text-muted-foreground">
-                                +{robot.tags.length - 2}
-                              </span>
+                  <button
+                    className="flex-1 min-w-0 p-3 text-left"
+                    onClick={() => navigateToRobot(robot)}
+                  >
+                    <div className="flex items-center space-x-3">
+                      {robot.image_url ? (
+                        <img
+                          src={robot.image_url}
+                          alt={robot.name}
+                          className="w-10 h-10 rounded object-cover"
+                        />
+                      ) : (
+                        <div className="w-10 h-10 rounded bg-muted flex items-center justify-center">
+                          <Bot className="h-5 w-5 text-muted-foreground" />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium text-sm truncate">
+                          {robot.name}
+                        </h3>
+                        <p className="text-xs text-muted-foreground line-clamp-1">
+                          {robot.description}
+                        </p>
+                        <div className="flex items-center justify-between mt-2">
+                          {robot.tags.length > 0 && (
+                            <div className="flex gap-1">
+                              {robot.tags.slice(0, 2).map((tag) => (
+                                <Badge key={tag} variant="secondary" className="text-xs px-1 py-0">
+                                  {tag}
+                                </Badge>
+                              ))}
+                              {robot.tags.length > 2 && (
+                                <span className="text-xs text-muted-foreground">
+                                  +{robot.tags.length - 2}
+                                </span>
+                              )}
+                            </div>
+                          )}
+                          
+                          {/* Social Icons */}
+                          <div className="flex gap-1 ml-2">
+                            {robot.github_url && (
+                              <a
+                                href={robot.github_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="p-1 rounded hover:bg-accent transition-colors"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                <GithubIcon className="h-3 w-3 text-muted-foreground hover:text-foreground" />
+                              </a>
                             )}
+                            {robot.robot_social_links.map((link, index) => (
+                              <a
+                                key={link.id || `${link.platform}-${link.url}-${index}`}
+                                href={link.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="p-1 rounded hover:bg-accent transition-colors"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                {getSocialIcon(link)}
+                              </a>
+                            ))}
                           </div>
-                        )}
-                        
-                        {/* Social Icons */}
-                        <div className="flex gap-1 ml-2">
-                          {robot.github_url && (
-                            <a
-                              href={robot.github_url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="p-1 rounded hover:bg-accent transition-colors"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              <GithubIcon className="h-3 w-3 text-muted-foreground hover:text-foreground" />
-                            </a>
-                          )}
-                          {robot.robot_social_links.map((link, index) => (
-                            <a
-                              key={link.id || `${link.platform}-${link.url}-${index}`}
-                              href={link.url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="p-1 rounded hover:bg-accent transition-colors"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              {getSocialIcon(link)}
-                            </a>
-                          ))}
                         </div>
                       </div>
                     </div>
-                  </div>
-                </button>
+                  </button>
+                  <CompareToggleButton robot={robot} className="mr-3" />
+                </div>
               ))}
             </div>
             
@@ -0,0 +1,141 @@
+"use client";
+
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RangeSlider } from "@/components/ui/range-slider";
+import {
+  ENUM_SPEC_FIELDS,
+  NUMERIC_SPEC_FIELDS,
+  SPEC_OPTION_LABELS,
+  getSpecRangeBounds,
+  normalizeRobotSpecs,
+  type EnumSpecKey,
+  type NumericSpecKey,
+  type RobotSpecFilters as SpecFilters,
+  type RobotSpecs,
+} from "@/lib/robot-specs";
+
+interface RobotSpecFiltersProps {
+  robots: { specs?: RobotSpecs | null }[];
+  filters: SpecFilters;
+  onFiltersChange: (filters: SpecFilters) => void;
+}
+
+export function RobotSpecFilters({ robots, filters, onFiltersChange }: RobotSpecFiltersProps) {
+  const specsList = useMemo(
+    () => robots.map((robot) => normalizeRobotSpecs(robot.specs)),
+    [robots]
+  );
+  const bounds = useMemo(() => getSpecRangeBounds(specsList), [specsList]);
+
+  // Only offer options at least one robot lists
+  const availableOptions = useMemo(() => {
+    const available: Partial<Record<EnumSpecKey, Set<string>>> = {};
+    for (const specs of specsList) {
+      for (const field of ENUM_SPEC_FIELDS) {
+        const value = specs[field.key];
+        const values: string[] = Array.isArray(value) ? value : value ? [value] : [];
+        for (const option of values) {
+          (available[field.key] ||= new Set()).add(option);
+        }
+      }
+    }
+    return available;
+  }, [specsList]);
+
+  const setRange = (key: NumericSpecKey, value: [number, number]) => {
+    const ranges = { ...filters.ranges };
+    const [min, max] = bounds[key]!;
+    // A slider dragged back to both ends no longer filters anything
+    if (value[0] <= min && value[1] >= max) {
+      delete ranges[key];
+    } else {
+      ranges[key] = value;
+    }
+    onFiltersChange({ ...filters, ranges });
+  };
+
+  const toggleOption = (key: EnumSpecKey, option: string) => {
+    const selected = filters.options[key] || [];
+    const next = selected.includes(option)
+      ? selected.filter((item) => item !== option)
+      : [...selected, option];
+    const options = { ...filters.options };
+    if (next.length > 0) {
+      options[key] = next;
+    } else {
+      delete options[key];
+    }
+    onFiltersChange({ ...filters, options });
+  };
+
+  const rangeFields = NUMERIC_SPEC_FIELDS.filter((field) => {
+    const range = bounds[field.key];
+    return range && range[0] < range[1];
+  });
+  const optionFields = ENUM_SPEC_FIELDS.filter((field) => availableOptions[field.key]);
+
+  if (rangeFields.length === 0 && optionFields.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No robots list their technical specs yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {rangeFields.map((field) => {
+        const [min, max] = bounds[field.key]!;
+        const [low, high] = filters.ranges[field.key] || [min, max];
+        const unit = field.unit ? ` ${field.unit}` : "";
+        return (
+          <div key={field.key} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>{field.label}</Label>
+              <span className="text-sm text-muted-foreground">
+                {low}
+                {unit} – {high}
+                {unit}
+              </span>
+            </div>
+            <RangeSlider
+              min={min}
+              max={max}
+              step={field.step}
+              value={[low, high]}
+              onValueChange={(value) => setRange(field.key, value)}
+              label={field.label}
+            />
+          </div>
+        );
+      })}
+
+      {optionFields.map((field) => (
+        <div key={field.key} className="space-y-2">
+          <Label>{field.label}</Label>
+          <div className="flex flex-wrap gap-2">
+            {field.options
+              .filter((option) => availableOptions[field.key]!.has(option))
+              .map((option) => {
+                const selected = filters.options[field.key]?.includes(option) || false;
+                return (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => toggleOption(field.key, option)}
+                    aria-pressed={selected}
+                  >
+                    <Badge variant={selected ? "default" : "outline"} className="cursor-pointer">
+                      {SPEC_OPTION_LABELS[option] || option}
+                    </Badge>
+                  </button>
+                );
+              })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
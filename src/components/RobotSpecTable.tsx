@@ -0,0 +1,23 @@
+import { Table, TableBody, TableCell, TableHead, TableRow } from "@/components/ui/table";
+import { getSpecRows, type RobotSpecs } from "@/lib/robot-specs";
+
+interface RobotSpecTableProps {
+  specs: RobotSpecs;
+}
+
+export function RobotSpecTable({ specs }: RobotSpecTableProps) {
+  const rows = getSpecRows(specs);
+
+  return (
+    <Table>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.label}>
+            <TableHead className="w-1/3 text-muted-foreground">{row.label}</TableHead>
+            <TableCell className="whitespace-normal">{row.value}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
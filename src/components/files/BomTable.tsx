@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { AlertTriangle, ChevronDown, ChevronRight, ExternalLink } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { checkBomAgainstBudget, fetchBom } from "@/lib/bom-parser";
+
+interface BomTableProps {
+  fileId: string;
+  fileUrl: string;
+  budget?: string | null;
+}
+
+const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    // Unknown currency codes
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+const supplierLabel = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "Link";
+  }
+};
+
+export function BomTable({ fileId, fileUrl, budget }: BomTableProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const { data: bom, error, isLoading } = useSWR(
+    `bom-${fileId}`,
+    () => fetchBom(fileUrl),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 300000, // Cache for 5 minutes
+      shouldRetryOnError: false,
+    }
+  );
+
+  if (isLoading) {
+    return (
+      <p className="text-xs text-muted-foreground mt-1">Reading parts list...</p>
+    );
+  }
+
+  if (error || !bom) {
+    return (
+      <p className="text-xs text-muted-foreground mt-1">
+        Parts list unavailable
+        {error?.message && `: ${error.message}`}
+      </p>
+    );
+  }
+
+  const budgetCheck = checkBomAgainstBudget(bom, budget);
+  const totals = Object.entries(bom.totals);
+
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      <button
+        type="button"
+        className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? (
+          <ChevronDown className="h-3 w-3" />
+        ) : (
+          <ChevronRight className="h-3 w-3" />
+        )}
+        {bom.items.length} {bom.items.length === 1 ? "part" : "parts"}
+        {totals.length > 0 &&
+          ` · ${totals
+            .map(([currency, total]) => formatMoney(total, currency))
+            .join(" + ")}`}
+      </button>
+
+      {(budgetCheck.status === "below" || budgetCheck.status === "above") && (
+        <div className="flex items-start gap-1 text-yellow-700 dark:text-yellow-400">
+          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          <span>
+            The parts add up to {formatMoney(budgetCheck.total!, "USD")}, which is{" "}
+            {budgetCheck.status} the listed budget ({budget}). It fits{" "}
+            {budgetCheck.suggestedRange}.
+          </span>
+        </div>
+      )}
+
+      {expanded && (
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Part</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Unit price</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead>Supplier</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bom.items.map((item, index) => (
+              <TableRow key={index}>
+                <TableCell className="whitespace-normal">{item.part}</TableCell>
+                <TableCell className="text-right">{item.quantity}</TableCell>
+                <TableCell className="text-right">
+                  {item.unitPrice !== null
+                    ? formatMoney(item.unitPrice, item.currency)
+                    : "–"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {item.lineTotal !== null
+                    ? formatMoney(item.lineTotal, item.currency)
+                    : "–"}
+                </TableCell>
+                <TableCell>
+                  {item.supplierUrl && (
+                    <a
+                      href={item.supplierUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-primary hover:underline"
+                    >
+                      {supplierLabel(item.supplierUrl)}
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            {totals.map(([currency, total]) => (
+              <TableRow key={currency}>
+                <TableCell colSpan={3}>Total ({currency})</TableCell>
+                <TableCell className="text-right">
+                  {formatMoney(total, currency)}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            ))}
+            {bom.unpricedCount > 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="font-normal text-muted-foreground">
+                  {bom.unpricedCount} {bom.unpricedCount === 1 ? "part has" : "parts have"} no
+                  price and {bom.unpricedCount === 1 ? "is" : "are"} not included
+                </TableCell>
+              </TableRow>
+            )}
+          </TableFooter>
+        </Table>
+      )}
+    </div>
+  );
+}
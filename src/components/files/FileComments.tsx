@@ -0,0 +1,314 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { CheckCircle2, Loader2, MessageSquare, Reply, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabase";
+import {
+  buildCommentThreads,
+  canResolveComment,
+  COMMENT_BADGE_LABELS,
+  commentBadges,
+  MAX_COMMENT_DEPTH,
+  type FileCommentThread,
+} from "@/lib/file-comments";
+import type { RobotFile, RobotFileComment } from "@/lib/types";
+
+interface FileCommentsProps {
+  file: RobotFile;
+  robotCreatorId?: string;
+  robotMaintainerIds?: string[];
+  // Called after posting or deleting, so the list can refresh its counts
+  onCommentsChanged?: () => void;
+}
+
+interface CommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+export const fileCommentsKey = (fileId: string) => `file-comments-${fileId}`;
+
+const fetchComments = async (fileId: string): Promise<RobotFileComment[]> => {
+  const { data, error } = await supabase
+    .from("robot_file_comments")
+    .select("*, profiles (username, full_name, avatar_url, role)")
+    .eq("file_id", fileId);
+
+  if (error) {
+    throw new Error(error.message || "Failed to load comments");
+  }
+  return data || [];
+};
+
+function CommentForm({ placeholder, submitLabel, onSubmit, onCancel }: CommentFormProps) {
+  const [content, setContent] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    setSubmitting(true);
+    const posted = await onSubmit(content.trim());
+    setSubmitting(false);
+    if (posted) setContent("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+        rows={3}
+      />
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">Markdown supported</span>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={submitting || !content.trim()}>
+            {submitting ? "Posting..." : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+export function FileComments({
+  file,
+  robotCreatorId,
+  robotMaintainerIds,
+  onCommentsChanged,
+}: FileCommentsProps) {
+  const { user, profile } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const {
+    data: comments = [],
+    error,
+    isLoading,
+    mutate,
+  } = useSWR(open ? fileCommentsKey(file.id) : null, () => fetchComments(file.id), {
+    revalidateOnFocus: false,
+    dedupingInterval: 300000, // Cache for 5 minutes
+    shouldRetryOnError: false,
+  });
+
+  const threads = buildCommentThreads(comments);
+  const count = open && !isLoading ? comments.length : file.comment_count || 0;
+  const roles = {
+    robotCreatorId,
+    robotMaintainerIds,
+    fileUserId: file.user_id,
+    isAdmin: profile?.role === "admin",
+  };
+
+  const postComment = async (content: string, parentId: string | null) => {
+    if (!user) return false;
+
+    const { error } = await supabase.from("robot_file_comments").insert({
+      file_id: file.id,
+      parent_id: parentId,
+      user_id: user.id,
+      content,
+    });
+    if (error) {
+      console.error("Error posting comment:", error);
+      return false;
+    }
+
+    setReplyingTo(null);
+    await mutate();
+    onCommentsChanged?.();
+    return true;
+  };
+
+  const setResolved = async (comment: RobotFileComment, isResolved: boolean) => {
+    const { error } = await supabase
+      .from("robot_file_comments")
+      .update({ is_resolved: isResolved })
+      .eq("id", comment.id);
+
+    if (error) {
+      console.error("Error updating comment:", error);
+      return;
+    }
+    await mutate();
+  };
+
+  const deleteComment = async (comment: RobotFileComment) => {
+    const { error } = await supabase
+      .from("robot_file_comments")
+      .delete()
+      .eq("id", comment.id);
+
+    if (error) {
+      console.error("Error deleting comment:", error);
+      return;
+    }
+    await mutate();
+    onCommentsChanged?.();
+  };
+
+  const renderComment = (comment: FileCommentThread, depth: number) => {
+    const name =
+      comment.profiles?.full_name || comment.profiles?.username || "Anonymous";
+    const canDelete = !!user && (comment.user_id === user.id || roles.isAdmin);
+
+    return (
+      <li key={comment.id} className="space-y-2">
+        <div
+          className={`p-3 border rounded text-sm ${
+            comment.is_resolved ? "bg-green-50 border-green-200 dark:bg-green-950/30 dark:border-green-900" : ""
+          }`}
+        >
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            <span className="font-medium">{name}</span>
+            {commentBadges(comment, roles).map((badge) => (
+              <Badge key={badge} variant="secondary" className="text-xs">
+                {COMMENT_BADGE_LABELS[badge]}
+              </Badge>
+            ))}
+            <span className="text-xs text-muted-foreground">
+              {new Date(comment.created_at).toLocaleDateString()}
+            </span>
+            {comment.is_resolved && (
+              <Badge variant="outline" className="text-xs text-green-700 border-green-300">
+                <CheckCircle2 className="h-3 w-3 mr-1" />
+                Resolved issue
+              </Badge>
+            )}
+          </div>
+
+          <div className="prose prose-sm max-w-none dark:prose-invert break-words">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{comment.content}</ReactMarkdown>
+          </div>
+
+          <div className="flex items-center gap-1 mt-2">
+            {user && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+              >
+                <Reply className="h-3 w-3 mr-1" />
+                Reply
+              </Button>
+            )}
+            {canResolveComment(comment, user?.id, roles) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => setResolved(comment, !comment.is_resolved)}
+              >
+                <CheckCircle2 className="h-3 w-3 mr-1" />
+                {comment.is_resolved ? "Reopen" : "Mark resolved"}
+              </Button>
+            )}
+            {canDelete && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs text-destructive hover:text-destructive"
+                onClick={() => deleteComment(comment)}
+              >
+                <Trash2 className="h-3 w-3 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {replyingTo === comment.id && (
+          <div className="ml-4">
+            <CommentForm
+              placeholder={`Reply to ${name}`}
+              submitLabel="Reply"
+              onSubmit={(content) => postComment(content, comment.id)}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+
+        {comment.replies.length > 0 && (
+          <ul className={`space-y-2 ${depth < MAX_COMMENT_DEPTH ? "ml-4 pl-3 border-l" : ""}`}>
+            {comment.replies.map((reply) => renderComment(reply, depth + 1))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+          <MessageSquare className="h-3 w-3 mr-1" />
+          {count}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Discussion: {file.file_name}</DialogTitle>
+          <DialogDescription>
+            Report problems with this file, explain fixes, or ask the author a question.
+          </DialogDescription>
+        </DialogHeader>
+
+        {user ? (
+          <CommentForm
+            placeholder="What works, what's broken, and how did you check?"
+            submitLabel="Comment"
+            onSubmit={(content) => postComment(content, null)}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Sign in to join the discussion.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-muted-foreground">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading comments...
+          </div>
+        ) : error ? (
+          <p className="text-center py-6 text-sm text-destructive">
+            {error instanceof Error ? error.message : "Failed to load comments"}
+          </p>
+        ) : threads.length === 0 ? (
+          <p className="text-center py-6 text-sm text-muted-foreground">
+            No comments yet.
+          </p>
+        ) : (
+          <ul className="space-y-3">{threads.map((thread) => renderComment(thread, 0))}</ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState } from "react";
+import useSWR, { mutate } from "swr";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  RefreshCw,
+  XCircle,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { getAuthHeaders, supabase } from "@/lib/supabase";
+import type { FileAnalysisStatus, RobotFileAnalysis } from "@/lib/types";
+
+interface FileValidityReportProps {
+  fileId: string;
+  // Only the file's contributor and the robot's maintainers can run checks
+  canAnalyze: boolean;
+}
+
+const STATUS_BADGES: Record<
+  FileAnalysisStatus,
+  { label: string; className: string; icon: typeof CheckCircle2 }
+> = {
+  valid: {
+    label: "Valid",
+    className: "border-green-600 text-green-700 dark:text-green-400",
+    icon: CheckCircle2,
+  },
+  warnings: {
+    label: "Warnings",
+    className: "border-yellow-600 text-yellow-700 dark:text-yellow-400",
+    icon: AlertTriangle,
+  },
+  invalid: {
+    label: "Invalid",
+    className: "border-red-600 text-red-700 dark:text-red-400",
+    icon: XCircle,
+  },
+};
+
+export const fileAnalysisKey = (fileId: string) => `file-analysis-${fileId}`;
+
+const fetchAnalysis = async (
+  fileId: string
+): Promise<RobotFileAnalysis | null> => {
+  const { data, error } = await supabase
+    .from("robot_file_analyses")
+    .select("*")
+    .eq("file_id", fileId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || "Failed to load file analysis");
+  }
+  return data;
+};
+
+/**
+ * Ask the server to (re)analyze a file, then refresh its report
+ */
+export async function requestFileAnalysis(fileId: string) {
+  const response = await fetch("/api/analyze-file", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await getAuthHeaders()) },
+    body: JSON.stringify({ fileId }),
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({}));
+    throw new Error(error || "Failed to analyze file");
+  }
+
+  mutate(fileAnalysisKey(fileId));
+}
+
+const formatLimit = (value: number | null) =>
+  value === null ? "–" : value.toFixed(2);
+
+export function FileValidityReport({ fileId, canAnalyze }: FileValidityReportProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [analyzing, setAnalyzing] = useState(false);
+
+  const { data: analysis, isLoading } = useSWR(
+    fileAnalysisKey(fileId),
+    () => fetchAnalysis(fileId),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 300000, // Cache for 5 minutes
+      shouldRetryOnError: false,
+    }
+  );
+
+  const handleAnalyze = async () => {
+    try {
+      setAnalyzing(true);
+      await requestFileAnalysis(fileId);
+    } catch (error) {
+      console.error("Error analyzing file:", error);
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  if (isLoading) return null;
+
+  if (!analysis) {
+    if (!canAnalyze) return null;
+
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 mt-1 text-xs"
+        onClick={handleAnalyze}
+        disabled={analyzing}
+      >
+        <RefreshCw className={`h-3 w-3 mr-1 ${analyzing ? "animate-spin" : ""}`} />
+        {analyzing ? "Checking..." : "Check file"}
+      </Button>
+    );
+  }
+
+  const badge = STATUS_BADGES[analysis.status];
+  const StatusIcon = badge.icon;
+  const { metadata, issues } = analysis;
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        type="button"
+        className="flex items-center gap-1"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? (
+          <ChevronDown className="h-3 w-3" />
+        ) : (
+          <ChevronRight className="h-3 w-3" />
+        )}
+        <Badge variant="outline" className={`gap-1 ${badge.className}`}>
+          <StatusIcon className="h-3 w-3" />
+          {badge.label}
+        </Badge>
+        {metadata && (
+          <span className="text-muted-foreground">
+            {metadata.dof} DOF · {metadata.linkCount} links
+            {metadata.totalMass !== null &&
+              ` · ${metadata.totalMass.toFixed(2)} kg`}
+          </span>
+        )}
+        {issues.length > 0 && (
+          <span className="text-muted-foreground">
+            · {issues.length} {issues.length === 1 ? "issue" : "issues"}
+          </span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 ml-4 space-y-3 border-l pl-3">
+          {issues.length > 0 && (
+            <ul className="space-y-1">
+              {issues.map((issue, index) => (
+                <li key={index} className="flex items-start gap-1">
+                  {issue.severity === "error" ? (
+                    <XCircle className="h-3 w-3 mt-0.5 text-red-600 shrink-0" />
+                  ) : (
+                    <AlertTriangle className="h-3 w-3 mt-0.5 text-yellow-600 shrink-0" />
+                  )}
+                  <span>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {metadata && metadata.joints.length > 0 && (
+            <table className="w-full max-w-md">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="text-left font-medium">Joint</th>
+                  <th className="text-left font-medium">Type</th>
+                  <th className="text-right font-medium">Lower</th>
+                  <th className="text-right font-medium">Upper</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {metadata.joints.map((joint) => (
+                  <tr key={joint.name}>
+                    <td>{joint.name}</td>
+                    <td>{joint.type}</td>
+                    <td className="text-right">{formatLimit(joint.lower)}</td>
+                    <td className="text-right">{formatLimit(joint.upper)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {metadata && metadata.meshPaths.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-muted-foreground">
+                {metadata.meshPaths.length} referenced meshes
+              </summary>
+              <ul className="mt-1 font-mono break-all">
+                {metadata.meshPaths.map((meshPath) => (
+                  <li key={meshPath}>{meshPath}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <div className="flex items-center gap-2 text-muted-foreground">
+            Checked {new Date(analysis.analyzed_at).toLocaleDateString()}
+            {canAnalyze && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={handleAnalyze}
+                disabled={analyzing}
+              >
+                <RefreshCw
+                  className={`h-3 w-3 mr-1 ${analyzing ? "animate-spin" : ""}`}
+                />
+                Re-check
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import { useState } from "react";
+import useSWR, { mutate } from "swr";
+import { Download, GitCompare, History, Loader2, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ModelDiffView } from "@/components/files/ModelDiffView";
+import { requestFileAnalysis } from "@/components/files/FileValidityReport";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabase";
+import { ANALYZABLE_FILE_TYPES } from "@/lib/robot-file-analysis";
+import {
+  compareVersions,
+  isValidVersion,
+  sortVersionsDescending,
+  suggestNextVersion,
+} from "@/lib/file-versions";
+import type { RobotFile, RobotFileVersion } from "@/lib/types";
+
+interface FileVersionHistoryProps {
+  file: RobotFile;
+  canAddVersion: boolean;
+  // Called once a version is saved, since it may have moved the file's latest pointer
+  onVersionAdded?: () => void;
+}
+
+export const fileVersionsKey = (fileId: string) => `file-versions-${fileId}`;
+
+const fetchVersions = async (fileId: string): Promise<RobotFileVersion[]> => {
+  const { data, error } = await supabase
+    .from("robot_file_versions")
+    .select("*, profiles (username, full_name)")
+    .eq("file_id", fileId);
+
+  if (error) {
+    throw new Error(error.message || "Failed to load versions");
+  }
+  return sortVersionsDescending(data || []);
+};
+
+export function FileVersionHistory({
+  file,
+  canAddVersion,
+  onVersionAdded,
+}: FileVersionHistoryProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [newVersion, setNewVersion] = useState("");
+  const [newUrl, setNewUrl] = useState("");
+  const [changelog, setChangelog] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [compareFrom, setCompareFrom] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<string | null>(null);
+
+  const {
+    data: versions = [],
+    error,
+    isLoading,
+  } = useSWR(open ? fileVersionsKey(file.id) : null, () => fetchVersions(file.id), {
+    revalidateOnFocus: false,
+    shouldRetryOnError: false,
+  });
+
+  const latest =
+    versions.find((version) => version.id === file.latest_version_id) ||
+    versions[0];
+  const canCompare =
+    ANALYZABLE_FILE_TYPES.includes(file.file_type) && versions.length > 1;
+
+  // Default to comparing the latest version with the one before it
+  const fromVersion =
+    versions.find((version) => version.id === compareFrom) || versions[1];
+  const toVersion =
+    versions.find((version) => version.id === compareTo) || versions[0];
+
+  const trimmedVersion = newVersion.trim();
+  const versionError = !trimmedVersion
+    ? null
+    : !isValidVersion(trimmedVersion)
+      ? "Use a semantic version like 1.2.0"
+      : versions.some(
+            (version) => compareVersions(version.version, trimmedVersion) === 0
+          )
+        ? "This version already exists"
+        : null;
+  const isOlderThanLatest =
+    !!latest &&
+    !versionError &&
+    !!trimmedVersion &&
+    compareVersions(trimmedVersion, latest.version) < 0;
+
+  const resetAddForm = () => {
+    setShowAddForm(false);
+    setNewVersion("");
+    setNewUrl("");
+    setChangelog("");
+  };
+
+  const handleAddVersion = async () => {
+    if (!user || !trimmedVersion || !newUrl.trim() || versionError) return;
+
+    try {
+      setSubmitting(true);
+
+      const { error } = await supabase.from("robot_file_versions").insert({
+        file_id: file.id,
+        version: trimmedVersion,
+        file_url: newUrl.trim(),
+        changelog: changelog.trim() || null,
+        user_id: user.id,
+      });
+
+      if (error) throw error;
+
+      resetAddForm();
+      mutate(fileVersionsKey(file.id));
+      onVersionAdded?.();
+
+      // The file now points at a new URL, so its report is out of date
+      if (ANALYZABLE_FILE_TYPES.includes(file.file_type) && !isOlderThanLatest) {
+        requestFileAnalysis(file.id).catch((error) =>
+          console.error("Error analyzing file:", error)
+        );
+      }
+    } catch (error) {
+      console.error("Error adding version:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+          <History className="h-3 w-3 mr-1" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{file.file_name}</DialogTitle>
+          <DialogDescription>
+            Version history, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canAddVersion && (
+          <div className="space-y-2">
+            {showAddForm ? (
+              <div className="border rounded-lg p-3 space-y-2">
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    className="sm:w-40"
+                    placeholder={suggestNextVersion(latest?.version)}
+                    value={newVersion}
+                    onChange={(e) => setNewVersion(e.target.value)}
+                  />
+                  <Input
+                    className="flex-1"
+                    placeholder="Download URL"
+                    value={newUrl}
+                    onChange={(e) => setNewUrl(e.target.value)}
+                  />
+                </div>
+                {versionError ? (
+                  <p className="text-xs text-destructive">{versionError}</p>
+                ) : (
+                  isOlderThanLatest && (
+                    <p className="text-xs text-muted-foreground">
+                      Older than v{latest.version}, so it won&apos;t become the
+                      latest version
+                    </p>
+                  )
+                )}
+                <Textarea
+                  placeholder="What changed in this version?"
+                  value={changelog}
+                  onChange={(e) => setChangelog(e.target.value)}
+                  rows={3}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={handleAddVersion}
+                    disabled={
+                      submitting ||
+                      !trimmedVersion ||
+                      !newUrl.trim() ||
+                      !!versionError
+                    }
+                  >
+                    {submitting ? "Adding..." : "Add Version"}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={resetAddForm}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowAddForm(true)}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New Version
+              </Button>
+            )}
+          </div>
+        )}
+
+        {error ? (
+          <p className="text-sm text-muted-foreground">
+            Failed to load versions: {error.message}
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center text-sm text-muted-foreground py-4">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading versions...
+          </div>
+        ) : (
+          <ol className="space-y-2">
+            {versions.map((version) => (
+              <li key={version.id} className="border rounded p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">v{version.version}</span>
+                    {version.id === latest?.id && (
+                      <Badge variant="secondary" className="text-xs">
+                        Latest
+                      </Badge>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(version.created_at).toLocaleDateString()}
+                      {version.profiles &&
+                        ` by ${version.profiles.username || version.profiles.full_name || "unknown"}`}
+                    </span>
+                  </div>
+                  <Button variant="ghost" size="sm" className="h-6 px-2" asChild>
+                    <a
+                      href={version.file_url}
+                      download
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      <Download className="h-3 w-3" />
+                    </a>
+                  </Button>
+                </div>
+                {version.changelog && (
+                  <p className="mt-1 text-muted-foreground whitespace-pre-line">
+                    {version.changelog}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {canCompare && fromVersion && toVersion && (
+          <div className="border-t pt-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <GitCompare className="h-4 w-4" />
+              <span className="font-medium">Compare</span>
+              <Select value={fromVersion.id} onValueChange={setCompareFrom}>
+                <SelectTrigger className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      v{version.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span>→</span>
+              <Select value={toVersion.id} onValueChange={setCompareTo}>
+                <SelectTrigger className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      v{version.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {fromVersion.id === toVersion.id ? (
+              <p className="text-sm text-muted-foreground">
+                Pick two different versions.
+              </p>
+            ) : (
+              <ModelDiffView
+                fileType={file.file_type}
+                before={fromVersion}
+                after={toVersion}
+              />
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
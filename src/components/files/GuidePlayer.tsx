@@ -0,0 +1,323 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { BookOpen, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabase";
+import { toRawGitHubUrl } from "@/lib/github";
+import { fetchGuide } from "@/lib/guide-parser";
+import type { GuideStepProgress, RobotFile } from "@/lib/types";
+
+interface GuidePlayerProps {
+  file: RobotFile;
+}
+
+interface TeamMember {
+  userId: string;
+  name: string;
+  done: number;
+}
+
+const fetchProgress = async (fileId: string): Promise<GuideStepProgress[]> => {
+  const { data, error } = await supabase
+    .from("guide_step_progress")
+    .select("*, profiles (username, full_name, avatar_url)")
+    .eq("file_id", fileId);
+
+  if (error) {
+    throw new Error(error.message || "Failed to load progress");
+  }
+  return data || [];
+};
+
+export function GuidePlayer({ file }: GuidePlayerProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const swrOptions = {
+    revalidateOnFocus: false,
+    dedupingInterval: 300000, // Cache for 5 minutes
+    shouldRetryOnError: false,
+  };
+
+  const {
+    data: guide,
+    error,
+    isLoading,
+  } = useSWR(
+    open ? `guide-${file.id}-${file.file_url}` : null,
+    () => fetchGuide(file.file_url),
+    swrOptions
+  );
+
+  const progressKey = `guide-progress-${file.id}`;
+  const { data: progress = [], mutate: mutateProgress } = useSWR(
+    open ? progressKey : null,
+    () => fetchProgress(file.id),
+    swrOptions
+  );
+
+  const steps = guide?.steps || [];
+  const step = steps[Math.min(stepIndex, steps.length - 1)];
+  const stepKeys = new Set(steps.map((guideStep) => guideStep.key));
+
+  // Rows for steps that were renamed or removed no longer count
+  const myDone = new Set(
+    progress
+      .filter((row) => row.user_id === user?.id && stepKeys.has(row.step_key))
+      .map((row) => row.step_key)
+  );
+
+  const team = Array.from(
+    progress
+      .filter((row) => row.user_id !== user?.id && stepKeys.has(row.step_key))
+      .reduce((members, row) => {
+        const member = members.get(row.user_id) || {
+          userId: row.user_id,
+          name: row.profiles?.full_name || row.profiles?.username || "Anonymous",
+          done: 0,
+        };
+        member.done++;
+        return members.set(row.user_id, member);
+      }, new Map<string, TeamMember>())
+      .values()
+  ).sort((a, b) => b.done - a.done);
+
+  const percentDone = steps.length ? Math.round((myDone.size / steps.length) * 100) : 0;
+
+  const toggleStep = async (stepKey: string, done: boolean) => {
+    if (!user) return;
+
+    try {
+      setSaving(stepKey);
+
+      if (done) {
+        const { error } = await supabase.from("guide_step_progress").insert({
+          user_id: user.id,
+          robot_id: file.robot_id,
+          file_id: file.id,
+          step_key: stepKey,
+        });
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("guide_step_progress")
+          .delete()
+          .eq("user_id", user.id)
+          .eq("file_id", file.id)
+          .eq("step_key", stepKey);
+        if (error) throw error;
+      }
+
+      await mutateProgress();
+
+      // Ticking a step off moves on to the next one
+      if (done && stepIndex < steps.length - 1) {
+        setStepIndex(stepIndex + 1);
+      }
+    } catch (error) {
+      console.error("Error saving guide progress:", error);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <BookOpen className="h-3 w-3 mr-1" />
+          Open Guide
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{guide?.title || file.file_name}</DialogTitle>
+          <DialogDescription>
+            {steps.length > 0
+              ? `${steps.length} ${steps.length === 1 ? "step" : "steps"}${
+                  user ? ` · ${myDone.size} done (${percentDone}%)` : ""
+                }`
+              : "Assembly guide"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading guide...
+          </div>
+        ) : error || !step ? (
+          <p className="text-center py-8 text-sm text-destructive">
+            {error instanceof Error ? error.message : "Could not read this guide"}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {user && (
+              <div className="h-2 rounded bg-muted overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{ width: `${percentDone}%` }}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-1">
+              {steps.map((guideStep, index) => (
+                <Button
+                  key={guideStep.key}
+                  variant={index === stepIndex ? "default" : myDone.has(guideStep.key) ? "secondary" : "outline"}
+                  size="sm"
+                  className="h-7 w-9 px-0 text-xs"
+                  title={guideStep.title}
+                  onClick={() => setStepIndex(index)}
+                >
+                  {guideStep.number}
+                </Button>
+              ))}
+            </div>
+
+            {stepIndex === 0 && guide?.intro && (
+              <div className="prose prose-sm max-w-none dark:prose-invert text-muted-foreground">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>{guide.intro}</ReactMarkdown>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h3 className="font-semibold">
+                Step {step.number}
+                {guide?.format === "markdown" && `: ${step.title}`}
+              </h3>
+
+              {guide?.format === "pdf" ? (
+                <object
+                  data={`${toRawGitHubUrl(file.file_url)}#page=${step.page}`}
+                  type="application/pdf"
+                  className="w-full h-[60vh] border rounded"
+                  // Re-mount so the viewer jumps to the new page
+                  key={step.key}
+                >
+                  <a
+                    href={file.file_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm underline"
+                  >
+                    Open page {step.page} of the PDF
+                  </a>
+                </object>
+              ) : (
+                <>
+                  {step.images.length > 0 && (
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {step.images.map((image) => (
+                        <img
+                          key={image.src}
+                          src={image.src}
+                          alt={image.alt || step.title}
+                          className="w-full h-auto rounded border"
+                          loading="lazy"
+                        />
+                      ))}
+                    </div>
+                  )}
+
+                  {step.parts.length > 0 && (
+                    <div className="p-3 border rounded bg-muted/40">
+                      <h4 className="text-sm font-medium mb-1">Parts used</h4>
+                      <ul className="list-disc pl-5 text-sm space-y-0.5">
+                        {step.parts.map((part, index) => (
+                          <li key={index}>{part}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {step.body && (
+                    <div className="prose prose-sm max-w-none dark:prose-invert">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>{step.body}</ReactMarkdown>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-2 pt-2 border-t">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setStepIndex(stepIndex - 1)}
+                disabled={stepIndex === 0}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+
+              {user ? (
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={myDone.has(step.key)}
+                    disabled={saving === step.key}
+                    onCheckedChange={(checked) => toggleStep(step.key, checked === true)}
+                  />
+                  Mark step done
+                </label>
+              ) : (
+                <span className="text-xs text-muted-foreground">
+                  Sign in to track your build
+                </span>
+              )}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setStepIndex(stepIndex + 1)}
+                disabled={stepIndex >= steps.length - 1}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+
+            {team.length > 0 && (
+              <div className="pt-2 border-t">
+                <h4 className="text-sm font-medium mb-2">Team progress</h4>
+                <ul className="space-y-1">
+                  {team.map((member) => (
+                    <li key={member.userId} className="flex items-center gap-2 text-xs">
+                      <span className="w-32 truncate">{member.name}</span>
+                      <div className="flex-1 h-1.5 rounded bg-muted overflow-hidden">
+                        <div
+                          className="h-full bg-primary/70"
+                          style={{ width: `${(member.done / steps.length) * 100}%` }}
+                        />
+                      </div>
+                      <span className="text-muted-foreground">
+                        {member.done}/{steps.length}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
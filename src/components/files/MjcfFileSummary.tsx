@@ -0,0 +1,69 @@
+"use client";
+
+import useSWR from "swr";
+import { Badge } from "@/components/ui/badge";
+import { fetchMjcfModel, summarizeMjcf } from "@/lib/mjcf-parser";
+
+interface MjcfFileSummaryProps {
+  fileId: string;
+  fileUrl: string;
+}
+
+const mjcfSummaryFetcher = async (fileUrl: string) =>
+  summarizeMjcf(await fetchMjcfModel(fileUrl));
+
+export function MjcfFileSummary({ fileId, fileUrl }: MjcfFileSummaryProps) {
+  const { data: summary, error, isLoading } = useSWR(
+    `mjcf-summary-${fileId}`,
+    () => mjcfSummaryFetcher(fileUrl),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 300000, // Cache for 5 minutes
+      shouldRetryOnError: false,
+    }
+  );
+
+  if (isLoading) {
+    return (
+      <p className="text-xs text-muted-foreground mt-1">Reading model...</p>
+    );
+  }
+
+  if (error || !summary) {
+    return (
+      <p className="text-xs text-muted-foreground mt-1">
+        Model summary unavailable
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-1 text-xs">
+      <p className="text-muted-foreground">
+        {summary.bodyCount} {summary.bodyCount === 1 ? "body" : "bodies"} ·{" "}
+        {summary.jointCount} {summary.jointCount === 1 ? "joint" : "joints"} ·{" "}
+        {summary.actuatedJoints.length} actuated
+      </p>
+      {summary.positionControlled.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-muted-foreground">Position:</span>
+          {summary.positionControlled.map((joint) => (
+            <Badge key={joint} variant="outline" className="font-mono">
+              {joint}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {summary.torqueControlled.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-muted-foreground">Torque:</span>
+          {summary.torqueControlled.map((joint) => (
+            <Badge key={joint} variant="outline" className="font-mono">
+              {joint}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
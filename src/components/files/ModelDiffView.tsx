@@ -0,0 +1,193 @@
+"use client";
+
+import useSWR from "swr";
+import { Loader2, Minus, Plus } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  diffModelStructures,
+  loadModelStructure,
+  type ModelDiff,
+} from "@/lib/model-diff";
+import type { RobotFileType, RobotFileVersion } from "@/lib/types";
+
+// A version of a file, or a whole file when comparing a variant to its parent
+type DiffSide = Pick<RobotFileVersion, "id" | "version" | "file_url"> & {
+  // Column heading, "v<version>" when not given
+  label?: string;
+};
+
+interface ModelDiffViewProps {
+  fileType: RobotFileType;
+  before: DiffSide;
+  after: DiffSide;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  type: "Type",
+  lower: "Lower limit",
+  upper: "Upper limit",
+  effort: "Effort limit",
+  velocity: "Velocity limit",
+};
+
+const formatValue = (value: string | number | null, unit = "") =>
+  value === null
+    ? "–"
+    : typeof value === "number"
+      ? `${Number(value.toFixed(4))}${unit}`
+      : value;
+
+const diffFetcher = async (
+  fileType: RobotFileType,
+  beforeUrl: string,
+  afterUrl: string
+): Promise<ModelDiff> => {
+  const [before, after] = await Promise.all([
+    loadModelStructure(fileType, beforeUrl),
+    loadModelStructure(fileType, afterUrl),
+  ]);
+  return diffModelStructures(before, after);
+};
+
+export function ModelDiffView({ fileType, before, after }: ModelDiffViewProps) {
+  const beforeLabel = before.label || `v${before.version}`;
+  const afterLabel = after.label || `v${after.version}`;
+
+  const {
+    data: diff,
+    error,
+    isLoading,
+  } = useSWR(
+    `model-diff-${before.id}-${after.id}`,
+    () => diffFetcher(fileType, before.file_url, after.file_url),
+    {
+      revalidateOnFocus: false,
+      revalidateIfStale: false,
+      shouldRetryOnError: false,
+    }
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground py-4">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Comparing {beforeLabel} and {afterLabel}...
+      </div>
+    );
+  }
+
+  if (error || !diff) {
+    return (
+      <p className="text-sm text-muted-foreground py-4">
+        Could not compare these files
+        {error?.message && `: ${error.message}`}
+      </p>
+    );
+  }
+
+  if (!diff.hasChanges) {
+    return (
+      <p className="text-sm text-muted-foreground py-4">
+        No structural changes between {beforeLabel} and {afterLabel}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {(diff.addedJoints.length > 0 || diff.removedJoints.length > 0) && (
+        <div className="space-y-1">
+          <h5 className="font-medium">Joints</h5>
+          {diff.addedJoints.map((joint) => (
+            <div
+              key={`added-${joint}`}
+              className="flex items-center gap-1 text-green-700 dark:text-green-400"
+            >
+              <Plus className="h-3 w-3" />
+              {joint}
+            </div>
+          ))}
+          {diff.removedJoints.map((joint) => (
+            <div
+              key={`removed-${joint}`}
+              className="flex items-center gap-1 text-red-700 dark:text-red-400"
+            >
+              <Minus className="h-3 w-3" />
+              {joint}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diff.jointChanges.length > 0 && (
+        <div className="space-y-1">
+          <h5 className="font-medium">Joint changes</h5>
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Joint</TableHead>
+                <TableHead>Field</TableHead>
+                <TableHead className="text-right">{beforeLabel}</TableHead>
+                <TableHead className="text-right">{afterLabel}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diff.jointChanges.map((change) => (
+                <TableRow key={`${change.joint}-${change.field}`}>
+                  <TableCell>{change.joint}</TableCell>
+                  <TableCell>{FIELD_LABELS[change.field]}</TableCell>
+                  <TableCell className="text-right">
+                    {formatValue(change.before)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatValue(change.after)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {diff.massChanges.length > 0 && (
+        <div className="space-y-1">
+          <h5 className="font-medium">Mass changes</h5>
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead>{fileType === "mjcf" ? "Body" : "Link"}</TableHead>
+                <TableHead className="text-right">{beforeLabel}</TableHead>
+                <TableHead className="text-right">{afterLabel}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diff.massChanges.map((change) => (
+                <TableRow key={change.link}>
+                  <TableCell>{change.link}</TableCell>
+                  <TableCell className="text-right">
+                    {formatValue(change.before, " kg")}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatValue(change.after, " kg")}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <p className="text-muted-foreground">
+        Total mass: {formatValue(diff.totalMass.before, " kg")} →{" "}
+        {formatValue(diff.totalMass.after, " kg")}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useState } from "react";
+import { FolderSearch, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { requestFileAnalysis } from "@/components/files/FileValidityReport";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/lib/supabase";
+import { FILE_TYPE_LABELS } from "@/lib/file-types";
+import { ANALYZABLE_FILE_TYPES } from "@/lib/robot-file-analysis";
+import type { RepoFileCandidate } from "@/lib/repo-scanner";
+
+interface RepositoryScanDialogProps {
+  robotId: string;
+  onFilesAdded: () => void;
+}
+
+interface ScanResult {
+  repository: string;
+  candidates: RepoFileCandidate[];
+}
+
+const formatSize = (size: number | null) =>
+  size === null
+    ? ""
+    : size >= 1024 * 1024
+      ? `${(size / 1024 / 1024).toFixed(1)} MB`
+      : `${Math.max(1, Math.round(size / 1024))} KB`;
+
+export function RepositoryScanDialog({
+  robotId,
+  onFilesAdded,
+}: RepositoryScanDialogProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [submitting, setSubmitting] = useState(false);
+
+  const scan = async () => {
+    setScanning(true);
+    setResult(null);
+
+    try {
+      const response = await fetch("/api/scan-repository", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ robotId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Failed to scan repository");
+      }
+
+      setResult(data);
+      // Everything starts accepted; unticking is quicker than ticking
+      setSelected(new Set(data.candidates.map((candidate: RepoFileCandidate) => candidate.path)));
+    } catch (error) {
+      console.error("Error scanning repository:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to scan repository");
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen && !result && !scanning) scan();
+  };
+
+  const toggle = (path: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(path);
+    } else {
+      next.delete(path);
+    }
+    setSelected(next);
+  };
+
+  const candidates = result?.candidates || [];
+  const accepted = candidates.filter((candidate) => selected.has(candidate.path));
+
+  const handleRejectAll = () => {
+    setOpen(false);
+    setResult(null);
+  };
+
+  const handleAccept = async () => {
+    if (!user || accepted.length === 0) return;
+
+    try {
+      setSubmitting(true);
+
+      const { data: newFiles, error } = await supabase
+        .from("robot_files")
+        .insert(
+          accepted.map((candidate) => ({
+            robot_id: robotId,
+            file_type: candidate.type,
+            file_url: candidate.url,
+            file_name: candidate.fileName,
+            version: "1.0.0",
+            description: `Found in ${result?.repository} at ${candidate.path}`,
+            user_id: user.id,
+            is_owner_added: true,
+          }))
+        )
+        .select();
+
+      if (error) throw error;
+
+      setOpen(false);
+      setResult(null);
+      onFilesAdded();
+
+      for (const file of newFiles || []) {
+        if (ANALYZABLE_FILE_TYPES.includes(file.file_type)) {
+          requestFileAnalysis(file.id).catch((error) =>
+            console.error("Error analyzing file:", error)
+          );
+        }
+      }
+    } catch (error) {
+      console.error("Error adding scanned files:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FolderSearch className="h-4 w-4 mr-1" />
+          Scan Repository
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Files found in the repository</DialogTitle>
+          <DialogDescription>
+            {result
+              ? `Untick anything you don't want listed, then add the rest. Scanned ${result.repository}.`
+              : "Looking for URDF, MJCF, STL, BOM and guide files."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {scanning ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Scanning repository...
+          </div>
+        ) : !result ? (
+          <div className="text-center py-8">
+            <Button variant="outline" size="sm" onClick={scan}>
+              Try Again
+            </Button>
+          </div>
+        ) : candidates.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No new files found.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setSelected(new Set(candidates.map((candidate) => candidate.path)))
+                }
+              >
+                Select all
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelected(new Set())}
+              >
+                Select none
+              </Button>
+            </div>
+            <ul className="space-y-1">
+              {candidates.map((candidate) => (
+                <li
+                  key={candidate.path}
+                  className="flex items-center gap-3 p-2 border rounded text-sm"
+                >
+                  <Checkbox
+                    id={`scan-${candidate.path}`}
+                    checked={selected.has(candidate.path)}
+                    onCheckedChange={(checked) =>
+                      toggle(candidate.path, checked === true)
+                    }
+                  />
+                  <label
+                    htmlFor={`scan-${candidate.path}`}
+                    className="flex-1 min-w-0 cursor-pointer"
+                  >
+                    <span className="block truncate font-medium">
+                      {candidate.fileName}
+                    </span>
+                    <span className="block truncate text-xs text-muted-foreground">
+                      {candidate.path}
+                    </span>
+                  </label>
+                  <span className="text-xs text-muted-foreground">
+                    {formatSize(candidate.size)}
+                  </span>
+                  <Badge variant="outline" className="text-xs">
+                    {FILE_TYPE_LABELS[candidate.type]}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {candidates.length > 0 && (
+          <DialogFooter>
+            <Button variant="outline" size="sm" onClick={handleRejectAll}>
+              Reject All
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleAccept}
+              disabled={submitting || accepted.length === 0}
+            >
+              {submitting
+                ? "Adding..."
+                : `Add ${accepted.length} ${accepted.length === 1 ? "File" : "Files"}`}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ThumbsUp, ThumbsDown, Download, Info, X } from "lucide-react";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { BomTable } from "@/components/files/BomTable";
+import { FileComments } from "@/components/files/FileComments";
+import { FileValidityReport } from "@/components/files/FileValidityReport";
+import { FileVersionHistory } from "@/components/files/FileVersionHistory";
+import { GuidePlayer } from "@/components/files/GuidePlayer";
+import { MjcfFileSummary } from "@/components/files/MjcfFileSummary";
+import { StlFileStats } from "@/components/files/StlFileStats";
+import { VariantCompareDialog } from "@/components/files/VariantCompareDialog";
+import {
+  ModelPreviewDialog,
+  PREVIEWABLE_FILE_TYPES,
+} from "@/components/viewer/ModelPreviewDialog";
+import { explainFileRank } from "@/lib/file-ranking";
+import { ANALYZABLE_FILE_TYPES } from "@/lib/robot-file-analysis";
+import type { RobotFile } from "@/lib/types";
+
+interface RobotFileRowProps {
+  file: RobotFile;
+  // Place among the originals of its type, or among its original's variants
+  rankPosition?: { position: number; total: number; among: string };
+  // File this variant derives from
+  parentFile?: RobotFile;
+  robotBudget?: string;
+  robotCreatorId?: string;
+  robotMaintainerIds?: string[];
+  canRate: boolean;
+  canDelete: boolean;
+  canAddVersion: boolean;
+  onRate: (fileId: string, rating: "up" | "down") => void;
+  onDelete: (fileId: string) => void;
+  onVersionAdded?: () => void;
+  onCommentsChanged?: () => void;
+}
+
+export function RobotFileRow({
+  file,
+  rankPosition,
+  parentFile,
+  robotBudget,
+  robotCreatorId,
+  robotMaintainerIds,
+  canRate,
+  canDelete,
+  canAddVersion,
+  onRate,
+  onDelete,
+  onVersionAdded,
+  onCommentsChanged,
+}: RobotFileRowProps) {
+  return (
+    <div
+      className={`flex items-center justify-between p-3 border rounded ${
+        file.is_owner_added
+          ? "bg-accent/20"
+          : "hover:bg-accent/50 transition-colors"
+      }`}
+    >
+      <div className="flex-1">
+        <div className="flex items-center gap-2">
+          <h4 className="font-medium text-sm">{file.file_name}</h4>
+          <span className="text-xs text-muted-foreground">v{file.version}</span>
+          {file.is_owner_added && (
+            <Badge variant="secondary" className="text-xs">
+              Owner
+            </Badge>
+          )}
+          {parentFile && (
+            <Badge variant="outline" className="text-xs">
+              Variant of {parentFile.file_name}
+            </Badge>
+          )}
+          <FileVersionHistory
+            file={file}
+            canAddVersion={canAddVersion}
+            onVersionAdded={onVersionAdded}
+          />
+        </div>
+        {file.description && (
+          <p className="text-xs text-muted-foreground mt-1">
+            {file.description}
+          </p>
+        )}
+        {file.file_type === "mjcf" && (
+          <MjcfFileSummary fileId={file.id} fileUrl={file.file_url} />
+        )}
+        {file.file_type === "stl" && (
+          <StlFileStats fileId={file.id} fileUrl={file.file_url} />
+        )}
+        {file.file_type === "bom" && (
+          <BomTable
+            fileId={file.id}
+            fileUrl={file.file_url}
+            budget={robotBudget}
+          />
+        )}
+        {ANALYZABLE_FILE_TYPES.includes(file.file_type) && (
+          <FileValidityReport fileId={file.id} canAnalyze={canAddVersion} />
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" asChild>
+          <a
+            href={file.file_url}
+            download
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            <Download className="h-3 w-3 mr-1" />
+            Download
+          </a>
+        </Button>
+
+        {PREVIEWABLE_FILE_TYPES.includes(file.file_type) && (
+          <ModelPreviewDialog file={file} />
+        )}
+
+        {parentFile && ANALYZABLE_FILE_TYPES.includes(file.file_type) && (
+          <VariantCompareDialog file={file} parent={parentFile} />
+        )}
+
+        {file.file_type === "guide" && <GuidePlayer file={file} />}
+
+        <div className="flex items-center gap-1 text-xs">
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <span className="flex items-center gap-1 px-1 text-muted-foreground cursor-help">
+                  <Info className="h-3 w-3" />
+                  {rankPosition && `#${rankPosition.position}`}
+                </span>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs space-y-1">
+                {rankPosition && (
+                  <p className="font-medium">
+                    Ranked {rankPosition.position} of {rankPosition.total}{" "}
+                    {rankPosition.among}
+                  </p>
+                )}
+                {explainFileRank(file).map((reason) => (
+                  <p key={reason}>{reason}</p>
+                ))}
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+          <Button
+            variant={file.ratings?.userRating === "up" ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onRate(file.id, "up")}
+            disabled={!canRate}
+            className="h-6 px-2"
+          >
+            <ThumbsUp className="h-3 w-3 mr-1" />
+            {file.ratings?.up || 0}
+          </Button>
+          <Button
+            variant={
+              file.ratings?.userRating === "down" ? "destructive" : "ghost"
+            }
+            size="sm"
+            onClick={() => onRate(file.id, "down")}
+            disabled={!canRate}
+            className="h-6 px-2"
+          >
+            <ThumbsDown className="h-3 w-3 mr-1" />
+            {file.ratings?.down || 0}
+          </Button>
+          <FileComments
+            file={file}
+            robotCreatorId={robotCreatorId}
+            robotMaintainerIds={robotMaintainerIds}
+            onCommentsChanged={onCommentsChanged}
+          />
+        </div>
+
+        {canDelete && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onDelete(file.id)}
+            className="text-destructive hover:text-destructive h-6 px-2"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
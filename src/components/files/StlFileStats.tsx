@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  analyzeStl,
+  estimateFilament,
+  guessLengthUnit,
+  parseStl,
+  PRINT_MATERIALS,
+  UNIT_TO_MM,
+  type LengthUnit,
+} from "@/lib/stl-analysis";
+
+interface StlFileStatsProps {
+  fileId: string;
+  fileUrl: string;
+}
+
+const stlStatsFetcher = async (fileUrl: string) => {
+  const response = await fetch(fileUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch STL: ${response.status}`);
+  }
+  return analyzeStl(parseStl(await response.arrayBuffer()));
+};
+
+const formatMm = (value: number) =>
+  value >= 100 ? value.toFixed(0) : value.toFixed(1);
+
+export function StlFileStats({ fileId, fileUrl }: StlFileStatsProps) {
+  const [unit, setUnit] = useState<LengthUnit | null>(null);
+  const [materialId, setMaterialId] = useState(PRINT_MATERIALS[0].id);
+  const [infillPercent, setInfillPercent] = useState(20);
+
+  const { data: stats, error, isLoading } = useSWR(
+    `stl-stats-${fileId}`,
+    () => stlStatsFetcher(fileUrl),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 300000, // Cache for 5 minutes
+      shouldRetryOnError: false,
+    }
+  );
+
+  if (isLoading) {
+    return (
+      <p className="text-xs text-muted-foreground mt-1">Measuring part...</p>
+    );
+  }
+
+  if (error || !stats) {
+    return (
+      <p className="text-xs text-muted-foreground mt-1">
+        Part measurements unavailable
+      </p>
+    );
+  }
+
+  // Until the user picks a unit, go with the best guess from the part size
+  const activeUnit = unit || guessLengthUnit(stats);
+  const scale = UNIT_TO_MM[activeUnit];
+  const [width, depth, height] = stats.boundingBox.size.map(
+    (size) => size * scale
+  );
+  const estimate = estimateFilament(stats, activeUnit, {
+    materialId,
+    infillPercent,
+  });
+
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-muted-foreground">
+        <span>
+          {formatMm(width)} × {formatMm(depth)} × {formatMm(height)} mm
+        </span>
+        <span>·</span>
+        <span>{((stats.volume * scale ** 3) / 1000).toFixed(1)} cm³</span>
+        <span>·</span>
+        <span>{((stats.surfaceArea * scale ** 2) / 100).toFixed(1)} cm² surface</span>
+        <span>·</span>
+        <span>{stats.triangleCount.toLocaleString()} triangles</span>
+      </div>
+
+      {!stats.isManifold && (
+        <Badge variant="destructive" className="gap-1">
+          <AlertTriangle className="h-3 w-3" />
+          Not watertight ({stats.boundaryEdges + stats.nonManifoldEdges} bad
+          edges), volume and estimate may be off
+        </Badge>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={activeUnit}
+          onValueChange={(value) => setUnit(value as LengthUnit)}
+        >
+          <SelectTrigger className="h-7 w-[110px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(UNIT_TO_MM) as LengthUnit[]).map((option) => (
+              <SelectItem key={option} value={option}>
+                Units: {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={materialId} onValueChange={setMaterialId}>
+          <SelectTrigger className="h-7 w-[100px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PRINT_MATERIALS.map((material) => (
+              <SelectItem key={material.id} value={material.id}>
+                {material.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className="flex items-center gap-1 text-muted-foreground">
+          Infill
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={infillPercent}
+            onChange={(e) => setInfillPercent(Number(e.target.value))}
+            className="w-20 accent-primary"
+          />
+          <span className="w-8">{infillPercent}%</span>
+        </label>
+        <span className="font-medium">
+          ≈ {estimate.grams.toFixed(0)} g of {estimate.material.name}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { GitCompare } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ModelDiffView } from "@/components/files/ModelDiffView";
+import type { RobotFile } from "@/lib/types";
+
+interface VariantCompareDialogProps {
+  file: RobotFile;
+  parent: RobotFile;
+}
+
+export function VariantCompareDialog({ file, parent }: VariantCompareDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <GitCompare className="h-3 w-3 mr-1" />
+          Compare
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Changes from the original</DialogTitle>
+          <DialogDescription>
+            {file.file_name} v{file.version} compared with {parent.file_name} v
+            {parent.version}
+          </DialogDescription>
+        </DialogHeader>
+        {/* Only fetch both models once someone asks for the comparison */}
+        {open && (
+          <ModelDiffView
+            fileType={file.file_type}
+            before={{ ...parent, label: "Original" }}
+            after={{ ...file, label: "Variant" }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
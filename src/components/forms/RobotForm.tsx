@@ -6,8 +6,12 @@ import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { TagManager } from './TagManager'
 import { SocialLinksManager } from './SocialLinksManager'
-import { BudgetSelector } from '@/components/ui/budget-selector'
+import { RobotSpecsEditor } from './RobotSpecsEditor'
+import { BudgetInput } from '@/components/ui/budget-input'
+import { CategorySelect } from '@/components/CategorySelect'
 import { RobotFormData, SocialLink, generateSlug } from '@/lib/robotFormUtils'
+import { normalizeRobotSpecs } from '@/lib/robot-specs'
+import { useRobotCategories } from '@/lib/robot-data'
 
 interface RobotFormProps {
   formData: RobotFormData
@@ -28,7 +32,9 @@ export function RobotForm({
   onSocialLinksChange,
   disabled = false
 }: RobotFormProps) {
-  const updateFormData = (field: keyof RobotFormData, value: string) => {
+  const { data: categories = [] } = useRobotCategories()
+
+  const updateFormData = <K extends keyof RobotFormData>(field: K, value: RobotFormData[K]) => {
     onFormDataChange({
       ...formData,
       [field]: value
@@ -77,6 +83,21 @@ export function RobotForm({
             />
           </div>
 
+          <div>
+            <Label>
+              Primary Category <span className="text-destructive">*</span>
+            </Label>
+            <CategorySelect
+              categories={categories}
+              value={formData.category_id || ''}
+              onValueChange={(value) => updateFormData('category_id', value)}
+              disabled={disabled}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Where the robot is listed when browsing. Use tags for everything else.
+            </p>
+          </div>
+
           <div>
             <Label htmlFor="github_url">
               GitHub Repository URL <span className="text-destructive">*</span>
@@ -96,7 +117,7 @@ export function RobotForm({
             <Label htmlFor="budget">
               Budget <span className="text-destructive">*</span>
             </Label>
-            <BudgetSelector
+            <BudgetInput
               value={formData.budget}
               onValueChange={(value) => updateFormData('budget', value)}
               placeholder="Select budget range"
@@ -104,12 +125,25 @@ export function RobotForm({
               disabled={disabled}
             />
             <p className="text-xs text-muted-foreground mt-1">
-              Select the approximate cost range to build this robot
+              Select the approximate cost range to build this robot, or enter an exact amount
             </p>
           </div>
         </CardContent>
       </Card>
 
+      {/* Technical Specs */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Technical Specs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <RobotSpecsEditor
+            specs={normalizeRobotSpecs(formData.specs)}
+            onSpecsChange={(specs) => onFormDataChange({ ...formData, specs })}
+            disabled={disabled}
+          />
+        </CardContent>
+      </Card>
 
       {/* Tags */}
       <Card>
@@ -0,0 +1,116 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  ENUM_SPEC_FIELDS,
+  NUMERIC_SPEC_FIELDS,
+  SPEC_OPTION_LABELS,
+  type RobotFramework,
+  type RobotSpecs,
+} from '@/lib/robot-specs'
+
+interface RobotSpecsEditorProps {
+  specs: RobotSpecs
+  onSpecsChange: (specs: RobotSpecs) => void
+  disabled?: boolean
+}
+
+export function RobotSpecsEditor({ specs, onSpecsChange, disabled = false }: RobotSpecsEditorProps) {
+  const updateSpec = <K extends keyof RobotSpecs>(key: K, value: RobotSpecs[K]) => {
+    const next = { ...specs, [key]: value }
+    // Cleared fields are dropped rather than stored as null
+    if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
+      delete next[key]
+    }
+    onSpecsChange(next)
+  }
+
+  const toggleFramework = (framework: RobotFramework, checked: boolean) => {
+    const current = specs.frameworks || []
+    updateSpec(
+      'frameworks',
+      checked ? [...current, framework] : current.filter(item => item !== framework)
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {NUMERIC_SPEC_FIELDS.map(field => (
+          <div key={field.key}>
+            <Label htmlFor={`spec-${field.key}`}>
+              {field.label}
+              {field.unit && <span className="text-muted-foreground"> ({field.unit})</span>}
+            </Label>
+            <Input
+              id={`spec-${field.key}`}
+              type="number"
+              min={0}
+              step={field.step}
+              placeholder="Not specified"
+              value={specs[field.key] ?? ''}
+              onChange={(e) => updateSpec(field.key, e.target.value === '' ? null : Number(e.target.value))}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+
+        {ENUM_SPEC_FIELDS.filter(field => !field.multiple).map(field => (
+          <div key={field.key}>
+            <Label>{field.label}</Label>
+            <Select
+              value={(specs[field.key] as string | null | undefined) || 'none'}
+              onValueChange={(value) => {
+                updateSpec(field.key, (value === 'none' ? null : value) as RobotSpecs[typeof field.key])
+              }}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Not specified" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not specified</SelectItem>
+                {field.options.map(option => (
+                  <SelectItem key={option} value={option}>
+                    {SPEC_OPTION_LABELS[option] || option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {ENUM_SPEC_FIELDS.filter(field => field.multiple).map(field => (
+        <div key={field.key}>
+          <Label>Supported {field.label.toLowerCase()}</Label>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-2">
+            {field.options.map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={specs.frameworks?.includes(option as RobotFramework) || false}
+                  onCheckedChange={(checked) => toggleFramework(option as RobotFramework, checked === true)}
+                  disabled={disabled}
+                />
+                {SPEC_OPTION_LABELS[option] || option}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        All specs are optional. Filled-in specs show on the robot page and let people filter the robots list.
+      </p>
+    </div>
+  )
+}
@@ -12,7 +12,16 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Bot, LogOut, Shield, BotIcon, Plus, Menu, X } from "lucide-react";
+import {
+  Bot,
+  LogOut,
+  Shield,
+  BotIcon,
+  Plus,
+  Menu,
+  X,
+  ClipboardList,
+} from "lucide-react";
 import { RobotSearch } from "@/components/RobotSearch";
 
 export function Header() {
@@ -132,6 +141,12 @@ export function Header() {
                   </p>
                 </div>
                 <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href="/submissions">
+                    <ClipboardList className="mr-2 h-4 w-4" />
+                    My Robots
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={signOut}>
                   <LogOut className="mr-2 h-4 w-4" />
                   Sign out
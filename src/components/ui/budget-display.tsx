@@ -9,28 +9,45 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { cn } from "@/lib/utils"
+import {
+  formatBudgetAmount,
+  getBudgetLabel,
+  getBudgetUsdBounds,
+  type BudgetAmount,
+} from "@/lib/budget-config"
+import { useExchangeRates } from "@/lib/robot-data"
 
 interface BudgetDisplayProps {
-  budget: string
+  budget?: string | null
+  // Numeric budget; amounts in other currencies show their USD value on hover
+  amount?: BudgetAmount | null
   className?: string
 }
 
-export function BudgetDisplay({ budget, className }: BudgetDisplayProps) {
-  if (!budget) {
+export function BudgetDisplay({ budget, amount, className }: BudgetDisplayProps) {
+  const { data: rates } = useExchangeRates()
+
+  const label = amount ? getBudgetLabel(amount) : budget
+  if (!label) {
     return null
   }
 
+  const usdLabel =
+    amount && amount.currency !== "USD" && rates
+      ? formatBudgetAmount({ ...getBudgetUsdBounds(amount, rates), currency: "USD" })
+      : null
+
   return (
     <TooltipProvider>
       <Tooltip>
         <TooltipTrigger asChild>
           <div className={cn("flex items-center space-x-1 text-sm text-muted-foreground cursor-help", className)}>
             <DollarSign className="h-4 w-4" />
-            <span>{budget}</span>
+            <span>{label}</span>
           </div>
         </TooltipTrigger>
         <TooltipContent>
-          <p>Budget</p>
+          <p>{usdLabel ? `Budget, about ${usdLabel}` : "Budget"}</p>
         </TooltipContent>
       </Tooltip>
     </TooltipProvider>
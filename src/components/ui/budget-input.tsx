@@ -0,0 +1,123 @@
+"use client"
+
+import * as React from "react"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  BUDGET_CURRENCIES,
+  BUDGET_RANGES,
+  findBudgetPreset,
+  getBudgetPresetAmount,
+  type BudgetAmount,
+  type BudgetCurrency,
+} from "@/lib/budget-config"
+
+const CUSTOM = "custom"
+const NONE = "none"
+
+interface BudgetInputProps {
+  value: BudgetAmount | null
+  onValueChange: (value: BudgetAmount | null) => void
+  placeholder?: string
+  disabled?: boolean
+  required?: boolean
+  className?: string
+}
+
+// Budget presets, plus an exact amount in any supported currency
+export function BudgetInput({
+  value,
+  onValueChange,
+  placeholder = "Select budget range",
+  disabled = false,
+  required = false,
+  className,
+}: BudgetInputProps) {
+  const preset = value ? findBudgetPreset(value) : null
+  const [custom, setCustom] = React.useState(!!value && !preset)
+
+  const selected = custom ? CUSTOM : preset || (value ? CUSTOM : required ? undefined : NONE)
+
+  const handlePresetChange = (next: string) => {
+    if (next === CUSTOM) {
+      setCustom(true)
+      if (!value) onValueChange({ min: 0, max: null, currency: "USD" })
+      return
+    }
+
+    setCustom(false)
+    onValueChange(next === NONE ? null : getBudgetPresetAmount(next))
+  }
+
+  const update = (changes: Partial<BudgetAmount>) => {
+    onValueChange({ min: 0, max: null, currency: "USD", ...value, ...changes })
+  }
+
+  return (
+    <div className={className}>
+      <Select value={selected} onValueChange={handlePresetChange} disabled={disabled}>
+        <SelectTrigger>
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {!required && <SelectItem value={NONE}>Not specified</SelectItem>}
+          {BUDGET_RANGES.map((range) => (
+            <SelectItem key={range} value={range}>
+              {range}
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM}>Exact amount…</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {selected === CUSTOM && value && (
+        <div className="mt-2 flex gap-2">
+          <Select
+            value={value.currency}
+            onValueChange={(currency) => update({ currency: currency as BudgetCurrency })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-24" aria-label="Currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUDGET_CURRENCIES.map((currency) => (
+                <SelectItem key={currency} value={currency}>
+                  {currency}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            placeholder="From"
+            aria-label="Minimum amount"
+            value={value.min}
+            onChange={(e) => update({ min: Number(e.target.value) || 0 })}
+            disabled={disabled}
+          />
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            placeholder="To (optional)"
+            aria-label="Maximum amount"
+            value={value.max ?? ""}
+            onChange={(e) =>
+              update({ max: e.target.value === "" ? null : Number(e.target.value) })
+            }
+            disabled={disabled}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
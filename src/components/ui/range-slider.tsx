@@ -0,0 +1,71 @@
+"use client"
+
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+const thumbClassName =
+  "pointer-events-none absolute inset-0 h-full w-full appearance-none bg-transparent outline-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:size-4 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:border [&::-webkit-slider-thumb]:border-primary [&::-webkit-slider-thumb]:bg-background [&::-webkit-slider-thumb]:shadow-sm [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:size-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:border [&::-moz-range-thumb]:border-primary [&::-moz-range-thumb]:bg-background [&::-moz-range-thumb]:shadow-sm [&::-moz-range-thumb]:cursor-pointer focus-visible:[&::-webkit-slider-thumb]:ring-[3px] focus-visible:[&::-webkit-slider-thumb]:ring-ring/50 disabled:opacity-50"
+
+interface RangeSliderProps {
+  min: number
+  max: number
+  step?: number
+  value: [number, number]
+  onValueChange: (value: [number, number]) => void
+  disabled?: boolean
+  className?: string
+  label?: string
+}
+
+// Two native range inputs stacked on one track, so both ends can be dragged
+function RangeSlider({
+  min,
+  max,
+  step = 1,
+  value,
+  onValueChange,
+  disabled,
+  className,
+  label = "Range",
+}: RangeSliderProps) {
+  const [low, high] = value
+  const span = max - min || 1
+
+  return (
+    <div data-slot="range-slider" className={cn("relative h-5 w-full", className)}>
+      <div className="bg-muted absolute top-1/2 h-1.5 w-full -translate-y-1/2 rounded-full" />
+      <div
+        className="bg-primary absolute top-1/2 h-1.5 -translate-y-1/2 rounded-full"
+        style={{
+          left: `${((low - min) / span) * 100}%`,
+          right: `${100 - ((high - min) / span) * 100}%`,
+        }}
+      />
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={low}
+        disabled={disabled}
+        aria-label={`${label} minimum`}
+        onChange={(e) => onValueChange([Math.min(Number(e.target.value), high), high])}
+        className={thumbClassName}
+      />
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={high}
+        disabled={disabled}
+        aria-label={`${label} maximum`}
+        onChange={(e) => onValueChange([low, Math.max(Number(e.target.value), low)])}
+        className={thumbClassName}
+      />
+    </div>
+  )
+}
+
+export { RangeSlider }
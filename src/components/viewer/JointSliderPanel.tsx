@@ -0,0 +1,73 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import type { ViewerJoint } from "@/lib/types";
+
+interface JointSliderPanelProps {
+  joints: ViewerJoint[];
+  values: Record<string, number>;
+  onChange: (jointName: string, value: number) => void;
+  onReset: () => void;
+}
+
+const formatJointValue = (joint: ViewerJoint, value: number) =>
+  joint.type === "prismatic"
+    ? `${(value * 1000).toFixed(0)} mm`
+    : `${((value * 180) / Math.PI).toFixed(0)}°`;
+
+export function JointSliderPanel({
+  joints,
+  values,
+  onChange,
+  onReset,
+}: JointSliderPanelProps) {
+  if (joints.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This model has no movable joints.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Joints ({joints.length})</h4>
+        <Button variant="ghost" size="sm" onClick={onReset}>
+          Reset
+        </Button>
+      </div>
+      {joints.map((joint) => {
+        const value = values[joint.name] ?? joint.initial;
+        const step = (joint.upper - joint.lower) / 200 || 0.01;
+
+        return (
+          <div key={joint.name} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <label
+                htmlFor={`joint-${joint.name}`}
+                className="font-mono truncate"
+                title={joint.name}
+              >
+                {joint.name}
+              </label>
+              <span className="text-muted-foreground tabular-nums">
+                {formatJointValue(joint, value)}
+              </span>
+            </div>
+            <input
+              id={`joint-${joint.name}`}
+              type="range"
+              min={joint.lower}
+              max={joint.upper}
+              step={step}
+              value={value}
+              onChange={(e) => onChange(joint.name, parseFloat(e.target.value))}
+              className="w-full accent-primary"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import dynamic from "next/dynamic";
+import useSWR from "swr";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Box, Loader2 } from "lucide-react";
+import type { RobotFile } from "@/lib/types";
+
+// three.js only runs in the browser, and is heavy: load it on demand
+const RobotModelViewer = dynamic(() => import("./RobotModelViewer"), {
+  ssr: false,
+  loading: () => <ViewerPlaceholder message="Loading viewer..." />,
+});
+
+export const PREVIEWABLE_FILE_TYPES: RobotFile["file_type"][] = ["urdf", "mjcf", "stl"];
+
+// Where the file's package:// meshes live; the preview still works with guesses
+const fetchMeshPackages = async (
+  file: RobotFile
+): Promise<{ fileUrl: string; packages: Record<string, string> }> => {
+  try {
+    const response = await fetch(`/api/mesh-packages?fileId=${file.id}`);
+    if (response.ok) return await response.json();
+  } catch (error) {
+    console.error("Error resolving mesh packages:", error);
+  }
+  return { fileUrl: file.file_url, packages: {} };
+};
+
+const modelFetcher = async (file: RobotFile) => {
+  const { loadModelForFile } = await import("@/lib/model-loaders");
+  if (file.file_type !== "urdf") {
+    return loadModelForFile(file);
+  }
+
+  const { fileUrl, packages } = await fetchMeshPackages(file);
+  return loadModelForFile({ ...file, file_url: fileUrl }, packages);
+};
+
+function ViewerPlaceholder({ message }: { message: string }) {
+  return (
+    <div className="flex items-center justify-center min-h-[360px] text-muted-foreground">
+      <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+      {message}
+    </div>
+  );
+}
+
+interface ModelPreviewDialogProps {
+  file: RobotFile;
+}
+
+export function ModelPreviewDialog({ file }: ModelPreviewDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  const {
+    data: model,
+    error,
+    isLoading,
+  } = useSWR(open ? `model-preview-${file.id}` : null, () => modelFetcher(file), {
+    revalidateOnFocus: false,
+    revalidateIfStale: false,
+    shouldRetryOnError: false,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Box className="h-3 w-3 mr-1" />
+          Preview in 3D
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>{model?.name || file.file_name}</DialogTitle>
+          <DialogDescription>
+            {file.file_type === "stl"
+              ? "Drag to orbit and scroll to zoom."
+              : "Drag to orbit, scroll to zoom, and move the sliders to pose the joints."}
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <div className="flex flex-col items-center justify-center min-h-[360px] text-center">
+            <p className="text-muted-foreground mb-2">
+              Could not load this model.
+            </p>
+            <p className="text-sm text-muted-foreground">{error.message}</p>
+          </div>
+        ) : isLoading || !model ? (
+          <ViewerPlaceholder message="Loading model..." />
+        ) : (
+          <RobotModelViewer model={model} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
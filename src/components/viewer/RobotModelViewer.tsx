@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import { Canvas } from "@react-three/fiber";
+import { Bounds, Grid, OrbitControls } from "@react-three/drei";
+import { JointSliderPanel } from "./JointSliderPanel";
+import type { LoadedRobotModel } from "@/lib/types";
+
+interface RobotModelViewerProps {
+  model: LoadedRobotModel;
+  className?: string;
+}
+
+const initialJointValues = (model: LoadedRobotModel) =>
+  Object.fromEntries(model.joints.map((joint) => [joint.name, joint.initial]));
+
+export default function RobotModelViewer({
+  model,
+  className = "",
+}: RobotModelViewerProps) {
+  const [jointValues, setJointValues] = useState<Record<string, number>>(() =>
+    initialJointValues(model)
+  );
+
+  const handleJointChange = (jointName: string, value: number) => {
+    model.joints.find((joint) => joint.name === jointName)?.setValue(value);
+    setJointValues((current) => ({ ...current, [jointName]: value }));
+  };
+
+  const handleReset = () => {
+    model.joints.forEach((joint) => joint.setValue(joint.initial));
+    setJointValues(initialJointValues(model));
+  };
+
+  return (
+    <div className={`flex flex-col md:flex-row gap-4 ${className}`}>
+      <div className="flex-1 min-h-[360px] rounded-lg border bg-muted/30 overflow-hidden">
+        <Canvas camera={{ position: [1, 1, 1], fov: 45, near: 0.001 }}>
+          <ambientLight intensity={0.6} />
+          <directionalLight position={[5, 10, 5]} intensity={1.2} />
+          <directionalLight position={[-5, -2, -5]} intensity={0.4} />
+          <Bounds fit clip observe margin={1.4}>
+            <group rotation={model.upAxis === "z" ? [-Math.PI / 2, 0, 0] : [0, 0, 0]}>
+              <primitive object={model.object} />
+            </group>
+          </Bounds>
+          <Grid
+            infiniteGrid
+            cellSize={0.05}
+            sectionSize={0.5}
+            fadeDistance={10}
+          />
+          <OrbitControls makeDefault />
+        </Canvas>
+      </div>
+      <div className="md:w-64 max-h-[420px] overflow-y-auto">
+        <JointSliderPanel
+          joints={model.joints}
+          values={jointValues}
+          onChange={handleJointChange}
+          onReset={handleReset}
+        />
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import { useCallback, useMemo } from 'react'
 import useSWR from 'swr'
 import { supabase } from '@/lib/supabase'
 import { RobotFormData, SocialLink, getInitialFormData, validateRobotForm } from '@/lib/robotFormUtils'
+import { normalizeRobotSpecs } from '@/lib/robot-specs'
+import { getBudgetAmount, getBudgetPresetAmount } from '@/lib/budget-config'
+import { getMaintainerIds, maintainerLinksFilter } from '@/lib/robot-maintainers'
 
 
 interface RobotFormState {
@@ -14,7 +17,7 @@ interface RobotFormState {
   lastSaved?: string
 }
 
-// Fetcher for robot with social links - only fetches social links created by the robot creator
+// Fetcher for robot with social links - only fetches social links created by the robot's maintainers
 const robotWithDataFetcher = async (robotId: string) => {
   // First get the robot to know who the creator is
   const robotResult = await supabase
@@ -27,16 +30,24 @@ const robotWithDataFetcher = async (robotId: string) => {
     throw new Error(`Failed to fetch robot: ${robotResult.error.message}`)
   }
 
-  // Then get only social links created by the robot creator (or with null user_id for legacy links)
+  const maintainersResult = await supabase
+    .from('robot_maintainers')
+    .select('user_id')
+    .eq('robot_id', robotId)
+
+  const maintainerIds = getMaintainerIds(maintainersResult.data || [], robotResult.data.creator_id)
+
+  // Then get only social links created by the robot's maintainers (or with null user_id for legacy links)
   const socialLinksResult = await supabase
     .from('robot_social_links')
     .select('*')
     .eq('robot_id', robotId)
-    .or(`user_id.eq.${robotResult.data.creator_id},user_id.is.null`)
+    .or(maintainerLinksFilter(maintainerIds))
     .order('created_at', { ascending: false })
 
   return {
     robot: robotResult.data,
+    maintainerIds,
     socialLinks: (socialLinksResult.data || []).map((link: any) => ({
       url: link.url,
       title: link.title || '',
@@ -128,8 +139,10 @@ export function useRobotForm({ robotId, mode }: UseRobotFormOptions) {
             description: robot.description || '',
             github_url: robot.github_url || '',
             image_url: robot.image_url || '',
-            budget: robot.budget || '',
-            status: 'published'
+            budget: getBudgetAmount(robot),
+            status: robot.status || 'published',
+            category_id: robot.category_id || '',
+            specs: normalizeRobotSpecs(robot.specs)
           },
           tags: robot.tags || [],
           socialLinks: socialLinks || [],
@@ -142,6 +155,15 @@ export function useRobotForm({ robotId, mode }: UseRobotFormOptions) {
         if (storedFormState) {
           return {
             ...storedFormState,
+            formData: {
+              ...storedFormState.formData,
+              category_id: storedFormState.formData?.category_id || '',
+              // Drafts saved before numeric budgets hold the preset label
+              budget: typeof storedFormState.formData?.budget === 'string'
+                ? getBudgetPresetAmount(storedFormState.formData.budget)
+                : storedFormState.formData?.budget ?? null,
+              specs: normalizeRobotSpecs(storedFormState.formData?.specs)
+            },
             isDirty: true // Mark as dirty since it's loaded from storage
           }
         }
@@ -254,8 +276,10 @@ export function useRobotForm({ robotId, mode }: UseRobotFormOptions) {
           description: robot.description || '',
           github_url: robot.github_url || '',
           image_url: robot.image_url || '',
-          budget: robot.budget || '',
-          status: 'published'
+          budget: getBudgetAmount(robot),
+          status: robot.status || 'published',
+          category_id: robot.category_id || '',
+          specs: normalizeRobotSpecs(robot.specs)
         },
         tags: robot.tags || [],
         socialLinks: socialLinks || [],
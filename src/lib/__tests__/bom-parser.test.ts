@@ -0,0 +1,113 @@
+import {
+  checkBomAgainstBudget,
+  parseBom,
+  parseDelimited,
+  parseMoney,
+  toBomCsvUrl,
+} from '../bom-parser';
+import { findBudgetRangeForAmount, getBudgetRangeBounds } from '../budget-config';
+
+const csvBom = `Robot arm BOM,,,,
+Part,Qty,Unit Price,Supplier Link,Notes
+"STS3215 Servo, 12V",6,$18.50,https://www.feetechrc.com/sts3215,
+M3x8 bolt,40,0.05,,"bag of 100, ""metric"""
+Printed parts,1,,,
+Total,,,,111.00
+`;
+
+describe('BOM parser', () => {
+  it('should split quoted CSV fields', () => {
+    expect(parseDelimited('a,"b, c","say ""hi"""\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('should detect tab separated files', () => {
+    expect(parseDelimited('Part\tQty\r\nServo\t2\r\n')).toEqual([
+      ['Part', 'Qty'],
+      ['Servo', '2'],
+    ]);
+  });
+
+  it('should parse money with symbols and codes', () => {
+    expect(parseMoney('$1,299.00')).toEqual({ amount: 1299, currency: 'USD' });
+    expect(parseMoney('12.50 EUR')).toEqual({ amount: 12.5, currency: 'EUR' });
+    expect(parseMoney('£9')).toEqual({ amount: 9, currency: 'GBP' });
+    expect(parseMoney('n/a')).toBeNull();
+  });
+
+  it('should read line items below a title row and skip total rows', () => {
+    const bom = parseBom(csvBom);
+
+    expect(bom.items.map((item) => item.part)).toEqual([
+      'STS3215 Servo, 12V',
+      'M3x8 bolt',
+      'Printed parts',
+    ]);
+    expect(bom.items[0]).toEqual({
+      part: 'STS3215 Servo, 12V',
+      quantity: 6,
+      unitPrice: 18.5,
+      currency: 'USD',
+      supplierUrl: 'https://www.feetechrc.com/sts3215',
+      lineTotal: 111,
+    });
+    expect(bom.totals.USD).toBeCloseTo(113);
+    expect(bom.unpricedCount).toBe(1);
+  });
+
+  it('should total each currency separately', () => {
+    const bom = parseBom('Item,Quantity,Price,Currency\nMotor,2,30,EUR\nBoard,1,$25,\n');
+    expect(bom.totals).toEqual({ EUR: 60, USD: 25 });
+  });
+
+  it('should fail without a part column', () => {
+    expect(() => parseBom('foo,bar\n1,2')).toThrow('Could not find a header row');
+  });
+
+  it('should convert Google Sheets links to CSV exports', () => {
+    expect(toBomCsvUrl('https://docs.google.com/spreadsheets/d/abc123/edit#gid=42')).toBe(
+      'https://docs.google.com/spreadsheets/d/abc123/export?format=csv&gid=42'
+    );
+    expect(toBomCsvUrl('https://example.com/bom.csv')).toBe('https://example.com/bom.csv');
+  });
+
+  describe('checkBomAgainstBudget', () => {
+    const bomTotalling = (amount: number) => parseBom(`Part,Price\nKit,${amount}\n`);
+
+    it('should match totals inside the listed range', () => {
+      expect(checkBomAgainstBudget(bomTotalling(750), '$500-$1,000').status).toBe('match');
+    });
+
+    it('should flag totals outside the listed range', () => {
+      expect(checkBomAgainstBudget(bomTotalling(120), '$500-$1,000')).toEqual({
+        status: 'below',
+        total: 120,
+        suggestedRange: 'Less than $500',
+      });
+      expect(checkBomAgainstBudget(bomTotalling(12000), '$5,000-$10,000').status).toBe('above');
+    });
+
+    it('should not compare non-USD totals', () => {
+      const bom = parseBom('Part,Price\nKit,400 EUR\n');
+      expect(checkBomAgainstBudget(bom, '$500-$1,000').status).toBe('unknown');
+    });
+  });
+
+  describe('budget range bounds', () => {
+    it('should parse every budget range format', () => {
+      expect(getBudgetRangeBounds('Less than $500')).toEqual({ min: 0, max: 500 });
+      expect(getBudgetRangeBounds('$1,000-$2,000')).toEqual({ min: 1000, max: 2000 });
+      expect(getBudgetRangeBounds('$10K-$20K')).toEqual({ min: 10000, max: 20000 });
+      expect(getBudgetRangeBounds('$100K+')).toEqual({ min: 100000, max: null });
+      expect(getBudgetRangeBounds('cheap')).toBeNull();
+    });
+
+    it('should find the range for an amount', () => {
+      expect(findBudgetRangeForAmount(499)).toBe('Less than $500');
+      expect(findBudgetRangeForAmount(1000)).toBe('$1,000-$2,000');
+      expect(findBudgetRangeForAmount(250000)).toBe('$100K+');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  DEFAULT_EXCHANGE_RATES,
+  compareBudgetAmounts,
+  formatPriceFilterRange,
+  getBudgetAmount,
+  getBudgetLabel,
+  getPriceFilterRange,
+  matchesPriceRange,
+  toBudgetColumns,
+  type BudgetAmount,
+} from '../budget-config';
+
+const rates = DEFAULT_EXCHANGE_RATES;
+
+describe('numeric budgets', () => {
+  it('labels amounts with their preset, or formats them in their currency', () => {
+    expect(getBudgetLabel({ min: 1000, max: 2000, currency: 'USD' })).toBe('$1,000-$2,000');
+    expect(getBudgetLabel({ min: 800, max: 1200, currency: 'EUR' })).toBe('€800-€1,200');
+    expect(getBudgetLabel({ min: 0, max: 3500, currency: 'CNY' })).toBe('Less than ¥3,500');
+    expect(getBudgetLabel({ min: 150000, max: null, currency: 'GBP' })).toBe('£150,000+');
+  });
+
+  it('reads numeric columns, falling back to preset labels', () => {
+    expect(getBudgetAmount({ budget: '€800-€1,200', budget_min: 800, budget_max: 1200, budget_currency: 'EUR' }))
+      .toEqual({ min: 800, max: 1200, currency: 'EUR' });
+    expect(getBudgetAmount({ budget: '$100K+' })).toEqual({ min: 100000, max: null, currency: 'USD' });
+    expect(getBudgetAmount({ budget: 'cheap' })).toBeNull();
+  });
+
+  it('keeps the currency column set when the budget is cleared', () => {
+    // robots.budget_currency is NOT NULL
+    expect(toBudgetColumns(null)).toEqual({ budget: null, budget_min: null, budget_max: null, budget_currency: 'USD' });
+    expect(getBudgetAmount(toBudgetColumns(null))).toBeNull();
+  });
+
+  it('filters and sorts across currencies in USD', () => {
+    const euro: BudgetAmount = { min: 1000, max: 1500, currency: 'EUR' }; // $1,080-$1,620
+    expect(matchesPriceRange(euro, [0, 1000], rates)).toBe(false);
+    expect(matchesPriceRange(euro, [1500, null], rates)).toBe(true);
+    expect(matchesPriceRange(null, [0, null], rates)).toBe(false);
+
+    // The last slider stop leaves the range open-ended
+    expect(getPriceFilterRange([2, 10])).toEqual([500, null]);
+    expect(formatPriceFilterRange([0, 1000], 'EUR', { ...rates, EUR: 1.25 })).toBe('Less than €800');
+
+    const amounts: (BudgetAmount | null)[] = [
+      null,
+      euro,
+      { min: 1000, max: null, currency: 'USD' },
+      { min: 1000, max: 2000, currency: 'USD' },
+    ];
+    expect(amounts.sort((a, b) => compareBudgetAmounts(a, b, rates))).toEqual([
+      { min: 1000, max: 2000, currency: 'USD' },
+      { min: 1000, max: null, currency: 'USD' },
+      euro,
+      null,
+    ]);
+  });
+});
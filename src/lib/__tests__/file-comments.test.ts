@@ -0,0 +1,69 @@
+import { buildCommentThreads, canResolveComment, commentBadges } from '../file-comments';
+import type { RobotFileComment } from '../types';
+
+const comment = (id: string, overrides: Partial<RobotFileComment> = {}): RobotFileComment => ({
+  id,
+  file_id: 'file-1',
+  parent_id: null,
+  user_id: 'user-1',
+  content: `Comment ${id}`,
+  is_resolved: false,
+  resolved_by: null,
+  resolved_at: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('File comments', () => {
+  it('should nest replies and put open threads first', () => {
+    const threads = buildCommentThreads([
+      comment('resolved', { created_at: '2026-01-05T00:00:00Z', is_resolved: true }),
+      comment('old', { created_at: '2026-01-01T00:00:00Z' }),
+      comment('new', { created_at: '2026-01-03T00:00:00Z' }),
+      comment('reply-2', { parent_id: 'old', created_at: '2026-01-04T00:00:00Z' }),
+      comment('reply-1', { parent_id: 'old', created_at: '2026-01-02T00:00:00Z' }),
+      comment('nested', { parent_id: 'reply-1', created_at: '2026-01-06T00:00:00Z' }),
+      comment('orphan', { parent_id: 'deleted', created_at: '2026-01-02T00:00:00Z' }),
+    ]);
+
+    expect(threads.map((thread) => thread.id)).toEqual(['new', 'orphan', 'old', 'resolved']);
+    const old = threads[2];
+    expect(old.replies.map((reply) => reply.id)).toEqual(['reply-1', 'reply-2']);
+    expect(old.replies[0].replies.map((reply) => reply.id)).toEqual(['nested']);
+  });
+
+  it('should badge the robot owner, the file author and admins', () => {
+    const roles = { robotCreatorId: 'owner', fileUserId: 'uploader' };
+
+    expect(commentBadges(comment('a', { user_id: 'owner' }), roles)).toEqual(['owner']);
+    expect(commentBadges(comment('b', { user_id: 'uploader' }), roles)).toEqual(['author']);
+    expect(
+      commentBadges(comment('c', { user_id: 'owner' }), { robotCreatorId: 'owner', fileUserId: 'owner' })
+    ).toEqual(['owner', 'author']);
+    expect(
+      commentBadges(comment('d', { profiles: { username: 'mod', full_name: null, avatar_url: null, role: 'admin' } }), roles)
+    ).toEqual(['admin']);
+  });
+
+  it('should only let involved users resolve threads', () => {
+    const roles = { robotCreatorId: 'owner', fileUserId: 'uploader' };
+    const thread = comment('a', { user_id: 'reporter' });
+
+    expect(canResolveComment(thread, 'reporter', roles)).toBe(true);
+    expect(canResolveComment(thread, 'uploader', roles)).toBe(true);
+    expect(canResolveComment(thread, 'owner', roles)).toBe(true);
+    expect(canResolveComment(thread, 'someone', roles)).toBe(false);
+    expect(canResolveComment(thread, 'someone', { ...roles, isAdmin: true })).toBe(true);
+    expect(canResolveComment(comment('r', { parent_id: 'a', user_id: 'owner' }), 'owner', roles)).toBe(false);
+    expect(canResolveComment(thread, null, roles)).toBe(false);
+  });
+
+  it('should treat co-maintainers like the owner', () => {
+    const roles = { robotCreatorId: 'owner', robotMaintainerIds: ['owner', 'teammate'], fileUserId: 'uploader' };
+
+    expect(commentBadges(comment('a', { user_id: 'owner' }), roles)).toEqual(['owner']);
+    expect(commentBadges(comment('b', { user_id: 'teammate' }), roles)).toEqual(['maintainer']);
+    expect(canResolveComment(comment('c', { user_id: 'reporter' }), 'teammate', roles)).toBe(true);
+  });
+});
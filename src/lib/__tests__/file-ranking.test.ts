@@ -0,0 +1,100 @@
+import {
+  compareFilesByRank,
+  computeRankScore,
+  explainFileRank,
+  ratingWeight,
+  summarizeFileRatings,
+  wilsonLowerBound,
+  withFileRatings,
+} from '../file-ranking';
+import type { RobotFile } from '../types';
+
+const makeFile = (overrides: Partial<RobotFile>): RobotFile => ({
+  id: 'file',
+  robot_id: 'robot',
+  file_type: 'urdf',
+  file_url: 'https://example.com/file',
+  file_name: 'file',
+  version: '1.0.0',
+  description: null,
+  user_id: 'user',
+  is_owner_added: false,
+  latest_version_id: null,
+  parent_file_id: null,
+  rank_score: 0,
+  rank_updated_at: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const votes = (up: number, down: number, ratedAt = '2026-06-01T00:00:00Z') => [
+  ...Array.from({ length: up }, () => ({ rating: 'up' as const, created_at: ratedAt, updated_at: ratedAt })),
+  ...Array.from({ length: down }, () => ({ rating: 'down' as const, created_at: ratedAt, updated_at: ratedAt })),
+];
+
+describe('File ranking', () => {
+  const now = new Date('2026-06-01T00:00:00Z');
+
+  it('should rank many mostly-positive votes above a single upvote', () => {
+    expect(wilsonLowerBound(0, 0)).toBe(0);
+    expect(wilsonLowerBound(1, 0)).toBeCloseTo(0.2065, 3);
+    expect(wilsonLowerBound(40, 5)).toBeCloseTo(0.765, 3);
+    expect(wilsonLowerBound(40, 5)).toBeGreaterThan(wilsonLowerBound(1, 0));
+    expect(wilsonLowerBound(0, 3)).toBe(0);
+  });
+
+  it('should halve a vote every half-life', () => {
+    expect(ratingWeight('2026-06-01T00:00:00Z', now)).toBe(1);
+    expect(ratingWeight('2025-12-03T00:00:00Z', now)).toBeCloseTo(0.5, 5);
+    // Clock skew never makes a vote count extra
+    expect(ratingWeight('2026-07-01T00:00:00Z', now)).toBe(1);
+  });
+
+  it('should let recent downvotes outweigh old upvotes', () => {
+    const oldPraise = votes(10, 0, '2024-06-01T00:00:00Z');
+    const recentComplaints = votes(0, 3);
+
+    expect(computeRankScore([...oldPraise, ...recentComplaints], now)).toBeLessThan(
+      computeRankScore([...votes(10, 0), ...recentComplaints], now)
+    );
+    expect(computeRankScore(votes(40, 5), now)).toBeCloseTo(wilsonLowerBound(40, 5), 10);
+  });
+
+  it('should summarize votes and order files by stored score', () => {
+    const ratings = summarizeFileRatings(
+      [
+        { file_id: 'a', rating: 'up', user_id: 'me' },
+        { file_id: 'a', rating: 'down', user_id: 'other' },
+        { file_id: 'b', rating: 'up', user_id: 'other' },
+      ],
+      'me'
+    );
+    expect(ratings.get('a')).toEqual({ up: 1, down: 1, userRating: 'up' });
+
+    const files = withFileRatings(
+      [
+        makeFile({ id: 'a', rank_score: 0.1 }),
+        makeFile({ id: 'b', rank_score: 0.7 }),
+        makeFile({ id: 'c', created_at: '2026-03-01T00:00:00Z' }),
+        makeFile({ id: 'd' }),
+        makeFile({ id: 'owner', is_owner_added: true }),
+      ],
+      ratings
+    );
+    expect(files.find((file) => file.id === 'b')?.ratings).toEqual({ up: 1, down: 0, userRating: null, score: 0.7 });
+    expect([...files].sort(compareFilesByRank).map((file) => file.id)).toEqual(['owner', 'b', 'a', 'c', 'd']);
+  });
+
+  it('should explain a file position', () => {
+    expect(explainFileRank(makeFile({ is_owner_added: true }))).toEqual([
+      'Added by the robot owner, so it is listed before community files.',
+      'No ratings yet, so it comes after rated files.',
+    ]);
+
+    const reasons = explainFileRank(makeFile({ ratings: { up: 40, down: 5, score: 0.765 } }));
+    expect(reasons[0]).toContain('at least 77% of builders');
+    expect(reasons).toHaveLength(2);
+    expect(explainFileRank(makeFile({ ratings: { up: 1, down: 0, score: 0.21 } }))).toHaveLength(3);
+  });
+});
@@ -0,0 +1,90 @@
+import { detectFileType, detectFileTypeFromUrl, sniffFileType } from '../file-types';
+
+const bytesOf = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const mockFetch = (body: Uint8Array, headers: Record<string, string> = {}) =>
+  jest.fn().mockResolvedValue({
+    ok: true,
+    status: headers['content-range'] ? 206 : 200,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    arrayBuffer: async () => body.buffer,
+  }) as unknown as typeof fetch;
+
+describe('File type detection', () => {
+  describe('detectFileTypeFromUrl', () => {
+    it('should map extensions to file types', () => {
+      expect(detectFileTypeFromUrl('https://x.com/robot.urdf')).toBe('urdf');
+      expect(detectFileTypeFromUrl('https://x.com/robot.urdf.xacro')).toBe('urdf');
+      expect(detectFileTypeFromUrl('https://x.com/parts/base.STL')).toBe('stl');
+      expect(detectFileTypeFromUrl('https://x.com/bom.csv?raw=true')).toBe('bom');
+      expect(detectFileTypeFromUrl('https://x.com/assembly.pdf')).toBe('guide');
+      expect(detectFileTypeFromUrl('https://docs.google.com/spreadsheets/d/abc/edit#gid=0')).toBe('bom');
+    });
+
+    it('should leave ambiguous and unknown extensions undecided', () => {
+      expect(detectFileTypeFromUrl('https://x.com/scene.xml')).toBeNull();
+      expect(detectFileTypeFromUrl('https://x.com/download')).toBeNull();
+    });
+  });
+
+  describe('sniffFileType', () => {
+    it('should tell URDF and MJCF apart by their root element', () => {
+      expect(sniffFileType(bytesOf('<?xml version="1.0"?>\n<!-- arm -->\n<robot name="arm">'))).toBe('urdf');
+      expect(sniffFileType(bytesOf('<mujoco model="arm">'))).toBe('mjcf');
+    });
+
+    it('should recognise STL headers', () => {
+      expect(sniffFileType(bytesOf('solid part\n facet normal 0 0 1'))).toBe('stl');
+
+      const binary = new Uint8Array(84);
+      new DataView(binary.buffer).setUint32(80, 2, true);
+      expect(sniffFileType(binary, 84 + 2 * 50)).toBe('stl');
+      expect(sniffFileType(binary, 1000)).toBeNull();
+    });
+
+    it('should recognise PDF and spreadsheet containers', () => {
+      expect(sniffFileType(bytesOf('%PDF-1.7'))).toBe('guide');
+      expect(sniffFileType(Uint8Array.from([0x50, 0x4b, 0x03, 0x04, 0]))).toBe('bom');
+    });
+  });
+
+  describe('detectFileType', () => {
+    it('should prefer content over the extension', async () => {
+      const fetchImpl = mockFetch(bytesOf('<mujoco model="arm"></mujoco>'));
+      await expect(detectFileType('https://x.com/arm.xml', fetchImpl)).resolves.toEqual({
+        type: 'mjcf',
+        source: 'content',
+      });
+    });
+
+    it('should use the full size from Content-Range for binary STL', async () => {
+      const header = new Uint8Array(84);
+      new DataView(header.buffer).setUint32(80, 1000, true);
+      const fetchImpl = mockFetch(header, { 'content-range': 'bytes 0-4095/50084' });
+
+      await expect(detectFileType('https://x.com/download', fetchImpl)).resolves.toEqual({
+        type: 'stl',
+        source: 'content',
+      });
+    });
+
+    it('should guess CSV and Markdown when the URL has no extension', async () => {
+      const csv = mockFetch(bytesOf('Part,Qty,Price\nServo,6,12.5\nBolt,40,0.1\n'));
+      const markdown = mockFetch(bytesOf('# Assembly\n\n1. Mount the base\n'));
+
+      expect((await detectFileType('https://x.com/bom', csv)).type).toBe('bom');
+      expect((await detectFileType('https://x.com/guide', markdown)).type).toBe('guide');
+    });
+
+    it('should fall back to the extension when the file cannot be fetched', async () => {
+      const fetchImpl = jest.fn().mockRejectedValue(new Error('CORS')) as unknown as typeof fetch;
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(detectFileType('https://x.com/robot.urdf', fetchImpl)).resolves.toEqual({
+        type: 'urdf',
+        source: 'extension',
+      });
+      warn.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { groupFileVariants } from '../file-variants';
+import type { RobotFile } from '../types';
+
+const makeFile = (id: string, parentFileId: string | null = null): RobotFile => ({
+  id,
+  robot_id: 'robot',
+  file_type: 'urdf',
+  file_url: `https://example.com/${id}.urdf`,
+  file_name: `${id}.urdf`,
+  version: '1.0.0',
+  description: null,
+  user_id: 'user',
+  is_owner_added: false,
+  latest_version_id: null,
+  parent_file_id: parentFileId,
+  rank_score: 0,
+  rank_updated_at: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+});
+
+describe('File variants', () => {
+  it('should nest variants under their original in list order', () => {
+    const groups = groupFileVariants([
+      // A well-rated variant can be listed above its original
+      makeFile('gripper-variant', 'arm'),
+      makeFile('arm'),
+      makeFile('other'),
+      makeFile('limits-variant', 'arm'),
+      makeFile('variant-of-variant', 'gripper-variant'),
+    ]);
+
+    expect(groups.map((group) => [group.file.id, group.variants.map((variant) => variant.id)])).toEqual([
+      ['arm', ['gripper-variant', 'limits-variant', 'variant-of-variant']],
+      ['other', []],
+    ]);
+  });
+
+  it('should list variants of missing files on their own', () => {
+    const groups = groupFileVariants([makeFile('orphan', 'deleted'), makeFile('arm')]);
+
+    expect(groups.map((group) => group.file.id)).toEqual(['orphan', 'arm']);
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  compareVersions,
+  isValidVersion,
+  parseVersion,
+  sortVersionsDescending,
+  suggestNextVersion,
+} from '../file-versions';
+
+describe('File versions', () => {
+  it('should parse full and partial semver', () => {
+    expect(parseVersion('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+    expect(parseVersion('v2.1')).toEqual({ major: 2, minor: 1, patch: 0, prerelease: [] });
+    expect(parseVersion('1.0.0-rc.1+build.5')).toEqual({
+      major: 1,
+      minor: 0,
+      patch: 0,
+      prerelease: ['rc', '1'],
+    });
+    expect(isValidVersion('rev B')).toBe(false);
+  });
+
+  it('should order versions by semver precedence', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('v1.2', '1.2.0')).toBe(0);
+    expect(compareVersions('1.0.0-beta', '1.0.0')).toBeLessThan(0);
+    expect(compareVersions('1.0.0-beta.2', '1.0.0-beta.11')).toBeLessThan(0);
+    expect(compareVersions('1.0.0-alpha', '1.0.0-1')).toBeGreaterThan(0);
+  });
+
+  it('should rank non-semver versions below semver ones', () => {
+    expect(compareVersions('final', '0.0.1')).toBeLessThan(0);
+    expect(compareVersions('draft', 'final')).toBe(0);
+  });
+
+  it('should sort newest first, falling back to when versions were added', () => {
+    const versions = [
+      { version: '1.0.0', created_at: '2026-01-01T00:00:00Z' },
+      { version: 'old', created_at: '2025-06-01T00:00:00Z' },
+      { version: '1.10.0', created_at: '2026-03-01T00:00:00Z' },
+      { version: 'older', created_at: '2025-01-01T00:00:00Z' },
+      { version: '1.2.0', created_at: '2026-02-01T00:00:00Z' },
+    ];
+
+    expect(sortVersionsDescending(versions).map((entry) => entry.version)).toEqual([
+      '1.10.0',
+      '1.2.0',
+      '1.0.0',
+      'old',
+      'older',
+    ]);
+  });
+
+  it('should suggest the next patch version', () => {
+    expect(suggestNextVersion('1.2.3')).toBe('1.2.4');
+    expect(suggestNextVersion('2.0.0-rc.1')).toBe('2.0.0');
+    expect(suggestNextVersion('rev B')).toBe('1.0.0');
+    expect(suggestNextVersion(null)).toBe('1.0.0');
+  });
+});
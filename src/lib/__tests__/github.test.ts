@@ -15,7 +15,7 @@
  * - Integration Tests: Real API calls with retry logic and error handling
  */
 
-import { getRepositoryDefaultBranch, isValidGitHubUrl } from '../github';
+import { getRawGitHubUrl, getRepositoryDefaultBranch, isValidGitHubUrl, parseGitHubUrl } from '../github';
 
 // Helper function to add retry logic for network calls
 async function withRetry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
@@ -54,6 +54,37 @@ describe('GitHub utilities', () => {
     });
   });
 
+  describe('parseGitHubUrl (Unit Tests)', () => {
+    it('should parse repository URLs', () => {
+      expect(parseGitHubUrl('https://github.com/owner/repo.git')).toEqual({ owner: 'owner', repo: 'repo' });
+    });
+
+    it('should parse blob and raw URLs with branch and path', () => {
+      expect(parseGitHubUrl('https://github.com/owner/repo/blob/dev/urdf/my%20arm.urdf')).toEqual({
+        owner: 'owner',
+        repo: 'repo',
+        branch: 'dev',
+        path: 'urdf/my arm.urdf',
+      });
+      expect(parseGitHubUrl('https://raw.githubusercontent.com/owner/repo/main/robot.xml')).toEqual({
+        owner: 'owner',
+        repo: 'repo',
+        branch: 'main',
+        path: 'robot.xml',
+      });
+    });
+
+    it('should return null for other hosts', () => {
+      expect(parseGitHubUrl('https://gitlab.com/owner/repo')).toBeNull();
+    });
+
+    it('should build raw URLs with encoded paths', () => {
+      expect(getRawGitHubUrl('owner', 'repo', 'main', 'urdf/my arm.urdf')).toBe(
+        'https://raw.githubusercontent.com/owner/repo/main/urdf/my%20arm.urdf'
+      );
+    });
+  });
+
   describe('getRepositoryDefaultBranch (Integration Tests - Real API)', () => {
     it('should return main for phosphobot repository', async () => {
       const result = await withRetry(async () => {
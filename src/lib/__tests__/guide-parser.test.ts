@@ -0,0 +1,89 @@
+import { countPdfPages, fetchGuide, parseMarkdownGuide } from '../guide-parser';
+
+const baseUrl = 'https://raw.githubusercontent.com/acme/arm/main/docs/assembly.md';
+
+describe('Guide parser', () => {
+  it('should split a guide into steps at "Step N" headings', () => {
+    const guide = parseMarkdownGuide(
+      [
+        '# Arm assembly',
+        'Takes about two hours.',
+        '',
+        '## Step 1: Mount the base',
+        '### Parts used',
+        '- 4x M3 screw',
+        '- **Base plate**',
+        '',
+        'Screw the plate to the table.',
+        '![base](images/base.jpg)',
+        '',
+        '## Step 2: Add the shoulder',
+        'Parts: MG996R servo, shoulder bracket',
+        '<img src="../img/shoulder.png" alt="Shoulder">',
+        '```',
+        '## not a heading',
+        '```',
+      ].join('\n'),
+      baseUrl
+    );
+
+    expect(guide.title).toBe('Arm assembly');
+    expect(guide.intro).toBe('Takes about two hours.');
+    expect(guide.steps.map((step) => [step.number, step.key, step.title])).toEqual([
+      [1, 'mount-the-base', 'Mount the base'],
+      [2, 'add-the-shoulder', 'Add the shoulder'],
+    ]);
+
+    const [base, shoulder] = guide.steps;
+    expect(base.parts).toEqual(['4x M3 screw', 'Base plate']);
+    expect(base.images).toEqual([
+      { src: 'https://raw.githubusercontent.com/acme/arm/main/docs/images/base.jpg', alt: 'base' },
+    ]);
+    expect(base.body).toBe('Screw the plate to the table.');
+    expect(shoulder.parts).toEqual(['MG996R servo', 'shoulder bracket']);
+    expect(shoulder.images[0]).toEqual({
+      src: 'https://raw.githubusercontent.com/acme/arm/main/img/shoulder.png',
+      alt: 'Shoulder',
+    });
+    expect(shoulder.body).toContain('## not a heading');
+  });
+
+  it('should use repeated headings and dedupe step keys', () => {
+    const guide = parseMarkdownGuide('## 3D printing\nA\n## 3D printing\nB\n## Testing\nC', baseUrl);
+
+    expect(guide.title).toBeNull();
+    expect(guide.steps.map((step) => step.key)).toEqual(['3d-printing', '3d-printing-2', 'testing']);
+  });
+
+  it('should fall back to a numbered list', () => {
+    const guide = parseMarkdownGuide(
+      '# Gripper\nBefore you start, print the fingers.\n\n1. Press in the bearings\n   Use a vise.\n2. Attach the fingers\n',
+      baseUrl
+    );
+
+    expect(guide.title).toBe('Gripper');
+    expect(guide.intro).toBe('Before you start, print the fingers.');
+    expect(guide.steps.map((step) => [step.title, step.body])).toEqual([
+      ['Press in the bearings', 'Use a vise.'],
+      ['Attach the fingers', ''],
+    ]);
+  });
+
+  it('should turn PDF pages into steps', async () => {
+    const pdf = '%PDF-1.4\n1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] >>\n2 0 obj << /Type /Page >>\n3 0 obj << /Type/Page >>';
+    expect(countPdfPages(new Uint8Array(Array.from(pdf, (char) => char.charCodeAt(0))))).toBe(2);
+
+    const fetchImpl = (async () => ({
+      ok: true,
+      headers: { get: () => 'application/pdf' },
+      arrayBuffer: async () => new Uint8Array(Array.from(pdf, (char) => char.charCodeAt(0))).buffer,
+    })) as unknown as typeof fetch;
+
+    const guide = await fetchGuide('https://example.com/guide', fetchImpl);
+    expect(guide.format).toBe('pdf');
+    expect(guide.steps.map((step) => [step.key, step.page])).toEqual([
+      ['page-1', 1],
+      ['page-2', 2],
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  discoverRosPackages,
+  findPackageDirectories,
+  packageRootUrls,
+  parsePackageName,
+  resolveMeshPath,
+  rewriteMeshReferences,
+  type MeshResolverContext,
+} from '../mesh-resolver';
+import type { GitHubTreeEntry } from '../github';
+
+const tree: GitHubTreeEntry[] = [
+  { path: 'README.md', type: 'blob' },
+  { path: 'ros', type: 'tree' },
+  { path: 'ros/arm_description', type: 'tree' },
+  { path: 'ros/arm_description/package.xml', type: 'blob' },
+  { path: 'ros/arm_description/urdf/arm.urdf', type: 'blob' },
+  { path: 'ros/gripper', type: 'tree' },
+  { path: 'ros/gripper/package.xml', type: 'blob' },
+];
+
+const packageXml = (name: string) => `<?xml version="1.0"?>
+<package format="3">
+  <name>${name}</name>
+  <version>0.1.0</version>
+</package>`;
+
+const context: MeshResolverContext = {
+  fileUrl: 'https://raw.githubusercontent.com/acme/arm/main/ros/arm_description/urdf/arm.urdf',
+  repo: { owner: 'acme', repo: 'arm', branch: 'main' },
+  packages: { arm_description: 'ros/arm_description', gripper_description: 'ros/gripper' },
+};
+
+describe('Mesh resolver', () => {
+  it('should find folders containing a package.xml', () => {
+    expect(findPackageDirectories(tree)).toEqual(['ros/arm_description', 'ros/gripper']);
+  });
+
+  it('should read package names from package.xml', () => {
+    expect(parsePackageName(packageXml('arm_description'))).toBe('arm_description');
+    expect(parsePackageName('<robot name="arm"/>')).toBeNull();
+  });
+
+  it('should map package names to folders, falling back to the folder name', async () => {
+    const readFile = jest.fn(async (path: string) => {
+      if (path === 'ros/gripper/package.xml') return packageXml('gripper_description');
+      throw new Error('Not found');
+    });
+
+    await expect(discoverRosPackages(tree, readFile)).resolves.toEqual({
+      arm_description: 'ros/arm_description',
+      gripper_description: 'ros/gripper',
+    });
+  });
+
+  it('should resolve package paths through the package map', () => {
+    expect(resolveMeshPath('package://gripper_description/meshes/finger.stl', context)).toBe(
+      'https://raw.githubusercontent.com/acme/arm/main/ros/gripper/meshes/finger.stl'
+    );
+    expect(packageRootUrls(context).gripper_description).toBe(
+      'https://raw.githubusercontent.com/acme/arm/main/ros/gripper'
+    );
+  });
+
+  it('should resolve unknown packages and relative paths against the file URL', () => {
+    const urdfUrl = 'https://raw.githubusercontent.com/o/r/main/arm_description/urdf/arm.urdf';
+    const bare: MeshResolverContext = { fileUrl: urdfUrl, repo: null, packages: {} };
+
+    expect(resolveMeshPath('package://arm_description/meshes/base.stl', bare)).toBe(
+      'https://raw.githubusercontent.com/o/r/main/arm_description/meshes/base.stl'
+    );
+    expect(resolveMeshPath('../meshes/upper_arm.stl', bare)).toBe(
+      'https://raw.githubusercontent.com/o/r/main/arm_description/meshes/upper_arm.stl'
+    );
+    expect(resolveMeshPath('file:///home/me/base.stl', bare)).toBeNull();
+  });
+
+  it('should rewrite mesh references in URDF documents', () => {
+    const urdf = `<robot name="arm">
+  <link name="base"><visual><geometry>
+    <mesh filename="package://arm_description/meshes/base.stl" scale="1 1 1"/>
+  </geometry></visual></link>
+  <link name="tip"><visual><geometry>
+    <mesh scale="1 1 1" filename='file:///tmp/tip.stl'/>
+  </geometry></visual></link>
+</robot>`;
+
+    const rewritten = rewriteMeshReferences(urdf, (path) => resolveMeshPath(path, context));
+
+    expect(rewritten).toContain(
+      'filename="https://raw.githubusercontent.com/acme/arm/main/ros/arm_description/meshes/base.stl" scale="1 1 1"'
+    );
+    expect(rewritten).toContain("filename='file:///tmp/tip.stl'");
+  });
+});
@@ -0,0 +1,102 @@
+import { flattenMjcfBodies, parseMjcf, summarizeMjcf } from '../mjcf-parser';
+
+const armXml = `<?xml version="1.0"?>
+<mujoco model="test_arm">
+  <compiler angle="degree" meshdir="assets"/>
+  <!-- classes shared by every joint -->
+  <default>
+    <joint damping="1" range="-90 90"/>
+    <default class="visual">
+      <geom group="2" rgba="1 0 0 1"/>
+    </default>
+    <default class="gripper">
+      <joint type="slide" range="0 0.04"/>
+    </default>
+  </default>
+  <asset>
+    <mesh file="base_link.stl"/>
+  </asset>
+  <worldbody>
+    <geom type="plane" size="1 1 0.1"/>
+    <body name="base" pos="0 0 0.1">
+      <geom class="visual" type="mesh" mesh="base_link"/>
+      <joint name="shoulder" axis="0 0 1"/>
+      <body name="upper_arm" pos="0 0 0.2">
+        <joint name="elbow" axis="0 1 0"/>
+        <geom type="capsule" fromto="0 0 0 0 0 0.3" size="0.02"/>
+        <body name="finger" childclass="gripper">
+          <joint name="finger_joint"/>
+        </body>
+      </body>
+    </body>
+  </worldbody>
+  <include file="actuators.xml"/>
+</mujoco>`;
+
+const actuatorsXml = `<mujoco>
+  <actuator>
+    <position name="shoulder_servo" joint="shoulder" kp="50"/>
+    <motor name="elbow_motor" joint="elbow" gear="100"/>
+    <general name="finger_servo" joint="finger_joint" biastype="affine" biasprm="0 -10 -1"/>
+  </actuator>
+</mujoco>`;
+
+const loadInclude = async (file: string) => {
+  if (file === 'actuators.xml') return actuatorsXml;
+  throw new Error(`Unexpected include ${file}`);
+};
+
+describe('MJCF parser', () => {
+  it('should read the body tree', async () => {
+    const model = await parseMjcf(armXml, { loadInclude });
+    const names = flattenMjcfBodies(model.bodies).map((body) => body.name);
+
+    expect(model.name).toBe('test_arm');
+    expect(model.meshdir).toBe('assets');
+    expect(names).toEqual(['base', 'upper_arm', 'finger']);
+    expect(model.worldGeoms[0].type).toBe('plane');
+  });
+
+  it('should apply default classes and childclass', async () => {
+    const model = await parseMjcf(armXml, { loadInclude });
+    const [base] = model.bodies;
+    const finger = base.children[0].children[0];
+
+    expect(base.geoms[0].group).toBe(2);
+    expect(base.geoms[0].rgba).toEqual([1, 0, 0, 1]);
+    expect(base.joints[0].range?.[1]).toBeCloseTo(Math.PI / 2);
+    expect(finger.joints[0].type).toBe('slide');
+    expect(finger.joints[0].range).toEqual([0, 0.04]);
+  });
+
+  it('should convert fromto into position and half-length', async () => {
+    const model = await parseMjcf(armXml, { loadInclude });
+    const capsule = model.bodies[0].children[0].geoms[0];
+
+    expect(capsule.pos).toEqual([0, 0, 0.15]);
+    expect(capsule.size[1]).toBeCloseTo(0.15);
+  });
+
+  it('should name meshes after their file', async () => {
+    const model = await parseMjcf(armXml, { loadInclude });
+    expect(model.meshes.base_link.file).toBe('base_link.stl');
+  });
+
+  it('should classify actuators from included files', async () => {
+    const summary = summarizeMjcf(await parseMjcf(armXml, { loadInclude }));
+
+    expect(summary.bodyCount).toBe(3);
+    expect(summary.jointCount).toBe(3);
+    expect(summary.actuatedJoints).toEqual(['shoulder', 'elbow', 'finger_joint']);
+    expect(summary.positionControlled).toEqual(['shoulder', 'finger_joint']);
+    expect(summary.torqueControlled).toEqual(['elbow']);
+  });
+
+  it('should fail on includes without a loader', async () => {
+    await expect(parseMjcf(armXml)).rejects.toThrow('Cannot resolve <include');
+  });
+
+  it('should reject documents that are not MJCF', async () => {
+    await expect(parseMjcf('<robot name="r"></robot>')).rejects.toThrow('Not an MJCF file');
+  });
+});
@@ -0,0 +1,95 @@
+import { diffModelStructures, loadModelStructure, mjcfStructure, urdfStructure } from '../model-diff';
+import { parseMjcf } from '../mjcf-parser';
+import { parseUrdf } from '../urdf-parser';
+
+const armV1 = `<robot name="arm">
+  <link name="base"><inertial><mass value="2.0"/></inertial></link>
+  <link name="upper_arm"><inertial><mass value="0.5"/></inertial></link>
+  <link name="tool"/>
+  <joint name="shoulder" type="revolute">
+    <parent link="base"/><child link="upper_arm"/>
+    <limit lower="-1.57" upper="1.57" effort="10" velocity="1"/>
+  </joint>
+  <joint name="wrist" type="continuous">
+    <parent link="upper_arm"/><child link="tool"/>
+  </joint>
+</robot>`;
+
+const armV2 = `<robot name="arm">
+  <link name="base"><inertial><mass value="2.0"/></inertial></link>
+  <link name="upper_arm"><inertial><mass value="0.65"/></inertial></link>
+  <link name="tool"/>
+  <link name="gripper"><inertial><mass value="0.1"/></inertial></link>
+  <joint name="shoulder" type="revolute">
+    <parent link="base"/><child link="upper_arm"/>
+    <limit lower="-1.5700" upper="2.0" effort="12" velocity="1"/>
+  </joint>
+  <joint name="grip" type="prismatic">
+    <parent link="tool"/><child link="gripper"/>
+    <limit lower="0" upper="0.04" effort="5" velocity="0.1"/>
+  </joint>
+</robot>`;
+
+describe('Model diff', () => {
+  it('should report joints added and removed', () => {
+    const diff = diffModelStructures(urdfStructure(parseUrdf(armV1)), urdfStructure(parseUrdf(armV2)));
+
+    expect(diff.addedJoints).toEqual(['grip']);
+    expect(diff.removedJoints).toEqual(['wrist']);
+  });
+
+  it('should report limit changes, ignoring formatting', () => {
+    const diff = diffModelStructures(urdfStructure(parseUrdf(armV1)), urdfStructure(parseUrdf(armV2)));
+
+    expect(diff.jointChanges).toEqual([
+      { joint: 'shoulder', field: 'upper', before: 1.57, after: 2 },
+      { joint: 'shoulder', field: 'effort', before: 10, after: 12 },
+    ]);
+  });
+
+  it('should report mass changes on links present in both versions', () => {
+    const diff = diffModelStructures(urdfStructure(parseUrdf(armV1)), urdfStructure(parseUrdf(armV2)));
+
+    expect(diff.massChanges).toEqual([{ link: 'upper_arm', before: 0.5, after: 0.65 }]);
+    expect(diff.totalMass.before).toBeCloseTo(2.5);
+    expect(diff.totalMass.after).toBeCloseTo(2.75);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('should find no changes between identical versions', () => {
+    const structure = urdfStructure(parseUrdf(armV1));
+    expect(diffModelStructures(structure, urdfStructure(parseUrdf(armV1))).hasChanges).toBe(false);
+  });
+
+  it('should diff MJCF joint ranges and geom masses', async () => {
+    const mjcf = (range: string, mass: string) => `<mujoco model="pendulum">
+      <compiler angle="radian"/>
+      <worldbody>
+        <body name="pole">
+          <joint name="hinge" range="${range}"/>
+          <geom type="capsule" size="0.02 0.2" mass="${mass}"/>
+        </body>
+      </worldbody>
+    </mujoco>`;
+
+    const before = mjcfStructure(await parseMjcf(mjcf('-1 1', '0.3')));
+    const after = mjcfStructure(await parseMjcf(mjcf('-2 1', '0.4')));
+    const diff = diffModelStructures(before, after);
+
+    expect(diff.jointChanges).toEqual([{ joint: 'hinge', field: 'lower', before: -1, after: -2 }]);
+    expect(diff.massChanges).toEqual([{ link: 'pole', before: 0.3, after: 0.4 }]);
+  });
+
+  it('should fetch GitHub blob URLs from raw.githubusercontent.com', async () => {
+    const fetchImpl = jest.fn(async () => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      text: async () => armV1,
+    })) as unknown as typeof fetch;
+
+    await loadModelStructure('urdf', 'https://github.com/acme/arm/blob/main/urdf/arm.urdf', fetchImpl);
+
+    expect(fetchImpl).toHaveBeenCalledWith('https://raw.githubusercontent.com/acme/arm/main/urdf/arm.urdf');
+  });
+});
@@ -0,0 +1,26 @@
+import { ALLOWED_FILE_HOSTS_LABEL, isAllowedFileUrl } from '../remote-files';
+
+describe('isAllowedFileUrl', () => {
+  it('only allows GitHub and Google Sheets over https', () => {
+    expect(isAllowedFileUrl('https://raw.githubusercontent.com/acme/bot/main/robot.urdf')).toBe(true);
+    expect(isAllowedFileUrl('https://github.com/acme/bot/blob/main/robot.urdf')).toBe(true);
+    expect(isAllowedFileUrl('https://docs.google.com/spreadsheets/d/abc/export?format=csv')).toBe(true);
+    expect(isAllowedFileUrl('https://doc-0s-sheets.googleusercontent.com/export/abc')).toBe(true);
+
+    expect(isAllowedFileUrl('http://raw.githubusercontent.com/acme/bot/main/robot.urdf')).toBe(false);
+    expect(isAllowedFileUrl('https://raw.githubusercontent.com:8443/acme/bot/robot.urdf')).toBe(false);
+    expect(isAllowedFileUrl('https://user@github.com/acme/bot')).toBe(false);
+    expect(isAllowedFileUrl('https://github.com.evil.example/robot.urdf')).toBe(false);
+    expect(isAllowedFileUrl('http://169.254.169.254/latest/meta-data/')).toBe(false);
+    expect(isAllowedFileUrl('https://127.0.0.1/robot.urdf')).toBe(false);
+    expect(isAllowedFileUrl('file:///etc/passwd')).toBe(false);
+    expect(isAllowedFileUrl('not a url')).toBe(false);
+  });
+
+  it('names every accepted host for error messages', () => {
+    expect(ALLOWED_FILE_HOSTS_LABEL).toBe(
+      'github.com, raw.githubusercontent.com, media.githubusercontent.com, ' +
+        'objects.githubusercontent.com, docs.google.com, *.googleusercontent.com'
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { classifyRepoPath, createFixtureRepoSource, scanRepository } from '../repo-scanner';
+
+// A typical ROS + MuJoCo robot repository
+const fixtureRepo = {
+  'README.md': '# Arm\n',
+  'package.json': '{}',
+  'arm_description/package.xml': '<package><name>arm_description</name></package>',
+  'arm_description/urdf/arm.urdf': '<robot name="arm"/>',
+  'arm_description/urdf/arm.urdf.xacro': '<robot xmlns:xacro="http://ros.org/wiki/xacro"/>',
+  'arm_description/meshes/base.stl': 'solid base\nfacet normal 0 0 1\nendsolid',
+  'mujoco/scene.xml': '<?xml version="1.0"?>\n<mujoco model="arm"/>',
+  'config/controllers.xml': '<config/>',
+  'hardware/stl/gripper_finger.stl': 'solid finger\nfacet normal 0 0 1\nendsolid',
+  'hardware/bom.csv': 'Part,Qty\nServo,6\n',
+  'data/joint_log.csv': 't,q\n0,1\n',
+  'docs/assembly_guide.md': '# Assembly\n1. Mount the base\n',
+  'docs/wiring.pdf': '%PDF-1.4',
+  'node_modules/lib/model.stl': 'solid x',
+};
+
+describe('Repository scanner', () => {
+  it('should classify paths by name', () => {
+    expect(classifyRepoPath('arm_description/urdf/arm.urdf')).toBe('urdf');
+    expect(classifyRepoPath('mujoco/scene.xml')).toBeNull();
+    expect(classifyRepoPath('arm_description/package.xml')).toBeUndefined();
+    expect(classifyRepoPath('arm_description/meshes/base.stl')).toBeUndefined();
+    expect(classifyRepoPath('data/joint_log.csv')).toBeUndefined();
+    expect(classifyRepoPath('hardware/parts_list.csv')).toBe('bom');
+  });
+
+  it('should find robot files and skip noise', async () => {
+    const candidates = await scanRepository(createFixtureRepoSource(fixtureRepo));
+
+    expect(candidates.map((candidate) => [candidate.path, candidate.type, candidate.source])).toEqual([
+      ['arm_description/urdf/arm.urdf', 'urdf', 'extension'],
+      ['mujoco/scene.xml', 'mjcf', 'content'],
+      ['hardware/stl/gripper_finger.stl', 'stl', 'extension'],
+      ['hardware/bom.csv', 'bom', 'extension'],
+      ['docs/assembly_guide.md', 'guide', 'extension'],
+      ['docs/wiring.pdf', 'guide', 'extension'],
+    ]);
+  });
+
+  it('should point candidates at fetchable URLs', async () => {
+    const [urdf] = await scanRepository(createFixtureRepoSource(fixtureRepo, 'https://raw.example.com/'));
+
+    expect(urdf).toEqual({
+      path: 'arm_description/urdf/arm.urdf',
+      url: 'https://raw.example.com/arm_description/urdf/arm.urdf',
+      fileName: 'arm.urdf',
+      type: 'urdf',
+      source: 'extension',
+      size: 19,
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { DEFAULT_EXCHANGE_RATES, type BudgetAmount } from '../budget-config';
+import {
+  isBucketInBudget,
+  isListedBudgetUnderstated,
+  summarizeReportedSpend,
+} from '../reported-spend';
+
+const rates = DEFAULT_EXCHANGE_RATES;
+
+const usd = (min: number, max: number | null): BudgetAmount => ({ min, max, currency: 'USD' });
+
+describe('reported spend', () => {
+  it('needs a few reports before summarizing', () => {
+    expect(summarizeReportedSpend([usd(500, 1000), null, usd(1000, 2000)], rates)).toBeNull();
+  });
+
+  it('gives the median, middle half and a histogram over budget presets', () => {
+    const spend = summarizeReportedSpend(
+      [usd(500, 1000), usd(1000, 2000), usd(1000, 2000), usd(5000, null), null],
+      rates
+    )!;
+
+    // Reports count as 750, 1500, 1500 and 5000
+    expect(spend.count).toBe(4);
+    expect(spend.median).toBe(1500);
+    expect(spend.low).toBe(1312.5);
+    expect(spend.high).toBe(2375);
+    expect(spend.buckets).toEqual([
+      { range: '$500-$1,000', count: 1 },
+      { range: '$1,000-$2,000', count: 2 },
+      { range: '$2,000-$3,000', count: 0 },
+      { range: '$3,000-$5,000', count: 0 },
+      { range: '$5,000-$10,000', count: 1 },
+    ]);
+    expect(isBucketInBudget(spend.buckets[0], usd(500, 1000), rates)).toBe(true);
+    expect(isBucketInBudget(spend.buckets[1], usd(500, 1000), rates)).toBe(false);
+  });
+
+  it('flags listed budgets far below what builders report', () => {
+    const spend = summarizeReportedSpend([usd(2000, 3000), usd(3000, 5000), usd(2000, 3000)], rates);
+
+    expect(isListedBudgetUnderstated(usd(0, 500), spend, rates)).toBe(true);
+    expect(isListedBudgetUnderstated(usd(1000, 2000), spend, rates)).toBe(false);
+    // Median is $2,500; £900 is about $1,143
+    expect(isListedBudgetUnderstated({ min: 500, max: 900, currency: 'GBP' }, spend, rates)).toBe(true);
+    expect(isListedBudgetUnderstated(usd(100, null), spend, rates)).toBe(false);
+    expect(isListedBudgetUnderstated(usd(0, 500), null, rates)).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import { strFromU8, strToU8 } from 'fflate';
+import {
+  buildRobotBundle,
+  normalizeBundlePath,
+  selectBundleFiles,
+  urdfMeshBundlePath,
+  type BundleManifest,
+} from '../robot-bundle';
+import type { MeshResolverContext } from '../mesh-resolver';
+import type { RobotFile } from '../types';
+
+const makeFile = (overrides: Partial<RobotFile>): RobotFile => ({
+  id: 'file',
+  robot_id: 'robot',
+  file_type: 'urdf',
+  file_url: 'https://example.com/file',
+  file_name: 'file',
+  version: '1.0.0',
+  description: null,
+  user_id: 'user',
+  is_owner_added: false,
+  latest_version_id: null,
+  parent_file_id: null,
+  rank_score: 0,
+  rank_updated_at: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const urdf = `<robot name="arm">
+  <link name="base">
+    <visual><geometry><mesh filename="package://arm_description/meshes/base.stl"/></geometry></visual>
+  </link>
+  <link name="tool">
+    <visual><geometry><mesh filename="file:///home/me/tool.stl"/></geometry></visual>
+  </link>
+</robot>`;
+
+const mockFetch = (files: Record<string, string>) =>
+  jest.fn(async (url: string) => {
+    const body = files[url];
+    return {
+      ok: body !== undefined,
+      status: body !== undefined ? 200 : 404,
+      statusText: body !== undefined ? 'OK' : 'Not Found',
+      text: async () => body,
+      arrayBuffer: async () => strToU8(body).buffer,
+    };
+  }) as unknown as typeof fetch;
+
+describe('Robot bundles', () => {
+  describe('selectBundleFiles', () => {
+    const files = [
+      makeFile({ id: 'urdf-owner', is_owner_added: true, ratings: { up: 1, down: 0, score: 0.21 } }),
+      makeFile({ id: 'urdf-community', ratings: { up: 5, down: 1, score: 0.44 } }),
+      makeFile({ id: 'stl-old', file_type: 'stl', created_at: '2025-01-01T00:00:00Z' }),
+      makeFile({ id: 'stl-new', file_type: 'stl', created_at: '2026-05-01T00:00:00Z' }),
+    ];
+
+    it('should keep only owner files in owner mode', () => {
+      expect(selectBundleFiles(files, 'owner').map((file) => file.id)).toEqual(['urdf-owner']);
+    });
+
+    it('should pick the best-rated file of each type', () => {
+      expect(selectBundleFiles(files, 'top-rated').map((file) => file.id)).toEqual([
+        'urdf-community',
+        'stl-new',
+      ]);
+    });
+  });
+
+  it('should keep bundle paths inside the bundle', () => {
+    expect(normalizeBundlePath('../meshes/./base.stl')).toBe('meshes/base.stl');
+    expect(urdfMeshBundlePath('package://arm_description/meshes/base.stl')).toBe(
+      'meshes/arm_description/meshes/base.stl'
+    );
+    expect(urdfMeshBundlePath('../meshes/base.stl')).toBe('meshes/base.stl');
+  });
+
+  it('should bundle URDF meshes, rewrite references and write a manifest', async () => {
+    const urdfUrl = 'https://raw.githubusercontent.com/acme/arm/main/arm_description/urdf/arm.urdf';
+    const meshUrl = 'https://raw.githubusercontent.com/acme/arm/main/arm_description/meshes/base.stl';
+    const fetchImpl = mockFetch({
+      [urdfUrl]: urdf,
+      [meshUrl]: 'solid base',
+      'https://example.com/bom.csv': 'Part,Qty\nServo,2\n',
+    });
+    const context: MeshResolverContext = {
+      fileUrl: urdfUrl,
+      repo: { owner: 'acme', repo: 'arm', branch: 'main' },
+      packages: { arm_description: 'arm_description' },
+    };
+
+    const entries: Record<string, string> = {};
+    const manifest = await buildRobotBundle(
+      { name: 'Arm', slug: 'arm', github_url: 'https://github.com/acme/arm' },
+      [
+        makeFile({ id: 'u', file_url: urdfUrl, file_name: 'arm.urdf', version: '2.1.0', is_owner_added: true }),
+        makeFile({ id: 'b', file_type: 'bom', file_url: 'https://example.com/bom.csv', file_name: 'bom.csv' }),
+        makeFile({ id: 's', file_type: 'stl', file_url: 'https://example.com/missing.stl', file_name: 'part.stl' }),
+      ],
+      'owner',
+      (path, data) => {
+        entries[path] = strFromU8(data);
+      },
+      { fetchImpl, loadResolverContext: async () => context }
+    );
+
+    expect(Object.keys(entries).sort()).toEqual([
+      'arm/bom/bom.csv',
+      'arm/manifest.json',
+      'arm/urdf/arm.urdf',
+      'arm/urdf/meshes/arm_description/meshes/base.stl',
+    ]);
+    expect(entries['arm/urdf/arm.urdf']).toContain('filename="meshes/arm_description/meshes/base.stl"');
+    expect(entries['arm/urdf/arm.urdf']).toContain('filename="file:///home/me/tool.stl"');
+
+    expect(manifest.files.map((file) => [file.path, file.version])).toEqual([
+      ['urdf/arm.urdf', '2.1.0'],
+      ['bom/bom.csv', '1.0.0'],
+    ]);
+    expect(manifest.files[1].sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(manifest.assets).toEqual([
+      expect.objectContaining({ path: 'urdf/meshes/arm_description/meshes/base.stl', source: meshUrl, size: 10 }),
+    ]);
+    expect(manifest.missing.map((entry) => entry.reason)).toEqual(['Local file path', '404 Not Found']);
+
+    const written: BundleManifest = JSON.parse(entries['arm/manifest.json']);
+    expect(written.files).toHaveLength(2);
+  });
+
+  it('should refuse to fetch files from hosts other than GitHub by default', async () => {
+    const manifest = await buildRobotBundle(
+      { name: 'Arm', slug: 'arm', github_url: null },
+      [makeFile({ id: 's', file_type: 'stl', file_url: 'http://169.254.169.254/latest/meta-data/', file_name: 'part.stl' })],
+      'top-rated',
+      () => {}
+    );
+
+    expect(manifest.files).toEqual([]);
+    expect(manifest.missing[0].reason).toMatch(/only be fetched from GitHub/);
+  });
+});
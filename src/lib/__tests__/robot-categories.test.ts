@@ -0,0 +1,86 @@
+import {
+  buildCategoryTree,
+  flattenCategoryTree,
+  formatCategoryPath,
+  getCategoryDescendantIds,
+  getCategoryPath,
+  getParentCandidates,
+} from '../robot-categories';
+import type { RobotCategory } from '../types';
+
+const makeCategory = (
+  id: string,
+  parentId: string | null = null,
+  sortOrder = 0
+): RobotCategory => ({
+  id,
+  parent_id: parentId,
+  name: id,
+  slug: id,
+  description: null,
+  sort_order: sortOrder,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+});
+
+const categories = [
+  makeCategory('Quadrupeds', 'Mobile'),
+  makeCategory('Mobile', null, 2),
+  makeCategory('Arms', null, 1),
+  makeCategory('6-DOF Arms', 'Arms', 1),
+  makeCategory('Low-DOF Arms', 'Arms', 2),
+  makeCategory('Teleop Leaders', '6-DOF Arms'),
+];
+
+describe('buildCategoryTree', () => {
+  it('nests categories and orders siblings by sort order', () => {
+    const flat = flattenCategoryTree(buildCategoryTree(categories));
+
+    expect(flat.map(({ category, depth }) => `${depth}:${category.id}`)).toEqual([
+      '0:Arms',
+      '1:6-DOF Arms',
+      '2:Teleop Leaders',
+      '1:Low-DOF Arms',
+      '0:Mobile',
+      '1:Quadrupeds',
+    ]);
+  });
+
+  it('treats categories with a missing parent as top level', () => {
+    const tree = buildCategoryTree([makeCategory('Orphan', 'Deleted')]);
+    expect(tree.map((node) => node.category.id)).toEqual(['Orphan']);
+  });
+});
+
+describe('category paths', () => {
+  it('walks from the root to the category for breadcrumbs', () => {
+    const path = getCategoryPath(categories, 'Teleop Leaders');
+    expect(formatCategoryPath(path)).toBe('Arms › 6-DOF Arms › Teleop Leaders');
+    expect(getCategoryPath(categories, null)).toEqual([]);
+  });
+
+  it('stops at loops instead of hanging', () => {
+    const looped = [makeCategory('A', 'B'), makeCategory('B', 'A')];
+    expect(getCategoryPath(looped, 'A').map((category) => category.id)).toEqual(['B', 'A']);
+  });
+});
+
+describe('category descendants', () => {
+  it('includes every level below a category', () => {
+    expect([...getCategoryDescendantIds(categories, 'Arms')].sort()).toEqual([
+      '6-DOF Arms',
+      'Arms',
+      'Low-DOF Arms',
+      'Teleop Leaders',
+    ]);
+  });
+
+  it('keeps a category from moving under itself or its subcategories', () => {
+    expect(getParentCandidates(categories, '6-DOF Arms').map((category) => category.id)).toEqual([
+      'Quadrupeds',
+      'Mobile',
+      'Arms',
+      'Low-DOF Arms',
+    ]);
+  });
+});
@@ -0,0 +1,22 @@
+import { claimFileMatches, getClaimOutcome, isSameGitHubUser } from '../robot-claims';
+
+describe('robot claims', () => {
+  it('compares GitHub usernames case-insensitively', () => {
+    expect(isSameGitHubUser('Phospho-App', 'phospho-app')).toBe(true);
+    expect(isSameGitHubUser('phospho', 'phospho-app')).toBe(false);
+    expect(isSameGitHubUser(null, 'phospho-app')).toBe(false);
+  });
+
+  it('only accepts verification files carrying the exact token', () => {
+    expect(claimFileMatches('abc123\n', 'abc123')).toBe(true);
+    expect(claimFileMatches('token: abc123', 'abc123')).toBe(true);
+    expect(claimFileMatches('abc1234', 'abc123')).toBe(false);
+    expect(claimFileMatches(null, 'abc123')).toBe(false);
+  });
+
+  it('approves verified claims on admin-listed robots and contests the rest', () => {
+    expect(getClaimOutcome('github_owner', true)).toBe('approved');
+    expect(getClaimOutcome('verification_file', false)).toBe('contested');
+    expect(getClaimOutcome(null, true)).toBe('pending');
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  MAX_COMPARED_ROBOTS,
+  buildComparisonRows,
+  formatRepoAge,
+  getCompareUrl,
+  parseCompareSlugs,
+  type ComparedRobot,
+} from '../robot-compare';
+
+const makeRobot = (slug: string, overrides: Partial<ComparedRobot> = {}): ComparedRobot => ({
+  robot: {
+    id: slug,
+    name: slug,
+    slug,
+    description: '',
+    image_url: null,
+    github_url: null,
+    budget: '$500-$1,000',
+    tags: ['arm'],
+    specs: {},
+  },
+  averageRating: 0,
+  reviewCount: 0,
+  fileTypes: [],
+  activity: null,
+  ...overrides,
+});
+
+describe('compare URLs', () => {
+  it('parses, deduplicates and caps the robot list', () => {
+    expect(parseCompareSlugs(' so-100, koch ,so-100,,')).toEqual(['so-100', 'koch']);
+    expect(parseCompareSlugs('a,b,c,d,e,f')).toHaveLength(MAX_COMPARED_ROBOTS);
+    expect(parseCompareSlugs(null)).toEqual([]);
+  });
+
+  it('builds the compare URL', () => {
+    expect(getCompareUrl(['so-100', 'koch'])).toBe('/compare?robots=so-100,koch');
+    expect(getCompareUrl([])).toBe('/compare');
+  });
+});
+
+describe('formatRepoAge', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('describes how long ago a date was', () => {
+    expect(formatRepoAge('2026-10-19T08:00:00Z', now)).toBe('today');
+    expect(formatRepoAge('2026-10-18T08:00:00Z', now)).toBe('1 day ago');
+    expect(formatRepoAge('2026-06-19T12:00:00Z', now)).toBe('4 months ago');
+    expect(formatRepoAge('2023-10-19T12:00:00Z', now)).toBe('3 years ago');
+  });
+});
+
+describe('buildComparisonRows', () => {
+  it('lines up values per robot and flags rows that differ', () => {
+    const rows = buildComparisonRows([
+      makeRobot('so-100', {
+        robot: { ...makeRobot('so-100').robot, specs: { dof: 6 } },
+        averageRating: 4.5,
+        reviewCount: 2,
+        fileTypes: ['urdf', 'stl'],
+      }),
+      makeRobot('koch', { fileTypes: ['stl'] }),
+    ]);
+    const byKey = Object.fromEntries(rows.map((row) => [row.key, row]));
+
+    expect(byKey.budget).toMatchObject({ values: ['$500-$1,000', '$500-$1,000'], differs: false });
+    expect(byKey.rating).toMatchObject({ values: ['4.5 / 5', 'No reviews'], differs: true });
+    expect(byKey['spec-dof']).toMatchObject({ values: ['6', '—'], differs: true });
+    expect(byKey['file-urdf']).toMatchObject({ values: ['Yes', 'No'], differs: true });
+    expect(byKey['file-stl'].differs).toBe(false);
+  });
+
+  it('leaves out specs and repository rows nobody has', () => {
+    const rows = buildComparisonRows([makeRobot('a'), makeRobot('b')]);
+
+    expect(rows.some((row) => row.section === 'Specs')).toBe(false);
+    expect(rows.some((row) => row.section === 'Repository')).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+import { analyzeMjcf, analyzeRobotFile, analyzeUrdf } from '../robot-file-analysis';
+import { parseMjcf } from '../mjcf-parser';
+import { parseUrdf } from '../urdf-parser';
+
+const armUrdf = `<?xml version="1.0"?>
+<robot name="two_link_arm">
+  <link name="world"/>
+  <link name="base">
+    <inertial><mass value="2.0"/></inertial>
+    <visual><geometry><mesh filename="package://arm_description/meshes/base.stl"/></geometry></visual>
+  </link>
+  <link name="upper_arm">
+    <inertial><mass value="0.5"/></inertial>
+    <visual><geometry><mesh filename="../meshes/upper_arm.stl"/></geometry></visual>
+  </link>
+  <link name="tool">
+    <visual><geometry><box size="0.1 0.1 0.1"/></geometry></visual>
+  </link>
+  <joint name="fixed_base" type="fixed">
+    <parent link="world"/><child link="base"/>
+  </joint>
+  <joint name="shoulder" type="revolute">
+    <parent link="base"/><child link="upper_arm"/>
+    <axis xyz="0 0 1"/>
+    <limit lower="-1.57" upper="1.57" effort="10" velocity="1"/>
+  </joint>
+  <joint name="wrist" type="continuous">
+    <parent link="upper_arm"/><child link="tool"/>
+  </joint>
+</robot>`;
+
+const mockFetch = (files: Record<string, string>) =>
+  jest.fn(async (url: string) => {
+    const body = files[url];
+    return {
+      ok: body !== undefined,
+      status: body !== undefined ? 200 : 404,
+      statusText: body !== undefined ? 'OK' : 'Not Found',
+      text: async () => body,
+    };
+  }) as unknown as typeof fetch;
+
+describe('Robot file analysis', () => {
+  describe('analyzeUrdf', () => {
+    it('should extract joints, links, mass and meshes', () => {
+      const { metadata } = analyzeUrdf(parseUrdf(armUrdf));
+
+      expect(metadata.robotName).toBe('two_link_arm');
+      expect(metadata.dof).toBe(2);
+      expect(metadata.linkCount).toBe(4);
+      expect(metadata.totalMass).toBeCloseTo(2.5);
+      expect(metadata.joints).toEqual([
+        { name: 'shoulder', type: 'revolute', lower: -1.57, upper: 1.57 },
+        { name: 'wrist', type: 'continuous', lower: null, upper: null },
+      ]);
+      expect(metadata.meshPaths).toEqual([
+        'package://arm_description/meshes/base.stl',
+        '../meshes/upper_arm.stl',
+      ]);
+    });
+
+    it('should flag missing inertials on links with geometry only', () => {
+      const { issues } = analyzeUrdf(parseUrdf(armUrdf));
+
+      expect(issues).toEqual([
+        expect.objectContaining({ code: 'missing_inertial', target: 'tool', severity: 'warning' }),
+      ]);
+    });
+
+    it('should flag zero masses and duplicate links', () => {
+      const urdf = armUrdf
+        .replace('<mass value="0.5"/>', '<mass value="0"/>')
+        .replace('<link name="tool">', '<link name="base">')
+        .replace('<child link="tool"/>', '<child link="base"/>');
+      const codes = analyzeUrdf(parseUrdf(urdf)).issues.map((issue) => issue.code);
+
+      expect(codes).toContain('zero_mass');
+      expect(codes).toContain('duplicate_link');
+    });
+
+    it('should flag broken chains', () => {
+      const urdf = armUrdf
+        .replace('<child link="upper_arm"/>', '<child link="forearm"/>');
+      const messages = analyzeUrdf(parseUrdf(urdf)).issues
+        .filter((issue) => issue.code === 'broken_chain')
+        .map((issue) => issue.message);
+
+      expect(messages).toEqual([
+        'Joint "shoulder" has unknown child link "forearm"',
+        'Links are not connected into one tree (roots: world, upper_arm)',
+      ]);
+    });
+  });
+
+  describe('analyzeMjcf', () => {
+    it('should count degrees of freedom and check actuator targets', async () => {
+      const model = await parseMjcf(`<mujoco model="pendulum">
+        <worldbody>
+          <body name="pole">
+            <joint name="free_base" type="free"/>
+            <body name="arm">
+              <joint name="hinge" axis="0 1 0"/>
+              <inertial pos="0 0 0" mass="0"/>
+            </body>
+          </body>
+        </worldbody>
+        <actuator><motor joint="elbow"/></actuator>
+      </mujoco>`);
+      const { metadata, issues } = analyzeMjcf(model);
+
+      expect(metadata.dof).toBe(1);
+      expect(metadata.joints.map((joint) => joint.name)).toEqual(['hinge']);
+      expect(issues.map((issue) => issue.code)).toEqual([
+        'broken_chain',
+        'missing_inertial',
+        'zero_mass',
+      ]);
+    });
+  });
+
+  describe('analyzeRobotFile', () => {
+    const urdfUrl = 'https://example.com/arm_description/urdf/arm.urdf';
+
+    it('should report meshes that cannot be fetched', async () => {
+      const fetchImpl = mockFetch({
+        [urdfUrl]: armUrdf,
+        'https://example.com/arm_description/meshes/base.stl': 'solid',
+      });
+      const result = await analyzeRobotFile('urdf', urdfUrl, { fetchImpl });
+
+      expect(result.status).toBe('warnings');
+      expect(result.issues.map((issue) => issue.target)).toEqual(['tool', '../meshes/upper_arm.stl']);
+    });
+
+    it('should mark unreadable files invalid', async () => {
+      const fetchImpl = mockFetch({ [urdfUrl]: '<mujoco/>' });
+      const result = await analyzeRobotFile('urdf', urdfUrl, { fetchImpl });
+
+      expect(result.status).toBe('invalid');
+      expect(result.metadata).toBeNull();
+      expect(result.issues[0].code).toBe('parse_error');
+    });
+  });
+});
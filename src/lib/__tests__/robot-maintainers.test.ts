@@ -0,0 +1,69 @@
+import {
+  canSetInvitationStatus,
+  getMaintainerIds,
+  getMaintainerRole,
+  maintainerLinksFilter,
+  sortMaintainers,
+} from '../robot-maintainers';
+import type { RobotMaintainer, RobotMaintainerInvitation } from '../types';
+
+const maintainer = (userId: string, overrides: Partial<RobotMaintainer> = {}): RobotMaintainer => ({
+  id: `m-${userId}`,
+  robot_id: 'robot-1',
+  user_id: userId,
+  role: 'maintainer',
+  added_by: null,
+  created_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('robot maintainers', () => {
+  it('lists the owner first, then maintainers by join date', () => {
+    const sorted = sortMaintainers([
+      maintainer('late', { created_at: '2026-03-01T00:00:00Z' }),
+      maintainer('owner', { role: 'owner', created_at: '2026-02-01T00:00:00Z' }),
+      maintainer('early'),
+    ]);
+
+    expect(sorted.map((m) => m.user_id)).toEqual(['owner', 'early', 'late']);
+  });
+
+  it('resolves roles, falling back to the creator before maintainers load', () => {
+    const maintainers = [maintainer('owner', { role: 'owner' }), maintainer('teammate')];
+
+    expect(getMaintainerRole(maintainers, 'teammate', 'owner')).toBe('maintainer');
+    expect(getMaintainerRole(maintainers, 'owner', 'owner')).toBe('owner');
+    expect(getMaintainerRole(undefined, 'owner', 'owner')).toBe('owner');
+    expect(getMaintainerRole(maintainers, 'stranger', 'owner')).toBeNull();
+    expect(getMaintainerRole(maintainers, null, 'owner')).toBeNull();
+  });
+
+  it("filters social links down to the team's own", () => {
+    const ids = getMaintainerIds([maintainer('teammate'), maintainer('owner')], 'owner');
+
+    expect(ids).toEqual(['teammate', 'owner']);
+    expect(maintainerLinksFilter(ids)).toBe('user_id.in.(teammate,owner),user_id.is.null');
+    expect(maintainerLinksFilter([])).toBe('user_id.is.null');
+  });
+
+  it('lets only the invitee answer and only the rest of the team cancel', () => {
+    const invitation: Pick<RobotMaintainerInvitation, 'invitee_id' | 'status'> = {
+      invitee_id: 'invitee',
+      status: 'pending',
+    };
+
+    expect(canSetInvitationStatus(invitation, 'accepted', 'invitee', false)).toBe(true);
+    expect(canSetInvitationStatus(invitation, 'declined', 'invitee', false)).toBe(true);
+    expect(canSetInvitationStatus(invitation, 'accepted', 'teammate', true)).toBe(false);
+    expect(canSetInvitationStatus(invitation, 'cancelled', 'teammate', true)).toBe(true);
+    expect(canSetInvitationStatus(invitation, 'cancelled', 'stranger', false)).toBe(false);
+    expect(canSetInvitationStatus(invitation, 'pending', 'teammate', true)).toBe(false);
+
+    // Not even an invitee who is already on the team, and nothing after an answer
+    expect(canSetInvitationStatus(invitation, 'cancelled', 'invitee', true)).toBe(false);
+    expect(
+      canSetInvitationStatus({ ...invitation, status: 'declined' }, 'accepted', 'invitee', true)
+    ).toBe(false);
+    expect(canSetInvitationStatus(invitation, 'accepted', null, false)).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  detectMediaType,
+  extractReadmeImages,
+  getCoverMedia,
+  getYouTubeEmbedUrl,
+  moveMedia,
+} from '../robot-media';
+import type { RobotMedia } from '../types';
+
+const makeMedia = (id: string, position: number, overrides: Partial<RobotMedia> = {}): RobotMedia => ({
+  id,
+  robot_id: 'robot',
+  media_type: 'image',
+  url: `https://example.com/${id}.jpg`,
+  caption: null,
+  position,
+  is_cover: false,
+  source: 'manual',
+  user_id: 'user',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('detectMediaType', () => {
+  it('recognises video files and YouTube links', () => {
+    expect(detectMediaType('https://example.com/demo.MP4?raw=true')).toBe('video');
+    expect(detectMediaType('https://youtu.be/dQw4w9WgXcQ')).toBe('video');
+    expect(detectMediaType('https://example.com/photo.png')).toBe('image');
+  });
+
+  it('builds YouTube embed URLs', () => {
+    expect(getYouTubeEmbedUrl('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=10')).toBe(
+      'https://www.youtube.com/embed/dQw4w9WgXcQ'
+    );
+    expect(getYouTubeEmbedUrl('https://example.com/video.mp4')).toBeNull();
+  });
+});
+
+describe('getCoverMedia', () => {
+  it('prefers the chosen cover and falls back to the first image', () => {
+    const media = [
+      makeMedia('video', 0, { media_type: 'video' }),
+      makeMedia('first', 1),
+      makeMedia('chosen', 2),
+    ];
+
+    expect(getCoverMedia(media)?.id).toBe('first');
+    expect(getCoverMedia([...media.slice(0, 2), { ...media[2], is_cover: true }])?.id).toBe('chosen');
+    expect(getCoverMedia([])).toBeNull();
+  });
+});
+
+describe('moveMedia', () => {
+  it('returns only the positions that changed', () => {
+    const media = [makeMedia('a', 0), makeMedia('b', 1), makeMedia('c', 2)];
+
+    expect(moveMedia(media, 'c', -1)).toEqual([
+      { id: 'c', position: 1 },
+      { id: 'b', position: 2 },
+    ]);
+    expect(moveMedia(media, 'a', -1)).toEqual([]);
+  });
+});
+
+describe('extractReadmeImages', () => {
+  it('collects images from HTML and markdown in order, skipping badges and relative paths', () => {
+    const readme = `
+      <p><img src="https://img.shields.io/badge/license-MIT-blue.svg" alt="License"></p>
+      <p><a href="x"><img src="https://camo.githubusercontent.com/abc" data-canonical-src="https://example.com/arm.jpg" alt="The arm"></a></p>
+      ![Wiring](https://example.com/wiring.png "Wiring diagram")
+      ![Local](media/local.png)
+      <img src='https://example.com/arm.jpg'>
+    `;
+
+    expect(extractReadmeImages(readme)).toEqual([
+      { url: 'https://example.com/arm.jpg', caption: 'The arm' },
+      { url: 'https://example.com/wiring.png', caption: 'Wiring' },
+    ]);
+  });
+});
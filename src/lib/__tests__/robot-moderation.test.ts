@@ -0,0 +1,40 @@
+import {
+  REVIEW_DECISIONS,
+  getOwnerStatusActions,
+  getStatusAfterOwnerEdit,
+  getSubmissionStatus,
+  isPublicRobotStatus,
+} from '../robot-moderation';
+
+describe('robot moderation', () => {
+  it('only surfaces approved robots', () => {
+    expect(isPublicRobotStatus('published')).toBe(true);
+    expect(isPublicRobotStatus('deprecated')).toBe(true);
+    expect(isPublicRobotStatus('pending_review')).toBe(false);
+    expect(isPublicRobotStatus('changes_requested')).toBe(false);
+    expect(isPublicRobotStatus('archived')).toBe(false);
+  });
+
+  it('sends non-admin submissions and resubmissions to review', () => {
+    expect(getSubmissionStatus(false)).toBe('pending_review');
+    expect(getSubmissionStatus(true)).toBe('published');
+    expect(getStatusAfterOwnerEdit('changes_requested')).toBe('pending_review');
+    expect(getStatusAfterOwnerEdit('published')).toBe('published');
+  });
+
+  it('never lets owners approve their own robots', () => {
+    const ownerTargets = (['draft', 'pending_review', 'changes_requested', 'archived'] as const).flatMap(
+      (status) => getOwnerStatusActions(status).map((action) => action.status)
+    );
+
+    expect(ownerTargets).not.toContain('published');
+    expect(ownerTargets).not.toContain('changes_requested');
+    expect(getOwnerStatusActions('deprecated').map((action) => action.status)).toContain('published');
+  });
+
+  it('requires notes when sending a robot back', () => {
+    expect(REVIEW_DECISIONS.approve.notesRequired).toBe(false);
+    expect(REVIEW_DECISIONS.request_changes.notesRequired).toBe(true);
+    expect(REVIEW_DECISIONS.reject.status).toBe('archived');
+  });
+});
@@ -0,0 +1,71 @@
+import { buildLineage, getLatestVersions, groupRelationships } from '../robot-relationships';
+import type { RobotRelationship, RobotRelationshipType } from '../types';
+
+const makeRelationship = (
+  robotId: string,
+  type: RobotRelationshipType,
+  relatedRobotId: string
+): RobotRelationship => ({
+  id: `${robotId}-${type}-${relatedRobotId}`,
+  robot_id: robotId,
+  related_robot_id: relatedRobotId,
+  relationship_type: type,
+  note: null,
+  created_by: 'user',
+  created_at: '2026-01-01T00:00:00Z',
+});
+
+const relationships = [
+  makeRelationship('so-101', 'successor_of', 'so-100'),
+  makeRelationship('so-102', 'successor_of', 'so-101'),
+  makeRelationship('so-100-wrist', 'variant_of', 'so-100'),
+  makeRelationship('leader', 'pairs_with', 'so-101'),
+  makeRelationship('so-101', 'component_of', 'lekiwi'),
+];
+
+describe('groupRelationships', () => {
+  it('describes relationships from the robot point of view', () => {
+    const groups = groupRelationships(relationships, 'so-101');
+
+    expect(groups.map((group) => [group.heading, group.entries.map((e) => e.otherRobotId)])).toEqual([
+      ['Superseded by', ['so-102']],
+      ['Supersedes', ['so-100']],
+      ['Pairs with', ['leader']],
+      ['Component of', ['lekiwi']],
+    ]);
+  });
+});
+
+describe('getLatestVersions', () => {
+  it('follows successors to the newest robot', () => {
+    expect(getLatestVersions(relationships, 'so-100')).toEqual(['so-102']);
+    expect(getLatestVersions(relationships, 'so-102')).toEqual([]);
+  });
+
+  it('returns every tip when the succession branches', () => {
+    const branched = [
+      makeRelationship('b', 'successor_of', 'a'),
+      makeRelationship('c', 'successor_of', 'a'),
+    ];
+    expect(getLatestVersions(branched, 'a').sort()).toEqual(['b', 'c']);
+  });
+
+  it('survives loops', () => {
+    const looped = [
+      makeRelationship('b', 'successor_of', 'a'),
+      makeRelationship('a', 'successor_of', 'b'),
+    ];
+    expect(getLatestVersions(looped, 'a')).toEqual(['b']);
+  });
+});
+
+describe('buildLineage', () => {
+  it('places robots right of what they derive from and leaves out other links', () => {
+    const lineage = buildLineage(relationships, 'so-101');
+    const levels = Object.fromEntries(lineage.nodes.map((node) => [node.robotId, node.level]));
+
+    expect(levels).toEqual({ 'so-100': 0, 'so-101': 1, 'so-100-wrist': 1, 'so-102': 2 });
+    expect(lineage.edges).toHaveLength(3);
+    expect(lineage.nodes.find((node) => node.robotId === 'so-100-wrist')?.row).toBe(1);
+  });
+});
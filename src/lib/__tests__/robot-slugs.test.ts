@@ -0,0 +1,24 @@
+import { generateSlug } from '../robotFormUtils';
+import { isSlugFromBase, pickAvailableSlug } from '../robot-slugs';
+
+describe('robot slugs', () => {
+  it('transliterates accented, Cyrillic and Greek names', () => {
+    expect(generateSlug('Müller Arm v2')).toBe('muller-arm-v2');
+    expect(generateSlug('Straße Bot')).toBe('strasse-bot');
+    expect(generateSlug('Робот Ходок')).toBe('robot-khodok');
+    expect(generateSlug('Ρομπότ')).toBe('rompot');
+    expect(generateSlug('机器人')).toBe('');
+  });
+
+  it('suffixes taken slugs with the first free number', () => {
+    expect(pickAvailableSlug('so-100', [])).toBe('so-100');
+    expect(pickAvailableSlug('so-100', ['so-100', 'so-100-2', 'so-100-4'])).toBe('so-100-3');
+  });
+
+  it('recognises numbered variants of a base slug', () => {
+    expect(isSlugFromBase('so-100-3', 'so-100')).toBe(true);
+    expect(isSlugFromBase('so-100', 'so-100')).toBe(true);
+    expect(isSlugFromBase('so-100-arm', 'so-100')).toBe(false);
+    expect(isSlugFromBase('so-101', 'so-10')).toBe(false);
+  });
+});
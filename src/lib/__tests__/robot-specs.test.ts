@@ -0,0 +1,81 @@
+import {
+  getSpecRangeBounds,
+  getSpecRows,
+  matchesSpecFilters,
+  normalizeRobotSpecs,
+  validateRobotSpecs,
+  type RobotSpecs,
+} from '../robot-specs';
+
+describe('normalizeRobotSpecs', () => {
+  it('keeps known fields and drops unknown or malformed values', () => {
+    expect(
+      normalizeRobotSpecs({
+        dof: '6',
+        payload_kg: 0.5,
+        reach_mm: 'far',
+        actuator_type: 'servo',
+        controller_board: 'commodore-64',
+        frameworks: ['ros2', 'unity', 'lerobot'],
+        color: 'red',
+      })
+    ).toEqual({
+      dof: 6,
+      payload_kg: 0.5,
+      actuator_type: 'servo',
+      frameworks: ['ros2', 'lerobot'],
+    });
+    expect(normalizeRobotSpecs(null)).toEqual({});
+    expect(normalizeRobotSpecs(['servo'])).toEqual({});
+  });
+});
+
+describe('validateRobotSpecs', () => {
+  it('rejects negative values and fractional degrees of freedom', () => {
+    expect(validateRobotSpecs({ dof: 6, weight_kg: 1.2 })).toEqual([]);
+    expect(validateRobotSpecs({ dof: 5.5, reach_mm: -10 })).toEqual([
+      'Degrees of freedom must be a whole number',
+      "Reach can't be negative",
+    ]);
+  });
+});
+
+describe('getSpecRows', () => {
+  it('formats values with units and labels in field order', () => {
+    expect(
+      getSpecRows({ frameworks: ['ros2', 'mujoco'], reach_mm: 1200, dof: 6, power_source: 'usb' })
+    ).toEqual([
+      { label: 'Degrees of freedom', value: '6' },
+      { label: 'Reach', value: '1,200 mm' },
+      { label: 'Power', value: 'USB' },
+      { label: 'Frameworks', value: 'ROS 2, MuJoCo' },
+    ]);
+  });
+});
+
+describe('spec filtering', () => {
+  const arm: RobotSpecs = { dof: 6, payload_kg: 0.5, actuator_type: 'servo', frameworks: ['ros2', 'lerobot'] };
+  const rover: RobotSpecs = { weight_kg: 4, actuator_type: 'bldc', frameworks: ['ros2'] };
+
+  it('computes slider bounds from the robots that list a value', () => {
+    expect(getSpecRangeBounds([arm, rover, { dof: 3 }])).toEqual({
+      dof: [3, 6],
+      payload_kg: [0.5, 0.5],
+      weight_kg: [4, 4],
+    });
+  });
+
+  it('matches ranges inclusively and any of the selected options', () => {
+    expect(matchesSpecFilters(arm, { ranges: { dof: [5, 6] }, options: {} })).toBe(true);
+    expect(matchesSpecFilters(arm, { ranges: { dof: [3, 5] }, options: {} })).toBe(false);
+    expect(
+      matchesSpecFilters(arm, { ranges: {}, options: { actuator_type: ['servo', 'stepper'] } })
+    ).toBe(true);
+    expect(matchesSpecFilters(rover, { ranges: {}, options: { frameworks: ['lerobot'] } })).toBe(false);
+  });
+
+  it('excludes robots missing a spec only once that spec is filtered', () => {
+    expect(matchesSpecFilters(rover, { ranges: {}, options: {} })).toBe(true);
+    expect(matchesSpecFilters(rover, { ranges: { dof: [0, 10] }, options: {} })).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  analyzeStl,
+  estimateFilament,
+  guessLengthUnit,
+  parseStl,
+} from '../stl-analysis';
+
+type Triangle = number[][];
+
+// A closed 10 mm cube, two triangles per face, outward winding
+const cubeTriangles = (size = 10): Triangle[] => {
+  const v = (x: number, y: number, z: number) => [x * size, y * size, z * size];
+  const quads = [
+    [v(0, 0, 0), v(0, 1, 0), v(1, 1, 0), v(1, 0, 0)],
+    [v(0, 0, 1), v(1, 0, 1), v(1, 1, 1), v(0, 1, 1)],
+    [v(0, 0, 0), v(1, 0, 0), v(1, 0, 1), v(0, 0, 1)],
+    [v(0, 1, 0), v(0, 1, 1), v(1, 1, 1), v(1, 1, 0)],
+    [v(0, 0, 0), v(0, 0, 1), v(0, 1, 1), v(0, 1, 0)],
+    [v(1, 0, 0), v(1, 1, 0), v(1, 1, 1), v(1, 0, 1)],
+  ];
+  return quads.flatMap(([a, b, c, d]) => [
+    [a, b, c],
+    [a, c, d],
+  ]);
+};
+
+const toAscii = (triangles: Triangle[]) => {
+  const facets = triangles
+    .map(
+      (triangle) =>
+        `facet normal 0 0 0\n  outer loop\n${triangle
+          .map((vertex) => `    vertex ${vertex.join(' ')}`)
+          .join('\n')}\n  endloop\nendfacet`
+    )
+    .join('\n');
+  const text = `solid cube\n${facets}\nendsolid cube\n`;
+  return Uint8Array.from(text, (char) => char.charCodeAt(0)).buffer;
+};
+
+const toBinary = (triangles: Triangle[]) => {
+  const buffer = new ArrayBuffer(84 + triangles.length * 50);
+  const view = new DataView(buffer);
+  // Binary headers that start with "solid" must not be mistaken for ASCII
+  Array.from('solid binary_cube').forEach((char, i) => view.setUint8(i, char.charCodeAt(0)));
+  view.setUint32(80, triangles.length, true);
+  triangles.forEach((triangle, t) => {
+    triangle.flat().forEach((value, i) => {
+      view.setFloat32(84 + t * 50 + 12 + i * 4, value, true);
+    });
+  });
+  return buffer;
+};
+
+describe('STL analysis', () => {
+  it('should parse ASCII STL files', () => {
+    const stl = parseStl(toAscii(cubeTriangles()));
+
+    expect(stl.format).toBe('ascii');
+    expect(stl.name).toBe('cube');
+    expect(stl.triangleCount).toBe(12);
+  });
+
+  it('should parse binary STL files with a "solid" header', () => {
+    const stl = parseStl(toBinary(cubeTriangles()));
+
+    expect(stl.format).toBe('binary');
+    expect(stl.name).toBe('binary_cube');
+    expect(stl.triangleCount).toBe(12);
+  });
+
+  it('should measure a closed cube', () => {
+    const stats = analyzeStl(parseStl(toBinary(cubeTriangles())));
+
+    expect(stats.boundingBox.size).toEqual([10, 10, 10]);
+    expect(stats.volume).toBeCloseTo(1000);
+    expect(stats.surfaceArea).toBeCloseTo(600);
+    expect(stats.isManifold).toBe(true);
+  });
+
+  it('should flag meshes with holes as non-manifold', () => {
+    const stats = analyzeStl(parseStl(toAscii(cubeTriangles().slice(2))));
+
+    expect(stats.isManifold).toBe(false);
+    expect(stats.boundaryEdges).toBe(4);
+  });
+
+  it('should guess metres for small robot meshes', () => {
+    expect(guessLengthUnit(analyzeStl(parseStl(toBinary(cubeTriangles(0.1)))))).toBe('m');
+    expect(guessLengthUnit(analyzeStl(parseStl(toBinary(cubeTriangles(10)))))).toBe('mm');
+  });
+
+  it('should estimate filament from shell and infill', () => {
+    const stats = analyzeStl(parseStl(toBinary(cubeTriangles(20))));
+    // 8 cm³ cube: 2400 mm² * 0.8 mm shell = 1.92 cm³, rest at 20% infill
+    const estimate = estimateFilament(stats, 'mm', { materialId: 'pla', infillPercent: 20 });
+
+    expect(estimate.volumeCm3).toBeCloseTo(1.92 + (8 - 1.92) * 0.2);
+    expect(estimate.grams).toBeCloseTo(estimate.volumeCm3 * 1.24);
+    expect(estimateFilament(stats, 'mm', { materialId: 'pla', infillPercent: 100 }).volumeCm3).toBeCloseTo(8);
+  });
+
+  it('should reject files that are not STL', () => {
+    expect(() => parseStl(Uint8Array.from([1, 2, 3]).buffer)).toThrow('Not a valid STL file');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/verify-claim/route';
+import { getRequestUser, getSupabaseAdmin } from '@/lib/supabase-admin';
+
+jest.mock('@/lib/supabase-admin', () => ({
+  getRequestUser: jest.fn(),
+  getSupabaseAdmin: jest.fn(),
+}));
+
+// Single rows per table, enough for the route's .select().eq().single() lookups
+const fakeSupabase = (rows: Record<string, unknown>) => ({
+  from: (table: string) => {
+    const query = {
+      select: () => query,
+      eq: () => query,
+      single: async () => ({ data: rows[table] ?? null, error: null }),
+    };
+    return query;
+  },
+});
+
+const verifyRequest = (claimId: string) =>
+  new NextRequest('http://localhost/api/verify-claim', {
+    method: 'POST',
+    body: JSON.stringify({ claimId }),
+  });
+
+describe('POST /api/verify-claim', () => {
+  beforeEach(() => {
+    jest.mocked(getRequestUser).mockReset();
+    jest.mocked(getSupabaseAdmin).mockReset();
+  });
+
+  it('rejects requests without a signed-in user', async () => {
+    jest.mocked(getRequestUser).mockResolvedValue(null);
+
+    const response = await POST(verifyRequest('claim-1'));
+
+    expect(response.status).toBe(401);
+    expect(getSupabaseAdmin).not.toHaveBeenCalled();
+  });
+
+  it("rejects users verifying someone else's claim", async () => {
+    jest.mocked(getRequestUser).mockResolvedValue({ id: 'stranger' } as never);
+    jest.mocked(getSupabaseAdmin).mockReturnValue(
+      fakeSupabase({
+        robot_claims: { id: 'claim-1', claimant_id: 'claimant', status: 'pending' },
+        profiles: { role: 'user' },
+      }) as never
+    );
+
+    const response = await POST(verifyRequest('claim-1'));
+
+    expect(response.status).toBe(403);
+  });
+});
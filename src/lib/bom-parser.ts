@@ -0,0 +1,253 @@
+/**
+ * Bill of materials parser
+ * Reads CSV/TSV bills of materials (including Google Sheets CSV exports)
+ * into line items, totals them, and checks the total against the robot's
+ * listed budget range.
+ */
+
+import {
+  findBudgetRangeForAmount,
+  getBudgetRangeBounds,
+  type BudgetRange,
+} from './budget-config';
+
+export interface BomItem {
+  part: string;
+  quantity: number;
+  unitPrice: number | null;
+  currency: string;
+  supplierUrl: string | null;
+  lineTotal: number | null;
+}
+
+export interface BillOfMaterials {
+  items: BomItem[];
+  // Totals per currency, e.g. { USD: 412.5 }
+  totals: Record<string, number>;
+  // Items without a price, which the totals leave out
+  unpricedCount: number;
+}
+
+export type BudgetCheckStatus = 'match' | 'below' | 'above' | 'unknown';
+
+export interface BudgetCheck {
+  status: BudgetCheckStatus;
+  total: number | null;
+  // The range the BOM total falls into
+  suggestedRange: BudgetRange | null;
+}
+
+export const DEFAULT_BOM_CURRENCY = 'USD';
+
+type BomColumn = 'part' | 'quantity' | 'unitPrice' | 'currency' | 'supplierUrl' | 'lineTotal';
+
+// Header names seen in real BOMs, matched after lowercasing and stripping punctuation
+const COLUMN_ALIASES: Record<BomColumn, string[]> = {
+  part: ['part', 'part name', 'item', 'name', 'component', 'description'],
+  quantity: ['qty', 'quantity', 'count', 'units', 'amount needed'],
+  unitPrice: ['unit price', 'price', 'unit cost', 'cost', 'price each', 'price per unit', 'cost per unit'],
+  currency: ['currency'],
+  supplierUrl: ['link', 'url', 'supplier', 'supplier link', 'vendor', 'source', 'where to buy', 'buy link', 'purchase link'],
+  lineTotal: ['total', 'total price', 'total cost', 'line total', 'subtotal', 'extended price'],
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'CNY',
+  '￥': 'CNY',
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Split CSV/TSV text into rows, honouring quoted fields
+ */
+export function parseDelimited(text: string, delimiter?: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0];
+  const separator =
+    delimiter ??
+    ([',', '\t', ';'] as const).reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Parse a money value like "$1,299.00", "12.50 EUR" or "€9"
+ */
+export function parseMoney(value: string): { amount: number; currency: string | null } | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find((candidate) => trimmed.includes(candidate));
+  const code = trimmed.match(/\b([A-Z]{3})\b/)?.[1] ?? null;
+  const amount = Number(trimmed.replace(/[^\d.-]/g, ''));
+
+  if (!Number.isFinite(amount) || !/\d/.test(trimmed)) return null;
+  return { amount, currency: code || (symbol ? CURRENCY_SYMBOLS[symbol] : null) };
+}
+
+function findColumns(header: string[]): Partial<Record<BomColumn, number>> {
+  const normalized = header.map(normalizeHeader);
+  const columns: Partial<Record<BomColumn, number>> = {};
+
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [BomColumn, string[]][]) {
+    // Earlier aliases win, so "Part" beats "Description" for the part column
+    for (const alias of aliases) {
+      const index = normalized.findIndex(
+        (name, i) => name === alias && !Object.values(columns).includes(i)
+      );
+      if (index !== -1) {
+        columns[column] = index;
+        break;
+      }
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Parse a CSV/TSV bill of materials. Needs a header row with at least a part
+ * column; other columns are optional and title rows above the header are skipped.
+ */
+export function parseBom(text: string, defaultCurrency = DEFAULT_BOM_CURRENCY): BillOfMaterials {
+  const rows = parseDelimited(text);
+  // Spreadsheets often have a title row or two above the real header
+  const headerIndex = rows.findIndex((row) => findColumns(row).part !== undefined);
+  if (headerIndex === -1) {
+    throw new Error('Could not find a header row with a part/item column');
+  }
+
+  const columns = findColumns(rows[headerIndex]);
+  const cell = (row: string[], column: BomColumn) =>
+    columns[column] !== undefined ? (row[columns[column]!] ?? '').trim() : '';
+
+  const items: BomItem[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const part = cell(row, 'part');
+    // Summary rows ("Total", "Subtotal") are not parts
+    if (!part || /^(sub)?total\b/i.test(part)) continue;
+
+    const quantity = Number(cell(row, 'quantity').replace(/[^\d.]/g, '')) || 1;
+    const unitPrice = parseMoney(cell(row, 'unitPrice'));
+    const lineTotal = parseMoney(cell(row, 'lineTotal'));
+    const currency =
+      cell(row, 'currency').toUpperCase() ||
+      unitPrice?.currency ||
+      lineTotal?.currency ||
+      defaultCurrency;
+
+    const price = unitPrice?.amount ?? (lineTotal ? lineTotal.amount / quantity : null);
+    const supplier = cell(row, 'supplierUrl');
+
+    items.push({
+      part,
+      quantity,
+      unitPrice: price,
+      currency,
+      supplierUrl: /^https?:\/\//i.test(supplier) ? supplier : null,
+      lineTotal: price !== null ? price * quantity : null,
+    });
+  }
+
+  const totals: Record<string, number> = {};
+  for (const item of items) {
+    if (item.lineTotal === null) continue;
+    totals[item.currency] = (totals[item.currency] || 0) + item.lineTotal;
+  }
+
+  return {
+    items,
+    totals,
+    unpricedCount: items.filter((item) => item.unitPrice === null).length,
+  };
+}
+
+/**
+ * Turn a Google Sheets link into its CSV export URL; other URLs pass through
+ */
+export function toBomCsvUrl(url: string): string {
+  const match = url.match(/docs\.google\.com\/spreadsheets\/d\/([^/]+)/);
+  if (!match || url.includes('/export')) return url;
+
+  const gid = url.match(/[#&?]gid=(\d+)/)?.[1];
+  return `https://docs.google.com/spreadsheets/d/${match[1]}/export?format=csv${gid ? `&gid=${gid}` : ''}`;
+}
+
+/**
+ * Fetch and parse a BOM file
+ */
+export async function fetchBom(url: string): Promise<BillOfMaterials> {
+  const response = await fetch(toBomCsvUrl(url));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch BOM: ${response.status} ${response.statusText}`);
+  }
+  return parseBom(await response.text());
+}
+
+/**
+ * Compare a BOM's USD total with the robot's budget range
+ */
+export function checkBomAgainstBudget(bom: BillOfMaterials, budget: string | null | undefined): BudgetCheck {
+  const total = bom.totals[DEFAULT_BOM_CURRENCY] ?? null;
+  const bounds = budget ? getBudgetRangeBounds(budget) : null;
+
+  // Other currencies can't be compared with the USD ranges
+  if (total === null || Object.keys(bom.totals).length > 1) {
+    return { status: 'unknown', total, suggestedRange: null };
+  }
+
+  const suggestedRange = findBudgetRangeForAmount(total);
+  if (!bounds) {
+    return { status: 'unknown', total, suggestedRange };
+  }
+
+  const status: BudgetCheckStatus =
+    total < bounds.min ? 'below' : bounds.max !== null && total >= bounds.max ? 'above' : 'match';
+
+  return { status, total, suggestedRange };
+}
@@ -46,3 +46,258 @@ export function getBudgetOptionsWithEmpty(): Array<{
 export function getBudgetOptions(): Array<{ value: string; label: string }> {
   return BUDGET_RANGES.map((range) => ({ value: range, label: range }));
 }
+
+export interface BudgetBounds {
+  min: number;
+  // null for open-ended ranges like "$100K+"
+  max: number | null;
+}
+
+const parseBudgetAmount = (value: string): number => {
+  const match = value.replace(/,/g, "").match(/\$?([\d.]+)\s*(K)?/i);
+  if (!match) return NaN;
+  return Number(match[1]) * (match[2] ? 1000 : 1);
+};
+
+/**
+ * Get the USD bounds of a budget range, e.g. "$10K-$20K" -> 10000..20000
+ */
+export function getBudgetRangeBounds(range: string): BudgetBounds | null {
+  if (!isValidBudgetRange(range)) return null;
+
+  if (range.startsWith("Less than")) {
+    return { min: 0, max: parseBudgetAmount(range) };
+  }
+  if (range.endsWith("+")) {
+    return { min: parseBudgetAmount(range), max: null };
+  }
+
+  const [min, max] = range.split("-").map(parseBudgetAmount);
+  return { min, max };
+}
+
+/**
+ * Find the budget range a USD amount falls into
+ */
+export function findBudgetRangeForAmount(amount: number): BudgetRange {
+  return (
+    BUDGET_RANGES.find((range) => {
+      const { max } = getBudgetRangeBounds(range)!;
+      return max === null || amount < max;
+    }) || BUDGET_RANGES[BUDGET_RANGES.length - 1]
+  );
+}
+
+// ============================================================================
+// Numeric budgets
+// Robots and reviews store budget_min/budget_max in budget_currency; the
+// BUDGET_RANGES above are USD presets for them. Amounts in other currencies
+// are compared in USD using the admin-maintained exchange_rates table.
+// ============================================================================
+
+export const BUDGET_CURRENCIES = ["USD", "EUR", "GBP", "CNY"] as const;
+
+export type BudgetCurrency = (typeof BUDGET_CURRENCIES)[number];
+
+export interface BudgetAmount {
+  min: number;
+  // null for open-ended budgets
+  max: number | null;
+  currency: BudgetCurrency;
+}
+
+// USD value of one unit of each currency
+export type ExchangeRates = Record<BudgetCurrency, number>;
+
+// Used until the exchange_rates table has loaded; seeded with the same values
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  CNY: 0.14,
+};
+
+// Stops of the price slider, in USD; the last one means "and up"
+export const PRICE_FILTER_STEPS = [
+  0, 250, 500, 1000, 2000, 3000, 5000, 10000, 20000, 50000, 100000,
+];
+
+export function isBudgetCurrency(value: string): value is BudgetCurrency {
+  return BUDGET_CURRENCIES.includes(value as BudgetCurrency);
+}
+
+/**
+ * The USD amount a budget preset stands for
+ */
+export function getBudgetPresetAmount(range: string): BudgetAmount | null {
+  const bounds = getBudgetRangeBounds(range);
+  return bounds ? { ...bounds, currency: "USD" } : null;
+}
+
+/**
+ * The preset an amount corresponds to exactly, if any
+ */
+export function findBudgetPreset(amount: BudgetAmount): BudgetRange | null {
+  if (amount.currency !== "USD") return null;
+  return (
+    BUDGET_RANGES.find((range) => {
+      const bounds = getBudgetRangeBounds(range)!;
+      return bounds.min === amount.min && bounds.max === amount.max;
+    }) || null
+  );
+}
+
+export function convertCurrency(
+  value: number,
+  from: BudgetCurrency,
+  to: BudgetCurrency,
+  rates: ExchangeRates
+): number {
+  return from === to ? value : (value * rates[from]) / rates[to];
+}
+
+/**
+ * Bounds of an amount converted to USD, for sorting and filtering
+ */
+export function getBudgetUsdBounds(
+  amount: BudgetAmount,
+  rates: ExchangeRates
+): { min: number; max: number | null } {
+  return {
+    min: convertCurrency(amount.min, amount.currency, "USD", rates),
+    max:
+      amount.max === null
+        ? null
+        : convertCurrency(amount.max, amount.currency, "USD", rates),
+  };
+}
+
+export function formatCurrency(value: number, currency: BudgetCurrency): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    currencyDisplay: "narrowSymbol",
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+export function formatBudgetAmount(amount: BudgetAmount): string {
+  const { min, max, currency } = amount;
+  if (max === null) return `${formatCurrency(min, currency)}+`;
+  if (min === 0) return `Less than ${formatCurrency(max, currency)}`;
+  if (min === max) return formatCurrency(min, currency);
+  return `${formatCurrency(min, currency)}-${formatCurrency(max, currency)}`;
+}
+
+/**
+ * Label stored in the budget column: the preset when the amount is one,
+ * otherwise the formatted amount
+ */
+export function getBudgetLabel(amount: BudgetAmount): string {
+  return findBudgetPreset(amount) || formatBudgetAmount(amount);
+}
+
+export interface BudgetColumns {
+  budget: string | null;
+  budget_min: number | null;
+  budget_max: number | null;
+  budget_currency: BudgetCurrency | null;
+}
+
+/**
+ * Amount of a robot or review. Rows from before numeric budgets fall back
+ * to their preset label.
+ */
+export function getBudgetAmount(row: Partial<BudgetColumns>): BudgetAmount | null {
+  if (row.budget_min !== null && row.budget_min !== undefined) {
+    return {
+      min: Number(row.budget_min),
+      max:
+        row.budget_max === null || row.budget_max === undefined
+          ? null
+          : Number(row.budget_max),
+      currency: row.budget_currency || "USD",
+    };
+  }
+  return row.budget ? getBudgetPresetAmount(row.budget) : null;
+}
+
+/**
+ * Columns to write for an amount. robots.budget_currency can't be null, so
+ * clearing the budget leaves the currency at its USD default.
+ */
+export function toBudgetColumns(amount: BudgetAmount | null): BudgetColumns {
+  return amount
+    ? {
+        budget: getBudgetLabel(amount),
+        budget_min: amount.min,
+        budget_max: amount.max,
+        budget_currency: amount.currency,
+      }
+    : { budget: null, budget_min: null, budget_max: null, budget_currency: "USD" };
+}
+
+export function isValidBudgetAmount(amount: BudgetAmount | null): boolean {
+  return (
+    !!amount &&
+    isBudgetCurrency(amount.currency) &&
+    Number.isFinite(amount.min) &&
+    amount.min >= 0 &&
+    (amount.max === null || (Number.isFinite(amount.max) && amount.max >= amount.min))
+  );
+}
+
+/**
+ * USD range picked on the price slider, whose values index PRICE_FILTER_STEPS
+ */
+export function getPriceFilterRange([low, high]: [number, number]): [number, number | null] {
+  return [
+    PRICE_FILTER_STEPS[low],
+    high >= PRICE_FILTER_STEPS.length - 1 ? null : PRICE_FILTER_STEPS[high],
+  ];
+}
+
+export function formatPriceFilterRange(
+  [low, high]: [number, number | null],
+  currency: BudgetCurrency,
+  rates: ExchangeRates
+): string {
+  return formatBudgetAmount({
+    min: convertCurrency(low, "USD", currency, rates),
+    max: high === null ? null : convertCurrency(high, "USD", currency, rates),
+    currency,
+  });
+}
+
+/**
+ * Whether an amount overlaps a USD price range; a null high end is unbounded
+ */
+export function matchesPriceRange(
+  amount: BudgetAmount | null,
+  range: [number, number | null],
+  rates: ExchangeRates
+): boolean {
+  if (!amount) return false;
+  const { min, max } = getBudgetUsdBounds(amount, rates);
+  const [low, high] = range;
+  return (high === null || min <= high) && (max === null || max >= low);
+}
+
+/**
+ * Cheapest first by the low end in USD, then the high end; robots without a
+ * budget go last
+ */
+export function compareBudgetAmounts(
+  a: BudgetAmount | null,
+  b: BudgetAmount | null,
+  rates: ExchangeRates
+): number {
+  if (!a || !b) return Number(!a) - Number(!b);
+  const boundsA = getBudgetUsdBounds(a, rates);
+  const boundsB = getBudgetUsdBounds(b, rates);
+  return (
+    boundsA.min - boundsB.min ||
+    (boundsA.max ?? Infinity) - (boundsB.max ?? Infinity) ||
+    0
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Robot file discussions
+ * Turns the flat list of comments on a file into threads and works out which
+ * badges each commenter gets.
+ */
+
+import type { RobotFileComment } from './types';
+
+export interface FileCommentThread extends RobotFileComment {
+  replies: FileCommentThread[];
+}
+
+export type CommentBadge = 'owner' | 'maintainer' | 'author' | 'admin';
+
+export const COMMENT_BADGE_LABELS: Record<CommentBadge, string> = {
+  owner: 'Robot owner',
+  maintainer: 'Maintainer',
+  author: 'File author',
+  admin: 'Admin',
+};
+
+// Deeper replies are shown at this depth so threads stay readable on phones
+export const MAX_COMMENT_DEPTH = 3;
+
+const byCreatedAt = (a: RobotFileComment, b: RobotFileComment) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+/**
+ * Nest comments under their parents. Open threads come first, newest first;
+ * replies read oldest first. Replies whose parent is gone become threads.
+ */
+export function buildCommentThreads(comments: RobotFileComment[]): FileCommentThread[] {
+  const nodes = new Map<string, FileCommentThread>(
+    comments.map((comment) => [comment.id, { ...comment, replies: [] }])
+  );
+  const threads: FileCommentThread[] = [];
+
+  for (const comment of [...comments].sort(byCreatedAt)) {
+    const node = nodes.get(comment.id)!;
+    const parent = comment.parent_id ? nodes.get(comment.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      threads.push(node);
+    }
+  }
+
+  return threads.sort(
+    (a, b) => Number(a.is_resolved) - Number(b.is_resolved) || byCreatedAt(b, a)
+  );
+}
+
+/**
+ * Badges shown next to a commenter's name
+ */
+export function commentBadges(
+  comment: RobotFileComment,
+  {
+    robotCreatorId,
+    robotMaintainerIds,
+    fileUserId,
+  }: { robotCreatorId?: string | null; robotMaintainerIds?: string[]; fileUserId?: string | null }
+): CommentBadge[] {
+  const badges: CommentBadge[] = [];
+  if (robotCreatorId && comment.user_id === robotCreatorId) badges.push('owner');
+  else if (robotMaintainerIds?.includes(comment.user_id)) badges.push('maintainer');
+  if (fileUserId && comment.user_id === fileUserId) badges.push('author');
+  if (comment.profiles?.role === 'admin') badges.push('admin');
+  return badges;
+}
+
+/**
+ * Whether a user may mark a thread as resolved; the database enforces the same rule
+ */
+export function canResolveComment(
+  comment: RobotFileComment,
+  userId: string | null | undefined,
+  {
+    robotCreatorId,
+    robotMaintainerIds,
+    fileUserId,
+    isAdmin,
+  }: {
+    robotCreatorId?: string | null;
+    robotMaintainerIds?: string[];
+    fileUserId?: string | null;
+    isAdmin?: boolean;
+  }
+): boolean {
+  if (!userId || comment.parent_id) return false;
+  return Boolean(
+    isAdmin ||
+      comment.user_id === userId ||
+      robotCreatorId === userId ||
+      robotMaintainerIds?.includes(userId) ||
+      fileUserId === userId
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Robot file ranking
+ * Files are ranked by the lower bound of the Wilson score interval on their
+ * ratings, with older votes weighing less. The database computes and stores
+ * the score (robot_files.rank_score); these helpers mirror it for tests and
+ * for explaining a file's position, and share the ordering rules.
+ */
+
+import type { RobotFile, RobotFileRating } from './types';
+
+// ~95% confidence
+export const RANK_CONFIDENCE_Z = 1.96;
+export const RATING_HALF_LIFE_DAYS = 180;
+
+// Below this many votes the interval is wide and the score stays low
+const FEW_VOTES = 5;
+
+export interface FileRatingSummary {
+  up: number;
+  down: number;
+  userRating: 'up' | 'down' | null;
+}
+
+/**
+ * Lowest approval rate consistent with the votes at the given confidence
+ */
+export function wilsonLowerBound(up: number, down: number, z = RANK_CONFIDENCE_Z): number {
+  const n = up + down;
+  if (n <= 0) return 0;
+
+  const p = up / n;
+  const bound =
+    (p + (z * z) / (2 * n) - z * Math.sqrt((p * (1 - p) + (z * z) / (4 * n)) / n)) /
+    (1 + (z * z) / n);
+  return Math.max(0, bound);
+}
+
+/**
+ * How much a vote cast (or last changed) at ratedAt still counts
+ */
+export function ratingWeight(ratedAt: string, now: Date = new Date()): number {
+  const ageDays = Math.max(0, now.getTime() - new Date(ratedAt).getTime()) / 86_400_000;
+  return Math.pow(0.5, ageDays / RATING_HALF_LIFE_DAYS);
+}
+
+/**
+ * The score the database stores for a file's ratings
+ */
+export function computeRankScore(
+  ratings: Pick<RobotFileRating, 'rating' | 'created_at' | 'updated_at'>[],
+  now: Date = new Date()
+): number {
+  let up = 0;
+  let down = 0;
+  for (const rating of ratings) {
+    const weight = ratingWeight(rating.updated_at || rating.created_at, now);
+    if (rating.rating === 'up') up += weight;
+    else down += weight;
+  }
+  return wilsonLowerBound(up, down);
+}
+
+/**
+ * Count up and down votes per file, and note the current user's own vote
+ */
+export function summarizeFileRatings(
+  ratings: Pick<RobotFileRating, 'file_id' | 'rating' | 'user_id'>[],
+  userId?: string
+): Map<string, FileRatingSummary> {
+  const summaries = new Map<string, FileRatingSummary>();
+
+  for (const rating of ratings) {
+    const summary = summaries.get(rating.file_id) || { up: 0, down: 0, userRating: null };
+    if (rating.rating === 'up') summary.up++;
+    else if (rating.rating === 'down') summary.down++;
+    if (userId && rating.user_id === userId) summary.userRating = rating.rating;
+    summaries.set(rating.file_id, summary);
+  }
+
+  return summaries;
+}
+
+/**
+ * Attach vote counts and the stored rank score to files
+ */
+export function withFileRatings(
+  files: RobotFile[],
+  ratings: Map<string, FileRatingSummary>
+): RobotFile[] {
+  return files.map((file) => ({
+    ...file,
+    ratings: {
+      ...(ratings.get(file.id) || { up: 0, down: 0, userRating: null }),
+      score: file.rank_score || 0,
+    },
+  }));
+}
+
+/**
+ * Owner files first, then by score, then newest first
+ */
+export function compareFilesByRank(a: RobotFile, b: RobotFile): number {
+  return (
+    Number(b.is_owner_added) - Number(a.is_owner_added) ||
+    (b.ratings?.score ?? b.rank_score ?? 0) - (a.ratings?.score ?? a.rank_score ?? 0) ||
+    new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+/**
+ * Plain-language reasons for a file's position in its list
+ */
+export function explainFileRank(file: RobotFile): string[] {
+  const up = file.ratings?.up || 0;
+  const down = file.ratings?.down || 0;
+  const score = file.ratings?.score ?? file.rank_score ?? 0;
+  const reasons: string[] = [];
+
+  if (file.is_owner_added) {
+    reasons.push('Added by the robot owner, so it is listed before community files.');
+  }
+
+  if (up + down === 0) {
+    reasons.push('No ratings yet, so it comes after rated files.');
+    return reasons;
+  }
+
+  reasons.push(
+    `${up} up, ${down} down: we're 95% confident at least ${Math.round(score * 100)}% of builders find it useful. That lower bound is its score.`
+  );
+  if (up + down < FEW_VOTES) {
+    reasons.push('With only a few votes the bound stays low until more people rate it.');
+  }
+  reasons.push(
+    `Votes lose half their weight every ${RATING_HALF_LIFE_DAYS} days, so recent feedback counts more.`
+  );
+
+  return reasons;
+}
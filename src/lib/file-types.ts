@@ -0,0 +1,164 @@
+/**
+ * Robot file types
+ * Labels for each type and detection of the type of a contributed file from
+ * its URL and its first bytes.
+ */
+
+import type { RobotFileType } from './types';
+
+// Display order for grouped file lists
+export const ROBOT_FILE_TYPES: RobotFileType[] = ['urdf', 'mjcf', 'stl', 'bom', 'guide'];
+
+export const FILE_TYPE_LABELS: Record<RobotFileType, string> = {
+  urdf: 'URDF',
+  mjcf: 'MJCF',
+  stl: 'STL',
+  bom: 'Bill of Materials',
+  guide: 'Guide',
+};
+
+const EXTENSION_TYPES: Record<string, RobotFileType | null> = {
+  urdf: 'urdf',
+  xacro: 'urdf',
+  mjcf: 'mjcf',
+  // Both URDF and MJCF ship as .xml, only the root element tells them apart
+  xml: null,
+  stl: 'stl',
+  csv: 'bom',
+  tsv: 'bom',
+  xls: 'bom',
+  xlsx: 'bom',
+  ods: 'bom',
+  md: 'guide',
+  markdown: 'guide',
+  pdf: 'guide',
+};
+
+// Enough for an XML prolog, an STL header or a few CSV rows
+export const SNIFF_BYTES = 4096;
+
+export interface FileTypeDetection {
+  type: RobotFileType | null;
+  source: 'content' | 'extension' | null;
+}
+
+const startsWithBytes = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, i) => bytes[i] === byte);
+
+const decodeAscii = (bytes: Uint8Array) =>
+  String.fromCharCode(...bytes.subarray(0, SNIFF_BYTES));
+
+/**
+ * Get the file type implied by the URL's extension
+ */
+export function detectFileTypeFromUrl(url: string): RobotFileType | null {
+  if (/docs\.google\.com\/spreadsheets\//.test(url)) return 'bom';
+
+  const path = url.trim().split(/[?#]/)[0];
+  const filename = path.split('/').pop() || '';
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+  return EXTENSION_TYPES[extension] ?? null;
+}
+
+/**
+ * Get the XML root element name, skipping the prolog, comments and doctype
+ */
+function xmlRootName(text: string): string | null {
+  const body = text
+    .replace(/^\xEF\xBB\xBF/, '') // UTF-8 byte order mark
+    .replace(/<\?[\s\S]*?\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '')
+    .trimStart();
+  return body.startsWith('<') ? body.match(/^<([A-Za-z_][\w:.-]*)/)?.[1] ?? null : null;
+}
+
+/**
+ * Identify a file from its first bytes. Only returns a type for unambiguous
+ * signatures: XML roots, STL headers, PDF and spreadsheet containers.
+ * `totalSize` is the full file size, used to validate binary STL headers.
+ */
+export function sniffFileType(bytes: Uint8Array, totalSize = bytes.length): RobotFileType | null {
+  if (startsWithBytes(bytes, [0x25, 0x50, 0x44, 0x46])) return 'guide'; // %PDF
+  // XLSX/ODS are zip containers, legacy XLS is an OLE compound file
+  if (startsWithBytes(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'bom';
+  if (startsWithBytes(bytes, [0xd0, 0xcf, 0x11, 0xe0])) return 'bom';
+
+  if (bytes.length >= 84) {
+    const triangleCount = new DataView(bytes.buffer, bytes.byteOffset, 84).getUint32(80, true);
+    if (totalSize === 84 + triangleCount * 50) return 'stl';
+  }
+
+  const text = decodeAscii(bytes);
+  const root = xmlRootName(text);
+  if (root === 'robot') return 'urdf';
+  if (root === 'mujoco') return 'mjcf';
+  if (/^\s*solid\b/.test(text) && /\bfacet\b/.test(text)) return 'stl';
+
+  return null;
+}
+
+/**
+ * Weak guesses for plain text files without a telling extension
+ */
+function guessTextFileType(bytes: Uint8Array): RobotFileType | null {
+  const lines = decodeAscii(bytes)
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .slice(0, 10);
+  // The sniffed chunk may end mid-row
+  const rows = lines.length > 2 ? lines.slice(0, -1) : lines;
+
+  for (const delimiter of [',', '\t']) {
+    const counts = rows.map((line) => line.split(delimiter).length - 1);
+    if (rows.length >= 2 && counts[0] > 0 && counts.every((count) => count === counts[0])) {
+      return 'bom';
+    }
+  }
+
+  if (lines.some((line) => /^#{1,6}\s/.test(line) || /^\d+\.\s/.test(line))) {
+    return 'guide';
+  }
+
+  return null;
+}
+
+/**
+ * Detect a contributed file's type from its URL and content.
+ * Content signatures win over the extension; if the file can't be fetched
+ * (CORS, network) the extension alone decides.
+ */
+export async function detectFileType(
+  url: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<FileTypeDetection> {
+  const fromExtension = detectFileTypeFromUrl(url);
+
+  try {
+    const response = await fetchImpl(url, {
+      headers: { Range: `bytes=0-${SNIFF_BYTES - 1}` },
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    // 206 responses carry the full size in Content-Range: "bytes 0-4095/123456"
+    const contentRange = response.headers.get('content-range');
+    const totalSize = contentRange
+      ? Number(contentRange.split('/').pop())
+      : Number(response.headers.get('content-length')) || undefined;
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const sniffed = sniffFileType(bytes.subarray(0, SNIFF_BYTES), totalSize ?? bytes.length);
+    if (sniffed) return { type: sniffed, source: 'content' };
+
+    if (!fromExtension) {
+      const guessed = guessTextFileType(bytes);
+      if (guessed) return { type: guessed, source: 'content' };
+    }
+  } catch (error) {
+    console.warn('Could not sniff file content:', error);
+  }
+
+  return fromExtension
+    ? { type: fromExtension, source: 'extension' }
+    : { type: null, source: null };
+}
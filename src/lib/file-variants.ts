@@ -0,0 +1,55 @@
+/**
+ * Robot file variants
+ * Files can derive from another file of the same type (a URDF with a
+ * different gripper, an STL with a thicker wall). Lists show each original
+ * with its variants nested underneath.
+ */
+
+import type { RobotFile } from './types';
+
+export interface FileVariantGroup {
+  file: RobotFile;
+  // Every file derived from it, directly or through another variant
+  variants: RobotFile[];
+}
+
+/**
+ * The oldest ancestor of a file that is present in the list
+ */
+function findRoot(file: RobotFile, byId: Map<string, RobotFile>): RobotFile {
+  const seen = new Set<string>([file.id]);
+  let current = file;
+
+  while (current.parent_file_id) {
+    const parent = byId.get(current.parent_file_id);
+    // Missing parents (deleted, or another type) and loops end the walk
+    if (!parent || seen.has(parent.id)) break;
+    seen.add(parent.id);
+    current = parent;
+  }
+
+  return current;
+}
+
+/**
+ * Nest variants under their original file. Originals and variants both keep
+ * the order they had in the list.
+ */
+export function groupFileVariants(files: RobotFile[]): FileVariantGroup[] {
+  const byId = new Map(files.map((file) => [file.id, file]));
+  const groups = new Map<string, FileVariantGroup>();
+
+  for (const file of files) {
+    const root = findRoot(file, byId);
+    if (root === file) {
+      groups.set(file.id, { file, variants: groups.get(file.id)?.variants || [] });
+    } else {
+      const group = groups.get(root.id) || { file: root, variants: [] };
+      group.variants.push(file);
+      groups.set(root.id, group);
+    }
+  }
+
+  // A variant ranked above its original created the group early; restore the originals' order
+  return files.filter((file) => groups.has(file.id)).map((file) => groups.get(file.id)!);
+}
@@ -0,0 +1,106 @@
+/**
+ * Robot file versions
+ * Semver parsing and ordering for file version chains. Versions that aren't
+ * semver (older files were added with free-form versions) sort below every
+ * semver version, like the database trigger that moves the latest pointer.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+// Also accepts a leading "v" and missing minor/patch parts ("v1.2")
+const SEMVER_PATTERN =
+  /^v?(\d{1,9})(?:\.(\d{1,9}))?(?:\.(\d{1,9}))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a version string, null if it isn't semver
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(SEMVER_PATTERN);
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+export const isValidVersion = (version: string) => parseVersion(version) !== null;
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release outranks its pre-releases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) {
+      const difference = Number(a[i]) - Number(b[i]);
+      if (difference !== 0) return difference;
+    } else if (aNumeric !== bNumeric) {
+      // Numeric identifiers rank below alphanumeric ones
+      return aNumeric ? -1 : 1;
+    } else if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Compare two versions by semver precedence. Negative when a is older.
+ * public.compare_versions applies the same rules in the database.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+
+  if (!left || !right) {
+    return (left ? 1 : 0) - (right ? 1 : 0);
+  }
+
+  return (
+    left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch ||
+    comparePrerelease(left.prerelease, right.prerelease)
+  );
+}
+
+/**
+ * Sort versions newest first. Equal versions (or two non-semver ones) fall
+ * back to the order they were added in.
+ */
+export function sortVersionsDescending<T extends { version: string; created_at: string }>(
+  versions: T[]
+): T[] {
+  return [...versions].sort(
+    (a, b) =>
+      compareVersions(b.version, a.version) ||
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+}
+
+/**
+ * Suggest the next patch version after the latest one
+ */
+export function suggestNextVersion(latest: string | null | undefined): string {
+  const parsed = latest ? parseVersion(latest) : null;
+  if (!parsed) return '1.0.0';
+
+  // 1.1.0-rc.1 is followed by the 1.1.0 release
+  if (parsed.prerelease.length > 0) {
+    return `${parsed.major}.${parsed.minor}.${parsed.patch}`;
+  }
+  return `${parsed.major}.${parsed.minor}.${parsed.patch + 1}`;
+}
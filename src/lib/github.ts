@@ -118,4 +118,187 @@ async function detectBranchByTesting(owner: string, repo: string): Promise<strin
   }
   
   return 'main'; // Default fallback
-}
\ No newline at end of file
+}
+
+export interface GitHubRepoRef {
+  owner: string
+  repo: string
+  // Only known when the URL points into a branch (blob/tree/raw URLs)
+  branch?: string
+  path?: string
+}
+
+export interface GitHubTreeEntry {
+  path: string
+  type: 'blob' | 'tree'
+  size?: number
+}
+
+/**
+ * Extract owner, repo and (when present) branch and path from a GitHub URL.
+ * Understands repo URLs, blob/tree URLs and raw.githubusercontent.com URLs.
+ */
+export function parseGitHubUrl(url: string): GitHubRepoRef | null {
+  const decodePath = (path: string) => {
+    try {
+      return decodeURIComponent(path)
+    } catch {
+      return path
+    }
+  }
+
+  const rawMatch = url.match(/raw\.githubusercontent\.com\/([^\/]+)\/([^\/]+)\/([^\/]+)\/?([^?#]*)/)
+  if (rawMatch) {
+    const [, owner, repo, branch, path] = rawMatch
+    return { owner, repo, branch, path: decodePath(path) }
+  }
+
+  const match = url.match(/github\.com\/([^\/]+)\/([^\/?#]+)(?:\/(?:blob|tree|raw)\/([^\/]+)\/?([^?#]*))?/)
+  if (!match) {
+    return null
+  }
+
+  const [, owner, repo, branch, path] = match
+  return {
+    owner,
+    repo: repo.replace(/\.git$/, ''), // Remove .git suffix if present
+    ...(branch && { branch, path: decodePath(path) }),
+  }
+}
+
+/**
+ * Build the raw.githubusercontent.com URL of a file in a repository
+ */
+export function getRawGitHubUrl(owner: string, repo: string, branch: string, path: string): string {
+  const cleanPath = path.split('/').filter(Boolean).map(encodeURIComponent).join('/')
+  return `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${cleanPath}`
+}
+
+/**
+ * Point github.com/.../blob/... file URLs at their raw content; other URLs pass through
+ */
+export function toRawGitHubUrl(url: string): string {
+  const ref = parseGitHubUrl(url)
+  if (!ref?.branch || !ref.path) {
+    return url
+  }
+  return getRawGitHubUrl(ref.owner, ref.repo, ref.branch, ref.path)
+}
+
+/**
+ * List every file and folder in a repository branch
+ */
+export async function fetchRepositoryTree(owner: string, repo: string, branch: string): Promise<GitHubTreeEntry[]> {
+  const apiUrl = `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(branch)}?recursive=1`
+
+  const response = await fetch(apiUrl, {
+    headers: {
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'Robot-Catalog-App',
+      ...(process.env.GITHUB_TOKEN && { 'Authorization': `token ${process.env.GITHUB_TOKEN}` })
+    }
+  })
+
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  if (data.truncated) {
+    console.warn(`Repository tree for ${owner}/${repo} was truncated by GitHub`)
+  }
+
+  return (data.tree || [])
+    .filter((entry: { type: string }) => entry.type === 'blob' || entry.type === 'tree')
+    .map((entry: { path: string; type: 'blob' | 'tree'; size?: number }) => ({
+      path: entry.path,
+      type: entry.type,
+      size: entry.size,
+    }))
+}
+
+export interface GitHubRepoActivity {
+  stars: number
+  forks: number
+  openIssues: number
+  pushedAt: string | null
+  archived: boolean
+}
+
+/**
+ * Stars, forks, open issues and last push of a repository, or null when it
+ * doesn't exist (anymore)
+ */
+export async function fetchRepositoryActivity(githubUrl: string): Promise<GitHubRepoActivity | null> {
+  const ref = parseGitHubUrl(githubUrl)
+  if (!ref) {
+    return null
+  }
+
+  const response = await fetch(`https://api.github.com/repos/${ref.owner}/${ref.repo}`, {
+    headers: {
+      'Accept': 'application/vnd.github.v3+json',
+      'User-Agent': 'Robot-Catalog-App'
+    }
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  return {
+    stars: data.stargazers_count ?? 0,
+    forks: data.forks_count ?? 0,
+    openIssues: data.open_issues_count ?? 0,
+    pushedAt: data.pushed_at ?? null,
+    archived: Boolean(data.archived),
+  }
+}
+
+/**
+ * Text of a file in a repository branch, or null when it doesn't exist
+ */
+export async function fetchRepositoryFile(owner: string, repo: string, branch: string, path: string): Promise<string | null> {
+  const response = await fetch(getRawGitHubUrl(owner, repo, branch, path), {
+    headers: {
+      'User-Agent': 'Robot-Catalog-App'
+    }
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(`GitHub error: ${response.status} ${response.statusText}`)
+  }
+
+  return response.text()
+}
+
+/**
+ * Whether a user is a collaborator on a repository. GitHub only answers this
+ * for tokens with push access, so without GITHUB_TOKEN it is always false.
+ */
+export async function isRepositoryCollaborator(owner: string, repo: string, username: string): Promise<boolean> {
+  if (!process.env.GITHUB_TOKEN) {
+    return false
+  }
+
+  const response = await fetch(
+    `https://api.github.com/repos/${owner}/${repo}/collaborators/${encodeURIComponent(username)}`,
+    {
+      headers: {
+        'Accept': 'application/vnd.github.v3+json',
+        'User-Agent': 'Robot-Catalog-App',
+        'Authorization': `token ${process.env.GITHUB_TOKEN}`
+      }
+    }
+  )
+
+  // 204 means collaborator; 404 means not, and 403 that the token can't tell
+  return response.status === 204
+}
@@ -0,0 +1,282 @@
+/**
+ * Assembly guide parser
+ * Splits Markdown guides into numbered steps, each with its images and the
+ * parts it uses. PDF guides become one step per page.
+ */
+
+import { toRawGitHubUrl } from './github';
+
+export interface GuideImage {
+  src: string;
+  alt: string;
+}
+
+export interface GuideStep {
+  // Stable across edits that don't rename the step, used to save progress
+  key: string;
+  number: number;
+  title: string;
+  // Markdown without the images and the parts list
+  body: string;
+  images: GuideImage[];
+  parts: string[];
+  // PDF page shown for this step
+  page?: number;
+}
+
+export interface Guide {
+  format: 'markdown' | 'pdf';
+  title: string | null;
+  intro: string;
+  steps: GuideStep[];
+}
+
+interface Heading {
+  line: number;
+  level: number;
+  text: string;
+}
+
+// "Step 3: Mount the base", "3. Mount the base", "3) Mount the base" but not "3D printing"
+const NUMBERED_TITLE = /^(?:step\s*\d+\s*[.:)\-–]?|\d+\s*[.:)\-–])\s*/i;
+const PARTS_HEADING = /^(?:parts(?:\s+used)?|parts\s+list|materials|components|bom|hardware|you(?:'ll| will)\s+need)\s*:?$/i;
+const IMAGE_MARKDOWN = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g;
+const IMAGE_HTML = /<img\b[^>]*?\bsrc\s*=\s*["']([^"']+)["'][^>]*>/gi;
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60);
+
+const stripInlineMarkdown = (text: string) =>
+  text
+    .replace(/\*\*|__|`/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .trim();
+
+function findHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence) return;
+
+    const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) headings.push({ line: index, level: match[1].length, text: match[2] });
+  });
+
+  return headings;
+}
+
+/**
+ * Pick the heading level steps are written at: the level of the first
+ * numbered heading, otherwise the highest level used at least twice
+ */
+function stepHeadingLevel(headings: Heading[]): number | null {
+  const numbered = headings.find((heading) => NUMBERED_TITLE.test(stripInlineMarkdown(heading.text)));
+  if (numbered) return numbered.level;
+
+  for (let level = 1; level <= 3; level++) {
+    if (headings.filter((heading) => heading.level === level).length >= 2) return level;
+  }
+  return null;
+}
+
+/**
+ * Pull the parts list out of a step: a "Parts"/"You'll need" heading or bold
+ * line followed by a list, or an inline "Parts: a, b, c" line
+ */
+function extractParts(lines: string[]): { parts: string[]; rest: string[] } {
+  const parts: string[] = [];
+  const rest: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const label = stripInlineMarkdown(lines[i].replace(/^#{1,6}\s+/, '')).replace(/\*/g, '');
+    const inline = label.match(/^(?:parts(?:\s+used)?|materials|you(?:'ll| will)\s+need)\s*:\s*(.+)$/i);
+
+    if (inline) {
+      parts.push(...inline[1].split(/[,;]/).map((part) => part.trim()).filter(Boolean));
+      continue;
+    }
+
+    if (PARTS_HEADING.test(label)) {
+      let j = i + 1;
+      while (j < lines.length && !lines[j].trim()) j++;
+      while (j < lines.length && /^\s*([-*+]|\d+[.)])\s+/.test(lines[j])) {
+        parts.push(stripInlineMarkdown(lines[j].replace(/^\s*([-*+]|\d+[.)])\s+/, '')));
+        j++;
+      }
+      i = j - 1;
+      continue;
+    }
+
+    rest.push(lines[i]);
+  }
+
+  return { parts, rest };
+}
+
+function extractImages(markdown: string, baseUrl: string): { images: GuideImage[]; body: string } {
+  const images: GuideImage[] = [];
+  const resolve = (src: string) => {
+    try {
+      return toRawGitHubUrl(new URL(src, baseUrl).toString());
+    } catch {
+      return src;
+    }
+  };
+
+  const body = markdown
+    .replace(IMAGE_MARKDOWN, (_, alt: string, src: string) => {
+      images.push({ src: resolve(src), alt });
+      return '';
+    })
+    .replace(IMAGE_HTML, (tag: string, src: string) => {
+      images.push({ src: resolve(src), alt: tag.match(/\balt\s*=\s*["']([^"']*)["']/i)?.[1] || '' });
+      return '';
+    });
+
+  return { images, body };
+}
+
+function buildStep(title: string, lines: string[], number: number, baseUrl: string, usedKeys: Set<string>): GuideStep {
+  const { parts, rest } = extractParts(lines);
+  const { images, body } = extractImages(rest.join('\n'), baseUrl);
+
+  let key = slugify(title) || `step-${number}`;
+  for (let n = 2; usedKeys.has(key); n++) key = `${slugify(title) || 'step'}-${n}`;
+  usedKeys.add(key);
+
+  return {
+    key,
+    number,
+    title,
+    body: body.replace(/\n{3,}/g, '\n\n').trim(),
+    images,
+    parts,
+  };
+}
+
+/**
+ * Split a Markdown guide into steps. Steps are the headings at the step level
+ * or, in guides without headings, the items of the top-level numbered list.
+ * Relative image paths resolve against baseUrl.
+ */
+export function parseMarkdownGuide(markdown: string, baseUrl: string): Guide {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const headings = findHeadings(lines);
+  const level = stepHeadingLevel(headings);
+  const usedKeys = new Set<string>();
+
+  // A lone top-level heading above the steps is the guide's title
+  const titleHeading = headings.find((heading) => heading.level === 1 && heading.level !== level);
+  const title = titleHeading ? stripInlineMarkdown(titleHeading.text) : null;
+
+  if (level !== null) {
+    const stepHeadings = headings.filter((heading) => heading.level === level);
+    const introLines = lines
+      .slice(0, stepHeadings[0].line)
+      .filter((_, index) => index !== titleHeading?.line);
+
+    const steps = stepHeadings.map((heading, index) => {
+      // A step runs until the next heading at its level or above
+      const end =
+        headings.find((next) => next.line > heading.line && next.level <= level)?.line ?? lines.length;
+      const stepTitle = stripInlineMarkdown(heading.text).replace(NUMBERED_TITLE, '') || `Step ${index + 1}`;
+      return buildStep(stepTitle, lines.slice(heading.line + 1, end), index + 1, baseUrl, usedKeys);
+    });
+
+    return { format: 'markdown', title, intro: introLines.join('\n').trim(), steps };
+  }
+
+  // No usable headings: every top-level "1." item is a step, indented lines belong to it
+  const steps: GuideStep[] = [];
+  const introLines: string[] = [];
+  let current: { title: string; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (current) steps.push(buildStep(current.title, current.lines, steps.length + 1, baseUrl, usedKeys));
+  };
+
+  lines.forEach((line, index) => {
+    if (index === titleHeading?.line) return;
+
+    const item = line.match(/^\d+[.)]\s+(.*)$/);
+    if (item) {
+      flush();
+      current = { title: stripInlineMarkdown(item[1]), lines: [] };
+    } else if (current) {
+      current.lines.push(line.replace(/^ {2,4}/, ''));
+    } else {
+      introLines.push(line);
+    }
+  });
+  flush();
+
+  if (steps.length === 0) {
+    return {
+      format: 'markdown',
+      title,
+      intro: '',
+      steps: [buildStep(title || 'Guide', introLines, 1, baseUrl, usedKeys)],
+    };
+  }
+
+  return { format: 'markdown', title, intro: introLines.join('\n').trim(), steps };
+}
+
+/**
+ * Count the pages of a PDF from its page objects. Good enough for step
+ * navigation; returns 0 when the page tree is compressed away.
+ */
+export function countPdfPages(bytes: Uint8Array): number {
+  let text = '';
+  // Chunked so large files don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return (text.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+}
+
+/**
+ * One step per PDF page
+ */
+export function pdfGuide(pageCount: number): Guide {
+  return {
+    format: 'pdf',
+    title: null,
+    intro: '',
+    steps: Array.from({ length: Math.max(pageCount, 1) }, (_, index) => ({
+      key: `page-${index + 1}`,
+      number: index + 1,
+      title: `Page ${index + 1}`,
+      body: '',
+      images: [],
+      parts: [],
+      page: index + 1,
+    })),
+  };
+}
+
+/**
+ * Fetch a guide and split it into steps
+ */
+export async function fetchGuide(url: string, fetchImpl: typeof fetch = fetch): Promise<Guide> {
+  const fileUrl = toRawGitHubUrl(url);
+  const response = await fetchImpl(fileUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch guide: ${response.status} ${response.statusText}`);
+  }
+
+  const isPdf =
+    /\.pdf$/i.test(fileUrl.split(/[?#]/)[0]) ||
+    !!response.headers.get('content-type')?.includes('pdf');
+
+  if (isPdf) {
+    return pdfGuide(countPdfPages(new Uint8Array(await response.arrayBuffer())));
+  }
+  return parseMarkdownGuide(await response.text(), fileUrl);
+}
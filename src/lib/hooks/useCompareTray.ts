@@ -0,0 +1,74 @@
+import useSWR from "swr";
+import { toast } from "sonner";
+import { MAX_COMPARED_ROBOTS } from "@/lib/robot-compare";
+
+export interface CompareTrayRobot {
+  slug: string;
+  name: string;
+}
+
+const COMPARE_TRAY_STORAGE_KEY = "robot-compare-tray";
+
+const loadCompareTray = (): CompareTrayRobot[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(COMPARE_TRAY_STORAGE_KEY) || "[]");
+    return Array.isArray(stored)
+      ? stored
+          .filter((robot) => typeof robot?.slug === "string" && typeof robot?.name === "string")
+          .slice(0, MAX_COMPARED_ROBOTS)
+      : [];
+  } catch (error) {
+    console.error("Failed to load comparison tray:", error);
+    return [];
+  }
+};
+
+// The tray lives in localStorage and is shared through the SWR cache, so every
+// card, search result and the tray itself see the same list
+export function useCompareTray() {
+  const { data: robots = [], mutate } = useSWR<CompareTrayRobot[]>(
+    "compare-tray",
+    loadCompareTray,
+    {
+      revalidateOnFocus: false,
+      revalidateIfStale: false,
+    }
+  );
+
+  const save = (next: CompareTrayRobot[]) => {
+    try {
+      localStorage.setItem(COMPARE_TRAY_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.error("Failed to save comparison tray:", error);
+    }
+    mutate(next, false);
+  };
+
+  const isInTray = (slug: string) => robots.some((robot) => robot.slug === slug);
+
+  const add = (robot: CompareTrayRobot) => {
+    if (isInTray(robot.slug)) return;
+    if (robots.length >= MAX_COMPARED_ROBOTS) {
+      toast.error(`You can compare up to ${MAX_COMPARED_ROBOTS} robots at a time`);
+      return;
+    }
+    save([...robots, { slug: robot.slug, name: robot.name }]);
+  };
+
+  const remove = (slug: string) => {
+    save(robots.filter((robot) => robot.slug !== slug));
+  };
+
+  const toggle = (robot: CompareTrayRobot) => {
+    if (isInTray(robot.slug)) {
+      remove(robot.slug);
+    } else {
+      add(robot);
+    }
+  };
+
+  const clear = () => save([]);
+
+  return { robots, isInTray, add, remove, toggle, clear };
+}
@@ -0,0 +1,64 @@
+import useSWR from "swr";
+import { supabase } from "@/lib/supabase";
+import { sortMaintainers } from "@/lib/robot-maintainers";
+import type { Profile, RobotMaintainer, RobotMaintainerInvitation } from "@/lib/types";
+
+export type MaintainerProfile = Pick<
+  Profile,
+  "id" | "username" | "full_name" | "avatar_url" | "github_username"
+>;
+
+export type RobotMaintainerWithProfile = RobotMaintainer & {
+  profile: MaintainerProfile | null;
+};
+
+export type RobotMaintainerInvitationWithProfile = RobotMaintainerInvitation & {
+  invitee: MaintainerProfile | null;
+};
+
+export interface RobotMaintainersData {
+  maintainers: RobotMaintainerWithProfile[];
+  // Pending invitations; only visible to maintainers and admins
+  invitations: RobotMaintainerInvitationWithProfile[];
+}
+
+const robotMaintainersFetcher = async (robotId: string): Promise<RobotMaintainersData> => {
+  const [maintainersResult, invitationsResult] = await Promise.all([
+    supabase
+      .from("robot_maintainers")
+      .select(
+        "*, profile:profiles!robot_maintainers_user_id_fkey (id, username, full_name, avatar_url, github_username)"
+      )
+      .eq("robot_id", robotId),
+    supabase
+      .from("robot_maintainer_invitations")
+      .select(
+        "*, invitee:profiles!robot_maintainer_invitations_invitee_id_fkey (id, username, full_name, avatar_url, github_username)"
+      )
+      .eq("robot_id", robotId)
+      .eq("status", "pending")
+      .order("created_at", { ascending: true }),
+  ]);
+
+  if (maintainersResult.error) {
+    throw new Error(`Failed to fetch robot maintainers: ${maintainersResult.error.message}`);
+  }
+
+  return {
+    maintainers: sortMaintainers(
+      (maintainersResult.data || []) as RobotMaintainerWithProfile[]
+    ),
+    invitations: (invitationsResult.data || []) as RobotMaintainerInvitationWithProfile[],
+  };
+};
+
+export function useRobotMaintainers(robotId: string) {
+  return useSWR(
+    robotId ? `robot-maintainers-${robotId}` : null,
+    () => robotMaintainersFetcher(robotId),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000, // Cache for 1 minute
+    }
+  );
+}
@@ -0,0 +1,28 @@
+import useSWR from "swr";
+import { supabase } from "@/lib/supabase";
+import { sortMedia } from "@/lib/robot-media";
+import type { RobotMedia } from "@/lib/types";
+
+const robotMediaFetcher = async (robotId: string): Promise<RobotMedia[]> => {
+  const { data, error } = await supabase
+    .from("robot_media")
+    .select("*")
+    .eq("robot_id", robotId);
+
+  if (error) {
+    throw new Error(`Failed to fetch robot media: ${error.message}`);
+  }
+
+  return sortMedia(data || []);
+};
+
+export function useRobotMedia(robotId: string) {
+  return useSWR(
+    robotId ? `robot-media-${robotId}` : null,
+    () => robotMediaFetcher(robotId),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 60000, // Cache for 1 minute
+    }
+  );
+}
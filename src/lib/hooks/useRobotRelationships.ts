@@ -0,0 +1,86 @@
+import useSWR from "swr";
+import { supabase } from "@/lib/supabase";
+import { LINEAGE_TYPES } from "@/lib/robot-relationships";
+import type { Robot, RobotRelationship } from "@/lib/types";
+
+export type RelatedRobot = Pick<Robot, "id" | "name" | "slug">;
+
+export interface RobotRelationshipsData {
+  relationships: RobotRelationship[];
+  // Every robot mentioned in the relationships, by id
+  robots: Record<string, RelatedRobot>;
+}
+
+// Lineages are short; this only stops a runaway walk over bad data
+const MAX_LINEAGE_DEPTH = 10;
+
+const relationshipsFetcher = async (
+  robotId: string
+): Promise<RobotRelationshipsData> => {
+  const relationships = new Map<string, RobotRelationship>();
+  const visited = new Set<string>();
+  let frontier = [robotId];
+
+  // The robot's own links, then keep walking variant and successor links so
+  // the whole lineage is known
+  for (let depth = 0; depth < MAX_LINEAGE_DEPTH && frontier.length > 0; depth++) {
+    frontier.forEach((id) => visited.add(id));
+    const ids = frontier.join(",");
+
+    const { data, error } = await supabase
+      .from("robot_relationships")
+      .select("*")
+      .or(`robot_id.in.(${ids}),related_robot_id.in.(${ids})`);
+
+    if (error) {
+      throw new Error(`Failed to fetch robot relationships: ${error.message}`);
+    }
+
+    const next = new Set<string>();
+    for (const relationship of data || []) {
+      relationships.set(relationship.id, relationship);
+      if (!LINEAGE_TYPES.includes(relationship.relationship_type)) continue;
+      for (const id of [relationship.robot_id, relationship.related_robot_id]) {
+        if (!visited.has(id)) next.add(id);
+      }
+    }
+    frontier = [...next];
+  }
+
+  const robotIds = new Set<string>([robotId]);
+  relationships.forEach((relationship) => {
+    robotIds.add(relationship.robot_id);
+    robotIds.add(relationship.related_robot_id);
+  });
+
+  const { data: robots, error } = await supabase
+    .from("robots")
+    .select("id, name, slug")
+    .in("id", [...robotIds]);
+
+  if (error) {
+    throw new Error(`Failed to fetch related robots: ${error.message}`);
+  }
+
+  const robotsById = Object.fromEntries((robots || []).map((robot) => [robot.id, robot]));
+
+  return {
+    // Drop links to robots the viewer can't see, e.g. someone else's draft
+    relationships: [...relationships.values()].filter(
+      (relationship) =>
+        robotsById[relationship.robot_id] && robotsById[relationship.related_robot_id]
+    ),
+    robots: robotsById,
+  };
+};
+
+export function useRobotRelationships(robotId: string) {
+  return useSWR(
+    robotId ? `robot-relationships-${robotId}` : null,
+    () => relationshipsFetcher(robotId),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 300000, // Cache for 5 minutes
+    }
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * Mesh path resolver
+ * URDF and MJCF files reference meshes as `package://<pkg>/...`, `model://...`
+ * or paths relative to the file. Served from a raw URL those mean nothing, so
+ * this maps ROS package names to repository folders (via their package.xml)
+ * and rewrites mesh references into fetchable raw GitHub URLs.
+ */
+
+import {
+  fetchRepositoryTree,
+  getRawGitHubUrl,
+  getRepositoryDefaultBranch,
+  parseGitHubUrl,
+  toRawGitHubUrl,
+  type GitHubTreeEntry,
+} from './github';
+import { guessPackageRoot } from './urdf-parser';
+import { childElement, parseXml } from './xml';
+
+// ROS package name -> folder in the repository ('' for the repository root)
+export type RosPackageMap = Record<string, string>;
+
+export interface MeshResolverContext {
+  // URL of the URDF/MJCF file the mesh paths appear in
+  fileUrl: string;
+  repo: { owner: string; repo: string; branch: string } | null;
+  packages: RosPackageMap;
+}
+
+export type MeshPathResolver = (meshPath: string) => string | null;
+
+// Repositories with dozens of packages exist, but reading every package.xml is slow
+const MAX_PACKAGE_FILES = 50;
+const PACKAGE_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+const packageCache = new Map<string, { packages: RosPackageMap; expires: number }>();
+
+/**
+ * Get the folders that contain a package.xml
+ */
+export function findPackageDirectories(tree: GitHubTreeEntry[]): string[] {
+  return tree
+    .filter((entry) => entry.type === 'blob' && /(^|\/)package\.xml$/.test(entry.path))
+    .map((entry) => entry.path.replace(/\/?package\.xml$/, ''));
+}
+
+/**
+ * Read the package name from a package.xml, null if it isn't one
+ */
+export function parsePackageName(packageXml: string): string | null {
+  try {
+    const root = parseXml(packageXml);
+    if (root.name !== 'package') return null;
+    return childElement(root, 'name')?.text.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map ROS package names to repository folders. The folder name is used
+ * when a package.xml can't be read, which matches ROS conventions.
+ */
+export async function discoverRosPackages(
+  tree: GitHubTreeEntry[],
+  readFile: (path: string) => Promise<string>
+): Promise<RosPackageMap> {
+  const directories = findPackageDirectories(tree).slice(0, MAX_PACKAGE_FILES);
+
+  const entries = await Promise.all(
+    directories.map(async (directory) => {
+      const fallbackName = directory.split('/').pop() || '';
+      try {
+        const name = parsePackageName(await readFile(directory ? `${directory}/package.xml` : 'package.xml'));
+        return [name || fallbackName, directory] as const;
+      } catch {
+        return [fallbackName, directory] as const;
+      }
+    })
+  );
+
+  return Object.fromEntries(entries.filter(([name]) => name));
+}
+
+/**
+ * Get the raw URL each package's files are served from
+ */
+export function packageRootUrls(context: MeshResolverContext): Record<string, string> {
+  const { repo, packages } = context;
+  if (!repo) return {};
+
+  return Object.fromEntries(
+    Object.entries(packages).map(([name, directory]) => [
+      name,
+      getRawGitHubUrl(repo.owner, repo.repo, repo.branch, directory).replace(/\/$/, ''),
+    ])
+  );
+}
+
+/**
+ * Turn a mesh reference into a fetchable URL, relative to the model file.
+ * Returns null for references that can never resolve (local file paths).
+ */
+export function resolveMeshPath(meshPath: string, context: MeshResolverContext): string | null {
+  const packageMatch = meshPath.match(/^(?:package|model):\/\/([^/]+)\/(.*)$/);
+  if (packageMatch) {
+    const [, packageName, rest] = packageMatch;
+    const directory = context.packages[packageName];
+    if (directory !== undefined && context.repo) {
+      const { owner, repo, branch } = context.repo;
+      return getRawGitHubUrl(owner, repo, branch, directory ? `${directory}/${rest}` : rest);
+    }
+    // Unknown package: assume the file sits inside the package folder
+    return `${guessPackageRoot(context.fileUrl, packageName)}/${rest}`;
+  }
+  if (meshPath.startsWith('file://')) return null;
+
+  try {
+    return new URL(meshPath, context.fileUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rewrite every `<mesh filename>` in a URDF document to its resolved URL.
+ * Unresolvable references are left as they are.
+ */
+export function rewriteMeshReferences(source: string, resolve: MeshPathResolver): string {
+  return source.replace(
+    /(<mesh\b[^>]*?\sfilename\s*=\s*)(["'])([^"']*)\2/g,
+    (match, prefix: string, quote: string, meshPath: string) => {
+      const resolved = resolve(meshPath);
+      return resolved ? `${prefix}${quote}${resolved}${quote}` : match;
+    }
+  );
+}
+
+/**
+ * Build the resolver context for a model file. The repository comes from the
+ * file URL when it points at GitHub, otherwise from the robot's repository.
+ */
+export async function loadMeshResolverContext(
+  fileUrl: string,
+  repositoryUrl?: string | null
+): Promise<MeshResolverContext> {
+  const fileRef = parseGitHubUrl(fileUrl);
+  const ref = fileRef || (repositoryUrl ? parseGitHubUrl(repositoryUrl) : null);
+  if (!ref) {
+    return { fileUrl, repo: null, packages: {} };
+  }
+
+  const branch = ref.branch || (await getRepositoryDefaultBranch(`https://github.com/${ref.owner}/${ref.repo}`));
+  const repo = { owner: ref.owner, repo: ref.repo, branch };
+
+  // Relative paths must resolve against the raw file, not a github.com/blob page
+  fileUrl = toRawGitHubUrl(fileUrl);
+  const cacheKey = `${ref.owner}/${ref.repo}@${branch}`;
+
+  const cached = packageCache.get(cacheKey);
+  if (cached && cached.expires > Date.now()) {
+    return { fileUrl, repo, packages: cached.packages };
+  }
+
+  try {
+    const tree = await fetchRepositoryTree(ref.owner, ref.repo, branch);
+    const packages = await discoverRosPackages(tree, async (path) => {
+      const response = await fetch(getRawGitHubUrl(ref.owner, ref.repo, branch, path));
+      if (!response.ok) throw new Error(`Failed to fetch ${path}: ${response.status}`);
+      return response.text();
+    });
+
+    packageCache.set(cacheKey, { packages, expires: Date.now() + PACKAGE_CACHE_TTL });
+    return { fileUrl, repo, packages };
+  } catch (error) {
+    console.error('Error discovering ROS packages:', error);
+    return { fileUrl, repo, packages: {} };
+  }
+}
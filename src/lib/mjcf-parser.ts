@@ -0,0 +1,551 @@
+/**
+ * MJCF (MuJoCo XML) parser
+ * Resolves <include> files and default classes, then reads the body tree,
+ * geoms, joints and actuators into plain objects. No three.js dependency,
+ * so it runs both in the browser and in API routes.
+ */
+
+import {
+  childElement,
+  childElements,
+  parseNumberList,
+  parseXml,
+  type XmlElement,
+} from './xml';
+
+export type Vec3 = [number, number, number];
+// MuJoCo quaternion order: w x y z
+export type Quat = [number, number, number, number];
+
+export type MjcfGeomType =
+  | 'plane'
+  | 'hfield'
+  | 'sphere'
+  | 'capsule'
+  | 'ellipsoid'
+  | 'cylinder'
+  | 'box'
+  | 'mesh'
+  | 'sdf';
+
+export type MjcfJointType = 'hinge' | 'slide' | 'ball' | 'free';
+
+export type MjcfControlMode = 'position' | 'torque' | 'velocity' | 'other';
+
+export interface MjcfGeom {
+  name: string | null;
+  type: MjcfGeomType;
+  size: number[];
+  pos: Vec3;
+  quat: Quat;
+  mesh: string | null;
+  rgba: [number, number, number, number];
+  mass: number | null;
+  group: number;
+}
+
+export interface MjcfJoint {
+  name: string;
+  type: MjcfJointType;
+  axis: Vec3;
+  pos: Vec3;
+  range: [number, number] | null;
+}
+
+export interface MjcfBody {
+  name: string;
+  pos: Vec3;
+  quat: Quat;
+  mass: number | null;
+  geoms: MjcfGeom[];
+  joints: MjcfJoint[];
+  children: MjcfBody[];
+}
+
+export interface MjcfActuator {
+  name: string;
+  kind: string;
+  joint: string | null;
+  control: MjcfControlMode;
+}
+
+export interface MjcfMesh {
+  name: string;
+  file: string;
+  scale: Vec3;
+}
+
+export interface MjcfModel {
+  name: string;
+  meshdir: string;
+  worldGeoms: MjcfGeom[];
+  bodies: MjcfBody[];
+  meshes: Record<string, MjcfMesh>;
+  actuators: MjcfActuator[];
+}
+
+export interface MjcfSummary {
+  bodyCount: number;
+  jointCount: number;
+  actuatedJoints: string[];
+  positionControlled: string[];
+  torqueControlled: string[];
+}
+
+export interface MjcfParseOptions {
+  /** Fetch the contents of an <include file="..."> path */
+  loadInclude?: (file: string) => Promise<string>;
+}
+
+const MAX_INCLUDE_DEPTH = 8;
+
+const ACTUATOR_TAGS = [
+  'motor',
+  'position',
+  'velocity',
+  'intvelocity',
+  'general',
+  'damper',
+  'cylinder',
+  'muscle',
+  'adhesion',
+];
+
+// ============================================================================
+// QUATERNION MATH
+// ============================================================================
+
+const IDENTITY: Quat = [1, 0, 0, 0];
+
+function multiplyQuat(a: Quat, b: Quat): Quat {
+  return [
+    a[0] * b[0] - a[1] * b[1] - a[2] * b[2] - a[3] * b[3],
+    a[0] * b[1] + a[1] * b[0] + a[2] * b[3] - a[3] * b[2],
+    a[0] * b[2] - a[1] * b[3] + a[2] * b[0] + a[3] * b[1],
+    a[0] * b[3] + a[1] * b[2] - a[2] * b[1] + a[3] * b[0],
+  ];
+}
+
+function normalize(v: number[]): number[] {
+  const length = Math.hypot(...v);
+  return length > 0 ? v.map((x) => x / length) : v;
+}
+
+function quatFromAxisAngle(axis: number[], angle: number): Quat {
+  const [x, y, z] = normalize(axis);
+  const s = Math.sin(angle / 2);
+  return [Math.cos(angle / 2), x * s, y * s, z * s];
+}
+
+// Shortest rotation taking +Z onto the given direction
+function quatFromZAxis(direction: number[]): Quat {
+  const [x, y, z] = normalize(direction);
+  if (z < -0.999999) return [0, 1, 0, 0];
+  return normalize([1 + z, -y, x, 0]) as Quat;
+}
+
+function quatFromEuler(angles: number[], sequence: string): Quat {
+  const axes: Record<string, Vec3> = { x: [1, 0, 0], y: [0, 1, 0], z: [0, 0, 1] };
+  return sequence.split('').reduce<Quat>((q, axisName, i) => {
+    const rotation = quatFromAxisAngle(axes[axisName.toLowerCase()], angles[i] || 0);
+    // lowercase: rotating axes (intrinsic), uppercase: fixed axes (extrinsic)
+    return axisName === axisName.toLowerCase()
+      ? multiplyQuat(q, rotation)
+      : multiplyQuat(rotation, q);
+  }, IDENTITY);
+}
+
+function quatFromXYAxes(values: number[]): Quat {
+  const x = normalize(values.slice(0, 3));
+  let y = values.slice(3, 6);
+  const dot = x[0] * y[0] + x[1] * y[1] + x[2] * y[2];
+  y = normalize(y.map((v, i) => v - dot * x[i]));
+  const z = [
+    x[1] * y[2] - x[2] * y[1],
+    x[2] * y[0] - x[0] * y[2],
+    x[0] * y[1] - x[1] * y[0],
+  ];
+  // Rotation matrix columns are x, y, z
+  const trace = x[0] + y[1] + z[2];
+  if (trace > 0) {
+    const s = Math.sqrt(trace + 1) * 2;
+    return [s / 4, (y[2] - z[1]) / s, (z[0] - x[2]) / s, (x[1] - y[0]) / s];
+  }
+  if (x[0] > y[1] && x[0] > z[2]) {
+    const s = Math.sqrt(1 + x[0] - y[1] - z[2]) * 2;
+    return [(y[2] - z[1]) / s, s / 4, (y[0] + x[1]) / s, (z[0] + x[2]) / s];
+  }
+  if (y[1] > z[2]) {
+    const s = Math.sqrt(1 + y[1] - x[0] - z[2]) * 2;
+    return [(z[0] - x[2]) / s, (y[0] + x[1]) / s, s / 4, (z[1] + y[2]) / s];
+  }
+  const s = Math.sqrt(1 + z[2] - x[0] - y[1]) * 2;
+  return [(x[1] - y[0]) / s, (z[0] + x[2]) / s, (z[1] + y[2]) / s, s / 4];
+}
+
+// ============================================================================
+// INCLUDES & DEFAULTS
+// ============================================================================
+
+async function resolveIncludes(
+  element: XmlElement,
+  options: MjcfParseOptions,
+  depth = 0
+): Promise<XmlElement> {
+  const children: XmlElement[] = [];
+
+  for (const child of element.children) {
+    if (child.name !== 'include') {
+      children.push(await resolveIncludes(child, options, depth));
+      continue;
+    }
+
+    const file = child.attributes.file;
+    if (!file || !options.loadInclude) {
+      throw new Error(`Cannot resolve <include file="${file ?? ''}">`);
+    }
+    if (depth >= MAX_INCLUDE_DEPTH) {
+      throw new Error(`Includes nested too deeply at ${file}`);
+    }
+
+    const included = await resolveIncludes(
+      parseXml(await options.loadInclude(file)),
+      options,
+      depth + 1
+    );
+    // An included file is a full <mujoco> document: splice in its children
+    children.push(...(included.name === 'mujoco' ? included.children : [included]));
+  }
+
+  return { ...element, children };
+}
+
+type DefaultClasses = Map<string, Record<string, Record<string, string>>>;
+
+function collectDefaults(
+  element: XmlElement,
+  inherited: Record<string, Record<string, string>>,
+  classes: DefaultClasses
+) {
+  const className = element.attributes.class || 'main';
+  const own: Record<string, Record<string, string>> = { ...inherited };
+
+  for (const child of element.children) {
+    if (child.name === 'default') continue;
+    own[child.name] = { ...(inherited[child.name] || {}), ...child.attributes };
+  }
+  classes.set(className, own);
+
+  for (const child of childElements(element, 'default')) {
+    collectDefaults(child, own, classes);
+  }
+}
+
+function withDefaults(
+  element: XmlElement,
+  classes: DefaultClasses,
+  childclass: string | undefined
+): Record<string, string> {
+  const className = element.attributes.class || childclass || 'main';
+  const defaults =
+    classes.get(className)?.[element.name] || classes.get('main')?.[element.name] || {};
+  return { ...defaults, ...element.attributes };
+}
+
+// ============================================================================
+// ELEMENT PARSERS
+// ============================================================================
+
+interface ParseContext {
+  classes: DefaultClasses;
+  useDegrees: boolean;
+  eulerseq: string;
+  materials: Record<string, [number, number, number, number]>;
+  unnamedJoints: number;
+}
+
+function toVec3(values: number[], fallback: Vec3): Vec3 {
+  return values.length >= 3 ? [values[0], values[1], values[2]] : fallback;
+}
+
+function toRadians(value: number, context: ParseContext) {
+  return context.useDegrees ? (value * Math.PI) / 180 : value;
+}
+
+function parseOrientation(attributes: Record<string, string>, context: ParseContext): Quat {
+  if (attributes.quat) {
+    const q = parseNumberList(attributes.quat);
+    return normalize(q) as Quat;
+  }
+  if (attributes.axisangle) {
+    const [x, y, z, angle] = parseNumberList(attributes.axisangle);
+    return quatFromAxisAngle([x, y, z], toRadians(angle, context));
+  }
+  if (attributes.euler) {
+    const angles = parseNumberList(attributes.euler).map((a) => toRadians(a, context));
+    return quatFromEuler(angles, context.eulerseq);
+  }
+  if (attributes.xyaxes) {
+    return quatFromXYAxes(parseNumberList(attributes.xyaxes));
+  }
+  if (attributes.zaxis) {
+    return quatFromZAxis(parseNumberList(attributes.zaxis));
+  }
+  return IDENTITY;
+}
+
+function parseGeom(attributes: Record<string, string>, context: ParseContext): MjcfGeom {
+  const type = (attributes.type || (attributes.mesh ? 'mesh' : 'sphere')) as MjcfGeomType;
+  let size = parseNumberList(attributes.size);
+  let pos = toVec3(parseNumberList(attributes.pos), [0, 0, 0]);
+  let quat = parseOrientation(attributes, context);
+
+  // fromto replaces pos/orientation and the half-length for capsules & cylinders
+  const fromto = parseNumberList(attributes.fromto);
+  if (fromto.length === 6) {
+    const direction = [fromto[3] - fromto[0], fromto[4] - fromto[1], fromto[5] - fromto[2]];
+    pos = [
+      (fromto[0] + fromto[3]) / 2,
+      (fromto[1] + fromto[4]) / 2,
+      (fromto[2] + fromto[5]) / 2,
+    ];
+    quat = quatFromZAxis(direction);
+    size = [size[0] || 0, Math.hypot(...direction) / 2];
+  }
+
+  const rgba = parseNumberList(attributes.rgba);
+  const materialRgba = attributes.material ? context.materials[attributes.material] : undefined;
+
+  return {
+    name: attributes.name || null,
+    type,
+    size,
+    pos,
+    quat,
+    mesh: attributes.mesh || null,
+    rgba: rgba.length === 4
+      ? (rgba as [number, number, number, number])
+      : materialRgba || [0.5, 0.5, 0.5, 1],
+    mass: attributes.mass !== undefined ? Number(attributes.mass) : null,
+    group: Number(attributes.group || 0),
+  };
+}
+
+function parseJoint(
+  attributes: Record<string, string>,
+  type: MjcfJointType,
+  context: ParseContext
+): MjcfJoint {
+  const range = parseNumberList(attributes.range);
+  const isLimited = range.length === 2 && attributes.limited !== 'false';
+
+  return {
+    name: attributes.name || `joint_${context.unnamedJoints++}`,
+    type,
+    axis: toVec3(parseNumberList(attributes.axis), [0, 0, 1]),
+    pos: toVec3(parseNumberList(attributes.pos), [0, 0, 0]),
+    range: isLimited
+      ? type === 'hinge'
+        ? [toRadians(range[0], context), toRadians(range[1], context)]
+        : [range[0], range[1]]
+      : null,
+  };
+}
+
+function parseBody(
+  element: XmlElement,
+  context: ParseContext,
+  inheritedChildclass: string | undefined
+): MjcfBody {
+  const childclass = element.attributes.childclass || inheritedChildclass;
+  const inertial = childElement(element, 'inertial');
+
+  const body: MjcfBody = {
+    name: element.attributes.name || '',
+    pos: toVec3(parseNumberList(element.attributes.pos), [0, 0, 0]),
+    quat: parseOrientation(element.attributes, context),
+    mass: inertial?.attributes.mass !== undefined ? Number(inertial.attributes.mass) : null,
+    geoms: [],
+    joints: [],
+    children: [],
+  };
+
+  for (const child of element.children) {
+    switch (child.name) {
+      case 'geom':
+        body.geoms.push(parseGeom(withDefaults(child, context.classes, childclass), context));
+        break;
+      case 'joint': {
+        const attributes = withDefaults(child, context.classes, childclass);
+        body.joints.push(
+          parseJoint(attributes, (attributes.type || 'hinge') as MjcfJointType, context)
+        );
+        break;
+      }
+      case 'freejoint':
+        body.joints.push(parseJoint(child.attributes, 'free', context));
+        break;
+      case 'body':
+        body.children.push(parseBody(child, context, childclass));
+        break;
+    }
+  }
+
+  return body;
+}
+
+function classifyActuator(tag: string, attributes: Record<string, string>): MjcfControlMode {
+  switch (tag) {
+    case 'motor':
+      return 'torque';
+    case 'position':
+    case 'intvelocity':
+      return 'position';
+    case 'velocity':
+      return 'velocity';
+    case 'general': {
+      const biastype = attributes.biastype || 'none';
+      const bias = parseNumberList(attributes.biasprm);
+      if (biastype === 'affine' && (bias[1] || 0) < 0) return 'position';
+      if (biastype === 'affine' && (bias[2] || 0) < 0) return 'velocity';
+      if (biastype === 'none' && (attributes.gaintype || 'fixed') === 'fixed') return 'torque';
+      return 'other';
+    }
+    default:
+      return 'other';
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Parse an MJCF document into a plain body/joint/actuator tree
+ */
+export async function parseMjcf(source: string, options: MjcfParseOptions = {}): Promise<MjcfModel> {
+  const root = await resolveIncludes(parseXml(source), options);
+  if (root.name !== 'mujoco') {
+    throw new Error(`Not an MJCF file: root element is <${root.name}>`);
+  }
+
+  // Multiple sections of the same kind are allowed (especially after includes)
+  const sections = (name: string) => childElements(root, name);
+  const compiler = sections('compiler').reduce<Record<string, string>>(
+    (attributes, element) => ({ ...attributes, ...element.attributes }),
+    {}
+  );
+
+  const classes: DefaultClasses = new Map();
+  for (const defaults of sections('default')) {
+    collectDefaults(defaults, {}, classes);
+  }
+
+  const context: ParseContext = {
+    classes,
+    useDegrees: (compiler.angle || 'degree') === 'degree',
+    eulerseq: compiler.eulerseq || 'xyz',
+    materials: {},
+    unnamedJoints: 0,
+  };
+
+  const meshes: Record<string, MjcfMesh> = {};
+  for (const asset of sections('asset')) {
+    for (const mesh of childElements(asset, 'mesh')) {
+      const attributes = withDefaults(mesh, classes, undefined);
+      if (!attributes.file) continue;
+      const name = attributes.name || attributes.file.split('/').pop()!.replace(/\.[^.]+$/, '');
+      meshes[name] = {
+        name,
+        file: attributes.file,
+        scale: toVec3(parseNumberList(attributes.scale), [1, 1, 1]),
+      };
+    }
+    for (const material of childElements(asset, 'material')) {
+      const rgba = parseNumberList(withDefaults(material, classes, undefined).rgba);
+      if (material.attributes.name && rgba.length === 4) {
+        context.materials[material.attributes.name] = rgba as [number, number, number, number];
+      }
+    }
+  }
+
+  const worldGeoms: MjcfGeom[] = [];
+  const bodies: MjcfBody[] = [];
+  for (const worldbody of sections('worldbody')) {
+    for (const child of worldbody.children) {
+      if (child.name === 'body') bodies.push(parseBody(child, context, undefined));
+      if (child.name === 'geom') {
+        worldGeoms.push(parseGeom(withDefaults(child, classes, undefined), context));
+      }
+    }
+  }
+
+  const actuators: MjcfActuator[] = [];
+  for (const section of sections('actuator')) {
+    for (const element of section.children) {
+      if (!ACTUATOR_TAGS.includes(element.name)) continue;
+      const attributes = withDefaults(element, classes, undefined);
+      actuators.push({
+        name: attributes.name || attributes.joint || element.name,
+        kind: element.name,
+        joint: attributes.joint || null,
+        control: classifyActuator(element.name, attributes),
+      });
+    }
+  }
+
+  return {
+    name: root.attributes.model || 'MuJoCo Model',
+    meshdir: compiler.meshdir || compiler.assetdir || '',
+    worldGeoms,
+    bodies,
+    meshes,
+    actuators,
+  };
+}
+
+/**
+ * Visit every body in the model, depth first
+ */
+export function flattenMjcfBodies(bodies: MjcfBody[]): MjcfBody[] {
+  return bodies.flatMap((body) => [body, ...flattenMjcfBodies(body.children)]);
+}
+
+/**
+ * Summarize an MJCF model for file cards
+ */
+export function summarizeMjcf(model: MjcfModel): MjcfSummary {
+  const allBodies = flattenMjcfBodies(model.bodies);
+  const joints = allBodies.flatMap((body) => body.joints);
+  const actuated = model.actuators.filter((actuator) => actuator.joint);
+
+  const jointsWith = (control: MjcfControlMode) =>
+    actuated
+      .filter((actuator) => actuator.control === control)
+      .map((actuator) => actuator.joint!);
+
+  return {
+    bodyCount: allBodies.length,
+    jointCount: joints.filter((joint) => joint.type !== 'free').length,
+    actuatedJoints: Array.from(new Set(actuated.map((actuator) => actuator.joint!))),
+    positionControlled: jointsWith('position'),
+    torqueControlled: jointsWith('torque'),
+  };
+}
+
+/**
+ * Fetch an MJCF file and parse it, resolving includes relative to its URL
+ */
+export async function fetchMjcfModel(url: string): Promise<MjcfModel> {
+  const fetchText = async (target: string) => {
+    const response = await fetch(target);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${target}: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  };
+
+  return parseMjcf(await fetchText(url), {
+    loadInclude: (file) => fetchText(new URL(file, url).toString()),
+  });
+}
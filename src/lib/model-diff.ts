@@ -0,0 +1,191 @@
+/**
+ * Structural diff for URDF and MJCF files
+ * Compares two versions of a robot description by joints, joint limits and
+ * link masses rather than by text, so reformatting doesn't show up as a change.
+ */
+
+import { toRawGitHubUrl } from './github';
+import { flattenMjcfBodies, parseMjcf, type MjcfModel } from './mjcf-parser';
+import { parseUrdf, type UrdfModel } from './urdf-parser';
+import type { RobotFileType } from './types';
+
+export type JointLimitField = 'lower' | 'upper' | 'effort' | 'velocity';
+
+export interface ModelJointSpec {
+  type: string;
+  lower: number | null;
+  upper: number | null;
+  effort: number | null;
+  velocity: number | null;
+}
+
+export interface ModelStructure {
+  joints: Record<string, ModelJointSpec>;
+  // Link (URDF) or body (MJCF) name -> mass, null when not given
+  masses: Record<string, number | null>;
+  totalMass: number | null;
+}
+
+export interface JointChange {
+  joint: string;
+  field: 'type' | JointLimitField;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface MassChange {
+  link: string;
+  before: number | null;
+  after: number | null;
+}
+
+export interface ModelDiff {
+  addedJoints: string[];
+  removedJoints: string[];
+  jointChanges: JointChange[];
+  massChanges: MassChange[];
+  totalMass: { before: number | null; after: number | null };
+  hasChanges: boolean;
+}
+
+const LIMIT_FIELDS: JointLimitField[] = ['lower', 'upper', 'effort', 'velocity'];
+
+// Values written with different precision ("1.5700" vs "1.57") are the same
+const EPSILON = 1e-9;
+
+const sameNumber = (a: number | null, b: number | null) =>
+  a === null || b === null ? a === b : Math.abs(a - b) < EPSILON;
+
+const sumMasses = (masses: (number | null)[]) => {
+  const known = masses.filter((mass): mass is number => mass !== null);
+  return known.length > 0 ? known.reduce((total, mass) => total + mass, 0) : null;
+};
+
+/**
+ * Get the diffable structure of a parsed URDF model
+ */
+export function urdfStructure(model: UrdfModel): ModelStructure {
+  const masses = Object.fromEntries(model.links.map((link) => [link.name, link.mass]));
+
+  return {
+    joints: Object.fromEntries(
+      model.joints.map((joint) => [
+        joint.name,
+        {
+          type: joint.type,
+          lower: joint.limit?.lower ?? null,
+          upper: joint.limit?.upper ?? null,
+          effort: joint.limit?.effort ?? null,
+          velocity: joint.limit?.velocity ?? null,
+        },
+      ])
+    ),
+    masses,
+    totalMass: sumMasses(Object.values(masses)),
+  };
+}
+
+/**
+ * Get the diffable structure of a parsed MJCF model. Bodies without an
+ * <inertial> use the masses of their geoms, which is what MuJoCo does.
+ */
+export function mjcfStructure(model: MjcfModel): ModelStructure {
+  const bodies = flattenMjcfBodies(model.bodies);
+  const masses = Object.fromEntries(
+    bodies.map((body) => [body.name, body.mass ?? sumMasses(body.geoms.map((geom) => geom.mass))])
+  );
+
+  return {
+    joints: Object.fromEntries(
+      bodies
+        .flatMap((body) => body.joints)
+        .filter((joint) => joint.type !== 'free')
+        .map((joint) => [
+          joint.name,
+          {
+            type: joint.type,
+            lower: joint.range?.[0] ?? null,
+            upper: joint.range?.[1] ?? null,
+            // Effort and velocity limits live on actuators in MJCF
+            effort: null,
+            velocity: null,
+          },
+        ])
+    ),
+    masses,
+    totalMass: sumMasses(Object.values(masses)),
+  };
+}
+
+/**
+ * Fetch and parse a URDF or MJCF file into its diffable structure
+ */
+export async function loadModelStructure(
+  fileType: RobotFileType,
+  fileUrl: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<ModelStructure> {
+  const fetchText = async (url: string) => {
+    const response = await fetchImpl(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  };
+
+  // github.com/.../blob/... pages are HTML, and relative includes need the raw location
+  const url = toRawGitHubUrl(fileUrl);
+  const source = await fetchText(url);
+  if (fileType === 'urdf') {
+    return urdfStructure(parseUrdf(source));
+  }
+  if (fileType === 'mjcf') {
+    const model = await parseMjcf(source, {
+      loadInclude: (file) => fetchText(new URL(file, url).toString()),
+    });
+    return mjcfStructure(model);
+  }
+  throw new Error(`Cannot compare ${fileType} files`);
+}
+
+/**
+ * Compare two model structures: joints added or removed, joint type and
+ * limit changes, and mass changes on links present in both
+ */
+export function diffModelStructures(before: ModelStructure, after: ModelStructure): ModelDiff {
+  const addedJoints = Object.keys(after.joints).filter((name) => !(name in before.joints));
+  const removedJoints = Object.keys(before.joints).filter((name) => !(name in after.joints));
+
+  const jointChanges: JointChange[] = [];
+  for (const [name, previous] of Object.entries(before.joints)) {
+    const current = after.joints[name];
+    if (!current) continue;
+
+    if (previous.type !== current.type) {
+      jointChanges.push({ joint: name, field: 'type', before: previous.type, after: current.type });
+    }
+    for (const field of LIMIT_FIELDS) {
+      if (!sameNumber(previous[field], current[field])) {
+        jointChanges.push({ joint: name, field, before: previous[field], after: current[field] });
+      }
+    }
+  }
+
+  const massChanges: MassChange[] = Object.entries(before.masses)
+    .filter(([link, mass]) => link in after.masses && !sameNumber(mass, after.masses[link]))
+    .map(([link, mass]) => ({ link, before: mass, after: after.masses[link] }));
+
+  return {
+    addedJoints,
+    removedJoints,
+    jointChanges,
+    massChanges,
+    totalMass: { before: before.totalMass, after: after.totalMass },
+    hasChanges:
+      addedJoints.length > 0 ||
+      removedJoints.length > 0 ||
+      jointChanges.length > 0 ||
+      massChanges.length > 0 ||
+      !sameNumber(before.totalMass, after.totalMass),
+  };
+}
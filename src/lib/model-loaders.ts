@@ -0,0 +1,293 @@
+/**
+ * 3D model loaders
+ * Turn robot description files into three.js objects for the in-browser viewer
+ */
+
+import {
+  BoxGeometry,
+  BufferAttribute,
+  BufferGeometry,
+  CapsuleGeometry,
+  CylinderGeometry,
+  Group,
+  LoadingManager,
+  Mesh,
+  MeshPhongMaterial,
+  Quaternion,
+  SphereGeometry,
+  Vector3,
+  type Object3D,
+} from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import URDFLoader, { type URDFJoint } from 'urdf-loader';
+import {
+  fetchMjcfModel,
+  type MjcfBody,
+  type MjcfGeom,
+  type MjcfModel,
+  type Quat,
+} from './mjcf-parser';
+import { guessPackageRoot } from './urdf-parser';
+import { analyzeStl, guessLengthUnit, parseStl, UNIT_TO_MM } from './stl-analysis';
+import type { LoadedRobotModel, RobotFile, ViewerJoint } from './types';
+
+function toViewerJoint(joint: URDFJoint): ViewerJoint {
+  const isContinuous = joint.jointType === 'continuous';
+  const hasLimits = !isContinuous && joint.limit.lower !== joint.limit.upper;
+
+  return {
+    name: joint.urdfName,
+    type: joint.jointType,
+    lower: hasLimits ? joint.limit.lower : -Math.PI,
+    upper: hasLimits ? joint.limit.upper : Math.PI,
+    initial: (joint.jointValue[0] as number) || 0,
+    setValue: (value: number) => {
+      joint.setJointValue(value);
+    },
+  };
+}
+
+/**
+ * Load a URDF file and its STL/DAE meshes.
+ * `packageRoots` maps ROS package names to raw URLs (see /api/mesh-packages);
+ * unknown packages are guessed from the URDF location.
+ * Meshes keep streaming in after the promise resolves.
+ */
+export async function loadUrdfModel(
+  urdfUrl: string,
+  packageRoots: Record<string, string> = {}
+): Promise<LoadedRobotModel> {
+  const loader = new URDFLoader(new LoadingManager());
+  loader.packages = (packageName: string) =>
+    packageRoots[packageName] ?? guessPackageRoot(urdfUrl, packageName);
+
+  const robot = await loader.loadAsync(urdfUrl);
+
+  const joints = Object.values(robot.joints)
+    .filter((joint) => joint.jointType !== 'fixed')
+    .map(toViewerJoint);
+
+  return {
+    name: robot.robotName,
+    object: robot,
+    joints,
+    upAxis: 'z',
+  };
+}
+
+// ============================================================================
+// MJCF
+// ============================================================================
+
+const toThreeQuaternion = ([w, x, y, z]: Quat) => new Quaternion(x, y, z, w);
+
+function loadMeshInto(target: Mesh, url: string) {
+  const onLoad = (geometry: BufferGeometry) => {
+    target.geometry.dispose();
+    target.geometry = geometry;
+  };
+  const onError = () => console.warn(`Could not load mesh at ${url}`);
+
+  if (/\.stl$/i.test(url)) {
+    new STLLoader().load(url, onLoad, undefined, onError);
+  } else if (/\.obj$/i.test(url)) {
+    new OBJLoader().load(
+      url,
+      (group) => {
+        const child = group.children.find((object): object is Mesh => object instanceof Mesh);
+        if (child) onLoad(child.geometry);
+      },
+      undefined,
+      onError
+    );
+  } else {
+    console.warn(`No loader available for mesh at ${url}`);
+  }
+}
+
+function buildGeom(geom: MjcfGeom, model: MjcfModel, mjcfUrl: string): Object3D | null {
+  const [r, g, b, a] = geom.rgba;
+  const material = new MeshPhongMaterial({ transparent: a < 1, opacity: a });
+  material.color.setRGB(r, g, b);
+
+  const [s0 = 0, s1 = s0, s2 = s0] = geom.size;
+  const mesh = new Mesh(new BufferGeometry(), material);
+
+  switch (geom.type) {
+    case 'sphere':
+      mesh.geometry = new SphereGeometry(s0, 24, 16);
+      break;
+    case 'ellipsoid':
+      mesh.geometry = new SphereGeometry(1, 24, 16);
+      mesh.scale.set(s0, s1, s2);
+      break;
+    case 'box':
+      mesh.geometry = new BoxGeometry(s0 * 2, s1 * 2, s2 * 2);
+      break;
+    // three.js capsules and cylinders run along Y, MuJoCo's along Z
+    case 'capsule':
+      mesh.geometry = new CapsuleGeometry(s0, s1 * 2).rotateX(Math.PI / 2);
+      break;
+    case 'cylinder':
+      mesh.geometry = new CylinderGeometry(s0, s0, s1 * 2, 24).rotateX(Math.PI / 2);
+      break;
+    case 'mesh': {
+      const asset = geom.mesh ? model.meshes[geom.mesh] : undefined;
+      if (!asset) return null;
+      const directory = model.meshdir ? `${model.meshdir.replace(/\/$/, '')}/` : '';
+      loadMeshInto(mesh, new URL(directory + asset.file, mjcfUrl).toString());
+      mesh.scale.set(...asset.scale);
+      break;
+    }
+    default:
+      // planes, height fields and SDFs are scenery, not robot parts
+      return null;
+  }
+
+  mesh.position.set(...geom.pos);
+  mesh.quaternion.copy(toThreeQuaternion(geom.quat));
+  return mesh;
+}
+
+// MuJoCo convention: geom group 3 holds collision-only shapes
+const isVisualGeom = (geom: MjcfGeom) => geom.group < 3;
+
+function buildBody(
+  body: MjcfBody,
+  model: MjcfModel,
+  mjcfUrl: string,
+  joints: ViewerJoint[]
+): Object3D {
+  const frame = new Group();
+  frame.name = body.name;
+  frame.position.set(...body.pos);
+  frame.quaternion.copy(toThreeQuaternion(body.quat));
+
+  // Joint motion is applied to an inner group so the body frame stays intact
+  const motion = new Group();
+  frame.add(motion);
+
+  const movable = body.joints.filter((joint) => joint.type === 'hinge' || joint.type === 'slide');
+  const values = movable.map(() => 0);
+
+  const applyJointValues = () => {
+    motion.position.set(0, 0, 0);
+    motion.quaternion.identity();
+    movable.forEach((joint, i) => {
+      const axis = new Vector3(...joint.axis).normalize();
+      if (joint.type === 'slide') {
+        motion.position.addScaledVector(axis, values[i]);
+        return;
+      }
+      // Rotate about the joint anchor rather than the body origin
+      const pivot = new Vector3(...joint.pos);
+      const rotation = new Quaternion().setFromAxisAngle(axis, values[i]);
+      motion.quaternion.multiply(rotation);
+      motion.position.add(pivot.clone().sub(pivot.clone().applyQuaternion(rotation)));
+    });
+  };
+
+  movable.forEach((joint, i) => {
+    joints.push({
+      name: joint.name,
+      type: joint.type === 'slide' ? 'prismatic' : joint.range ? 'revolute' : 'continuous',
+      lower: joint.range?.[0] ?? -Math.PI,
+      upper: joint.range?.[1] ?? Math.PI,
+      initial: 0,
+      setValue: (value: number) => {
+        values[i] = value;
+        applyJointValues();
+      },
+    });
+  });
+
+  for (const geom of body.geoms.filter(isVisualGeom)) {
+    const object = buildGeom(geom, model, mjcfUrl);
+    if (object) motion.add(object);
+  }
+
+  for (const child of body.children) {
+    motion.add(buildBody(child, model, mjcfUrl, joints));
+  }
+
+  return frame;
+}
+
+/**
+ * Load an MJCF file into a three.js scene graph.
+ * Meshes keep streaming in after the promise resolves.
+ */
+export async function loadMjcfModel(mjcfUrl: string): Promise<LoadedRobotModel> {
+  const model = await fetchMjcfModel(mjcfUrl);
+  const joints: ViewerJoint[] = [];
+  const root = new Group();
+
+  for (const geom of model.worldGeoms.filter(isVisualGeom)) {
+    const object = buildGeom(geom, model, mjcfUrl);
+    if (object) root.add(object);
+  }
+
+  for (const body of model.bodies) {
+    root.add(buildBody(body, model, mjcfUrl, joints));
+  }
+
+  return {
+    name: model.name,
+    object: root,
+    joints,
+    upAxis: 'z',
+  };
+}
+
+// ============================================================================
+// STL
+// ============================================================================
+
+/**
+ * Load a single STL part. The mesh is scaled to metres so it sits on the
+ * viewer grid at its real size.
+ */
+export async function loadStlModel(stlUrl: string): Promise<LoadedRobotModel> {
+  const response = await fetch(stlUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch STL: ${response.status}`);
+  }
+
+  const stl = parseStl(await response.arrayBuffer());
+  const geometry = new BufferGeometry();
+  geometry.setAttribute('position', new BufferAttribute(stl.positions, 3));
+  geometry.computeVertexNormals();
+
+  const mesh = new Mesh(geometry, new MeshPhongMaterial({ color: 0xb0b8c4 }));
+  mesh.scale.setScalar(UNIT_TO_MM[guessLengthUnit(analyzeStl(stl))] / 1000);
+
+  return {
+    name: stl.name || stlUrl.split('/').pop() || 'STL part',
+    object: mesh,
+    joints: [],
+    upAxis: 'z',
+  };
+}
+
+type ModelLoader = (url: string, packageRoots?: Record<string, string>) => Promise<LoadedRobotModel>;
+
+const modelLoaders: Partial<Record<RobotFile['file_type'], ModelLoader>> = {
+  urdf: loadUrdfModel,
+  mjcf: loadMjcfModel,
+  stl: loadStlModel,
+};
+
+/**
+ * Load any previewable robot file into the 3D viewer format
+ */
+export async function loadModelForFile(
+  file: Pick<RobotFile, 'file_type' | 'file_url'>,
+  packageRoots?: Record<string, string>
+): Promise<LoadedRobotModel> {
+  const loader = modelLoaders[file.file_type];
+  if (!loader) {
+    throw new Error(`No 3D preview available for ${file.file_type} files`);
+  }
+  return loader(file.file_url, packageRoots);
+}
@@ -0,0 +1,104 @@
+/**
+ * Remote files fetched by API routes
+ * Robot files are links contributors submitted, so the server only follows
+ * them to GitHub (and Google Sheets for BOMs) over https, checks every
+ * redirect the same way and caps how much it reads. Anything else could
+ * point the server at internal or cloud metadata addresses.
+ */
+
+const ALLOWED_FILE_HOSTS = [
+  'github.com',
+  'raw.githubusercontent.com',
+  'media.githubusercontent.com',
+  'objects.githubusercontent.com',
+  'docs.google.com',
+];
+
+// Google Sheets exports redirect to per-document hosts under this domain
+const ALLOWED_FILE_HOST_SUFFIXES = ['.googleusercontent.com'];
+
+// Every accepted host, for error messages
+export const ALLOWED_FILE_HOSTS_LABEL = [
+  ...ALLOWED_FILE_HOSTS,
+  ...ALLOWED_FILE_HOST_SUFFIXES.map((suffix) => `*${suffix}`),
+].join(', ');
+
+export const MAX_REMOTE_FILE_BYTES = 50 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+export function isAllowedFileUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  return (
+    parsed.protocol === 'https:' &&
+    !parsed.port &&
+    !parsed.username &&
+    !parsed.password &&
+    (ALLOWED_FILE_HOSTS.includes(host) ||
+      ALLOWED_FILE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix)))
+  );
+}
+
+const limitResponseSize = (response: Response, maxBytes: number): Response => {
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    throw new Error(`File is larger than ${maxBytes / (1024 * 1024)} MB`);
+  }
+  if (!response.body) return response;
+
+  // Content-Length can be missing or wrong, so count what actually arrives
+  let received = 0;
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > maxBytes) {
+          controller.error(new Error(`File is larger than ${maxBytes / (1024 * 1024)} MB`));
+        } else {
+          controller.enqueue(chunk);
+        }
+      },
+    })
+  );
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
+
+/**
+ * fetch() for submitted file URLs; pass it as fetchImpl to the analysis and
+ * bundle builders
+ */
+export async function fetchRemoteFile(
+  input: RequestInfo | URL,
+  init: RequestInit = {}
+): Promise<Response> {
+  let url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+
+  for (let redirects = 0; ; redirects++) {
+    if (!isAllowedFileUrl(url)) {
+      throw new Error(`Files can only be fetched from GitHub or Google Sheets: ${url}`);
+    }
+
+    const response = await fetch(url, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects fetching ${url}`);
+      }
+      url = new URL(location, url).toString();
+      continue;
+    }
+
+    return limitResponseSize(response, MAX_REMOTE_FILE_BYTES);
+  }
+}
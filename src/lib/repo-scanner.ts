@@ -0,0 +1,159 @@
+/**
+ * Repository scanner
+ * Walks a robot's GitHub repository and picks out files worth listing on the
+ * robot page: URDF/MJCF models, printable STLs, bills of materials and guides.
+ * The repository is read through a RepoSource so tests can use an in-memory
+ * fixture instead of the GitHub API.
+ */
+
+import { detectFileType, detectFileTypeFromUrl } from './file-types';
+import { fetchRepositoryTree, getRawGitHubUrl, type GitHubTreeEntry } from './github';
+import type { RobotFileType } from './types';
+
+export interface RepoSource {
+  // e.g. "owner/repo@main", shown to the user
+  label: string;
+  listFiles: () => Promise<GitHubTreeEntry[]>;
+  fileUrl: (path: string) => string;
+  fetchImpl: typeof fetch;
+}
+
+export interface RepoFileCandidate {
+  path: string;
+  url: string;
+  fileName: string;
+  type: RobotFileType;
+  source: 'content' | 'extension';
+  size: number | null;
+}
+
+const MAX_CANDIDATES = 100;
+// Each content check is a request, so only ambiguous files get one
+const MAX_CONTENT_CHECKS = 30;
+
+// Build output, dependencies and CI config never hold robot files
+const IGNORED_DIRECTORIES = /(^|\/)(\.git|\.github|node_modules|build|install|devel|log|vendor|third_party)\//;
+
+// Meshes referenced by a URDF/MJCF come along with the model, they aren't printable parts
+const SIMULATION_MESH_DIRECTORIES = /(^|\/)(meshes|collision|visual)\//i;
+
+// CSVs and Markdown files are everywhere; only these names suggest a BOM or a guide
+const BOM_NAMES = /(bom|bill[-_ ]?of[-_ ]?materials|parts[-_ ]?list)/i;
+const GUIDE_NAMES = /(guide|assembly|assemble|build|instructions|tutorial)/i;
+
+/**
+ * Classify a repository path by name alone. Returns undefined for files that
+ * aren't candidates, and null for .xml files whose type depends on content.
+ */
+export function classifyRepoPath(path: string): RobotFileType | null | undefined {
+  if (IGNORED_DIRECTORIES.test(path)) return undefined;
+
+  const fileName = path.split('/').pop() || '';
+  // Xacro macros need processing before they are a usable URDF
+  if (/\.xacro$/i.test(fileName)) return undefined;
+  if (/\.xml$/i.test(fileName)) return /(^|\/)package\.xml$/.test(path) ? undefined : null;
+
+  const type = detectFileTypeFromUrl(path);
+  switch (type) {
+    case 'stl':
+      return SIMULATION_MESH_DIRECTORIES.test(path) ? undefined : type;
+    case 'bom':
+      return BOM_NAMES.test(path) ? type : undefined;
+    case 'guide':
+      return /\.pdf$/i.test(fileName) || GUIDE_NAMES.test(path) ? type : undefined;
+    case null:
+      return undefined;
+    default:
+      return type;
+  }
+}
+
+/**
+ * Find candidate robot files in a repository
+ */
+export async function scanRepository(source: RepoSource): Promise<RepoFileCandidate[]> {
+  const entries = (await source.listFiles()).filter((entry) => entry.type === 'blob');
+
+  const candidates: RepoFileCandidate[] = [];
+  let contentChecks = 0;
+
+  for (const entry of entries) {
+    if (candidates.length >= MAX_CANDIDATES) break;
+
+    const byName = classifyRepoPath(entry.path);
+    if (byName === undefined) continue;
+
+    const url = source.fileUrl(entry.path);
+    let type = byName;
+    let detectedBy: RepoFileCandidate['source'] = 'extension';
+
+    // URDF and MJCF both ship as .xml; the root element decides
+    if (type === null) {
+      if (contentChecks >= MAX_CONTENT_CHECKS) continue;
+      contentChecks++;
+
+      const detection = await detectFileType(url, source.fetchImpl);
+      if (detection.source !== 'content' || (detection.type !== 'urdf' && detection.type !== 'mjcf')) {
+        continue;
+      }
+      type = detection.type;
+      detectedBy = 'content';
+    }
+
+    candidates.push({
+      path: entry.path,
+      url,
+      fileName: entry.path.split('/').pop() || entry.path,
+      type,
+      source: detectedBy,
+      size: entry.size ?? null,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Read a repository through the GitHub API
+ */
+export function createGitHubRepoSource(owner: string, repo: string, branch: string): RepoSource {
+  return {
+    label: `${owner}/${repo}@${branch}`,
+    listFiles: () => fetchRepositoryTree(owner, repo, branch),
+    fileUrl: (path) => getRawGitHubUrl(owner, repo, branch, path),
+    fetchImpl: fetch,
+  };
+}
+
+/**
+ * Serve an in-memory set of files as a repository, for tests and local development
+ */
+export function createFixtureRepoSource(
+  files: Record<string, string>,
+  baseUrl = 'https://fixture.local/repo/'
+): RepoSource {
+  const paths = Object.keys(files);
+
+  const fetchImpl = (async (input: RequestInfo | URL) => {
+    const url = input.toString();
+    const body = url.startsWith(baseUrl) ? files[url.slice(baseUrl.length)] : undefined;
+    const bytes = new Uint8Array(Array.from(body ?? '', (char) => char.charCodeAt(0) & 0xff));
+
+    return {
+      ok: body !== undefined,
+      status: body !== undefined ? 200 : 404,
+      statusText: body !== undefined ? 'OK' : 'Not Found',
+      headers: { get: (name: string) => (name.toLowerCase() === 'content-length' ? String(bytes.length) : null) },
+      arrayBuffer: async () => bytes.buffer,
+      text: async () => body ?? '',
+    };
+  }) as unknown as typeof fetch;
+
+  return {
+    label: 'fixture',
+    listFiles: async () =>
+      paths.map((path) => ({ path, type: 'blob' as const, size: files[path].length })),
+    fileUrl: (path) => baseUrl + path,
+    fetchImpl,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Reported spend
+ * Builders can say what they spent in their story (review). Those amounts
+ * are summarized in USD on each robot page, and compared with the budget
+ * the robot lists.
+ */
+
+import {
+  BUDGET_RANGES,
+  findBudgetRangeForAmount,
+  getBudgetRangeBounds,
+  getBudgetUsdBounds,
+  type BudgetAmount,
+  type BudgetRange,
+  type ExchangeRates,
+} from './budget-config';
+
+// Fewer reports than this don't say much about what a robot costs
+export const MIN_SPEND_REPORTS = 3;
+
+// A listed budget is understated when builders' median spend is at least
+// this many times its upper end
+export const UNDERSTATED_BUDGET_FACTOR = 2;
+
+export interface SpendBucket {
+  range: BudgetRange;
+  count: number;
+}
+
+export interface ReportedSpend {
+  count: number;
+  // USD
+  median: number;
+  // Middle half of the reports, in USD
+  low: number;
+  high: number;
+  // Budget presets from the cheapest to the priciest one reported
+  buckets: SpendBucket[];
+}
+
+/**
+ * One USD figure for a reported amount: the middle of its range, or its low
+ * end when it's open-ended
+ */
+export function getReportedSpendValue(amount: BudgetAmount, rates: ExchangeRates): number {
+  const { min, max } = getBudgetUsdBounds(amount, rates);
+  return max === null ? min : (min + max) / 2;
+}
+
+// Linear interpolation between the closest ranks
+const percentile = (sorted: number[], fraction: number): number => {
+  const rank = (sorted.length - 1) * fraction;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export function summarizeReportedSpend(
+  amounts: (BudgetAmount | null)[],
+  rates: ExchangeRates
+): ReportedSpend | null {
+  const values = amounts
+    .filter((amount): amount is BudgetAmount => !!amount)
+    .map((amount) => getReportedSpendValue(amount, rates))
+    .sort((a, b) => a - b);
+
+  if (values.length < MIN_SPEND_REPORTS) return null;
+
+  const counts = new Map<BudgetRange, number>();
+  for (const value of values) {
+    const range = findBudgetRangeForAmount(value);
+    counts.set(range, (counts.get(range) || 0) + 1);
+  }
+
+  const first = BUDGET_RANGES.indexOf(findBudgetRangeForAmount(values[0]));
+  const last = BUDGET_RANGES.indexOf(findBudgetRangeForAmount(values[values.length - 1]));
+
+  return {
+    count: values.length,
+    median: percentile(values, 0.5),
+    low: percentile(values, 0.25),
+    high: percentile(values, 0.75),
+    buckets: BUDGET_RANGES.slice(first, last + 1).map((range) => ({
+      range,
+      count: counts.get(range) || 0,
+    })),
+  };
+}
+
+/**
+ * Whether builders report spending far more than the listed budget. Open-ended
+ * budgets ("$100K+") can't be understated.
+ */
+export function isListedBudgetUnderstated(
+  listed: BudgetAmount | null,
+  spend: ReportedSpend | null,
+  rates: ExchangeRates
+): boolean {
+  if (!listed || !spend) return false;
+  const { max } = getBudgetUsdBounds(listed, rates);
+  return max !== null && spend.median >= max * UNDERSTATED_BUDGET_FACTOR;
+}
+
+/**
+ * Whether a bucket overlaps the listed budget, to highlight it on the chart
+ */
+export function isBucketInBudget(
+  bucket: SpendBucket,
+  listed: BudgetAmount | null,
+  rates: ExchangeRates
+): boolean {
+  if (!listed) return false;
+  const bounds = getBudgetRangeBounds(bucket.range)!;
+  const { min, max } = getBudgetUsdBounds(listed, rates);
+  return (bounds.max === null || min < bounds.max) && (max === null || max > bounds.min);
+}
@@ -0,0 +1,349 @@
+/**
+ * Robot file bundles
+ * Packs a robot's files into a single zip with a predictable layout:
+ *
+ *   <robot-slug>/
+ *     manifest.json     versions, sources and sha256 checksums
+ *     urdf/<file>       mesh references rewritten to urdf/meshes/...
+ *     urdf/meshes/...
+ *     mjcf/<file>       includes and meshes keep their paths relative to the file
+ *     stl/<file>
+ *     bom/<file>
+ *     guides/<file>
+ *
+ * Server only: checksums use node's crypto module.
+ */
+
+import { createHash } from 'crypto';
+import { strToU8, Zip, ZipDeflate } from 'fflate';
+import { toBomCsvUrl } from './bom-parser';
+import { toRawGitHubUrl } from './github';
+import {
+  loadMeshResolverContext,
+  resolveMeshPath,
+  rewriteMeshReferences,
+  type MeshResolverContext,
+} from './mesh-resolver';
+import { parseMjcf } from './mjcf-parser';
+import { parseUrdf } from './urdf-parser';
+import { fetchRemoteFile } from './remote-files';
+import type { RobotFile, RobotFileType } from './types';
+
+export type BundleMode = 'owner' | 'top-rated';
+
+export const BUNDLE_MODES: BundleMode[] = ['owner', 'top-rated'];
+
+export interface BundleRobot {
+  name: string;
+  slug: string;
+  github_url: string | null;
+}
+
+export interface BundleManifestEntry {
+  // Path inside the zip
+  path: string;
+  source: string;
+  sha256: string;
+  size: number;
+}
+
+export interface BundleManifestFile extends BundleManifestEntry {
+  file_id: string;
+  type: RobotFileType;
+  version: string;
+  owner_added: boolean;
+}
+
+export interface BundleManifestAsset extends BundleManifestEntry {
+  // Bundle path of the model file that references it
+  used_by: string;
+}
+
+export interface BundleManifest {
+  robot: { name: string; slug: string };
+  mode: BundleMode;
+  generated_at: string;
+  files: BundleManifestFile[];
+  assets: BundleManifestAsset[];
+  missing: { source: string; used_by?: string; reason: string }[];
+}
+
+export type AddBundleEntry = (path: string, data: Uint8Array) => void;
+
+export interface BuildBundleOptions {
+  // Defaults to fetchRemoteFile, which only reaches GitHub and Google Sheets
+  fetchImpl?: typeof fetch;
+  loadResolverContext?: (fileUrl: string, repositoryUrl?: string | null) => Promise<MeshResolverContext>;
+}
+
+export const BUNDLE_TYPE_FOLDERS: Record<RobotFileType, string> = {
+  urdf: 'urdf',
+  mjcf: 'mjcf',
+  stl: 'stl',
+  bom: 'bom',
+  guide: 'guides',
+};
+
+// Serverless functions have little memory and the whole bundle passes through it
+const MAX_BUNDLE_BYTES = 200 * 1024 * 1024;
+const MAX_BUNDLE_FILES = 50;
+const MAX_ASSETS_PER_FILE = 300;
+const MAX_BUNDLE_ASSETS = 1000;
+const ASSET_FETCH_CONCURRENCY = 6;
+
+/**
+ * Pick the files that go into a bundle: every owner-added file, or the
+ * best-rated file of each type (owner files win ties, then newer files)
+ */
+export function selectBundleFiles(files: RobotFile[], mode: BundleMode): RobotFile[] {
+  if (mode === 'owner') {
+    return files.filter((file) => file.is_owner_added);
+  }
+
+  const compare = (a: RobotFile, b: RobotFile) =>
+    (a.ratings?.score || 0) - (b.ratings?.score || 0) ||
+    Number(a.is_owner_added) - Number(b.is_owner_added) ||
+    new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+  const best = new Map<RobotFileType, RobotFile>();
+  for (const file of files) {
+    const current = best.get(file.file_type);
+    if (!current || compare(file, current) > 0) {
+      best.set(file.file_type, file);
+    }
+  }
+
+  return files.filter((file) => best.get(file.file_type) === file);
+}
+
+/**
+ * Make a path safe to use inside the bundle: no empty, "." or ".." segments
+ */
+export function normalizeBundlePath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((segment) => segment && segment !== '.' && segment !== '..')
+    .join('/');
+}
+
+/**
+ * Where a URDF mesh goes, relative to the urdf/ folder
+ */
+export function urdfMeshBundlePath(meshPath: string): string {
+  const packageMatch = meshPath.match(/^(?:package|model):\/\/(.*)$/);
+  const path = normalizeBundlePath(packageMatch ? packageMatch[1] : meshPath.replace(/^file:\/\//, ''));
+  return path.startsWith('meshes/') ? path : `meshes/${path}`;
+}
+
+function claimPath(path: string, taken: Set<string>): string {
+  let candidate = path;
+  for (let n = 2; taken.has(candidate); n++) {
+    // robot.urdf -> robot-2.urdf
+    candidate = path.replace(/(\.[^./]+)?$/, (extension) => `-${n}${extension}`);
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+const sha256 = (data: Uint8Array) => createHash('sha256').update(data).digest('hex');
+
+async function forEachConcurrent<T>(items: T[], concurrency: number, run: (item: T) => Promise<void>) {
+  const queue = [...items];
+  const workers = Array.from({ length: concurrency }, async () => {
+    while (queue.length > 0) {
+      await run(queue.shift()!);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Download the selected files (and the meshes and includes they need) and
+ * hand each one to addEntry, finishing with manifest.json
+ */
+export async function buildRobotBundle(
+  robot: BundleRobot,
+  files: RobotFile[],
+  mode: BundleMode,
+  addEntry: AddBundleEntry,
+  { fetchImpl = fetchRemoteFile, loadResolverContext = loadMeshResolverContext }: BuildBundleOptions = {}
+): Promise<BundleManifest> {
+  const root = normalizeBundlePath(robot.slug) || 'robot';
+  const manifest: BundleManifest = {
+    robot: { name: robot.name, slug: robot.slug },
+    mode,
+    generated_at: new Date().toISOString(),
+    files: [],
+    assets: [],
+    missing: [],
+  };
+  const takenPaths = new Set<string>();
+  // Meshes shared by several model files are only bundled once
+  const assetPaths = new Map<string, string>();
+  let totalBytes = 0;
+  let assetCount = 0;
+
+  const fetchResponse = async (url: string) => {
+    const response = await fetchImpl(url);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+  const fetchBytes = async (url: string) => new Uint8Array(await (await fetchResponse(url)).arrayBuffer());
+
+  // Returns the checksum and size, or null once the bundle is full
+  const write = (path: string, data: Uint8Array) => {
+    if (totalBytes + data.length > MAX_BUNDLE_BYTES) return null;
+    totalBytes += data.length;
+    addEntry(`${root}/${path}`, data);
+    return { sha256: sha256(data), size: data.length };
+  };
+
+  const addAsset = async (source: string, path: string, usedBy: string, data?: Uint8Array) => {
+    const existing = assetPaths.get(source);
+    if (existing) return existing;
+
+    // Counted before downloading, since assets are fetched concurrently
+    if (assetCount >= MAX_BUNDLE_ASSETS) {
+      manifest.missing.push({ source, used_by: usedBy, reason: 'Bundle asset limit reached' });
+      return null;
+    }
+    assetCount++;
+
+    try {
+      const bytes = data ?? (await fetchBytes(source));
+      const claimed = claimPath(path, takenPaths);
+      const entry = write(claimed, bytes);
+      if (!entry) {
+        manifest.missing.push({ source, used_by: usedBy, reason: 'Bundle size limit reached' });
+        return null;
+      }
+      assetPaths.set(source, claimed);
+      manifest.assets.push({ path: claimed, source, ...entry, used_by: usedBy });
+      return claimed;
+    } catch (error) {
+      manifest.missing.push({
+        source,
+        used_by: usedBy,
+        reason: error instanceof Error ? error.message : 'Download failed',
+      });
+      return null;
+    }
+  };
+
+  for (const file of files.slice(MAX_BUNDLE_FILES)) {
+    manifest.missing.push({ source: file.file_url, reason: 'Bundle file limit reached' });
+  }
+
+  for (const file of files.slice(0, MAX_BUNDLE_FILES)) {
+    const folder = BUNDLE_TYPE_FOLDERS[file.file_type];
+    const baseName = normalizeBundlePath(file.file_name).split('/').pop() || `${file.file_type}-file`;
+    const fileName = file.file_type === 'bom' && !baseName.includes('.') ? `${baseName}.csv` : baseName;
+    const path = claimPath(`${folder}/${fileName}`, takenPaths);
+
+    try {
+      let data: Uint8Array;
+
+      if (file.file_type === 'urdf') {
+        const context = await loadResolverContext(file.file_url, robot.github_url);
+        const source = await (await fetchResponse(context.fileUrl)).text();
+        const meshPaths = Array.from(
+          new Set(parseUrdf(source).links.flatMap((link) => link.meshes))
+        ).slice(0, MAX_ASSETS_PER_FILE);
+
+        const localPaths = new Map<string, string>();
+        await forEachConcurrent(meshPaths, ASSET_FETCH_CONCURRENCY, async (meshPath) => {
+          const url = resolveMeshPath(meshPath, context);
+          if (!url) {
+            manifest.missing.push({ source: meshPath, used_by: path, reason: 'Local file path' });
+            return;
+          }
+          const assetPath = await addAsset(url, `${folder}/${urdfMeshBundlePath(meshPath)}`, path);
+          if (assetPath) localPaths.set(meshPath, assetPath.slice(folder.length + 1));
+        });
+
+        data = strToU8(rewriteMeshReferences(source, (meshPath) => localPaths.get(meshPath) ?? null));
+      } else if (file.file_type === 'mjcf') {
+        const fileUrl = toRawGitHubUrl(file.file_url);
+        const source = await (await fetchResponse(fileUrl)).text();
+        const model = await parseMjcf(source, {
+          loadInclude: async (include) => {
+            const includeUrl = new URL(include, fileUrl).toString();
+            const text = await (await fetchResponse(includeUrl)).text();
+            await addAsset(includeUrl, `${folder}/${normalizeBundlePath(include)}`, path, strToU8(text));
+            return text;
+          },
+        });
+
+        const meshdir = model.meshdir && !model.meshdir.endsWith('/') ? `${model.meshdir}/` : model.meshdir;
+        const meshFiles = Array.from(
+          new Set(Object.values(model.meshes).map((mesh) => meshdir + mesh.file))
+        ).slice(0, MAX_ASSETS_PER_FILE);
+
+        await forEachConcurrent(meshFiles, ASSET_FETCH_CONCURRENCY, async (meshFile) => {
+          await addAsset(new URL(meshFile, fileUrl).toString(), `${folder}/${normalizeBundlePath(meshFile)}`, path);
+        });
+
+        data = strToU8(source);
+      } else {
+        const url = file.file_type === 'bom' ? toBomCsvUrl(file.file_url) : toRawGitHubUrl(file.file_url);
+        data = await fetchBytes(url);
+      }
+
+      const entry = write(path, data);
+      if (!entry) {
+        manifest.missing.push({ source: file.file_url, reason: 'Bundle size limit reached' });
+        continue;
+      }
+      manifest.files.push({
+        path,
+        source: file.file_url,
+        ...entry,
+        file_id: file.id,
+        type: file.file_type,
+        version: file.version,
+        owner_added: file.is_owner_added,
+      });
+    } catch (error) {
+      manifest.missing.push({
+        source: file.file_url,
+        reason: error instanceof Error ? error.message : 'Download failed',
+      });
+    }
+  }
+
+  addEntry(`${root}/manifest.json`, strToU8(JSON.stringify(manifest, null, 2)));
+  return manifest;
+}
+
+/**
+ * Stream a zip whose entries are added by the write callback
+ */
+export function createZipStream(write: (addEntry: AddBundleEntry) => Promise<unknown>): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      const zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error);
+          return;
+        }
+        controller.enqueue(chunk);
+        if (final) controller.close();
+      });
+
+      write((path, data) => {
+        const entry = new ZipDeflate(path, { level: 6 });
+        zip.add(entry);
+        entry.push(data, true);
+      }).then(
+        () => zip.end(),
+        (error) => {
+          zip.terminate();
+          controller.error(error);
+        }
+      );
+    },
+  });
+}
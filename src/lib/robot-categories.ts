@@ -0,0 +1,120 @@
+/**
+ * Robot categories
+ * A managed tree (Arms > 6-DOF Arms, Mobile > Quadrupeds, ...) stored as
+ * parent links in robot_categories. Each robot has one primary category;
+ * browsing a category includes everything filed under its subcategories.
+ */
+
+import type { RobotCategory } from './types';
+
+export interface CategoryNode {
+  category: RobotCategory;
+  children: CategoryNode[];
+}
+
+export interface FlatCategory {
+  category: RobotCategory;
+  depth: number;
+}
+
+const compareCategories = (a: RobotCategory, b: RobotCategory) =>
+  a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+
+/**
+ * Nest categories under their parents, siblings by sort order then name.
+ * Categories whose parent is missing are treated as top level.
+ */
+export function buildCategoryTree(categories: RobotCategory[]): CategoryNode[] {
+  const nodes = new Map(
+    categories.map((category) => [category.id, { category, children: [] as CategoryNode[] }])
+  );
+  const roots: CategoryNode[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.category.parent_id ? nodes.get(node.category.parent_id) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  const sortNodes = (list: CategoryNode[]) => {
+    list.sort((a, b) => compareCategories(a.category, b.category));
+    list.forEach((node) => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+}
+
+/**
+ * Depth-first list of the tree, for indented selects and admin tables
+ */
+export function flattenCategoryTree(tree: CategoryNode[], depth = 0): FlatCategory[] {
+  return tree.flatMap((node) => [
+    { category: node.category, depth },
+    ...flattenCategoryTree(node.children, depth + 1),
+  ]);
+}
+
+/**
+ * The category and its ancestors, root first, for breadcrumbs
+ */
+export function getCategoryPath(
+  categories: RobotCategory[],
+  categoryId: string | null | undefined
+): RobotCategory[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: RobotCategory[] = [];
+  const seen = new Set<string>();
+  let current = categoryId ? byId.get(categoryId) : undefined;
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * The category and everything below it
+ */
+export function getCategoryDescendantIds(categories: RobotCategory[], categoryId: string): Set<string> {
+  const ids = new Set<string>([categoryId]);
+  let grew = true;
+
+  while (grew) {
+    grew = false;
+    for (const category of categories) {
+      if (category.parent_id && ids.has(category.parent_id) && !ids.has(category.id)) {
+        ids.add(category.id);
+        grew = true;
+      }
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Categories a category may be moved under: anything but itself and its own
+ * subcategories
+ */
+export function getParentCandidates(
+  categories: RobotCategory[],
+  categoryId: string | null
+): RobotCategory[] {
+  if (!categoryId) return categories;
+  const excluded = getCategoryDescendantIds(categories, categoryId);
+  return categories.filter((category) => !excluded.has(category.id));
+}
+
+/**
+ * "Arms › 6-DOF Arms"
+ */
+export function formatCategoryPath(path: RobotCategory[]): string {
+  return path.map((category) => category.name).join(' › ');
+}
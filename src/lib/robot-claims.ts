@@ -0,0 +1,57 @@
+/**
+ * Robot claims
+ * Authors of a robot someone else listed can claim it. A claim is verified
+ * when the claimant's GitHub account owns or collaborates on the robot's
+ * repository, or when the repository holds the claim's verification file.
+ * public.handle_robot_claim moves ownership once a claim is approved.
+ */
+
+import type { RobotClaimMethod, RobotClaimStatus } from './types';
+
+// Committed to the repository's default branch, holding the claim token
+export const CLAIM_FILE_PATH = '.robotsthatexist-claim';
+
+export const CLAIM_STATUS_LABELS: Record<RobotClaimStatus, string> = {
+  pending: 'Awaiting verification',
+  contested: 'Waiting for an admin',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+export const CLAIM_METHOD_LABELS: Record<RobotClaimMethod, string> = {
+  github_owner: 'Owns the repository',
+  github_collaborator: 'Collaborator on the repository',
+  verification_file: 'Verification file in the repository',
+};
+
+// Claims that still need the claimant or an admin
+export const OPEN_CLAIM_STATUSES: RobotClaimStatus[] = ['pending', 'contested'];
+
+/**
+ * GitHub usernames are case-insensitive
+ */
+export function isSameGitHubUser(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Whether a fetched verification file carries the claim's token
+ */
+export function claimFileMatches(content: string | null, token: string): boolean {
+  return !!content && content.split(/\s+/).includes(token);
+}
+
+/**
+ * What happens to a claim after a verification attempt. Verified claims on
+ * robots an admin listed on the author's behalf go through straight away;
+ * taking a robot from another member needs an admin. Unverified claims stay
+ * pending so the claimant can retry or ask for review.
+ */
+export function getClaimOutcome(
+  method: RobotClaimMethod | null,
+  ownerIsAdmin: boolean
+): RobotClaimStatus {
+  if (!method) return 'pending';
+  return ownerIsAdmin ? 'approved' : 'contested';
+}
@@ -0,0 +1,144 @@
+/**
+ * Robot comparison
+ * Helpers for the /compare?robots=a,b,c page and the comparison tray: reading
+ * the robot list from the URL and lining up each robot's facts into rows so
+ * differences stand out.
+ */
+
+import type { Robot, RobotFileType } from './types';
+import type { GitHubRepoActivity } from './github';
+import { FILE_TYPE_LABELS } from './file-types';
+import {
+  ENUM_SPEC_FIELDS,
+  NUMERIC_SPEC_FIELDS,
+  formatSpecValue,
+  normalizeRobotSpecs,
+} from './robot-specs';
+
+export const MAX_COMPARED_ROBOTS = 4;
+
+// Guides vary too much in form to be worth a row
+export const COMPARED_FILE_TYPES: RobotFileType[] = ['urdf', 'mjcf', 'stl', 'bom'];
+
+export const MISSING_VALUE = '—';
+
+export interface ComparedRobot {
+  robot: Pick<
+    Robot,
+    'id' | 'name' | 'slug' | 'description' | 'image_url' | 'github_url' | 'budget' | 'tags' | 'specs'
+  >;
+  averageRating: number;
+  reviewCount: number;
+  fileTypes: RobotFileType[];
+  // null without a repository, or when GitHub couldn't be reached
+  activity: GitHubRepoActivity | null;
+}
+
+export type ComparisonSection = 'Overview' | 'Specs' | 'Files' | 'Repository';
+
+export interface ComparisonRow {
+  key: string;
+  section: ComparisonSection;
+  label: string;
+  // One per robot, in column order
+  values: string[];
+  differs: boolean;
+}
+
+/**
+ * Slugs from the robots= query parameter, deduplicated and capped
+ */
+export function parseCompareSlugs(param: string | null | undefined): string[] {
+  const slugs = (param || '')
+    .split(',')
+    .map((slug) => slug.trim())
+    .filter(Boolean);
+  return [...new Set(slugs)].slice(0, MAX_COMPARED_ROBOTS);
+}
+
+export function getCompareUrl(slugs: string[]): string {
+  return slugs.length > 0 ? `/compare?robots=${slugs.join(',')}` : '/compare';
+}
+
+/**
+ * "today", "3 days ago", "5 months ago", "2 years ago"
+ */
+export function formatRepoAge(date: string, now: Date = new Date()): string {
+  const days = Math.floor(Math.max(0, now.getTime() - new Date(date).getTime()) / 86_400_000);
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+
+  if (days < 1) return 'today';
+  if (days < 30) return plural(days, 'day');
+  if (days < 365) return plural(Math.floor(days / 30), 'month');
+  return plural(Math.floor(days / 365), 'year');
+}
+
+/**
+ * Rows of the comparison table, grouped by section. Spec and repository rows
+ * that no compared robot has a value for are left out.
+ */
+export function buildComparisonRows(robots: ComparedRobot[], now: Date = new Date()): ComparisonRow[] {
+  const rows: ComparisonRow[] = [];
+  const addRow = (key: string, section: ComparisonSection, label: string, values: string[]) => {
+    rows.push({ key, section, label, values, differs: new Set(values).size > 1 });
+  };
+
+  addRow('budget', 'Overview', 'Budget', robots.map(({ robot }) => robot.budget || MISSING_VALUE));
+  addRow(
+    'rating',
+    'Overview',
+    'Average rating',
+    robots.map(({ averageRating, reviewCount }) =>
+      reviewCount > 0 ? `${averageRating.toFixed(1)} / 5` : 'No reviews'
+    )
+  );
+  addRow('reviews', 'Overview', 'Reviews', robots.map(({ reviewCount }) => String(reviewCount)));
+  addRow(
+    'tags',
+    'Overview',
+    'Tags',
+    robots.map(({ robot }) => [...(robot.tags || [])].sort().join(', ') || MISSING_VALUE)
+  );
+
+  const specs = robots.map(({ robot }) => normalizeRobotSpecs(robot.specs));
+  for (const field of [...NUMERIC_SPEC_FIELDS, ...ENUM_SPEC_FIELDS]) {
+    const values = specs.map((robotSpecs) => formatSpecValue(robotSpecs, field.key) ?? MISSING_VALUE);
+    if (values.some((value) => value !== MISSING_VALUE)) {
+      addRow(`spec-${field.key}`, 'Specs', field.label, values);
+    }
+  }
+
+  for (const fileType of COMPARED_FILE_TYPES) {
+    addRow(
+      `file-${fileType}`,
+      'Files',
+      FILE_TYPE_LABELS[fileType],
+      robots.map(({ fileTypes }) => (fileTypes.includes(fileType) ? 'Yes' : 'No'))
+    );
+  }
+
+  if (robots.some(({ activity }) => activity)) {
+    const activityRow = (
+      key: string,
+      label: string,
+      format: (activity: GitHubRepoActivity) => string
+    ) => {
+      addRow(
+        `repo-${key}`,
+        'Repository',
+        label,
+        robots.map(({ activity }) => (activity ? format(activity) : MISSING_VALUE))
+      );
+    };
+
+    activityRow('pushed', 'Last push', (activity) =>
+      activity.pushedAt ? formatRepoAge(activity.pushedAt, now) : MISSING_VALUE
+    );
+    activityRow('stars', 'Stars', (activity) => activity.stars.toLocaleString('en-US'));
+    activityRow('forks', 'Forks', (activity) => activity.forks.toLocaleString('en-US'));
+    activityRow('issues', 'Open issues', (activity) => activity.openIssues.toLocaleString('en-US'));
+    activityRow('status', 'Status', (activity) => (activity.archived ? 'Archived' : 'Active'));
+  }
+
+  return rows;
+}
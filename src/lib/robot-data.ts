@@ -1,10 +1,16 @@
 import useSWR from 'swr';
 import { supabase } from '@/lib/supabase';
-import type { RobotCardData } from '@/lib/types';
+import { fetchRepositoryActivity } from '@/lib/github';
+import type { ComparedRobot } from '@/lib/robot-compare';
+import { PUBLIC_ROBOT_STATUSES } from '@/lib/robot-moderation';
+import { DEFAULT_ROBOT_SLUG, isSlugFromBase, pickAvailableSlug } from '@/lib/robot-slugs';
+import { generateSlug } from '@/lib/robotFormUtils';
+import { DEFAULT_EXCHANGE_RATES, type ExchangeRates } from '@/lib/budget-config';
+import type { ExchangeRate, RobotCardData, RobotCategory, RobotFileType, RobotStatus } from '@/lib/types';
 
 export interface RobotData extends Omit<RobotCardData, 'status'> {
   created_at: string;
-  status: 'published' | 'draft';
+  status: RobotStatus;
   average_rating: number;
 }
 
@@ -20,7 +26,13 @@ const fetchAllRobots = async (): Promise<RobotData[]> => {
         description,
         github_url,
         image_url,
+        budget,
+        budget_min,
+        budget_max,
+        budget_currency,
         tags,
+        specs,
+        category_id,
         created_at,
         updated_at,
         profiles (
@@ -39,7 +51,7 @@ const fetchAllRobots = async (): Promise<RobotData[]> => {
           rating
         )
       `)
-      .eq('status', 'published')
+      .in('status', PUBLIC_ROBOT_STATUSES)
       .order('created_at', { ascending: false })
       .limit(500);
 
@@ -92,6 +104,57 @@ export const useAllRobots = () => {
   );
 };
 
+// Exchange rates admins keep in the database, over the built-in defaults
+const fetchExchangeRates = async (): Promise<ExchangeRates> => {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('currency, usd_per_unit');
+
+  if (error) {
+    throw new Error(`Failed to fetch exchange rates: ${error.message}`);
+  }
+
+  const rates = { ...DEFAULT_EXCHANGE_RATES };
+  for (const rate of (data || []) as Pick<ExchangeRate, 'currency' | 'usd_per_unit'>[]) {
+    rates[rate.currency] = Number(rate.usd_per_unit);
+  }
+  return rates;
+};
+
+export const useExchangeRates = () => {
+  return useSWR<ExchangeRates, Error>('exchange-rates', fetchExchangeRates, {
+    revalidateOnFocus: false,
+    dedupingInterval: 300000, // Cache for 5 minutes
+  });
+};
+
+// Fetcher for the category tree, flat; see robot-categories.ts for nesting
+const fetchRobotCategories = async (): Promise<RobotCategory[]> => {
+  const { data, error } = await supabase
+    .from('robot_categories')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch categories: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+// Hook to get all robot categories with SWR caching
+export const useRobotCategories = () => {
+  return useSWR<RobotCategory[], Error>(
+    'robot-categories',
+    fetchRobotCategories,
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 300000, // Cache for 5 minutes
+    }
+  );
+};
+
 // Hook to get robots filtered by tags
 export const useRobotsByTag = (tag: string | null) => {
   const { data: allRobots, error, isLoading } = useAllRobots();
@@ -136,4 +199,94 @@ export const useAllTags = () => {
     error,
     isLoading
   };
-};
\ No newline at end of file
+};
+
+// Fetcher for the comparison page: robots plus ratings, files and repo activity
+const fetchComparedRobots = async (slugs: string[]): Promise<ComparedRobot[]> => {
+  const { data: robots, error } = await supabase
+    .from('robots')
+    .select('id, name, slug, description, image_url, github_url, budget, tags, specs')
+    .in('slug', slugs)
+    .in('status', PUBLIC_ROBOT_STATUSES);
+
+  if (error) {
+    throw new Error(`Failed to fetch robots: ${error.message}`);
+  }
+
+  const robotIds = (robots || []).map((robot) => robot.id);
+  const [reviewsResult, filesResult, activities] = await Promise.all([
+    supabase.from('reviews').select('robot_id, rating').in('robot_id', robotIds),
+    supabase.from('robot_files').select('robot_id, file_type').in('robot_id', robotIds),
+    // Rate limits or a deleted repo shouldn't break the whole comparison
+    Promise.all(
+      (robots || []).map((robot) =>
+        robot.github_url ? fetchRepositoryActivity(robot.github_url).catch(() => null) : null
+      )
+    ),
+  ]);
+
+  const compared = (robots || []).map((robot, index): ComparedRobot => {
+    const ratings = (reviewsResult.data || [])
+      .filter((review) => review.robot_id === robot.id)
+      .map((review) => review.rating);
+    const fileTypes = new Set<RobotFileType>(
+      (filesResult.data || [])
+        .filter((file) => file.robot_id === robot.id)
+        .map((file) => file.file_type)
+    );
+
+    return {
+      robot,
+      averageRating: ratings.length > 0
+        ? Math.round((ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length) * 10) / 10
+        : 0,
+      reviewCount: ratings.length,
+      fileTypes: [...fileTypes],
+      activity: activities[index],
+    };
+  });
+
+  // Keep the order the robots were picked in
+  return slugs
+    .map((slug) => compared.find(({ robot }) => robot.slug === slug))
+    .filter((robot): robot is ComparedRobot => Boolean(robot));
+};
+
+// Hook to get the robots on the comparison page
+export const useComparedRobots = (slugs: string[]) => {
+  return useSWR<ComparedRobot[], Error>(
+    slugs.length > 0 ? `compare-${slugs.join(',')}` : null,
+    () => fetchComparedRobots(slugs),
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 300000, // Cache for 5 minutes
+      shouldRetryOnError: false,
+    }
+  );
+};
+
+/**
+ * Free slug for a robot name. Slugs other robots use or used before are
+ * skipped; a robot being renamed keeps its slug while the name still maps
+ * onto it.
+ */
+export const allocateRobotSlug = async (
+  name: string,
+  robot?: { id: string; slug: string }
+): Promise<string> => {
+  const base = generateSlug(name) || DEFAULT_ROBOT_SLUG;
+  if (robot && isSlugFromBase(robot.slug, base)) {
+    return robot.slug;
+  }
+
+  const { data, error } = await supabase.rpc('robot_slugs_taken', {
+    base_slug: base,
+    for_robot: robot?.id ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to check robot slugs: ${error.message}`);
+  }
+
+  return pickAvailableSlug(base, data || []);
+};
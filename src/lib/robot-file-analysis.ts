@@ -0,0 +1,375 @@
+/**
+ * Robot description file analysis
+ * Extracts metadata from URDF and MJCF files and flags problems that break
+ * simulators or the 3D preview: missing inertials, zero masses, duplicate
+ * names, broken kinematic chains and meshes that can't be found.
+ */
+
+import { flattenMjcfBodies, parseMjcf, type MjcfModel } from './mjcf-parser';
+import { resolveMeshPath, type MeshPathResolver } from './mesh-resolver';
+import { parseUrdf, type UrdfModel } from './urdf-parser';
+import type {
+  FileAnalysisIssue,
+  FileAnalysisStatus,
+  RobotFileType,
+  RobotModelMetadata,
+} from './types';
+
+export interface ModelAnalysis {
+  metadata: RobotModelMetadata;
+  issues: FileAnalysisIssue[];
+}
+
+export interface RobotFileAnalysisResult {
+  status: FileAnalysisStatus;
+  metadata: RobotModelMetadata | null;
+  issues: FileAnalysisIssue[];
+}
+
+export interface AnalyzeRobotFileOptions {
+  fetchImpl?: typeof fetch;
+  // Defaults to resolving against the file URL alone, without package lookups
+  resolveMesh?: MeshPathResolver;
+}
+
+export const ANALYZABLE_FILE_TYPES: RobotFileType[] = ['urdf', 'mjcf'];
+
+// Checking every mesh of a large robot would hammer the host
+const MAX_MESH_CHECKS = 100;
+const MESH_CHECK_CONCURRENCY = 8;
+
+const URDF_JOINT_DOF: Record<string, number> = {
+  revolute: 1,
+  continuous: 1,
+  prismatic: 1,
+  planar: 2,
+};
+
+const MJCF_JOINT_DOF: Record<string, number> = {
+  hinge: 1,
+  slide: 1,
+  ball: 3,
+};
+
+function findDuplicates(names: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  names.forEach((name) => (seen.has(name) ? duplicates.add(name) : seen.add(name)));
+  return Array.from(duplicates);
+}
+
+const sumMasses = (masses: (number | null)[]) => {
+  const known = masses.filter((mass): mass is number => mass !== null);
+  return known.length > 0 ? known.reduce((total, mass) => total + mass, 0) : null;
+};
+
+/**
+ * Check that URDF joints connect the links into a single tree
+ */
+function checkUrdfChain(model: UrdfModel): FileAnalysisIssue[] {
+  const issues: FileAnalysisIssue[] = [];
+  const linkNames = new Set(model.links.map((link) => link.name));
+  const parentOf = new Map<string, string>();
+  const childrenOf = new Map<string, string[]>();
+
+  for (const joint of model.joints) {
+    for (const [role, link] of [['parent', joint.parent], ['child', joint.child]] as const) {
+      if (!link || !linkNames.has(link)) {
+        issues.push({
+          severity: 'error',
+          code: 'broken_chain',
+          message: `Joint "${joint.name}" has ${link ? `unknown ${role} link "${link}"` : `no ${role} link`}`,
+          target: joint.name,
+        });
+      }
+    }
+    if (!joint.parent || !joint.child) continue;
+
+    if (parentOf.has(joint.child)) {
+      issues.push({
+        severity: 'error',
+        code: 'broken_chain',
+        message: `Link "${joint.child}" is the child of more than one joint`,
+        target: joint.child,
+      });
+      continue;
+    }
+    parentOf.set(joint.child, joint.parent);
+    childrenOf.set(joint.parent, [...(childrenOf.get(joint.parent) || []), joint.child]);
+  }
+
+  const roots = Array.from(linkNames).filter((name) => !parentOf.has(name));
+  if (roots.length > 1) {
+    issues.push({
+      severity: 'error',
+      code: 'broken_chain',
+      message: `Links are not connected into one tree (roots: ${roots.join(', ')})`,
+    });
+  }
+
+  // Links that can't be reached from a root are part of a cycle
+  const reachable = new Set<string>();
+  const stack = [...roots];
+  while (stack.length > 0) {
+    const link = stack.pop()!;
+    if (reachable.has(link)) continue;
+    reachable.add(link);
+    stack.push(...(childrenOf.get(link) || []));
+  }
+  const cyclic = Array.from(linkNames).filter((name) => !reachable.has(name));
+  if (cyclic.length > 0) {
+    issues.push({
+      severity: 'error',
+      code: 'broken_chain',
+      message: `Joints form a loop through ${cyclic.join(', ')}`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Extract metadata and structural issues from a parsed URDF
+ */
+export function analyzeUrdf(model: UrdfModel): ModelAnalysis {
+  const issues: FileAnalysisIssue[] = [];
+
+  for (const name of findDuplicates(model.links.map((link) => link.name))) {
+    issues.push({
+      severity: 'error',
+      code: 'duplicate_link',
+      message: `Link name "${name}" is used more than once`,
+      target: name,
+    });
+  }
+
+  issues.push(...checkUrdfChain(model));
+
+  for (const link of model.links) {
+    // Links without geometry are usually frames (tool tips, sensors) and need no inertia
+    if (!link.hasInertial && link.hasGeometry) {
+      issues.push({
+        severity: 'warning',
+        code: 'missing_inertial',
+        message: `Link "${link.name}" has geometry but no <inertial>`,
+        target: link.name,
+      });
+    } else if (link.hasInertial && !link.mass) {
+      issues.push({
+        severity: 'warning',
+        code: 'zero_mass',
+        message: `Link "${link.name}" has zero or missing mass`,
+        target: link.name,
+      });
+    }
+  }
+
+  // Floating bases and mimic joints are not independent degrees of freedom
+  const dof = model.joints
+    .filter((joint) => !joint.mimic)
+    .reduce((total, joint) => total + (URDF_JOINT_DOF[joint.type] || 0), 0);
+
+  return {
+    metadata: {
+      format: 'urdf',
+      robotName: model.name,
+      dof,
+      joints: model.joints
+        .filter((joint) => joint.type !== 'fixed')
+        .map((joint) => ({
+          name: joint.name,
+          type: joint.type,
+          lower: joint.type === 'continuous' ? null : joint.limit?.lower ?? null,
+          upper: joint.type === 'continuous' ? null : joint.limit?.upper ?? null,
+        })),
+      linkCount: model.links.length,
+      totalMass: sumMasses(model.links.map((link) => link.mass)),
+      meshPaths: Array.from(new Set(model.links.flatMap((link) => link.meshes))),
+    },
+    issues,
+  };
+}
+
+/**
+ * Extract metadata and structural issues from a parsed MJCF model
+ */
+export function analyzeMjcf(model: MjcfModel): ModelAnalysis {
+  const issues: FileAnalysisIssue[] = [];
+  const bodies = flattenMjcfBodies(model.bodies);
+  const joints = bodies.flatMap((body) => body.joints);
+
+  for (const name of findDuplicates(bodies.map((body) => body.name))) {
+    issues.push({
+      severity: 'error',
+      code: 'duplicate_link',
+      message: `Body name "${name}" is used more than once`,
+      target: name,
+    });
+  }
+
+  const jointNames = new Set(joints.map((joint) => joint.name));
+  for (const actuator of model.actuators) {
+    if (actuator.joint && !jointNames.has(actuator.joint)) {
+      issues.push({
+        severity: 'error',
+        code: 'broken_chain',
+        message: `Actuator "${actuator.name}" drives unknown joint "${actuator.joint}"`,
+        target: actuator.name,
+      });
+    }
+  }
+
+  for (const body of bodies) {
+    // MuJoCo infers inertia from geoms, but moving bodies with neither fail to compile
+    if (body.mass === null && body.geoms.length === 0 && body.joints.length > 0) {
+      issues.push({
+        severity: 'warning',
+        code: 'missing_inertial',
+        message: `Moving body "${body.name}" has no <inertial> and no geoms to infer it from`,
+        target: body.name,
+      });
+    } else if (body.mass === 0) {
+      issues.push({
+        severity: 'warning',
+        code: 'zero_mass',
+        message: `Body "${body.name}" has zero mass`,
+        target: body.name,
+      });
+    }
+  }
+
+  const geoms = [...model.worldGeoms, ...bodies.flatMap((body) => body.geoms)];
+  for (const mesh of new Set(geoms.map((geom) => geom.mesh).filter((mesh): mesh is string => !!mesh))) {
+    if (!model.meshes[mesh]) {
+      issues.push({
+        severity: 'warning',
+        code: 'unresolved_mesh',
+        message: `Geom references undefined mesh asset "${mesh}"`,
+        target: mesh,
+      });
+    }
+  }
+
+  const meshdir = model.meshdir && !model.meshdir.endsWith('/') ? `${model.meshdir}/` : model.meshdir;
+
+  return {
+    metadata: {
+      format: 'mjcf',
+      robotName: model.name,
+      dof: joints.reduce((total, joint) => total + (MJCF_JOINT_DOF[joint.type] || 0), 0),
+      joints: joints
+        .filter((joint) => joint.type !== 'free')
+        .map((joint) => ({
+          name: joint.name,
+          type: joint.type,
+          lower: joint.range?.[0] ?? null,
+          upper: joint.range?.[1] ?? null,
+        })),
+      linkCount: bodies.length,
+      totalMass: sumMasses(bodies.map((body) => body.mass)),
+      meshPaths: Object.values(model.meshes).map((mesh) => meshdir + mesh.file),
+    },
+    issues,
+  };
+}
+
+/**
+ * Return the mesh paths that can't be fetched
+ */
+export async function findUnresolvedMeshes(
+  meshPaths: string[],
+  resolveMesh: MeshPathResolver,
+  fetchImpl: typeof fetch = fetch
+): Promise<string[]> {
+  const unresolved: string[] = [];
+  const queue = meshPaths.slice(0, MAX_MESH_CHECKS);
+
+  const check = async (meshPath: string) => {
+    const url = resolveMesh(meshPath);
+    if (!url) {
+      unresolved.push(meshPath);
+      return;
+    }
+    try {
+      const response = await fetchImpl(url, { method: 'HEAD' });
+      if (!response.ok) unresolved.push(meshPath);
+    } catch {
+      unresolved.push(meshPath);
+    }
+  };
+
+  const workers = Array.from({ length: MESH_CHECK_CONCURRENCY }, async () => {
+    while (queue.length > 0) {
+      await check(queue.shift()!);
+    }
+  });
+  await Promise.all(workers);
+
+  return meshPaths.filter((meshPath) => unresolved.includes(meshPath));
+}
+
+const statusFor = (issues: FileAnalysisIssue[]): FileAnalysisStatus =>
+  issues.some((issue) => issue.severity === 'error')
+    ? 'invalid'
+    : issues.length > 0
+      ? 'warnings'
+      : 'valid';
+
+/**
+ * Fetch a URDF or MJCF file, analyze it and check its meshes
+ */
+export async function analyzeRobotFile(
+  fileType: RobotFileType,
+  fileUrl: string,
+  {
+    fetchImpl = fetch,
+    resolveMesh = (meshPath) => resolveMeshPath(meshPath, { fileUrl, repo: null, packages: {} }),
+  }: AnalyzeRobotFileOptions = {}
+): Promise<RobotFileAnalysisResult> {
+  const fetchText = async (url: string) => {
+    const response = await fetchImpl(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  };
+
+  let analysis: ModelAnalysis;
+  try {
+    const source = await fetchText(fileUrl);
+    if (fileType === 'urdf') {
+      analysis = analyzeUrdf(parseUrdf(source));
+    } else if (fileType === 'mjcf') {
+      const model = await parseMjcf(source, {
+        loadInclude: (file) => fetchText(new URL(file, fileUrl).toString()),
+      });
+      analysis = analyzeMjcf(model);
+    } else {
+      throw new Error(`Cannot analyze ${fileType} files`);
+    }
+  } catch (error) {
+    const issues: FileAnalysisIssue[] = [
+      {
+        severity: 'error',
+        code: 'parse_error',
+        message: error instanceof Error ? error.message : 'Could not read the file',
+      },
+    ];
+    return { status: 'invalid', metadata: null, issues };
+  }
+
+  const unresolved = await findUnresolvedMeshes(analysis.metadata.meshPaths, resolveMesh, fetchImpl);
+  const issues = [
+    ...analysis.issues,
+    ...unresolved.map(
+      (meshPath): FileAnalysisIssue => ({
+        severity: 'warning',
+        code: 'unresolved_mesh',
+        message: `Mesh "${meshPath}" could not be found`,
+        target: meshPath,
+      })
+    ),
+  ];
+
+  return { status: statusFor(issues), metadata: analysis.metadata, issues };
+}
@@ -0,0 +1,84 @@
+/**
+ * Robot maintainers
+ * Each robot has one owner (mirrored into robots.creator_id) and any number of
+ * maintainers who can edit it. These helpers mirror public.is_robot_maintainer
+ * and public.is_robot_owner so the UI only offers what the database allows.
+ */
+
+import type {
+  RobotMaintainer,
+  RobotMaintainerInvitation,
+  RobotMaintainerInvitationStatus,
+  RobotMaintainerRole,
+} from './types';
+
+export const MAINTAINER_ROLE_LABELS: Record<RobotMaintainerRole, string> = {
+  owner: 'Owner',
+  maintainer: 'Maintainer',
+};
+
+type MaintainerLike = Pick<RobotMaintainer, 'user_id' | 'role' | 'created_at'>;
+
+/**
+ * Owner first, then maintainers in the order they joined
+ */
+export function sortMaintainers<T extends MaintainerLike>(maintainers: T[]): T[] {
+  return [...maintainers].sort(
+    (a, b) =>
+      Number(b.role === 'owner') - Number(a.role === 'owner') ||
+      a.created_at.localeCompare(b.created_at)
+  );
+}
+
+/**
+ * Everyone who maintains the robot. The creator is included so checks work
+ * before the maintainer list has loaded.
+ */
+export function getMaintainerIds(
+  maintainers: Pick<RobotMaintainer, 'user_id'>[] | undefined,
+  creatorId?: string | null
+): string[] {
+  const ids = new Set((maintainers || []).map((maintainer) => maintainer.user_id));
+  if (creatorId) ids.add(creatorId);
+  return [...ids];
+}
+
+export function getMaintainerRole(
+  maintainers: Pick<RobotMaintainer, 'user_id' | 'role'>[] | undefined,
+  userId: string | null | undefined,
+  creatorId?: string | null
+): RobotMaintainerRole | null {
+  if (!userId) return null;
+  if (userId === creatorId) return 'owner';
+  return maintainers?.find((maintainer) => maintainer.user_id === userId)?.role ?? null;
+}
+
+/**
+ * Mirrors public.handle_robot_maintainer_invitation: a pending invitation can
+ * only be answered by the invitee, and only cancelled by someone else on the
+ * team (or an admin). Nothing but the status ever changes.
+ */
+export function canSetInvitationStatus(
+  invitation: Pick<RobotMaintainerInvitation, 'invitee_id' | 'status'>,
+  status: RobotMaintainerInvitationStatus,
+  userId: string | null | undefined,
+  // A maintainer of the robot or an admin
+  canManage: boolean
+): boolean {
+  if (!userId || invitation.status !== 'pending') return false;
+
+  const isInvitee = userId === invitation.invitee_id;
+  if (status === 'accepted' || status === 'declined') return isInvitee;
+  if (status === 'cancelled') return !isInvitee && canManage;
+  return false;
+}
+
+/**
+ * PostgREST filter for the robot's own social links: the ones added by its
+ * maintainers, plus legacy links without a user
+ */
+export function maintainerLinksFilter(maintainerIds: string[]): string {
+  return maintainerIds.length > 0
+    ? `user_id.in.(${maintainerIds.join(',')}),user_id.is.null`
+    : 'user_id.is.null';
+}
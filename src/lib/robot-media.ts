@@ -0,0 +1,154 @@
+/**
+ * Robot media gallery
+ * Ordered images and short videos per robot. One image is the cover, which the
+ * database mirrors into robots.image_url for cards, search and social previews.
+ */
+
+import type { RobotMedia, RobotMediaType } from './types';
+
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'mov', 'm4v'];
+
+// Badges and build status images aren't gallery material
+const README_IMAGE_SKIP_PATTERNS = [
+  /shields\.io/i,
+  /badge/i,
+  /\/workflows\/.*\.svg/i,
+  /\.svg(\?|$)/i,
+  /codecov\.io/i,
+  /star-history\.com/i,
+];
+
+export const MAX_README_IMPORTS = 12;
+
+export function isValidMediaUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+const getYouTubeId = (url: string) =>
+  url.match(/(?:youtube\.com\/(?:watch\?(?:.*&)?v=|shorts\/|embed\/)|youtu\.be\/)([\w-]{11})/)?.[1] ||
+  null;
+
+export function getYouTubeEmbedUrl(url: string): string | null {
+  const id = getYouTubeId(url);
+  return id ? `https://www.youtube.com/embed/${id}` : null;
+}
+
+export function getYouTubeThumbnailUrl(url: string): string | null {
+  const id = getYouTubeId(url);
+  return id ? `https://img.youtube.com/vi/${id}/hqdefault.jpg` : null;
+}
+
+/**
+ * Guess whether a URL points at a video (YouTube or a video file) or an image
+ */
+export function detectMediaType(url: string): RobotMediaType {
+  if (getYouTubeId(url)) return 'video';
+
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  const extension = path.split('.').pop() || '';
+  return VIDEO_EXTENSIONS.includes(extension) ? 'video' : 'image';
+}
+
+/**
+ * Gallery order: by position, oldest first among equals
+ */
+export function sortMedia(media: RobotMedia[]): RobotMedia[] {
+  return [...media].sort(
+    (a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at)
+  );
+}
+
+/**
+ * The chosen cover, or the first image when none was picked
+ */
+export function getCoverMedia(media: RobotMedia[]): RobotMedia | null {
+  const sorted = sortMedia(media);
+  return (
+    sorted.find((item) => item.is_cover) ||
+    sorted.find((item) => item.media_type === 'image') ||
+    null
+  );
+}
+
+/**
+ * Move an item by `offset` places and renumber the gallery. Returns only the
+ * items whose position changed, ready to be saved.
+ */
+export function moveMedia(
+  media: RobotMedia[],
+  id: string,
+  offset: number
+): { id: string; position: number }[] {
+  const sorted = sortMedia(media);
+  const from = sorted.findIndex((item) => item.id === id);
+  const to = Math.min(Math.max(from + offset, 0), sorted.length - 1);
+  if (from === -1 || from === to) return [];
+
+  const [moved] = sorted.splice(from, 1);
+  sorted.splice(to, 0, moved);
+
+  return sorted
+    .map((item, position) => ({ id: item.id, position, changed: item.position !== position }))
+    .filter((item) => item.changed)
+    .map(({ id, position }) => ({ id, position }));
+}
+
+export interface ReadmeImage {
+  url: string;
+  caption: string | null;
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+
+const getAttribute = (tag: string, name: string) => {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2]) : null;
+};
+
+/**
+ * Images referenced in a README, either the cached HTML or raw markdown, in
+ * the order they appear. Relative paths, badges and duplicates are left out.
+ */
+export function extractReadmeImages(readme: string): ReadmeImage[] {
+  const found: { index: number; image: ReadmeImage }[] = [];
+
+  for (const match of readme.matchAll(/<img\b[^>]*>/gi)) {
+    // GitHub proxies images through camo and keeps the original URL alongside
+    const url = getAttribute(match[0], 'data-canonical-src') || getAttribute(match[0], 'src');
+    if (url) {
+      found.push({
+        index: match.index ?? 0,
+        image: { url, caption: getAttribute(match[0], 'alt') || null },
+      });
+    }
+  }
+
+  for (const match of readme.matchAll(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)) {
+    found.push({
+      index: match.index ?? 0,
+      image: { url: match[2], caption: match[1].trim() || null },
+    });
+  }
+
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ image }) => image)
+    .filter(({ url }) => {
+      if (!isValidMediaUrl(url) || seen.has(url)) return false;
+      if (README_IMAGE_SKIP_PATTERNS.some((pattern) => pattern.test(url))) return false;
+      seen.add(url);
+      return true;
+    });
+}
@@ -0,0 +1,108 @@
+/**
+ * Robot moderation
+ * Submissions from non-admins wait in a review queue. Admins approve them,
+ * send them back with notes or reject them. The database trigger
+ * enforce_robot_moderation is the source of truth; these helpers mirror it
+ * for the UI.
+ */
+
+import type { RobotStatus } from './types';
+
+export const ROBOT_STATUSES: RobotStatus[] = [
+  'draft',
+  'pending_review',
+  'changes_requested',
+  'published',
+  'deprecated',
+  'archived',
+];
+
+// Everything else is only visible to the owner and admins
+export const PUBLIC_ROBOT_STATUSES: RobotStatus[] = ['published', 'deprecated'];
+
+export const ROBOT_STATUS_LABELS: Record<RobotStatus, string> = {
+  draft: 'Draft',
+  pending_review: 'Pending review',
+  changes_requested: 'Changes requested',
+  published: 'Published',
+  deprecated: 'Deprecated',
+  archived: 'Archived',
+};
+
+export const ROBOT_STATUS_DESCRIPTIONS: Record<RobotStatus, string> = {
+  draft: 'Not submitted yet. Only you can see it.',
+  pending_review: 'Waiting for an admin to review it.',
+  changes_requested: 'A reviewer asked for changes. Edit the robot to resubmit it.',
+  published: 'Live on the site.',
+  deprecated: 'Still listed, but marked as no longer recommended.',
+  archived: 'Hidden from the site.',
+};
+
+export const ROBOT_STATUS_BADGE_VARIANTS: Record<
+  RobotStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  draft: 'outline',
+  pending_review: 'secondary',
+  changes_requested: 'destructive',
+  published: 'default',
+  deprecated: 'outline',
+  archived: 'outline',
+};
+
+export function isPublicRobotStatus(status: RobotStatus): boolean {
+  return PUBLIC_ROBOT_STATUSES.includes(status);
+}
+
+export type ReviewDecision = 'approve' | 'request_changes' | 'reject';
+
+export const REVIEW_DECISIONS: Record<
+  ReviewDecision,
+  { status: RobotStatus; label: string; notesRequired: boolean }
+> = {
+  approve: { status: 'published', label: 'Approve', notesRequired: false },
+  request_changes: { status: 'changes_requested', label: 'Request changes', notesRequired: true },
+  reject: { status: 'archived', label: 'Reject', notesRequired: true },
+};
+
+/**
+ * Status a new robot is created with: admins publish directly, everyone else
+ * goes through review
+ */
+export function getSubmissionStatus(isAdmin: boolean): RobotStatus {
+  return isAdmin ? 'published' : 'pending_review';
+}
+
+/**
+ * Status to save when the owner edits their robot. Editing after changes were
+ * requested resubmits it.
+ */
+export function getStatusAfterOwnerEdit(status: RobotStatus): RobotStatus {
+  return status === 'changes_requested' ? 'pending_review' : status;
+}
+
+/**
+ * Status changes owners can make themselves, in the order they're offered
+ */
+export function getOwnerStatusActions(status: RobotStatus): { status: RobotStatus; label: string }[] {
+  switch (status) {
+    case 'draft':
+      return [{ status: 'pending_review', label: 'Submit for review' }];
+    case 'pending_review':
+      return [{ status: 'draft', label: 'Withdraw' }];
+    case 'changes_requested':
+      return [{ status: 'pending_review', label: 'Resubmit' }];
+    case 'published':
+      return [
+        { status: 'deprecated', label: 'Mark deprecated' },
+        { status: 'archived', label: 'Archive' },
+      ];
+    case 'deprecated':
+      return [
+        { status: 'published', label: 'Undo deprecation' },
+        { status: 'archived', label: 'Archive' },
+      ];
+    case 'archived':
+      return [{ status: 'pending_review', label: 'Submit for review' }];
+  }
+}
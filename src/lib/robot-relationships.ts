@@ -0,0 +1,183 @@
+/**
+ * Robot relationships
+ * Typed links between robots. A row reads "robot <type> related robot", so
+ * SO-101 successor_of SO-100 and arm component_of mobile base. Helpers here
+ * describe a robot's links from its own point of view and lay out its
+ * lineage (variants and successors) as a graph.
+ */
+
+import type { RobotRelationship, RobotRelationshipType } from './types';
+
+export interface RelationshipOption {
+  value: string;
+  type: RobotRelationshipType;
+  // Whether the robot being edited is the subject (robot_id) of the row
+  outgoing: boolean;
+  label: string;
+}
+
+// What an owner can say about their robot, in both directions
+export const RELATIONSHIP_OPTIONS: RelationshipOption[] = [
+  { value: 'successor_of', type: 'successor_of', outgoing: true, label: 'Supersedes' },
+  { value: 'superseded_by', type: 'successor_of', outgoing: false, label: 'Is superseded by' },
+  { value: 'variant_of', type: 'variant_of', outgoing: true, label: 'Is a variant of' },
+  { value: 'has_variant', type: 'variant_of', outgoing: false, label: 'Has a variant' },
+  { value: 'pairs_with', type: 'pairs_with', outgoing: true, label: 'Pairs with' },
+  { value: 'component_of', type: 'component_of', outgoing: true, label: 'Is a component of' },
+  { value: 'uses_component', type: 'component_of', outgoing: false, label: 'Uses as a component' },
+];
+
+const RELATIONSHIP_HEADINGS: Record<RobotRelationshipType, { outgoing: string; incoming: string }> = {
+  successor_of: { outgoing: 'Supersedes', incoming: 'Superseded by' },
+  variant_of: { outgoing: 'Variant of', incoming: 'Variants' },
+  pairs_with: { outgoing: 'Pairs with', incoming: 'Pairs with' },
+  component_of: { outgoing: 'Component of', incoming: 'Components' },
+};
+
+const HEADING_ORDER = [
+  'Superseded by',
+  'Supersedes',
+  'Variant of',
+  'Variants',
+  'Pairs with',
+  'Component of',
+  'Components',
+];
+
+export const LINEAGE_TYPES: RobotRelationshipType[] = ['successor_of', 'variant_of'];
+
+export interface RelatedRobotEntry {
+  relationship: RobotRelationship;
+  otherRobotId: string;
+}
+
+export interface RelationshipGroup {
+  heading: string;
+  entries: RelatedRobotEntry[];
+}
+
+/**
+ * A robot's relationships grouped under headings from its point of view
+ */
+export function groupRelationships(
+  relationships: RobotRelationship[],
+  robotId: string
+): RelationshipGroup[] {
+  const groups = new Map<string, RelatedRobotEntry[]>();
+
+  for (const relationship of relationships) {
+    const outgoing = relationship.robot_id === robotId;
+    if (!outgoing && relationship.related_robot_id !== robotId) continue;
+
+    const headings = RELATIONSHIP_HEADINGS[relationship.relationship_type];
+    const heading = outgoing ? headings.outgoing : headings.incoming;
+    groups.set(heading, [
+      ...(groups.get(heading) || []),
+      {
+        relationship,
+        otherRobotId: outgoing ? relationship.related_robot_id : relationship.robot_id,
+      },
+    ]);
+  }
+
+  return HEADING_ORDER.filter((heading) => groups.has(heading)).map((heading) => ({
+    heading,
+    entries: groups.get(heading)!,
+  }));
+}
+
+/**
+ * The newest robots in a robot's succession, following "superseded by" links
+ * to the end. Empty when nothing supersedes the robot.
+ */
+export function getLatestVersions(relationships: RobotRelationship[], robotId: string): string[] {
+  const successorsOf = (id: string) =>
+    relationships
+      .filter((rel) => rel.relationship_type === 'successor_of' && rel.related_robot_id === id)
+      .map((rel) => rel.robot_id);
+
+  const latest: string[] = [];
+  const seen = new Set<string>([robotId]);
+  const queue = successorsOf(robotId);
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const successors = successorsOf(id).filter((successor) => !seen.has(successor));
+    if (successors.length === 0) {
+      latest.push(id);
+    } else {
+      queue.push(...successors);
+    }
+  }
+
+  return latest;
+}
+
+export interface LineageNode {
+  robotId: string;
+  // Column: older robots on the left, their successors and variants to the right
+  level: number;
+  // Position within the column
+  row: number;
+}
+
+export interface LineageEdge {
+  // The newer robot (successor or variant)
+  from: string;
+  // The robot it derives from
+  to: string;
+  type: RobotRelationshipType;
+}
+
+export interface Lineage {
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+}
+
+/**
+ * Every robot connected to this one through successor and variant links,
+ * placed in columns so each robot sits right of what it derives from
+ */
+export function buildLineage(relationships: RobotRelationship[], robotId: string): Lineage {
+  const lineageEdges = relationships
+    .filter((rel) => LINEAGE_TYPES.includes(rel.relationship_type))
+    .map((rel) => ({ from: rel.robot_id, to: rel.related_robot_id, type: rel.relationship_type }));
+
+  // Connected robots, in breadth-first order from this one
+  const order: string[] = [robotId];
+  for (let i = 0; i < order.length; i++) {
+    for (const edge of lineageEdges) {
+      const other = edge.from === order[i] ? edge.to : edge.to === order[i] ? edge.from : null;
+      if (other && !order.includes(other)) order.push(other);
+    }
+  }
+
+  const edges = lineageEdges.filter((edge) => order.includes(edge.from));
+
+  // Longest path from the oldest robots; the pass limit guards against loops
+  const levels = new Map(order.map((id) => [id, 0]));
+  for (let pass = 0; pass < order.length; pass++) {
+    let changed = false;
+    for (const edge of edges) {
+      const level = levels.get(edge.to)! + 1;
+      if (level > levels.get(edge.from)!) {
+        levels.set(edge.from, level);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const rowsUsed = new Map<number, number>();
+  const nodes = order.map((id) => {
+    const level = levels.get(id)!;
+    const row = rowsUsed.get(level) || 0;
+    rowsUsed.set(level, row + 1);
+    return { robotId: id, level, row };
+  });
+
+  return { nodes, edges };
+}
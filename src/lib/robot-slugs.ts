@@ -0,0 +1,55 @@
+/**
+ * Robot slugs
+ * Slugs are derived from names, transliterated to ASCII first so non-Latin
+ * names still get a readable slug. Taken slugs get a numeric suffix (-2,
+ * -3, ...). Renamed robots keep their old slugs in robot_slug_history, so
+ * those stay taken and /robots/[slug] redirects them.
+ */
+
+// Used when nothing of a name survives transliteration (e.g. CJK names)
+export const DEFAULT_ROBOT_SLUG = 'robot';
+
+// Letters NFKD doesn't reduce to ASCII, plus Cyrillic and Greek
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i',
+  а: 'a', б: 'b', в: 'v', г: 'g', ґ: 'g', д: 'd', е: 'e', ё: 'yo', є: 'ye',
+  ж: 'zh', з: 'z', и: 'i', і: 'i', ї: 'yi', й: 'y', к: 'k', л: 'l', м: 'm',
+  н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'kh',
+  ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e',
+  ю: 'yu', я: 'ya',
+  α: 'a', ά: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', έ: 'e', ζ: 'z', η: 'i',
+  ή: 'i', θ: 'th', ι: 'i', ί: 'i', ϊ: 'i', ΐ: 'i', κ: 'k', λ: 'l', μ: 'm',
+  ν: 'n', ξ: 'x', ο: 'o', ό: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't',
+  υ: 'y', ύ: 'y', ϋ: 'y', ΰ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o', ώ: 'o',
+};
+
+/**
+ * Lowercase ASCII approximation of a name; characters without one are kept
+ * for the caller to strip
+ */
+export function transliterate(text: string): string {
+  return Array.from(text.normalize('NFC').toLowerCase())
+    .map((char) => TRANSLITERATIONS[char] ?? char)
+    .join('')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Whether a slug is the base slug or one of its numbered variants
+ */
+export function isSlugFromBase(slug: string, base: string): boolean {
+  return slug === base || new RegExp(`^${base}-\\d+$`).test(slug);
+}
+
+/**
+ * The base slug if it's free, otherwise the first free numbered variant
+ */
+export function pickAvailableSlug(base: string, taken: Iterable<string>): string {
+  const takenSlugs = new Set(taken);
+  if (!takenSlugs.has(base)) return base;
+
+  let suffix = 2;
+  while (takenSlugs.has(`${base}-${suffix}`)) suffix++;
+  return `${base}-${suffix}`;
+}
@@ -0,0 +1,271 @@
+/**
+ * Robot Spec Sheet
+ *
+ * Typed technical specs stored in robots.specs. Field definitions live here so
+ * the form, the detail page table and the robots list filters stay in sync.
+ */
+
+export const ACTUATOR_TYPES = [
+  'servo',
+  'stepper',
+  'bldc',
+  'brushed-dc',
+  'quasi-direct-drive',
+  'hydraulic',
+  'pneumatic',
+  'other',
+] as const;
+
+export const CONTROLLER_BOARDS = [
+  'arduino',
+  'esp32',
+  'teensy',
+  'stm32',
+  'raspberry-pi',
+  'jetson',
+  'pc',
+  'other',
+] as const;
+
+export const POWER_SOURCES = ['battery', 'mains', 'usb', 'bench-supply', 'other'] as const;
+
+export const ROBOT_FRAMEWORKS = [
+  'ros1',
+  'ros2',
+  'lerobot',
+  'mujoco',
+  'isaac-sim',
+  'gazebo',
+  'pybullet',
+  'arduino',
+  'micropython',
+] as const;
+
+export type ActuatorType = (typeof ACTUATOR_TYPES)[number];
+export type ControllerBoard = (typeof CONTROLLER_BOARDS)[number];
+export type PowerSource = (typeof POWER_SOURCES)[number];
+export type RobotFramework = (typeof ROBOT_FRAMEWORKS)[number];
+
+export interface RobotSpecs {
+  dof?: number | null;
+  payload_kg?: number | null;
+  reach_mm?: number | null;
+  weight_kg?: number | null;
+  voltage_v?: number | null;
+  actuator_type?: ActuatorType | null;
+  controller_board?: ControllerBoard | null;
+  power_source?: PowerSource | null;
+  frameworks?: RobotFramework[];
+}
+
+export type NumericSpecKey = 'dof' | 'payload_kg' | 'reach_mm' | 'weight_kg' | 'voltage_v';
+export type EnumSpecKey = 'actuator_type' | 'controller_board' | 'power_source' | 'frameworks';
+
+export interface NumericSpecField {
+  key: NumericSpecKey;
+  label: string;
+  unit: string;
+  integer?: boolean;
+  step: number;
+}
+
+export interface EnumSpecField {
+  key: EnumSpecKey;
+  label: string;
+  options: readonly string[];
+  // frameworks holds several values, the others one
+  multiple?: boolean;
+}
+
+export const NUMERIC_SPEC_FIELDS: NumericSpecField[] = [
+  { key: 'dof', label: 'Degrees of freedom', unit: '', integer: true, step: 1 },
+  { key: 'payload_kg', label: 'Payload', unit: 'kg', step: 0.1 },
+  { key: 'reach_mm', label: 'Reach', unit: 'mm', step: 1 },
+  { key: 'weight_kg', label: 'Weight', unit: 'kg', step: 0.1 },
+  { key: 'voltage_v', label: 'Supply voltage', unit: 'V', step: 0.1 },
+];
+
+export const ENUM_SPEC_FIELDS: EnumSpecField[] = [
+  { key: 'actuator_type', label: 'Actuators', options: ACTUATOR_TYPES },
+  { key: 'controller_board', label: 'Controller', options: CONTROLLER_BOARDS },
+  { key: 'power_source', label: 'Power', options: POWER_SOURCES },
+  { key: 'frameworks', label: 'Frameworks', options: ROBOT_FRAMEWORKS, multiple: true },
+];
+
+export const SPEC_OPTION_LABELS: Record<string, string> = {
+  servo: 'Hobby/smart servos',
+  stepper: 'Stepper motors',
+  bldc: 'Brushless (BLDC)',
+  'brushed-dc': 'Brushed DC',
+  'quasi-direct-drive': 'Quasi-direct drive',
+  hydraulic: 'Hydraulic',
+  pneumatic: 'Pneumatic',
+  arduino: 'Arduino',
+  esp32: 'ESP32',
+  teensy: 'Teensy',
+  stm32: 'STM32',
+  'raspberry-pi': 'Raspberry Pi',
+  jetson: 'NVIDIA Jetson',
+  pc: 'PC / laptop',
+  battery: 'Battery',
+  mains: 'Mains',
+  usb: 'USB',
+  'bench-supply': 'Bench supply',
+  ros1: 'ROS 1',
+  ros2: 'ROS 2',
+  lerobot: 'LeRobot',
+  mujoco: 'MuJoCo',
+  'isaac-sim': 'Isaac Sim',
+  gazebo: 'Gazebo',
+  pybullet: 'PyBullet',
+  micropython: 'MicroPython',
+  other: 'Other',
+};
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Keep only known fields with values of the right type. Specs come from a
+ * jsonb column and from form drafts in localStorage, so neither is trusted.
+ */
+export function normalizeRobotSpecs(raw: unknown): RobotSpecs {
+  const specs: RobotSpecs = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return specs;
+  const source = raw as Record<string, unknown>;
+
+  for (const field of NUMERIC_SPEC_FIELDS) {
+    const value = toNumber(source[field.key]);
+    if (value !== null) specs[field.key] = value;
+  }
+
+  for (const field of ENUM_SPEC_FIELDS) {
+    const value = source[field.key];
+    if (field.multiple) {
+      const values = Array.isArray(value) ? value : [];
+      const known = field.options.filter((option) => values.includes(option));
+      if (known.length > 0) specs.frameworks = known as RobotFramework[];
+    } else if (typeof value === 'string' && field.options.includes(value)) {
+      (specs as Record<string, unknown>)[field.key] = value;
+    }
+  }
+
+  return specs;
+}
+
+/**
+ * Problems that should stop the form from saving
+ */
+export function validateRobotSpecs(specs: RobotSpecs): string[] {
+  const errors: string[] = [];
+
+  for (const field of NUMERIC_SPEC_FIELDS) {
+    const value = specs[field.key];
+    if (value === null || value === undefined) continue;
+    if (value < 0) errors.push(`${field.label} can't be negative`);
+    if (field.integer && !Number.isInteger(value)) errors.push(`${field.label} must be a whole number`);
+  }
+
+  return errors;
+}
+
+export function hasRobotSpecs(specs: RobotSpecs): boolean {
+  return Object.keys(normalizeRobotSpecs(specs)).length > 0;
+}
+
+/**
+ * Display text for one spec, or null when the robot doesn't list it
+ */
+export function formatSpecValue(specs: RobotSpecs, key: NumericSpecKey | EnumSpecKey): string | null {
+  const numericField = NUMERIC_SPEC_FIELDS.find((field) => field.key === key);
+  if (numericField) {
+    const value = specs[numericField.key];
+    if (value === null || value === undefined) return null;
+    return `${value.toLocaleString('en-US')}${numericField.unit ? ` ${numericField.unit}` : ''}`;
+  }
+
+  const value = specs[key as EnumSpecKey];
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  if (values.length === 0) return null;
+  return values.map((option) => SPEC_OPTION_LABELS[option] || option).join(', ');
+}
+
+/**
+ * Label/value pairs for the spec table, in field order, skipping blanks
+ */
+export function getSpecRows(specs: RobotSpecs): { label: string; value: string }[] {
+  const normalized = normalizeRobotSpecs(specs);
+
+  return [...NUMERIC_SPEC_FIELDS, ...ENUM_SPEC_FIELDS].flatMap((field) => {
+    const value = formatSpecValue(normalized, field.key);
+    return value === null ? [] : [{ label: field.label, value }];
+  });
+}
+
+// ============================================================================
+// FILTERING
+// ============================================================================
+
+export interface RobotSpecFilters {
+  ranges: Partial<Record<NumericSpecKey, [number, number]>>;
+  // A robot matches when it has any of the selected values
+  options: Partial<Record<EnumSpecKey, string[]>>;
+}
+
+export const EMPTY_SPEC_FILTERS: RobotSpecFilters = { ranges: {}, options: {} };
+
+/**
+ * Smallest and largest value of each numeric spec across robots, the domain
+ * of the list's range sliders. Fields nobody filled in are left out.
+ */
+export function getSpecRangeBounds(
+  specsList: RobotSpecs[]
+): Partial<Record<NumericSpecKey, [number, number]>> {
+  const bounds: Partial<Record<NumericSpecKey, [number, number]>> = {};
+
+  for (const specs of specsList.map(normalizeRobotSpecs)) {
+    for (const field of NUMERIC_SPEC_FIELDS) {
+      const value = specs[field.key];
+      if (value === null || value === undefined) continue;
+      const current = bounds[field.key];
+      bounds[field.key] = current
+        ? [Math.min(current[0], value), Math.max(current[1], value)]
+        : [value, value];
+    }
+  }
+
+  return bounds;
+}
+
+export function countActiveSpecFilters(filters: RobotSpecFilters): number {
+  return (
+    Object.keys(filters.ranges).length +
+    Object.values(filters.options).filter((values) => values && values.length > 0).length
+  );
+}
+
+/**
+ * Whether a robot passes the filters. Robots that don't list a spec are
+ * excluded once that spec is filtered on.
+ */
+export function matchesSpecFilters(rawSpecs: unknown, filters: RobotSpecFilters): boolean {
+  const specs = normalizeRobotSpecs(rawSpecs);
+
+  for (const [key, range] of Object.entries(filters.ranges) as [NumericSpecKey, [number, number]][]) {
+    const value = specs[key];
+    if (value === null || value === undefined || value < range[0] || value > range[1]) {
+      return false;
+    }
+  }
+
+  for (const [key, selected] of Object.entries(filters.options) as [EnumSpecKey, string[]][]) {
+    if (!selected || selected.length === 0) continue;
+    const value = specs[key];
+    const values: string[] = Array.isArray(value) ? value : value ? [value] : [];
+    if (!values.some((option) => selected.includes(option))) return false;
+  }
+
+  return true;
+}
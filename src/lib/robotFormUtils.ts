@@ -1,13 +1,20 @@
 import { detectPlatformFromUrl, isValidUrl } from './platform-utils'
-import { isValidBudgetRange } from './budget-config'
+import { isValidBudgetAmount, type BudgetAmount } from './budget-config'
+import { validateRobotSpecs, type RobotSpecs } from './robot-specs'
+import { ROBOT_STATUSES } from './robot-moderation'
+import { transliterate } from './robot-slugs'
+import type { RobotStatus } from './types'
 
 export interface RobotFormData {
   name: string
   description: string
   github_url: string
   image_url: string
-  budget: string
-  status: 'draft' | 'published'
+  budget: BudgetAmount | null
+  status: RobotStatus
+  // Primary category id, '' until one is picked
+  category_id: string
+  specs: RobotSpecs
 }
 
 export interface SocialLink {
@@ -17,8 +24,7 @@ export interface SocialLink {
 }
 
 export function generateSlug(name: string): string {
-  return name
-    .toLowerCase()
+  return transliterate(name)
     .replace(/[^a-z0-9]+/g, '-')
     .replace(/^-+|-+$/g, '')
 }
@@ -34,14 +40,18 @@ export function validateRobotForm(formData: RobotFormData): { isValid: boolean;
     errors.push('Description is required')
   }
 
-  if (!formData.budget.trim()) {
+  if (!formData.budget) {
     errors.push('Budget is required')
-  } else if (!isValidBudgetRange(formData.budget)) {
-    errors.push('Please select a valid budget range')
+  } else if (!isValidBudgetAmount(formData.budget)) {
+    errors.push('Budget amounts must be positive, with the maximum above the minimum')
   }
 
-  if (!formData.status || (formData.status !== 'draft' && formData.status !== 'published')) {
-    errors.push('Please select a valid status (Published)')
+  if (!formData.category_id) {
+    errors.push('Please choose a primary category')
+  }
+
+  if (!formData.status || !ROBOT_STATUSES.includes(formData.status)) {
+    errors.push('Please select a valid status')
   }
 
   if (!formData.github_url.trim()) {
@@ -50,6 +60,8 @@ export function validateRobotForm(formData: RobotFormData): { isValid: boolean;
     errors.push('GitHub URL must be a valid URL')
   }
 
+  // Drafts saved before specs existed don't have them
+  errors.push(...validateRobotSpecs(formData.specs || {}))
 
   return {
     isValid: errors.length === 0,
@@ -79,7 +91,9 @@ export function getInitialFormData(): RobotFormData {
     description: '',
     github_url: '',
     image_url: '',
-    budget: '',
-    status: 'published'
+    budget: null,
+    status: 'published',
+    category_id: '',
+    specs: {}
   }
 }
\ No newline at end of file
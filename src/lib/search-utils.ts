@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { PUBLIC_ROBOT_STATUSES } from '@/lib/robot-moderation';
 
 export interface SearchableRobot {
   id: string;
@@ -96,7 +97,7 @@ export const searchRobots = async <T extends SearchableRobot>(
   const { data, error } = await supabase
     .from("robots")
     .select(selectQuery)
-    .eq("status", "published")
+    .in("status", PUBLIC_ROBOT_STATUSES)
     .or(`name.ilike.%${broadQuery}%,description.ilike.%${broadQuery}%,tags.cs.{${broadQuery}}`)
     .limit(50); // Get more results for better client-side filtering
 
@@ -3,7 +3,8 @@
 
 import { supabase } from "./supabase";
 import { getCachedReadmeSSR } from "./readme-cache";
-import type { ServerSocialLink } from "./types";
+import { PUBLIC_ROBOT_STATUSES, isPublicRobotStatus } from "./robot-moderation";
+import type { RobotSpecs, RobotStatus, ServerSocialLink } from "./types";
 
 export interface ServerRobot {
   id: string;
@@ -14,6 +15,7 @@ export interface ServerRobot {
   image_url: string | null;
   budget: string;
   tags: string[];
+  specs?: RobotSpecs;
   created_at: string;
   updated_at: string;
   profiles?: {
@@ -34,6 +36,24 @@ export interface ServerReview {
   };
 }
 
+/**
+ * Current slug of a public robot that was renamed away from `slug`, so old
+ * links can be redirected
+ */
+export async function fetchRenamedRobotSlug(slug: string): Promise<string | null> {
+  const { data } = await supabase
+    .from("robot_slug_history")
+    .select("robots (slug, status)")
+    .eq("slug", slug)
+    .maybeSingle();
+
+  const robot = data?.robots as unknown as {
+    slug: string;
+    status: RobotStatus;
+  } | null;
+
+  return robot && isPublicRobotStatus(robot.status) ? robot.slug : null;
+}
 
 /**
  * Fetch robot data for server-side rendering
@@ -58,6 +78,7 @@ export async function fetchRobotForSSR(slug: string): Promise<{
         github_url,
         image_url,
         tags,
+        specs,
         created_at,
         updated_at,
         profiles (
@@ -67,7 +88,7 @@ export async function fetchRobotForSSR(slug: string): Promise<{
         )
       `)
       .eq("slug", slug)
-      .eq("status", "published")
+      .in("status", PUBLIC_ROBOT_STATUSES)
       .single();
 
     if (robotError || !robot) {
@@ -159,6 +180,7 @@ export async function fetchRobotsForSSR(limit: number = 50): Promise<ServerRobot
         github_url,
         image_url,
         tags,
+        specs,
         created_at,
         updated_at,
         profiles (
@@ -167,7 +189,7 @@ export async function fetchRobotsForSSR(limit: number = 50): Promise<ServerRobot
           github_username
         )
       `)
-      .eq("status", "published")
+      .in("status", PUBLIC_ROBOT_STATUSES)
       .order("created_at", { ascending: false })
       .limit(limit);
 
@@ -194,7 +216,7 @@ export async function fetchRobotSlugsForSSG(): Promise<string[]> {
     const { data: robots, error } = await supabase
       .from("robots")
       .select("slug")
-      .eq("status", "published");
+      .in("status", PUBLIC_ROBOT_STATUSES);
 
     if (error) {
       console.error("Error fetching robot slugs for SSG:", error);
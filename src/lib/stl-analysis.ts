@@ -0,0 +1,249 @@
+/**
+ * STL analysis
+ * Reads binary and ASCII STL files and computes the numbers needed to decide
+ * whether (and how) to print a part: size, volume, area, mesh health and a
+ * filament estimate.
+ */
+
+export type StlFormat = 'binary' | 'ascii';
+
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in';
+
+export interface ParsedStl {
+  format: StlFormat;
+  name: string;
+  triangleCount: number;
+  // 9 floats per triangle: v1.xyz, v2.xyz, v3.xyz
+  positions: Float32Array;
+}
+
+export interface StlStats {
+  triangleCount: number;
+  boundingBox: {
+    min: [number, number, number];
+    max: [number, number, number];
+    size: [number, number, number];
+  };
+  volume: number;
+  surfaceArea: number;
+  boundaryEdges: number;
+  nonManifoldEdges: number;
+  isManifold: boolean;
+}
+
+export interface PrintMaterial {
+  id: string;
+  name: string;
+  density: number; // g/cm³
+}
+
+export interface PrintSettings {
+  materialId: string;
+  infillPercent: number;
+  shellThicknessMm?: number;
+}
+
+export interface FilamentEstimate {
+  grams: number;
+  volumeCm3: number;
+  material: PrintMaterial;
+}
+
+export const PRINT_MATERIALS: PrintMaterial[] = [
+  { id: 'pla', name: 'PLA', density: 1.24 },
+  { id: 'petg', name: 'PETG', density: 1.27 },
+  { id: 'abs', name: 'ABS', density: 1.04 },
+  { id: 'asa', name: 'ASA', density: 1.07 },
+  { id: 'tpu', name: 'TPU', density: 1.21 },
+  { id: 'nylon', name: 'Nylon', density: 1.14 },
+];
+
+// Two 0.4 mm perimeters, a typical slicer default
+export const DEFAULT_SHELL_THICKNESS_MM = 0.8;
+
+export const UNIT_TO_MM: Record<LengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+};
+
+const BINARY_HEADER_BYTES = 80;
+const BINARY_TRIANGLE_BYTES = 50;
+
+function decodeAscii(bytes: Uint8Array): string {
+  let text = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    text += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return text;
+}
+
+function isBinaryStl(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < BINARY_HEADER_BYTES + 4) return false;
+  const triangleCount = new DataView(buffer).getUint32(BINARY_HEADER_BYTES, true);
+  // Some exporters write "solid" in binary headers too, so trust the size first
+  return buffer.byteLength === BINARY_HEADER_BYTES + 4 + triangleCount * BINARY_TRIANGLE_BYTES;
+}
+
+function parseBinaryStl(buffer: ArrayBuffer): ParsedStl {
+  const view = new DataView(buffer);
+  const triangleCount = view.getUint32(BINARY_HEADER_BYTES, true);
+  const positions = new Float32Array(triangleCount * 9);
+
+  for (let t = 0; t < triangleCount; t++) {
+    // Skip the 12-byte normal, vertices follow
+    const offset = BINARY_HEADER_BYTES + 4 + t * BINARY_TRIANGLE_BYTES + 12;
+    for (let i = 0; i < 9; i++) {
+      positions[t * 9 + i] = view.getFloat32(offset + i * 4, true);
+    }
+  }
+
+  const header = decodeAscii(new Uint8Array(buffer, 0, BINARY_HEADER_BYTES));
+  return {
+    format: 'binary',
+    name: header.replace(/\u0000/g, '').replace(/^solid\s*/, '').trim(),
+    triangleCount,
+    positions,
+  };
+}
+
+function parseAsciiStl(text: string): ParsedStl {
+  const vertices: number[] = [];
+  const vertexPattern = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+  for (const match of text.matchAll(vertexPattern)) {
+    vertices.push(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  if (vertices.length === 0 || vertices.length % 9 !== 0 || vertices.some(Number.isNaN)) {
+    throw new Error('Invalid ASCII STL: malformed facets');
+  }
+
+  return {
+    format: 'ascii',
+    name: text.match(/^\s*solid[ \t]*([^\r\n]*)/)?.[1].trim() || '',
+    triangleCount: vertices.length / 9,
+    positions: new Float32Array(vertices),
+  };
+}
+
+/**
+ * Parse a binary or ASCII STL file
+ */
+export function parseStl(buffer: ArrayBuffer): ParsedStl {
+  if (isBinaryStl(buffer)) {
+    return parseBinaryStl(buffer);
+  }
+
+  const text = decodeAscii(new Uint8Array(buffer));
+  if (/^\s*solid/.test(text) && text.includes('facet')) {
+    return parseAsciiStl(text);
+  }
+
+  throw new Error('Not a valid STL file');
+}
+
+/**
+ * Compute bounding box, volume, surface area and manifold checks.
+ * Units are whatever the file uses.
+ */
+export function analyzeStl({ positions, triangleCount }: ParsedStl): StlStats {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  let signedVolume = 0;
+  let surfaceArea = 0;
+
+  // Edges are keyed by their (rounded) endpoints so duplicated vertices match
+  const edgeCounts = new Map<string, number>();
+  const vertexKey = (i: number) =>
+    `${positions[i].toFixed(5)},${positions[i + 1].toFixed(5)},${positions[i + 2].toFixed(5)}`;
+
+  for (let t = 0; t < triangleCount; t++) {
+    const o = t * 9;
+    const [ax, ay, az] = [positions[o], positions[o + 1], positions[o + 2]];
+    const [bx, by, bz] = [positions[o + 3], positions[o + 4], positions[o + 5]];
+    const [cx, cy, cz] = [positions[o + 6], positions[o + 7], positions[o + 8]];
+
+    for (let i = 0; i < 9; i++) {
+      const axis = i % 3;
+      min[axis] = Math.min(min[axis], positions[o + i]);
+      max[axis] = Math.max(max[axis], positions[o + i]);
+    }
+
+    // Signed volume of the tetrahedron formed with the origin
+    signedVolume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+
+    const [ux, uy, uz] = [bx - ax, by - ay, bz - az];
+    const [vx, vy, vz] = [cx - ax, cy - ay, cz - az];
+    surfaceArea += Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx) / 2;
+
+    const keys = [vertexKey(o), vertexKey(o + 3), vertexKey(o + 6)];
+    for (let i = 0; i < 3; i++) {
+      const a = keys[i];
+      const b = keys[(i + 1) % 3];
+      const edge = a < b ? `${a}|${b}` : `${b}|${a}`;
+      edgeCounts.set(edge, (edgeCounts.get(edge) || 0) + 1);
+    }
+  }
+
+  let boundaryEdges = 0;
+  let nonManifoldEdges = 0;
+  edgeCounts.forEach((count) => {
+    if (count === 1) boundaryEdges++;
+    else if (count > 2) nonManifoldEdges++;
+  });
+
+  if (triangleCount === 0) {
+    min.fill(0);
+    max.fill(0);
+  }
+
+  return {
+    triangleCount,
+    boundingBox: {
+      min,
+      max,
+      size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]],
+    },
+    volume: Math.abs(signedVolume),
+    surfaceArea,
+    boundaryEdges,
+    nonManifoldEdges,
+    isManifold: boundaryEdges === 0 && nonManifoldEdges === 0,
+  };
+}
+
+/**
+ * Guess the file's length unit. Robot description meshes are often in metres,
+ * printable parts almost always in millimetres.
+ */
+export function guessLengthUnit(stats: StlStats): LengthUnit {
+  return Math.max(...stats.boundingBox.size) < 2 ? 'm' : 'mm';
+}
+
+/**
+ * Estimate filament use: a solid shell of the given thickness plus
+ * the requested infill for the rest of the volume.
+ */
+export function estimateFilament(
+  stats: StlStats,
+  unit: LengthUnit,
+  { materialId, infillPercent, shellThicknessMm = DEFAULT_SHELL_THICKNESS_MM }: PrintSettings
+): FilamentEstimate {
+  const material = PRINT_MATERIALS.find((m) => m.id === materialId) || PRINT_MATERIALS[0];
+  const scale = UNIT_TO_MM[unit];
+  const volumeMm3 = stats.volume * scale ** 3;
+  const areaMm2 = stats.surfaceArea * scale ** 2;
+
+  const shellMm3 = Math.min(volumeMm3, areaMm2 * shellThicknessMm);
+  const infill = Math.min(Math.max(infillPercent, 0), 100) / 100;
+  const printedMm3 = shellMm3 + (volumeMm3 - shellMm3) * infill;
+  const volumeCm3 = printedMm3 / 1000;
+
+  return {
+    grams: volumeCm3 * material.density,
+    volumeCm3,
+    material,
+  };
+}
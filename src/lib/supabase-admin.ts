@@ -0,0 +1,47 @@
+import { createClient, SupabaseClient, type User } from "@supabase/supabase-js";
+import type { Database } from "./supabase";
+
+/**
+ * Server-only Supabase client using the service role key.
+ * Bypasses RLS, so only use it in API routes for writes users can't make
+ * themselves (e.g. storing file analysis results). Never import it from
+ * client components.
+ */
+
+let adminClient: SupabaseClient<Database> | undefined;
+
+export function getSupabaseAdmin(): SupabaseClient<Database> {
+  if (adminClient) return adminClient;
+
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not configured");
+  }
+
+  adminClient = createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    serviceRoleKey,
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: {
+        headers: {
+          "x-client-info": "robotsthatexist-server",
+        },
+      },
+    }
+  );
+
+  return adminClient;
+}
+
+/**
+ * The signed-in user behind an API request, from the
+ * `Authorization: Bearer <access token>` header the client sends
+ */
+export async function getRequestUser(request: Request): Promise<User | null> {
+  const token = request.headers.get("authorization")?.match(/^Bearer (.+)$/i)?.[1];
+  if (!token) return null;
+
+  const { data, error } = await getSupabaseAdmin().auth.getUser(token);
+  return error ? null : data.user;
+}
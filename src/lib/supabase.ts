@@ -1,5 +1,20 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { toast } from "sonner";
+import type { BudgetCurrency } from "./budget-config";
+import type {
+  FileAnalysisIssue,
+  FileAnalysisStatus,
+  RobotClaimMethod,
+  RobotClaimStatus,
+  RobotMaintainerInvitationStatus,
+  RobotMaintainerRole,
+  RobotMediaSource,
+  RobotMediaType,
+  RobotModelMetadata,
+  RobotRelationshipType,
+  RobotSpecs,
+  RobotStatus,
+} from "./types";
 
 export type Database = {
   public: {
@@ -45,11 +60,21 @@ export type Database = {
           github_url: string | null;
           github_readme: string | null;
           creator_id: string;
-          status: "draft" | "published";
+          status: RobotStatus;
+          review_notes: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          submitted_at: string | null;
           created_at: string;
           updated_at: string;
           image_url: string | null;
           tags: string[];
+          budget: string;
+          budget_min: number | null;
+          budget_max: number | null;
+          budget_currency: BudgetCurrency;
+          specs: RobotSpecs;
+          category_id: string | null;
         };
         Insert: {
           id?: string;
@@ -59,11 +84,21 @@ export type Database = {
           github_url?: string | null;
           github_readme?: string | null;
           creator_id: string;
-          status?: "draft" | "published";
+          status?: RobotStatus;
+          review_notes?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          submitted_at?: string | null;
           created_at?: string;
           updated_at?: string;
           image_url?: string | null;
           tags?: string[];
+          budget?: string;
+          budget_min?: number | null;
+          budget_max?: number | null;
+          budget_currency?: BudgetCurrency;
+          specs?: RobotSpecs;
+          category_id?: string | null;
         };
         Update: {
           id?: string;
@@ -73,11 +108,21 @@ export type Database = {
           github_url?: string | null;
           github_readme?: string | null;
           creator_id?: string;
-          status?: "draft" | "published";
+          status?: RobotStatus;
+          review_notes?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          submitted_at?: string | null;
           created_at?: string;
           updated_at?: string;
           image_url?: string | null;
           tags?: string[];
+          budget?: string;
+          budget_min?: number | null;
+          budget_max?: number | null;
+          budget_currency?: BudgetCurrency;
+          specs?: RobotSpecs;
+          category_id?: string | null;
         };
       };
       robot_files: {
@@ -91,6 +136,10 @@ export type Database = {
           description: string | null;
           user_id: string | null;
           is_owner_added: boolean;
+          latest_version_id: string | null;
+          parent_file_id: string | null;
+          rank_score: number;
+          rank_updated_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -104,6 +153,8 @@ export type Database = {
           description?: string | null;
           user_id?: string | null;
           is_owner_added?: boolean;
+          latest_version_id?: string | null;
+          parent_file_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -117,6 +168,8 @@ export type Database = {
           description?: string | null;
           user_id?: string | null;
           is_owner_added?: boolean;
+          latest_version_id?: string | null;
+          parent_file_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -147,6 +200,309 @@ export type Database = {
           updated_at?: string;
         };
       };
+      robot_file_analyses: {
+        Row: {
+          file_id: string;
+          status: FileAnalysisStatus;
+          metadata: RobotModelMetadata | null;
+          issues: FileAnalysisIssue[];
+          analyzed_at: string;
+        };
+        Insert: {
+          file_id: string;
+          status: FileAnalysisStatus;
+          metadata?: RobotModelMetadata | null;
+          issues?: FileAnalysisIssue[];
+          analyzed_at?: string;
+        };
+        Update: {
+          file_id?: string;
+          status?: FileAnalysisStatus;
+          metadata?: RobotModelMetadata | null;
+          issues?: FileAnalysisIssue[];
+          analyzed_at?: string;
+        };
+      };
+      robot_file_versions: {
+        Row: {
+          id: string;
+          file_id: string;
+          version: string;
+          file_url: string;
+          changelog: string | null;
+          user_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          file_id: string;
+          version: string;
+          file_url: string;
+          changelog?: string | null;
+          user_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          file_id?: string;
+          version?: string;
+          file_url?: string;
+          changelog?: string | null;
+          user_id?: string | null;
+          created_at?: string;
+        };
+      };
+      robot_file_comments: {
+        Row: {
+          id: string;
+          file_id: string;
+          parent_id: string | null;
+          user_id: string;
+          content: string;
+          is_resolved: boolean;
+          resolved_by: string | null;
+          resolved_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          file_id: string;
+          parent_id?: string | null;
+          user_id: string;
+          content: string;
+          is_resolved?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          content?: string;
+          is_resolved?: boolean;
+        };
+      };
+      guide_step_progress: {
+        Row: {
+          id: string;
+          user_id: string;
+          robot_id: string;
+          file_id: string;
+          step_key: string;
+          completed_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          robot_id: string;
+          file_id: string;
+          step_key: string;
+          completed_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          robot_id?: string;
+          file_id?: string;
+          step_key?: string;
+          completed_at?: string;
+        };
+      };
+      robot_categories: {
+        Row: {
+          id: string;
+          parent_id: string | null;
+          name: string;
+          slug: string;
+          description: string | null;
+          sort_order: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          parent_id?: string | null;
+          name: string;
+          slug: string;
+          description?: string | null;
+          sort_order?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          parent_id?: string | null;
+          name?: string;
+          slug?: string;
+          description?: string | null;
+          sort_order?: number;
+          updated_at?: string;
+        };
+      };
+      robot_relationships: {
+        Row: {
+          id: string;
+          robot_id: string;
+          related_robot_id: string;
+          relationship_type: RobotRelationshipType;
+          note: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          robot_id: string;
+          related_robot_id: string;
+          relationship_type: RobotRelationshipType;
+          note?: string | null;
+          created_by: string;
+          created_at?: string;
+        };
+        Update: {
+          note?: string | null;
+        };
+      };
+      robot_media: {
+        Row: {
+          id: string;
+          robot_id: string;
+          media_type: RobotMediaType;
+          url: string;
+          caption: string | null;
+          position: number;
+          is_cover: boolean;
+          source: RobotMediaSource;
+          user_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          robot_id: string;
+          media_type?: RobotMediaType;
+          url: string;
+          caption?: string | null;
+          position?: number;
+          is_cover?: boolean;
+          source?: RobotMediaSource;
+          user_id: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          caption?: string | null;
+          position?: number;
+          is_cover?: boolean;
+          updated_at?: string;
+        };
+      };
+      robot_maintainers: {
+        Row: {
+          id: string;
+          robot_id: string;
+          user_id: string;
+          role: RobotMaintainerRole;
+          added_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          robot_id: string;
+          user_id: string;
+          role?: RobotMaintainerRole;
+          added_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          role?: RobotMaintainerRole;
+        };
+      };
+      robot_maintainer_invitations: {
+        Row: {
+          id: string;
+          robot_id: string;
+          invitee_id: string;
+          invited_by: string | null;
+          role: RobotMaintainerRole;
+          status: RobotMaintainerInvitationStatus;
+          created_at: string;
+          responded_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          robot_id: string;
+          invitee_id: string;
+          invited_by: string;
+          role?: RobotMaintainerRole;
+          status?: 'pending';
+          created_at?: string;
+        };
+        Update: {
+          status?: RobotMaintainerInvitationStatus;
+        };
+      };
+      exchange_rates: {
+        Row: {
+          currency: Exclude<BudgetCurrency, "USD">;
+          usd_per_unit: number;
+          updated_by: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          currency: Exclude<BudgetCurrency, "USD">;
+          usd_per_unit: number;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          usd_per_unit?: number;
+          updated_by?: string | null;
+        };
+      };
+      robot_slug_history: {
+        Row: {
+          slug: string;
+          robot_id: string;
+          created_at: string;
+        };
+        // Written by the robots_record_slug_change trigger
+        Insert: {
+          slug: string;
+          robot_id: string;
+          created_at?: string;
+        };
+        Update: {
+          robot_id?: string;
+        };
+      };
+      robot_claims: {
+        Row: {
+          id: string;
+          robot_id: string;
+          claimant_id: string;
+          status: RobotClaimStatus;
+          method: RobotClaimMethod | null;
+          verified_at: string | null;
+          verification_token: string;
+          message: string | null;
+          review_notes: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          robot_id: string;
+          claimant_id: string;
+          message?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: RobotClaimStatus;
+          method?: RobotClaimMethod | null;
+          verified_at?: string | null;
+          message?: string | null;
+          review_notes?: string | null;
+        };
+      };
       robot_social_links: {
         Row: {
           id: string;
@@ -180,6 +536,11 @@ export type Database = {
           user_id: string;
           rating: number;
           comment: string;
+          budget: string | null;
+          budget_min: number | null;
+          budget_max: number | null;
+          budget_currency: BudgetCurrency | null;
+          is_anonymous: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -189,6 +550,11 @@ export type Database = {
           user_id: string;
           rating: number;
           comment: string;
+          budget?: string | null;
+          budget_min?: number | null;
+          budget_max?: number | null;
+          budget_currency?: BudgetCurrency | null;
+          is_anonymous?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -198,6 +564,11 @@ export type Database = {
           user_id?: string;
           rating?: number;
           comment?: string;
+          budget?: string | null;
+          budget_min?: number | null;
+          budget_max?: number | null;
+          budget_currency?: BudgetCurrency | null;
+          is_anonymous?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -265,7 +636,10 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      robot_slugs_taken: {
+        Args: { base_slug: string; for_robot?: string | null };
+        Returns: string[];
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -372,6 +746,50 @@ const successMessages: Record<string, Record<string, string>> = {
     update: "File updated successfully",
     delete: "File deleted successfully",
   },
+  robot_file_versions: {
+    insert: "Version added successfully",
+    update: "Version updated successfully",
+    delete: "Version deleted successfully",
+  },
+  robot_file_comments: {
+    insert: "Comment posted",
+    update: "Comment updated",
+    delete: "Comment deleted",
+  },
+  guide_step_progress: {
+    insert: "Step marked as done",
+    delete: "Step marked as not done",
+  },
+  robot_relationships: {
+    insert: "Relationship added",
+    delete: "Relationship removed",
+  },
+  robot_media: {
+    insert: "Media added to the gallery",
+    update: "Gallery updated",
+    delete: "Media removed from the gallery",
+  },
+  robot_maintainers: {
+    insert: "Maintainer added",
+    delete: "Maintainer removed",
+  },
+  robot_maintainer_invitations: {
+    insert: "Invitation sent",
+    update: "Invitation updated",
+  },
+  exchange_rates: {
+    insert: "Exchange rate added",
+    update: "Exchange rate updated",
+  },
+  robot_claims: {
+    insert: "Claim started",
+    update: "Claim updated",
+  },
+  robot_categories: {
+    insert: "Category created",
+    update: "Category updated",
+    delete: "Category deleted",
+  },
   robot_file_ratings: {
     insert: "Rating submitted successfully",
     update: "Rating updated successfully",
@@ -464,3 +882,14 @@ export const supabase = new Proxy(supabaseClient, {
     return target[prop as keyof typeof target];
   },
 });
+
+/**
+ * Headers identifying the signed-in user to API routes that check who is
+ * asking (see getRequestUser in supabase-admin.ts)
+ */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabaseClient.auth.getSession();
+  return data.session
+    ? { Authorization: `Bearer ${data.session.access_token}` }
+    : {};
+}
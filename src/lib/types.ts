@@ -3,10 +3,23 @@
  * Single source of truth for all TypeScript interfaces used across the application
  */
 
+import type { BudgetCurrency } from './budget-config';
+import type { RobotSpecs } from './robot-specs';
+
+export type { RobotSpecs } from './robot-specs';
+
 // ============================================================================
 // CORE DATABASE TYPES (matching Supabase schema)
 // ============================================================================
 
+export type RobotStatus =
+  | 'draft'
+  | 'pending_review'
+  | 'changes_requested'
+  | 'published'
+  | 'archived'
+  | 'deprecated';
+
 export interface Robot {
   id: string;
   name: string;
@@ -14,16 +27,128 @@ export interface Robot {
   description: string;
   github_url: string | null;
   image_url: string | null;
+  // Label of the budget; budget_min/budget_max hold the amount for sorting
+  // and filtering (see budget-config.ts)
   budget: string;
+  budget_min?: number | null;
+  budget_max?: number | null;
+  budget_currency?: BudgetCurrency;
   tags: string[];
   creator_id: string;
-  status: 'draft' | 'published';
+  status: RobotStatus;
+  // Set by admins when reviewing a submission
+  review_notes?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  submitted_at?: string | null;
+  specs: RobotSpecs;
+  // Primary category; tags are secondary labels
+  category_id: string | null;
   created_at: string;
   updated_at: string;
   cached_readme_html?: string | null;
   readme_updated_at?: string | null;
 }
 
+export interface RobotCategory {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  slug: string;
+  description: string | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RobotRelationshipType = 'variant_of' | 'successor_of' | 'pairs_with' | 'component_of';
+
+// Reads "robot <relationship_type> related robot"
+export interface RobotRelationship {
+  id: string;
+  robot_id: string;
+  related_robot_id: string;
+  relationship_type: RobotRelationshipType;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type RobotMediaType = 'image' | 'video';
+
+export type RobotMediaSource = 'manual' | 'readme';
+
+// One gallery entry; the cover is mirrored into Robot.image_url
+export interface RobotMedia {
+  id: string;
+  robot_id: string;
+  media_type: RobotMediaType;
+  url: string;
+  caption: string | null;
+  position: number;
+  is_cover: boolean;
+  source: RobotMediaSource;
+  user_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RobotMaintainerRole = 'owner' | 'maintainer';
+
+// One owner per robot, mirrored into Robot.creator_id
+export interface RobotMaintainer {
+  id: string;
+  robot_id: string;
+  user_id: string;
+  role: RobotMaintainerRole;
+  added_by: string | null;
+  created_at: string;
+}
+
+export type RobotMaintainerInvitationStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+// An invitation with the owner role is an ownership transfer
+export interface RobotMaintainerInvitation {
+  id: string;
+  robot_id: string;
+  invitee_id: string;
+  invited_by: string | null;
+  role: RobotMaintainerRole;
+  status: RobotMaintainerInvitationStatus;
+  created_at: string;
+  responded_at: string | null;
+}
+
+export type RobotClaimStatus =
+  | 'pending'
+  | 'contested'
+  | 'approved'
+  | 'rejected'
+  | 'withdrawn';
+
+export type RobotClaimMethod =
+  | 'github_owner'
+  | 'github_collaborator'
+  | 'verification_file';
+
+export interface RobotClaim {
+  id: string;
+  robot_id: string;
+  claimant_id: string;
+  status: RobotClaimStatus;
+  // How the claimant proved they're behind the repository; null until verified
+  method: RobotClaimMethod | null;
+  verified_at: string | null;
+  verification_token: string;
+  // Claimant's note to the admins, for claims that need review
+  message: string | null;
+  review_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface SocialLink {
   id: string;
   platform: string;
@@ -53,30 +178,96 @@ export interface Review {
   rating: number;
   comment: string;
   budget?: string;
+  budget_min?: number | null;
+  budget_max?: number | null;
+  budget_currency?: BudgetCurrency | null;
   is_anonymous: boolean;
   created_at: string;
   updated_at: string;
   profiles?: Profile;
 }
 
+export interface ExchangeRate {
+  currency: Exclude<BudgetCurrency, 'USD'>;
+  // USD value of one unit of the currency
+  usd_per_unit: number;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export type RobotFileType = 'urdf' | 'mjcf' | 'stl' | 'bom' | 'guide';
+
 export interface RobotFile {
   id: string;
   robot_id: string;
-  file_type: 'urdf' | 'mjcf' | 'stl' | 'bom' | 'guide';
+  file_type: RobotFileType;
   file_url: string;
   file_name: string;
   version: string;
   description: string | null;
   user_id: string | null;
   is_owner_added: boolean;
+  // Version that version/file_url currently mirror
+  latest_version_id: string | null;
+  // File this one was derived from, same robot and type
+  parent_file_id: string | null;
+  // Wilson lower bound of the decayed ratings, kept up to date by the database
+  rank_score: number;
+  rank_updated_at: string | null;
   created_at: string;
   updated_at: string;
   ratings?: {
     up: number;
     down: number;
     userRating?: 'up' | 'down' | null;
+    // The stored rank_score
     score: number;
   };
+  comment_count?: number;
+}
+
+export interface RobotFileRating {
+  id: string;
+  file_id: string;
+  user_id: string;
+  rating: 'up' | 'down';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RobotFileVersion {
+  id: string;
+  file_id: string;
+  version: string;
+  file_url: string;
+  changelog: string | null;
+  user_id: string | null;
+  created_at: string;
+  profiles?: Pick<Profile, 'username' | 'full_name'> | null;
+}
+
+export interface RobotFileComment {
+  id: string;
+  file_id: string;
+  parent_id: string | null;
+  user_id: string;
+  content: string;
+  is_resolved: boolean;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  profiles?: Pick<Profile, 'username' | 'full_name' | 'avatar_url' | 'role'> | null;
+}
+
+export interface GuideStepProgress {
+  id: string;
+  user_id: string;
+  robot_id: string;
+  file_id: string;
+  step_key: string;
+  completed_at: string;
+  profiles?: Pick<Profile, 'username' | 'full_name' | 'avatar_url'> | null;
 }
 
 // ============================================================================
@@ -160,7 +351,7 @@ export interface RobotCreateData {
 
 export interface RobotUpdateData extends Partial<RobotCreateData> {
   id: string;
-  status?: 'draft' | 'published';
+  status?: RobotStatus;
 }
 
 // ============================================================================
@@ -181,7 +372,15 @@ export interface RobotSearchProps {
 
 export interface RobotFileListProps {
   robotId: string;
+  // Current user maintains the robot; their files are marked as official
   isOwner?: boolean;
+  // Listed budget range, checked against BOM totals
+  robotBudget?: string;
+  // Repository the owner can scan for files
+  githubUrl?: string | null;
+  // Robot owner and maintainers, badged in file discussions
+  creatorId?: string;
+  maintainerIds?: string[];
   className?: string;
 }
 
@@ -194,6 +393,9 @@ export interface ReviewFormProps {
     rating: number;
     comment: string;
     budget?: string;
+    budget_min?: number | null;
+    budget_max?: number | null;
+    budget_currency?: BudgetCurrency | null;
     is_anonymous: boolean;
   } | null;
 }
@@ -304,4 +506,81 @@ export interface FormError {
 export interface ValidationError {
   errors: FormError[];
   isValid: boolean;
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// 3D VIEWER TYPES
+// ============================================================================
+
+export type ViewerJointType =
+  | 'revolute'
+  | 'continuous'
+  | 'prismatic'
+  | 'fixed'
+  | 'floating'
+  | 'planar';
+
+export interface ViewerJoint {
+  name: string;
+  type: ViewerJointType;
+  lower: number;
+  upper: number;
+  initial: number;
+  setValue: (value: number) => void;
+}
+
+export interface LoadedRobotModel {
+  name: string;
+  object: import('three').Object3D;
+  joints: ViewerJoint[];
+  // URDF and MJCF are Z-up, three.js is Y-up
+  upAxis: 'y' | 'z';
+}
+
+// ============================================================================
+// FILE ANALYSIS TYPES
+// ============================================================================
+
+export type FileAnalysisStatus = 'valid' | 'warnings' | 'invalid';
+
+export type FileIssueCode =
+  | 'parse_error'
+  | 'missing_inertial'
+  | 'zero_mass'
+  | 'duplicate_link'
+  | 'broken_chain'
+  | 'unresolved_mesh';
+
+export interface FileAnalysisIssue {
+  severity: 'error' | 'warning';
+  code: FileIssueCode;
+  message: string;
+  // Link, joint or mesh the issue is about
+  target?: string;
+}
+
+export interface ModelJointMetadata {
+  name: string;
+  type: string;
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface RobotModelMetadata {
+  format: 'urdf' | 'mjcf';
+  robotName: string;
+  dof: number;
+  joints: ModelJointMetadata[];
+  linkCount: number;
+  // null when no link declares a mass
+  totalMass: number | null;
+  meshPaths: string[];
+}
+
+export interface RobotFileAnalysis {
+  file_id: string;
+  status: FileAnalysisStatus;
+  metadata: RobotModelMetadata | null;
+  issues: FileAnalysisIssue[];
+  analyzed_at: string;
+}
@@ -0,0 +1,129 @@
+/**
+ * URDF parser
+ * Reads links, joints and mesh references into plain objects. No three.js
+ * dependency, so it runs both in the browser and in API routes.
+ */
+
+import {
+  childElement,
+  childElements,
+  descendantElements,
+  parseNumberList,
+  parseXml,
+  type XmlElement,
+} from './xml';
+
+export type UrdfJointType = 'revolute' | 'continuous' | 'prismatic' | 'fixed' | 'floating' | 'planar';
+
+export interface UrdfLink {
+  name: string;
+  hasInertial: boolean;
+  mass: number | null;
+  hasGeometry: boolean;
+  // Mesh filenames from visual and collision elements, as written in the file
+  meshes: string[];
+}
+
+export interface UrdfJoint {
+  name: string;
+  type: UrdfJointType;
+  parent: string | null;
+  child: string | null;
+  axis: [number, number, number];
+  limit: {
+    lower: number | null;
+    upper: number | null;
+    effort: number | null;
+    velocity: number | null;
+  } | null;
+  mimic: string | null;
+}
+
+export interface UrdfModel {
+  name: string;
+  links: UrdfLink[];
+  joints: UrdfJoint[];
+}
+
+const JOINT_TYPES: UrdfJointType[] = ['revolute', 'continuous', 'prismatic', 'fixed', 'floating', 'planar'];
+
+const optionalNumber = (value: string | undefined) => {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Guess the root of a ROS package from the URDF location.
+ * `https://.../my_robot/urdf/robot.urdf` resolves `package://my_robot/...`
+ * to `https://.../my_robot`. Falls back to the parent of the URDF folder.
+ */
+export function guessPackageRoot(urdfUrl: string, packageName: string): string {
+  const base = urdfUrl.slice(0, urdfUrl.lastIndexOf('/'));
+  const marker = `/${packageName}/`;
+  const index = urdfUrl.indexOf(marker);
+
+  if (index !== -1) {
+    return urdfUrl.slice(0, index + marker.length - 1);
+  }
+
+  return base.slice(0, base.lastIndexOf('/'));
+}
+
+/**
+ * Parse a URDF document
+ */
+export function parseUrdf(source: string): UrdfModel {
+  const root = parseXml(source);
+  if (root.name !== 'robot') {
+    throw new Error(`Not a URDF file: root element is <${root.name}>`);
+  }
+
+  const links = childElements(root, 'link').map((link): UrdfLink => {
+    const inertial = childElement(link, 'inertial');
+    const massElement = inertial && childElement(inertial, 'mass');
+    const geometries = [...childElements(link, 'visual'), ...childElements(link, 'collision')]
+      .map((element) => childElement(element, 'geometry'))
+      .filter((geometry): geometry is XmlElement => geometry !== undefined);
+
+    return {
+      name: link.attributes.name || '',
+      hasInertial: inertial !== undefined,
+      mass: optionalNumber(massElement?.attributes.value),
+      hasGeometry: geometries.length > 0,
+      meshes: geometries
+        .flatMap((geometry) => descendantElements(geometry, 'mesh'))
+        .map((mesh) => mesh.attributes.filename)
+        .filter((filename): filename is string => !!filename),
+    };
+  });
+
+  const joints = childElements(root, 'joint').map((joint): UrdfJoint => {
+    const type = joint.attributes.type as UrdfJointType;
+    const limit = childElement(joint, 'limit');
+    const axis = parseNumberList(childElement(joint, 'axis')?.attributes.xyz);
+
+    return {
+      name: joint.attributes.name || '',
+      type: JOINT_TYPES.includes(type) ? type : 'fixed',
+      parent: childElement(joint, 'parent')?.attributes.link || null,
+      child: childElement(joint, 'child')?.attributes.link || null,
+      axis: axis.length === 3 ? (axis as [number, number, number]) : [1, 0, 0],
+      limit: limit
+        ? {
+            lower: optionalNumber(limit.attributes.lower),
+            upper: optionalNumber(limit.attributes.upper),
+            effort: optionalNumber(limit.attributes.effort),
+            velocity: optionalNumber(limit.attributes.velocity),
+          }
+        : null,
+      mimic: childElement(joint, 'mimic')?.attributes.joint || null,
+    };
+  });
+
+  return {
+    name: root.attributes.name || 'URDF Robot',
+    links,
+    joints,
+  };
+}
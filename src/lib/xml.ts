@@ -0,0 +1,164 @@
+/**
+ * Minimal XML parser
+ * DOMParser is not available in API routes, so robot description files
+ * (URDF, MJCF, package.xml) are parsed with this instead. It handles
+ * elements, attributes, text, comments, CDATA and processing instructions,
+ * which is everything those formats use.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position);
+    const current = stack[stack.length - 1];
+
+    if (tagStart === -1) {
+      current.text += decodeEntities(source.slice(position));
+      break;
+    }
+
+    if (tagStart > position) {
+      current.text += decodeEntities(source.slice(position, tagStart));
+    }
+
+    if (source.startsWith('<!--', tagStart)) {
+      const end = source.indexOf('-->', tagStart + 4);
+      if (end === -1) throw new Error('Invalid XML: unterminated comment');
+      position = end + 3;
+      continue;
+    }
+
+    if (source.startsWith('<![CDATA[', tagStart)) {
+      const end = source.indexOf(']]>', tagStart + 9);
+      if (end === -1) throw new Error('Invalid XML: unterminated CDATA section');
+      current.text += source.slice(tagStart + 9, end);
+      position = end + 3;
+      continue;
+    }
+
+    if (source.startsWith('<?', tagStart) || source.startsWith('<!', tagStart)) {
+      const end = source.indexOf('>', tagStart);
+      if (end === -1) throw new Error('Invalid XML: unterminated declaration');
+      position = end + 1;
+      continue;
+    }
+
+    const tagEnd = source.indexOf('>', tagStart);
+    if (tagEnd === -1) throw new Error('Invalid XML: unterminated tag');
+    const tag = source.slice(tagStart + 1, tagEnd);
+    position = tagEnd + 1;
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      if (current.name !== name) {
+        throw new Error(`Invalid XML: expected </${current.name}> but found </${name}>`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = body.match(/^\s*([^\s/>]+)/);
+    if (!nameMatch) throw new Error('Invalid XML: missing tag name');
+
+    const element: XmlElement = {
+      name: nameMatch[1],
+      attributes: parseAttributes(body.slice(nameMatch[0].length)),
+      children: [],
+      text: '',
+    };
+    current.children.push(element);
+
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Invalid XML: unclosed <${stack[stack.length - 1].name}>`);
+  }
+
+  const documentElement = root.children[0];
+  if (!documentElement) {
+    throw new Error('Invalid XML: no root element');
+  }
+  return documentElement;
+}
+
+/**
+ * Get the direct children of an element with the given tag name
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/**
+ * Get the first direct child of an element with the given tag name
+ */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
+
+/**
+ * Get every descendant of an element with the given tag name
+ */
+export function descendantElements(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) found.push(child);
+    found.push(...descendantElements(child, name));
+  }
+  return found;
+}
+
+/**
+ * Parse a whitespace separated list of numbers ("0 0.1 0.2")
+ */
+export function parseNumberList(value: string | undefined): number[] {
+  if (!value || !value.trim()) return [];
+  return value.trim().split(/\s+/).map(Number);
+}